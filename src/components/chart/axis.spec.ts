@@ -0,0 +1,86 @@
+import {
+    calculateAxisRange,
+    calculateIncrement,
+    getAxisPosition,
+    getAxisValues,
+} from './axis';
+
+describe('calculateIncrement', () => {
+    it('returns a rounded increment for about ten steps', () => {
+        expect(calculateIncrement(100)).toEqual(10);
+        expect(calculateIncrement(87)).toEqual(9);
+        expect(calculateIncrement(1200)).toEqual(200);
+    });
+
+    it('returns an increment for the given number of steps', () => {
+        expect(calculateIncrement(100, 4)).toEqual(30);
+    });
+
+    it('returns an increment when the largest value is not positive', () => {
+        expect(calculateIncrement(-100)).toEqual(10);
+        expect(calculateIncrement(0)).toEqual(0.1);
+    });
+});
+
+describe('calculateAxisRange', () => {
+    it('includes zero and all values, rounded to whole increments', () => {
+        expect(calculateAxisRange([12, 45, 120])).toEqual({
+            minValue: 0,
+            maxValue: 120,
+            totalRange: 120,
+            increment: 20,
+        });
+    });
+
+    it('includes negative values', () => {
+        expect(calculateAxisRange([-15, 40], 10)).toEqual({
+            minValue: -20,
+            maxValue: 40,
+            totalRange: 60,
+            increment: 10,
+        });
+    });
+
+    it('includes zero when all values are negative', () => {
+        expect(calculateAxisRange([-120, -45, -12])).toEqual({
+            minValue: -120,
+            maxValue: 0,
+            totalRange: 120,
+            increment: 20,
+        });
+    });
+
+    it('has a range when all values are zero', () => {
+        expect(calculateAxisRange([0, 0])).toEqual({
+            minValue: 0,
+            maxValue: 0.1,
+            totalRange: 0.1,
+            increment: 0.1,
+        });
+    });
+});
+
+describe('getAxisValues', () => {
+    it('returns the value of each axis line', () => {
+        const range = { minValue: -20, maxValue: 40, totalRange: 60 };
+
+        expect(getAxisValues(range, 20)).toEqual([-20, 0, 20, 40]);
+    });
+
+    it('returns no values when the increment is not positive', () => {
+        const range = { minValue: 0, maxValue: 40, totalRange: 40 };
+
+        expect(getAxisValues(range, 0)).toEqual([]);
+        expect(getAxisValues(range, Number.NaN)).toEqual([]);
+    });
+});
+
+describe('getAxisPosition', () => {
+    it('returns the position of the value as a percentage of the range', () => {
+        const range = { minValue: -20, maxValue: 60, totalRange: 80 };
+
+        expect(getAxisPosition(-20, range)).toEqual(0);
+        expect(getAxisPosition(0, range)).toEqual(25);
+        expect(getAxisPosition(60, range)).toEqual(100);
+    });
+});
@@ -0,0 +1,98 @@
+const DEFAULT_INCREMENT_SIZE = 10;
+
+/**
+ * The range of values covered by an axis of the chart
+ */
+export interface AxisRange {
+    minValue: number;
+    maxValue: number;
+    totalRange: number;
+}
+
+/**
+ * Calculate a rounded increment between the lines of an axis, that splits
+ * the values into roughly the given number of steps
+ *
+ * @param maxValue - the largest value on the axis. When it is not positive,
+ * its absolute value is used instead, or `1` if it is zero
+ * @param steps - the number of steps to split the values into
+ * @returns the increment between the axis lines
+ */
+export function calculateIncrement(
+    maxValue: number,
+    steps: number = DEFAULT_INCREMENT_SIZE
+): number {
+    const extent = maxValue > 0 ? maxValue : Math.abs(maxValue) || 1;
+    const roughStep = extent / steps;
+    const magnitude = 10 ** Math.floor(Math.log10(roughStep));
+
+    return Math.ceil(roughStep / magnitude) * magnitude;
+}
+
+/**
+ * Calculate the range of an axis that includes zero and all given values,
+ * rounded to whole increments
+ *
+ * @param values - the values on the axis
+ * @param increment - the increment between the axis lines. Calculated from
+ * the values when not given
+ * @returns the range of the axis
+ */
+export function calculateAxisRange(
+    values: number[],
+    increment?: number
+): AxisRange & { increment: number } {
+    const lowestValue = Math.min(0, ...values);
+    const highestValue = Math.max(0, ...values);
+    const finalIncrement =
+        increment || calculateIncrement(Math.max(highestValue, -lowestValue));
+    const minValue = Math.floor(lowestValue / finalIncrement) * finalIncrement;
+    // Keep at least one increment, so that the range is never empty
+    const maxValue = Math.max(
+        Math.ceil(highestValue / finalIncrement) * finalIncrement,
+        minValue + finalIncrement
+    );
+
+    return {
+        minValue: minValue,
+        maxValue: maxValue,
+        totalRange: maxValue - minValue,
+        increment: finalIncrement,
+    };
+}
+
+/**
+ * Get the values of the lines of an axis
+ *
+ * @param range - the range of the axis
+ * @param increment - the increment between the axis lines
+ * @returns the value of each line, from the lowest to the highest
+ */
+export function getAxisValues(range: AxisRange, increment: number): number[] {
+    const values: number[] = [];
+    if (Number.isNaN(increment) || increment <= 0) {
+        return values;
+    }
+
+    const minValue = Math.floor(range.minValue / increment) * increment;
+    const maxValue = Math.ceil(range.maxValue / increment) * increment;
+
+    for (let value = minValue; value <= maxValue; value += increment) {
+        values.push(value);
+    }
+
+    return values;
+}
+
+/**
+ * Get the position of a value on an axis, as a percentage of its range
+ *
+ * @param value - the value
+ * @param range - the range of the axis
+ * @returns the position of the value
+ */
+export function getAxisPosition(value: number, range: AxisRange): number {
+    const PERCENT = 100;
+
+    return ((value - range.minValue) / range.totalRange) * PERCENT;
+}
@@ -0,0 +1,149 @@
+import { h } from '@stencil/core';
+import { newSpecPage } from '@stencil/core/testing';
+import { Chart } from './chart';
+
+describe('limel-chart', () => {
+    describe('exportSvg', () => {
+        it('renders the chart as an SVG image', async () => {
+            const page = await newSpecPage({
+                components: [Chart],
+                template: () => (
+                    <limel-chart
+                        type="bar"
+                        accessibleLabel="Sales"
+                        items={[
+                            { text: 'Jan', value: 10, color: 'red' },
+                            { text: 'Feb', value: 20, color: 'blue' },
+                        ]}
+                    />
+                ),
+            });
+            const chart = page.body.querySelector('limel-chart');
+
+            const svg = await chart.exportSvg({ width: 320, height: 200 });
+
+            expect(svg).toContain('width="320" height="200"');
+            expect(svg).toContain('<title>Sales</title>');
+            expect(svg).toContain('>Jan</text>');
+            expect(svg).toContain('fill="red"');
+            expect(svg).toContain('fill="blue"');
+        });
+    });
+
+    describe('exportPng', () => {
+        it('draws the SVG image on a canvas of the scaled size', async () => {
+            const page = await newSpecPage({
+                components: [Chart],
+                template: () => (
+                    <limel-chart
+                        type="bar"
+                        items={[{ text: 'Jan', value: 10, color: 'red' }]}
+                    />
+                ),
+            });
+            const chart = page.body.querySelector('limel-chart');
+            const png = { type: 'image/png' } as Blob;
+            const drawImage = jest.fn();
+            const loadImage = jest.fn(async (src: string) => ({ src }) as any);
+            const createCanvas = jest.fn(() => ({
+                getContext: () => ({ scale: jest.fn(), drawImage: drawImage }),
+                toBlob: (callback: (blob: Blob) => void) => callback(png),
+            }));
+            page.rootInstance.imageRenderer = {
+                loadImage: loadImage,
+                createCanvas: createCanvas,
+            };
+
+            const blob = await chart.exportPng({
+                width: 320,
+                height: 200,
+                scale: 3,
+            });
+
+            expect(blob).toBe(png);
+            expect(createCanvas).toHaveBeenCalledWith(960, 600);
+            expect(decodeURIComponent(loadImage.mock.calls[0][0])).toContain(
+                'width="320" height="200"'
+            );
+            expect(drawImage).toHaveBeenCalledWith(
+                expect.anything(),
+                0,
+                0,
+                320,
+                200
+            );
+        });
+    });
+
+    describe('references', () => {
+        it('grows the range of the chart to include the references', async () => {
+            const page = await newSpecPage({
+                components: [Chart],
+                template: () => (
+                    <limel-chart
+                        type="bar"
+                        maxValue={50}
+                        items={[
+                            { text: 'Jan', value: 10 },
+                            { text: 'Feb', value: 50 },
+                        ]}
+                        references={[
+                            { value: 120, label: 'Target' },
+                            { value: [0, 30], label: 'Limit' },
+                        ]}
+                    />
+                ),
+            });
+            const references = page.root.shadowRoot.querySelectorAll(
+                '.reference'
+            ) as NodeListOf<HTMLElement>;
+
+            expect(references).toHaveLength(2);
+            expect(
+                references[0].style.getPropertyValue(
+                    '--limel-chart-reference-offset'
+                )
+            ).toEqual('100');
+            expect(
+                references[1].style.getPropertyValue(
+                    '--limel-chart-reference-size'
+                )
+            ).toEqual('25');
+            expect(references[1]).toHaveClass('is-band');
+        });
+    });
+
+    describe('legend', () => {
+        it('fits the axis to the series that are left when one is hidden', async () => {
+            const page = await newSpecPage({
+                components: [Chart],
+                template: () => (
+                    <limel-chart
+                        type="bar"
+                        series={[
+                            {
+                                text: 'Big',
+                                items: [{ text: 'Jan', value: 1000 }],
+                            },
+                            {
+                                text: 'Small',
+                                items: [{ text: 'Jan', value: 10 }],
+                            },
+                        ]}
+                    />
+                ),
+            });
+            const chart = page.root as HTMLLimelChartElement;
+            expect(page.rootInstance.range.maxValue).toEqual(1000);
+
+            const legendItem = chart.shadowRoot.querySelector(
+                '.legend-item[data-series="Big"]'
+            ) as HTMLElement;
+            legendItem.click();
+            await page.waitForChanges();
+
+            expect(page.rootInstance.range.maxValue).toEqual(10);
+            expect(chart.axisIncrement).toBeUndefined();
+        });
+    });
+});
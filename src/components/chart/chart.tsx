@@ -1,11 +1,83 @@
-import { Component, Event, EventEmitter, h, Prop, Watch } from '@stencil/core';
+import {
+    Component,
+    Element,
+    Event,
+    EventEmitter,
+    h,
+    Host,
+    Method,
+    Prop,
+    State,
+    Watch,
+} from '@stencil/core';
 import { Languages } from '../date-picker/date.types';
 import translate from '../../global/translations';
 import { createRandomString } from '../../util/random-string';
-import { ChartItem } from './chart.types';
+import {
+    ChartExportOptions,
+    ChartItem,
+    ChartReference,
+    ChartSeries,
+} from './chart.types';
+import { getTime, getTimeTicks } from './time-axis';
+import { findNearestIndex } from './crosshair';
+import {
+    ChartImage,
+    ChartImageMark,
+    ChartImageReference,
+    ChartImageTick,
+    browserImageRenderer,
+    createChartSvg,
+    createPng,
+    ImageRenderer,
+} from './export';
+import {
+    AxisRange,
+    calculateAxisRange,
+    calculateIncrement,
+    getAxisPosition,
+    getAxisValues,
+} from './axis';
+import {
+    findSeriesItem,
+    getCategories,
+    getStackedTotals,
+    getStackedValue,
+    SERIES_CHART_TYPES,
+} from './series';
 
 const PERCENT = 100;
-const DEFAULT_INCREMENT_SIZE = 10;
+const TIME_AXIS_CHART_TYPES = new Set(['line', 'area', 'dot']);
+const CROSSHAIR_CHART_TYPES = new Set(['line', 'area']);
+const REFERENCE_CHART_TYPES = new Set(['bar', 'line', 'area', 'stacked-bar']);
+const CATEGORY_AXIS_CHART_TYPES = new Set(['bar', 'dot', 'area', 'line']);
+const LEGEND_CHART_TYPES = new Set([
+    'pie',
+    'doughnut',
+    'ring',
+    'funnel',
+    'stacked-bar',
+]);
+const DEFAULT_ITEM_COLOR =
+    'var(--chart-item-color, rgb(var(--contrast-1100), 0.8))';
+const FALLBACK_COLOR = 'rgb(89, 89, 89)';
+const NPS_GAUGE_COLORS = [
+    'rgb(var(--color-coral-default))',
+    'rgb(var(--color-amber-light))',
+    'rgb(var(--color-lime-light))',
+    'rgb(var(--color-lime-default))',
+];
+const DEFAULT_EXPORT_SIZE = { width: 640, height: 400 };
+const DEFAULT_EXPORT_SCALE = 2;
+const DEFAULT_HEATMAP_CELLS_PER_COLUMN = 7;
+const AXIS_CHART_TYPES = new Set([
+    'bar',
+    'dot',
+    'area',
+    'line',
+    'scatter',
+    'bubble',
+]);
 
 /**
  * A chart is a graphical representation of data, in which
@@ -13,6 +85,7 @@ const DEFAULT_INCREMENT_SIZE = 10;
  * each data point, in comparison to others.
  *
  * @exampleComponent limel-example-chart-stacked-bar
+ * @exampleComponent limel-example-chart-series
  * @exampleComponent limel-example-chart-orientation
  * @exampleComponent limel-example-chart-max-value
  * @exampleComponent limel-example-chart-type-bar
@@ -24,10 +97,18 @@ const DEFAULT_INCREMENT_SIZE = 10;
  * @exampleComponent limel-example-chart-type-ring
  * @exampleComponent limel-example-chart-type-gantt
  * @exampleComponent limel-example-chart-type-nps
+ * @exampleComponent limel-example-chart-type-funnel
+ * @exampleComponent limel-example-chart-type-scatter
+ * @exampleComponent limel-example-chart-type-bubble
+ * @exampleComponent limel-example-chart-type-heatmap
  * @exampleComponent limel-example-chart-multi-axis
  * @exampleComponent limel-example-chart-multi-axis-with-negative-start-values
  * @exampleComponent limel-example-chart-multi-axis-area-with-negative-start-values
+ * @exampleComponent limel-example-chart-time-axis
+ * @exampleComponent limel-example-chart-crosshair-and-table
+ * @exampleComponent limel-example-chart-export
  * @exampleComponent limel-example-chart-axis-increment
+ * @exampleComponent limel-example-chart-references
  * @exampleComponent limel-example-chart-clickable-items
  * @exampleComponent limel-example-chart-accessibility
  * @exampleComponent limel-example-chart-axis-labels
@@ -45,6 +126,7 @@ export class Chart {
     /**
      * Defines the language for translations.
      * Will translate the translatable strings on the components.
+     * Also defines the format of the dates on a time axis.
      */
     @Prop({ reflect: true })
     public language: Languages = 'en';
@@ -103,26 +185,52 @@ export class Chart {
      * each representing a data point.
      */
     @Prop()
-    public items!: ChartItem[];
+    public items?: ChartItem[];
+
+    /**
+     * List of named series in the chart, which share the same category axis.
+     * Each series is visualized in its own color, and a legend is displayed,
+     * where users can toggle each series on and off.
+     *
+     * When set, `items` are not used.
+     * Only affects `area`, `bar`, `line` and `stacked-bar` charts.
+     */
+    @Prop()
+    public series?: ChartSeries[];
 
     /**
      * Defines how items are visualized in the chart.
+     *
+     * - `scatter` and `bubble` charts place each item by its `x` and `value`.
+     * In a `bubble` chart, the area of each item is given by its `size`.
+     * - `heatmap` charts display items as cells in a grid, filled one column
+     * at a time, where the intensity of each cell represents its value.
+     * With the default of seven rows, each column is a week,
+     * when each item represents a day.
+     * - `funnel` charts display items as stages that narrow down
+     * from the first item to the last.
      */
     @Prop({ reflect: true })
     public type?:
         | 'area'
         | 'bar'
+        | 'bubble'
         | 'doughnut'
+        | 'funnel'
+        | 'heatmap'
         | 'line'
         | 'nps'
         | 'pie'
         | 'ring'
         | 'dot'
+        | 'scatter'
         | 'stacked-bar' = 'stacked-bar';
 
     /**
      * Defines whether the chart is intended to be displayed wide or tall.
      * Does not have any effect on chart types which generate circular forms.
+     * In `scatter` and `bubble` charts, the `x` axis is vertical
+     * when the orientation is `portrait`.
      */
     @Prop({ reflect: true })
     public orientation?: 'landscape' | 'portrait' = 'landscape';
@@ -141,18 +249,73 @@ export class Chart {
     @Prop({ reflect: true })
     public axisIncrement?: number;
 
+    /**
+     * Reference lines, such as targets or limits, and shaded bands
+     * between two values, drawn across the chart.
+     * The range of the chart grows to include all references,
+     * even when `maxValue` is set.
+     *
+     * Only affects `area`, `bar`, `line` and `stacked-bar` charts.
+     */
+    @Prop()
+    public references?: ChartReference[];
+
+    /**
+     * When set to `true`, a button is displayed that lets users switch
+     * between the chart and a table of the same data.
+     * The table is often easier to use for keyboard and screen reader users,
+     * and makes it possible to read out the exact values.
+     */
+    @Prop({ reflect: true })
+    public displayTableToggle = false;
+
     /**
      * Indicates whether the chart is in a loading state.
      */
     @Prop({ reflect: true })
     public loading: boolean = false;
 
+    /**
+     * Names of the series that have been toggled off in the legend
+     */
+    @State()
+    private hiddenSeries: string[] = [];
+
+    /**
+     * `true` when the data is displayed as a table instead of a chart
+     */
+    @State()
+    private showTable = false;
+
+    /**
+     * Index of the item, or category, that the crosshair is placed at
+     */
+    @State()
+    private crosshairIndex = -1;
+
+    @Element()
+    private host: HTMLLimelChartElement;
+
+    private readonly chartId = createRandomString();
+
     private range: {
         minValue: number;
         maxValue: number;
         totalRange: number;
     };
 
+    /**
+     * The increment between the axis lines, which is `axisIncrement`
+     * when it is set, and otherwise calculated from the visible values
+     */
+    private increment: number;
+
+    private xRange: AxisRange & { increment: number };
+
+    private maxBubbleSize: number;
+
+    private imageRenderer: ImageRenderer = browserImageRenderer;
+
     /**
      * Fired when a chart item with `clickable` set to `true` is clicked
      */
@@ -163,28 +326,248 @@ export class Chart {
         this.recalculateRangeData();
     }
 
+    /**
+     * Renders the chart, including its colors, axis labels and legend,
+     * as a standalone SVG image. This makes it possible to use the chart
+     * outside of the app, for instance in presentations or emails.
+     *
+     * @param options - options for the export
+     * @returns the SVG image, as a string
+     */
+    @Method()
+    public async exportSvg(options: ChartExportOptions = {}): Promise<string> {
+        return createChartSvg(this.getChartImage(options));
+    }
+
+    /**
+     * Renders the chart as a PNG image, by drawing the image from
+     * `exportSvg` on a canvas.
+     *
+     * @param options - options for the export
+     * @returns the PNG image
+     */
+    @Method()
+    public async exportPng(options: ChartExportOptions = {}): Promise<Blob> {
+        const image = this.getChartImage(options);
+
+        return createPng(
+            createChartSvg(image),
+            image.width,
+            image.height,
+            options.scale ?? DEFAULT_EXPORT_SCALE,
+            this.imageRenderer
+        );
+    }
+
     public render() {
         if (this.loading) {
             return <limel-spinner limeBranded={false} />;
         }
 
+        const hasSeries = this.hasSeries();
+        const numberOfItems = hasSeries
+            ? getCategories(this.series).length
+            : (this.items?.length ?? 0);
+
+        return (
+            <Host
+                class={{
+                    'has-series': hasSeries,
+                    'has-time-axis': this.hasTimeAxis(),
+                    'has-table-toggle': this.displayTableToggle,
+                }}
+            >
+                {this.renderTableToggle()}
+                {this.showTable ? (
+                    this.renderDataTable()
+                ) : (
+                    <table
+                        aria-busy={this.loading ? 'true' : 'false'}
+                        aria-live="polite"
+                        style={{
+                            '--limel-chart-number-of-items':
+                                numberOfItems.toString(),
+                        }}
+                    >
+                        {this.renderCaption()}
+                        {this.renderTableHeader()}
+                        {this.renderAxises()}
+                        {this.renderReferences()}
+                        {this.renderCrosshair()}
+                        <tbody
+                            class="chart"
+                            onPointerMove={this.handlePointerMove}
+                            onPointerLeave={this.clearCrosshair}
+                            onFocusin={this.handleFocusIn}
+                            onFocusout={this.clearCrosshair}
+                        >
+                            {hasSeries
+                                ? this.renderCategories()
+                                : this.renderItems()}
+                        </tbody>
+                    </table>
+                )}
+                {this.renderLegend()}
+            </Host>
+        );
+    }
+
+    private renderTableToggle() {
+        if (!this.displayTableToggle) {
+            return;
+        }
+
+        return (
+            <limel-icon-button
+                class="table-toggle"
+                icon={this.showTable ? 'combo_chart' : 'insert_table'}
+                label={translate.get(
+                    this.showTable
+                        ? 'chart.view-as-chart'
+                        : 'chart.view-as-table',
+                    this.language
+                )}
+                onClick={this.handleTableToggleClick}
+            />
+        );
+    }
+
+    private renderDataTable() {
+        const hasSeries = this.hasSeries();
+        const series = hasSeries ? this.getVisibleSeries() : [];
+        const columns = hasSeries
+            ? series.map((item) => item.text)
+            : [this.getValuesLabel()];
+        const rows = hasSeries
+            ? getCategories(this.series).map((category) => ({
+                  text: category,
+                  values: series.map((item) => {
+                      const seriesItem = findSeriesItem(item, category);
+
+                      return seriesItem
+                          ? this.getFormattedValue(seriesItem)
+                          : '';
+                  }),
+              }))
+            : (this.items ?? []).map((item) => ({
+                  text: item.text,
+                  values: [this.getFormattedValue(item)],
+              }));
+
+        return (
+            <div class="data-table-container">
+                <table class="data-table">
+                    {this.renderCaption()}
+                    <thead>
+                        <tr>
+                            <th scope="col">{this.getItemsLabel()}</th>
+                            {columns.map((column) => (
+                                <th scope="col">{column}</th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map((row) => (
+                            <tr>
+                                <th scope="row">{row.text}</th>
+                                {row.values.map((value) => (
+                                    <td>{value}</td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        );
+    }
+
+    private renderCrosshair() {
+        if (!this.hasCrosshair() || this.crosshairIndex === -1) {
+            return;
+        }
+
+        const index = this.crosshairIndex;
+        const position = this.getCrosshairPositions()[index];
+        const entries = this.hasSeries()
+            ? this.getCrosshairSeriesEntries(index)
+            : [{ text: null, item: this.items[index], color: null }];
+        if (!entries[0]?.item) {
+            return;
+        }
+
+        const title = entries[0].item.text;
+
         return (
-            <table
-                aria-busy={this.loading ? 'true' : 'false'}
-                aria-live="polite"
-                style={{
-                    '--limel-chart-number-of-items':
-                        this.items.length.toString(),
+            <div
+                class={{
+                    crosshair: true,
+                    'is-flipped': position > PERCENT / 2,
                 }}
+                style={{ '--limel-chart-crosshair-position': `${position}` }}
+                aria-hidden="true"
             >
-                {this.renderCaption()}
-                {this.renderTableHeader()}
-                {this.renderAxises()}
-                <tbody class="chart">{this.renderItems()}</tbody>
-            </table>
+                <div class="crosshair-label">
+                    <span class="crosshair-title">{title}</span>
+                    {entries.map((entry) => this.renderCrosshairEntry(entry))}
+                </div>
+            </div>
         );
     }
 
+    private renderCrosshairEntry(entry: {
+        text: string;
+        item: ChartItem;
+        color: string;
+    }) {
+        const style: Record<string, string> = {};
+        const color = entry.item.color ?? entry.color;
+        if (color) {
+            style['--limel-chart-item-color'] = color;
+        }
+
+        return (
+            <span class="crosshair-entry" style={style}>
+                <span class="legend-color" />
+                {entry.text ? `${entry.text}: ` : ''}
+                {this.getFormattedValue(entry.item)}
+            </span>
+        );
+    }
+
+    private getCrosshairSeriesEntries(index: number) {
+        const category = getCategories(this.series)[index];
+
+        return this.getVisibleSeries()
+            .map((series) => ({
+                text: series.text,
+                item: findSeriesItem(series, category),
+                color: series.color,
+            }))
+            .filter((entry) => !!entry.item);
+    }
+
+    private getCrosshairPositions(): number[] {
+        if (this.hasTimeAxis()) {
+            return this.items.map((item) =>
+                getAxisPosition(getTime(item.x), this.xRange)
+            );
+        }
+
+        const count = this.hasSeries()
+            ? getCategories(this.series).length
+            : (this.items?.length ?? 0);
+
+        // Each point is drawn at the start of the column of its item
+        return Array.from(
+            { length: count },
+            (_, index) => (index / count) * PERCENT
+        );
+    }
+
+    private hasCrosshair(): boolean {
+        return CROSSHAIR_CHART_TYPES.has(this.type);
+    }
+
     private renderCaption() {
         if (!this.accessibleLabel) {
             return;
@@ -193,56 +576,200 @@ export class Chart {
         return <caption>{this.accessibleLabel}</caption>;
     }
 
+    private getItemsLabel(): string {
+        return (
+            this.accessibleItemsLabel ?? translate.get('items', this.language)
+        );
+    }
+
+    private getValuesLabel(): string {
+        return (
+            this.accessibleValuesLabel ?? translate.get('value', this.language)
+        );
+    }
+
     private renderTableHeader() {
+        const itemsLabel = this.getItemsLabel();
+        const valuesLabel = this.getValuesLabel();
+
+        if (this.hasSeries()) {
+            const series = this.getVisibleSeries();
+
+            return (
+                <thead>
+                    <tr>
+                        <th scope="col">{itemsLabel}</th>
+                        <th scope="colgroup" colSpan={series.length}>
+                            {valuesLabel}
+                        </th>
+                    </tr>
+                    <tr class="series">
+                        <td />
+                        {series.map((item) => (
+                            <th scope="col" key={item.text}>
+                                {item.text}
+                            </th>
+                        ))}
+                    </tr>
+                </thead>
+            );
+        }
+
         return (
             <thead>
                 <tr>
-                    <th scope="col">
-                        {this.accessibleItemsLabel ??
-                            translate.get('items', this.language)}
-                    </th>
-                    <th scope="col">
-                        {this.accessibleValuesLabel ??
-                            translate.get('value', this.language)}
-                    </th>
+                    <th scope="col">{itemsLabel}</th>
+                    <th scope="col">{valuesLabel}</th>
                 </tr>
             </thead>
         );
     }
 
-    private renderAxises() {
-        if (!['bar', 'dot', 'area', 'line'].includes(this.type)) {
+    private renderReferences() {
+        const references = this.getReferences();
+        if (references.length === 0) {
             return;
         }
 
-        const { minValue, maxValue } = this.range;
-        const lines = [];
-        const adjustedMinRange =
-            Math.floor(minValue / this.axisIncrement) * this.axisIncrement;
-        const adjustedMaxRange =
-            Math.ceil(maxValue / this.axisIncrement) * this.axisIncrement;
+        return (
+            <div
+                class={{
+                    references: true,
+                    'is-horizontal': this.hasVerticalValueAxis(),
+                    'is-vertical': !this.hasVerticalValueAxis(),
+                }}
+                role="presentation"
+            >
+                {references.map((reference) => {
+                    const { offset, size } =
+                        this.getReferencePosition(reference);
+                    const style: Record<string, string> = {
+                        '--limel-chart-reference-offset': `${offset}`,
+                        '--limel-chart-reference-size': `${size}`,
+                    };
+                    if (reference.color) {
+                        style['--limel-chart-reference-color'] =
+                            reference.color;
+                    }
+
+                    return (
+                        <div
+                            class={{
+                                reference: true,
+                                'is-band': Array.isArray(reference.value),
+                            }}
+                            style={style}
+                        >
+                            <span class="reference-label">
+                                {reference.label}
+                            </span>
+                        </div>
+                    );
+                })}
+            </div>
+        );
+    }
 
-        for (
-            let value = adjustedMinRange;
-            value <= adjustedMaxRange;
-            value += this.axisIncrement
-        ) {
-            lines.push(
-                <div
-                    class={{
-                        'axis-line': true,
-                        'zero-line': value === 0,
-                    }}
-                    role="presentation"
-                >
-                    <limel-badge label={value} />
-                </div>
+    private getReferences(): ChartReference[] {
+        if (!REFERENCE_CHART_TYPES.has(this.type)) {
+            return [];
+        }
+
+        return this.references ?? [];
+    }
+
+    private getReferencePosition(reference: ChartReference) {
+        const value = reference.value;
+        const start = Array.isArray(value) ? Math.min(...value) : value;
+        const end = Array.isArray(value) ? Math.max(...value) : value;
+        const offset = getAxisPosition(start, this.range);
+
+        return {
+            offset: offset,
+            size: getAxisPosition(end, this.range) - offset,
+        };
+    }
+
+    /**
+     * Values grow upwards in landscape charts, except in a `stacked-bar`
+     * chart without series, where the items are stacked from left to right.
+     * In portrait, it is the other way around.
+     *
+     * @returns `true` if the values grow upwards
+     */
+    private hasVerticalValueAxis(): boolean {
+        const isSingleStack = this.type === 'stacked-bar' && !this.hasSeries();
+
+        return (this.orientation === 'landscape') !== isSingleStack;
+    }
+
+    private renderAxises() {
+        if (!AXIS_CHART_TYPES.has(this.type) && !this.hasSeries()) {
+            return;
+        }
+
+        const axises = [
+            this.renderAxis(getAxisValues(this.range, this.increment)),
+        ];
+
+        if (this.hasTimeAxis()) {
+            axises.push(this.renderTimeAxis());
+        } else if (this.xRange) {
+            axises.push(
+                this.renderAxis(
+                    getAxisValues(this.xRange, this.xRange.increment),
+                    'secondary-axis'
+                )
             );
         }
 
+        return axises;
+    }
+
+    private renderAxis(values: number[], className?: string) {
+        return (
+            <div
+                class={{ axises: true, [className]: !!className }}
+                role="presentation"
+            >
+                {values.map((value) => (
+                    <div
+                        class={{
+                            'axis-line': true,
+                            'zero-line': value === 0,
+                        }}
+                        role="presentation"
+                    >
+                        <limel-badge label={value} />
+                    </div>
+                ))}
+            </div>
+        );
+    }
+
+    private renderTimeAxis() {
+        const ticks = getTimeTicks(
+            new Date(this.xRange.minValue),
+            new Date(this.xRange.maxValue),
+            this.language
+        );
+
         return (
-            <div class="axises" role="presentation">
-                {lines}
+            <div class="axises secondary-axis time-axis" role="presentation">
+                {ticks.map((tick) => (
+                    <div
+                        class="axis-line"
+                        role="presentation"
+                        style={{
+                            '--limel-chart-axis-line-position': `${getAxisPosition(
+                                tick.value.getTime(),
+                                this.xRange
+                            )}`,
+                        }}
+                    >
+                        <limel-badge label={tick.label} />
+                    </div>
+                ))}
             </div>
         );
     }
@@ -255,7 +782,7 @@ export class Chart {
         let cumulativeOffset = 0;
 
         return this.items.map((item, index) => {
-            const itemId = createRandomString();
+            const itemId = `${this.chartId}-${index}`;
             const sizeAndOffset = this.calculateSizeAndOffset(item);
             const size = sizeAndOffset.size;
             let offset = sizeAndOffset.offset;
@@ -267,7 +794,13 @@ export class Chart {
 
             return (
                 <tr
-                    style={this.getItemStyle(item, index, size, offset)}
+                    style={this.getItemStyle(
+                        item,
+                        index,
+                        size,
+                        offset,
+                        this.items[index + 1]
+                    )}
                     class={this.getItemClass(item)}
                     key={itemId}
                     id={itemId}
@@ -285,11 +818,125 @@ export class Chart {
         });
     }
 
+    private renderCategories() {
+        const series = this.getVisibleSeries();
+        const categories = getCategories(this.series);
+
+        return categories.map((category, index) => (
+            <tr class="category" key={category}>
+                <th scope="row">{category}</th>
+                {series.map((_, seriesIndex) =>
+                    this.renderSeriesItem(
+                        series,
+                        seriesIndex,
+                        categories,
+                        index
+                    )
+                )}
+            </tr>
+        ));
+    }
+
+    private renderSeriesItem(
+        visibleSeries: ChartSeries[],
+        seriesIndex: number,
+        categories: string[],
+        index: number
+    ) {
+        const series = visibleSeries[seriesIndex];
+        const category = categories[index];
+        const item = findSeriesItem(series, category);
+        if (!item) {
+            return <td />;
+        }
+
+        const itemId = `${this.chartId}-${this.series.indexOf(series)}-${index}`;
+        const nextItem = findSeriesItem(series, categories[index + 1]);
+        const { size, offset } = this.calculateSizeAndOffset(
+            this.type === 'stacked-bar'
+                ? {
+                      ...item,
+                      value: getStackedValue(
+                          visibleSeries,
+                          seriesIndex,
+                          category
+                      ),
+                  }
+                : item
+        );
+
+        return (
+            <td
+                style={this.getItemStyle(
+                    { ...item, color: item.color ?? series.color },
+                    index,
+                    size,
+                    offset,
+                    nextItem
+                )}
+                class={{
+                    ...this.getItemClass(item),
+                    'has-no-next-item': !nextItem,
+                }}
+                key={itemId}
+                id={itemId}
+                data-series-index={this.series.indexOf(series)}
+                data-index={series.items.indexOf(item)}
+                data-category-index={index}
+                tabIndex={0}
+                role={item.clickable ? 'button' : null}
+                onClick={this.handleClick}
+                onKeyDown={this.handleKeyDown}
+            >
+                <span class="value">{this.getFormattedValue(item)}</span>
+                {this.renderTooltip(item, itemId, size, series)}
+            </td>
+        );
+    }
+
+    private renderLegend() {
+        if (!this.hasSeries()) {
+            return;
+        }
+
+        return (
+            <ul class="legend">
+                {this.series.map((series) => {
+                    const style: Record<string, string> = {};
+                    if (series.color) {
+                        style['--limel-chart-item-color'] = series.color;
+                    }
+
+                    return (
+                        <li key={series.text}>
+                            <button
+                                type="button"
+                                class="legend-item"
+                                style={style}
+                                aria-pressed={
+                                    this.hiddenSeries.includes(series.text)
+                                        ? 'false'
+                                        : 'true'
+                                }
+                                data-series={series.text}
+                                onClick={this.handleLegendClick}
+                            >
+                                <span class="legend-color" />
+                                {series.text}
+                            </button>
+                        </li>
+                    );
+                })}
+            </ul>
+        );
+    }
+
     private getItemStyle(
         item: ChartItem,
         index: number,
         size: number,
-        offset: number
+        offset: number,
+        nextItem?: ChartItem
     ): Record<string, string> {
         const style: Record<string, string> = {
             '--limel-chart-item-offset': `${offset}`,
@@ -303,10 +950,32 @@ export class Chart {
         }
 
         if (this.type === 'line' || this.type === 'area') {
-            const nextItem = this.calculateSizeAndOffset(this.items[index + 1]);
+            const next = this.calculateSizeAndOffset(nextItem);
+
+            style['--limel-chart-next-item-size'] = `${next.size}`;
+            style['--limel-chart-next-item-offset'] = `${next.offset}`;
+        }
+
+        if (this.type === 'funnel') {
+            // The last stage of the funnel does not narrow down any further
+            const next = this.calculateSizeAndOffset(nextItem ?? item);
+
+            style['--limel-chart-next-item-size'] = `${next.size}`;
+        }
 
-            style['--limel-chart-next-item-size'] = `${nextItem.size}`;
-            style['--limel-chart-next-item-offset'] = `${nextItem.offset}`;
+        if (this.xRange) {
+            style['--limel-chart-item-x'] =
+                `${getAxisPosition(getTime(item.x), this.xRange)}`;
+        }
+
+        if (this.xRange && (this.type === 'line' || this.type === 'area')) {
+            style['--limel-chart-next-item-x'] =
+                `${getAxisPosition(getTime((nextItem ?? item).x), this.xRange)}`;
+        }
+
+        if (this.type === 'bubble') {
+            style['--limel-chart-item-scale'] =
+                `${this.calculateBubbleScale(item)}`;
         }
 
         return style;
@@ -365,8 +1034,20 @@ export class Chart {
         return item.text;
     }
 
-    private renderTooltip(item: ChartItem, itemId: string, size: number) {
-        const text = this.getItemText(item);
+    private renderTooltip(
+        item: ChartItem,
+        itemId: string,
+        size: number,
+        series?: ChartSeries
+    ) {
+        if (this.hasCrosshair()) {
+            // The crosshair displays the values instead
+            return;
+        }
+
+        const text = series
+            ? `${series.text}: ${this.getItemText(item)}`
+            : this.getItemText(item);
         const PERCENT_DECIMAL = 2;
         const formattedValue = this.getFormattedValue(item);
 
@@ -376,7 +1057,12 @@ export class Chart {
             elementId: itemId,
         };
 
-        if (this.type !== 'bar' && this.type !== 'dot' && this.type !== 'nps') {
+        if (
+            !series &&
+            !['bar', 'dot', 'nps', 'scatter', 'bubble', 'heatmap'].includes(
+                this.type
+            )
+        ) {
             tooltipProps.label = `${text} (${size.toFixed(PERCENT_DECIMAL)}%)`;
         }
 
@@ -395,14 +1081,28 @@ export class Chart {
             return this.range;
         }
 
-        const minRange = Math.min(0, ...this.items.map(this.getMinimumValue));
-        const maxRange = Math.max(...this.items.map(this.getMaximumValue));
-        const totalSum = this.items.reduce(
+        const items = this.getRangeItems();
+        const references: ChartItem[] = this.getReferences().map(
+            (reference) => ({
+                text: reference.label,
+                value: reference.value,
+            })
+        );
+        const minRange = Math.min(
+            0,
+            ...[...items, ...references].map(this.getMinimumValue)
+        );
+        const maxRange = Math.max(...items.map(this.getMaximumValue));
+        const totalSum = items.reduce(
             (sum, item) => sum + this.getMaximumValue(item),
             0
         );
 
-        let finalMaxRange = this.maxValue ?? maxRange;
+        // References should always be visible, even above the `maxValue`
+        let finalMaxRange = Math.max(
+            this.maxValue ?? maxRange,
+            ...references.map(this.getMaximumValue)
+        );
         if (
             (this.type === 'pie' || this.type === 'doughnut') &&
             !this.maxValue
@@ -410,14 +1110,18 @@ export class Chart {
             finalMaxRange = totalSum;
         }
 
-        if (!this.axisIncrement) {
-            this.axisIncrement = this.calculateAxisIncrement(this.items);
+        this.increment = this.axisIncrement;
+        if (!this.increment && items.length + references.length > 0) {
+            this.increment = this.calculateAxisIncrement([
+                ...items,
+                ...references,
+            ]);
         }
 
         const visualMaxValue =
-            Math.ceil(finalMaxRange / this.axisIncrement) * this.axisIncrement;
+            Math.ceil(finalMaxRange / this.increment) * this.increment;
         const visualMinValue =
-            Math.floor(minRange / this.axisIncrement) * this.axisIncrement;
+            Math.floor(minRange / this.increment) * this.increment;
         const totalRange = visualMaxValue - visualMinValue;
 
         return {
@@ -427,10 +1131,7 @@ export class Chart {
         };
     }
 
-    private calculateAxisIncrement(
-        items: ChartItem[],
-        steps: number = DEFAULT_INCREMENT_SIZE
-    ) {
+    private calculateAxisIncrement(items: ChartItem[], steps?: number) {
         const maxValue = Math.max(
             ...items.map((item) => {
                 const value = item.value;
@@ -442,11 +1143,75 @@ export class Chart {
             })
         );
 
-        const roughStep = maxValue / steps;
+        return calculateIncrement(maxValue, steps);
+    }
 
-        const magnitude = 10 ** Math.floor(Math.log10(roughStep));
+    private calculateXRange() {
+        const items = this.items ?? [];
+        if (items.length === 0) {
+            return;
+        }
+
+        const values = items.map((item) => getTime(item.x));
+        if (this.hasTimeAxis()) {
+            const minValue = Math.min(...values);
+            const maxValue = Math.max(...values);
+
+            return {
+                minValue: minValue,
+                maxValue: maxValue,
+                totalRange: maxValue - minValue || 1,
+                increment: undefined,
+            };
+        }
+
+        if (!['scatter', 'bubble'].includes(this.type)) {
+            return;
+        }
+
+        return calculateAxisRange(values);
+    }
+
+    private hasTimeAxis(): boolean {
+        return (
+            TIME_AXIS_CHART_TYPES.has(this.type) &&
+            !this.hasSeries() &&
+            !!this.items?.some((item) => item.x instanceof Date)
+        );
+    }
+
+    private calculateBubbleScale(item: ChartItem): number {
+        const size = item.size ?? 0;
+        if (!this.maxBubbleSize || size <= 0) {
+            return 0;
+        }
 
-        return Math.ceil(roughStep / magnitude) * magnitude;
+        // The area of the bubble, rather than its diameter,
+        // should be proportional to its size
+        return Math.sqrt(size / this.maxBubbleSize);
+    }
+
+    private getRangeItems(): ChartItem[] {
+        if (!this.hasSeries()) {
+            return this.items ?? [];
+        }
+
+        const series = this.getVisibleSeries();
+        if (this.type === 'stacked-bar') {
+            return getStackedTotals(series, getCategories(this.series));
+        }
+
+        return series.flatMap((item) => item.items ?? []);
+    }
+
+    private hasSeries(): boolean {
+        return !!this.series?.length && SERIES_CHART_TYPES.includes(this.type);
+    }
+
+    private getVisibleSeries(): ChartSeries[] {
+        return this.series.filter(
+            (series) => !this.hiddenSeries.includes(series.text)
+        );
     }
 
     private getMinimumValue(item: ChartItem): number {
@@ -466,24 +1231,253 @@ export class Chart {
     }
 
     @Watch('items')
+    @Watch('series')
+    @Watch('references')
+    @Watch('type')
     @Watch('axisIncrement')
     @Watch('maxValue')
     handleChange() {
         this.range = null;
+        this.crosshairIndex = -1;
         this.recalculateRangeData();
     }
 
     private recalculateRangeData() {
         this.range = this.calculateRange();
+        this.xRange = this.calculateXRange();
+        this.maxBubbleSize = Math.max(
+            0,
+            ...(this.items ?? []).map((item) => item.size ?? 0)
+        );
+    }
+
+    private getChartImage(options: ChartExportOptions): ChartImage {
+        const rect = this.host.getBoundingClientRect();
+        const hasSeries = this.hasSeries();
+        const visibleSeries = hasSeries ? this.getVisibleSeries() : [];
+        const categories = hasSeries
+            ? getCategories(this.series)
+            : (this.items ?? []).map((item) => item.text);
+        const isSingleStack = this.type === 'stacked-bar' && !hasSeries;
+        const hasCategoryAxis =
+            (CATEGORY_AXIS_CHART_TYPES.has(this.type) || hasSeries) &&
+            !this.hasTimeAxis();
+
+        return {
+            type: this.type,
+            orientation: this.orientation,
+            width: options.width || rect.width || DEFAULT_EXPORT_SIZE.width,
+            height: options.height || rect.height || DEFAULT_EXPORT_SIZE.height,
+            title: this.accessibleLabel,
+            marks: hasSeries
+                ? this.getSeriesMarks(visibleSeries, categories)
+                : this.getItemMarks(),
+            numberOfCategories: isSingleStack ? 0 : categories.length,
+            numberOfGroups: Math.max(visibleSeries.length, 1),
+            categoryLabels: hasCategoryAxis ? categories : [],
+            valueTicks: this.getValueTicks(),
+            xTicks: this.getXTicks(),
+            baseline: this.range ? getAxisPosition(0, this.range) : 0,
+            cellsPerColumn:
+                Number.parseInt(
+                    getComputedStyle(this.host).getPropertyValue(
+                        '--chart-heatmap-cells-per-column'
+                    ),
+                    10
+                ) || DEFAULT_HEATMAP_CELLS_PER_COLUMN,
+            references: this.getImageReferences(),
+            legend: this.getImageLegend(visibleSeries),
+            colors: {
+                background:
+                    options.background && this.resolveColor(options.background),
+                text: this.resolveColor('inherit'),
+                axis: this.resolveColor('var(--chart-axis-line-color)'),
+                track: this.resolveColor('rgb(var(--contrast-200))'),
+                gauge: NPS_GAUGE_COLORS.map((color) =>
+                    this.resolveColor(color)
+                ),
+            },
+        };
+    }
+
+    private getItemMarks(): ChartImageMark[] {
+        let cumulativeOffset = 0;
+
+        return (this.items ?? []).map((item, index) => {
+            const sizeAndOffset = this.calculateSizeAndOffset(item);
+            const mark: ChartImageMark = {
+                color: this.resolveColor(item.color ?? DEFAULT_ITEM_COLOR),
+                index: index,
+                group: 0,
+                size: sizeAndOffset.size,
+                offset: sizeAndOffset.offset,
+                isRange: this.isRangeItem(item),
+            };
+
+            if (this.type === 'pie' || this.type === 'doughnut') {
+                mark.offset = cumulativeOffset;
+                cumulativeOffset += mark.size;
+            }
+
+            if (this.type === 'nps') {
+                mark.offset = 0;
+                mark.size = (this.getMaximumValue(item) + PERCENT) / 2;
+            }
+
+            if (this.type === 'funnel') {
+                const nextItem = this.items[index + 1] ?? item;
+                mark.nextSize = this.calculateSizeAndOffset(nextItem).size;
+            }
+
+            if (this.xRange) {
+                mark.x = getAxisPosition(getTime(item.x), this.xRange);
+            }
+
+            if (this.type === 'bubble') {
+                mark.scale = this.calculateBubbleScale(item);
+            }
+
+            return mark;
+        });
+    }
+
+    private getSeriesMarks(
+        visibleSeries: ChartSeries[],
+        categories: string[]
+    ): ChartImageMark[] {
+        return visibleSeries.flatMap((series, seriesIndex) =>
+            categories.flatMap((category, index) => {
+                const item = findSeriesItem(series, category);
+                if (!item) {
+                    return [];
+                }
+
+                const { size, offset } = this.calculateSizeAndOffset(
+                    this.type === 'stacked-bar'
+                        ? {
+                              ...item,
+                              value: getStackedValue(
+                                  visibleSeries,
+                                  seriesIndex,
+                                  category
+                              ),
+                          }
+                        : item
+                );
+
+                return [
+                    {
+                        color: this.resolveColor(
+                            item.color ?? series.color ?? DEFAULT_ITEM_COLOR
+                        ),
+                        index: index,
+                        group: seriesIndex,
+                        size: size,
+                        offset: offset,
+                    },
+                ];
+            })
+        );
+    }
+
+    private getValueTicks(): ChartImageTick[] {
+        if (!AXIS_CHART_TYPES.has(this.type) && !this.hasSeries()) {
+            return [];
+        }
+
+        return getAxisValues(this.range, this.increment).map((value) => ({
+            position: getAxisPosition(value, this.range),
+            label: `${value}`,
+        }));
+    }
+
+    private getXTicks(): ChartImageTick[] {
+        if (!this.xRange) {
+            return [];
+        }
+
+        if (this.hasTimeAxis()) {
+            return getTimeTicks(
+                new Date(this.xRange.minValue),
+                new Date(this.xRange.maxValue),
+                this.language
+            ).map((tick) => ({
+                position: getAxisPosition(tick.value.getTime(), this.xRange),
+                label: tick.label,
+            }));
+        }
+
+        return getAxisValues(this.xRange, this.xRange.increment).map(
+            (value) => ({
+                position: getAxisPosition(value, this.xRange),
+                label: `${value}`,
+            })
+        );
+    }
+
+    private getImageReferences(): ChartImageReference[] {
+        return this.getReferences().map((reference) => ({
+            ...this.getReferencePosition(reference),
+            label: reference.label,
+            color: this.resolveColor(
+                reference.color ?? 'rgb(var(--contrast-1100))'
+            ),
+        }));
+    }
+
+    private getImageLegend(visibleSeries: ChartSeries[]) {
+        if (this.hasSeries()) {
+            return visibleSeries.map((series) => ({
+                text: series.text,
+                color: this.resolveColor(series.color ?? DEFAULT_ITEM_COLOR),
+            }));
+        }
+
+        if (!LEGEND_CHART_TYPES.has(this.type)) {
+            return [];
+        }
+
+        return (this.items ?? []).map((item) => ({
+            text: item.text,
+            color: this.resolveColor(item.color ?? DEFAULT_ITEM_COLOR),
+        }));
+    }
+
+    /**
+     * Resolve a color, which may use CSS custom properties, to a color
+     * that can be used outside of the chart, by letting the browser
+     * compute it in the context of the chart
+     *
+     * @param color - the color to resolve
+     * @returns the resolved color
+     */
+    private resolveColor(color: string): string {
+        const probe = document.createElement('span');
+        probe.style.color = color;
+        this.host.shadowRoot.append(probe);
+        const resolved = getComputedStyle(probe).color;
+        probe.remove();
+
+        if (resolved && !resolved.includes('var(')) {
+            return resolved;
+        }
+
+        return color.includes('var(') || color === 'inherit'
+            ? FALLBACK_COLOR
+            : color;
     }
 
     private getClickableItem(target: HTMLElement): ChartItem | undefined {
-        const index = target.dataset.index;
+        const { index, seriesIndex } = target.dataset;
         if (index === undefined) {
             return;
         }
 
-        const item = this.items[Number(index)];
+        const items =
+            seriesIndex === undefined
+                ? this.items
+                : this.series[Number(seriesIndex)].items;
+        const item = items[Number(index)];
         if (!item.clickable) {
             return;
         }
@@ -514,4 +1508,55 @@ export class Chart {
         event.preventDefault();
         this.interact.emit(item);
     };
+
+    private readonly handleTableToggleClick = () => {
+        this.showTable = !this.showTable;
+        this.crosshairIndex = -1;
+    };
+
+    private readonly handlePointerMove = (event: PointerEvent) => {
+        if (!this.hasCrosshair()) {
+            return;
+        }
+
+        const rect = (
+            event.currentTarget as HTMLElement
+        ).getBoundingClientRect();
+        const position =
+            this.orientation === 'portrait'
+                ? (event.clientY - rect.top) / rect.height
+                : (event.clientX - rect.left) / rect.width;
+
+        this.crosshairIndex = findNearestIndex(
+            this.getCrosshairPositions(),
+            position * PERCENT
+        );
+    };
+
+    private readonly handleFocusIn = (event: FocusEvent) => {
+        if (!this.hasCrosshair()) {
+            return;
+        }
+
+        const element = event.target as HTMLElement;
+        const index = element.dataset.categoryIndex ?? element.dataset.index;
+        if (index === undefined) {
+            return;
+        }
+
+        this.crosshairIndex = Number(index);
+    };
+
+    private readonly clearCrosshair = () => {
+        this.crosshairIndex = -1;
+    };
+
+    private readonly handleLegendClick = (event: MouseEvent) => {
+        const name = (event.currentTarget as HTMLElement).dataset.series;
+
+        this.hiddenSeries = this.hiddenSeries.includes(name)
+            ? this.hiddenSeries.filter((hidden) => hidden !== name)
+            : [...this.hiddenSeries, name];
+        this.handleChange();
+    };
 }
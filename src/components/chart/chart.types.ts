@@ -17,6 +17,23 @@ export interface ChartItem<
      */
     value: T;
 
+    /**
+     * Position of the item on the horizontal axis.
+     * Used by `scatter` and `bubble` charts.
+     *
+     * In `line`, `area` and `dot` charts, items with a `Date` are placed
+     * on a time axis, in proportion to the time between them.
+     * Items should then be sorted by date.
+     */
+    x?: number | Date;
+
+    /**
+     * Size of the item, which defines the area of the bubble,
+     * relative to the other items in the chart.
+     * Only used by `bubble` charts.
+     */
+    size?: number;
+
     /**
      * Formatted value of the item
      */
@@ -36,3 +53,83 @@ export interface ChartItem<
      */
     clickable?: boolean;
 }
+
+/**
+ * A named series of items in a chart.
+ * All series in a chart share the same category axis,
+ * where the `text` of each item is the category the item belongs to.
+ * @beta
+ */
+export interface ChartSeries {
+    /**
+     * Name of the series, displayed in the legend of the chart.
+     */
+    text: string;
+
+    /**
+     * Items of the series, with at most one item per category.
+     * A category that the series has no item for is left empty.
+     */
+    items: Array<ChartItem<number>>;
+
+    /**
+     * Color of the series in the chart, and in the legend.
+     * Defaults to a shade of grey. Items with a `color` of their own
+     * will use that color instead.
+     * It is recommended to use distinct colors for each series.
+     */
+    color?: Color;
+}
+
+/**
+ * A reference line, such as a target or a limit, or a shaded band
+ * between two values, drawn across a chart.
+ * @beta
+ */
+export interface ChartReference {
+    /**
+     * Value where the reference line is drawn.
+     * Use a start and an end value to draw a band between them instead.
+     */
+    value: number | [number, number];
+
+    /**
+     * Label displayed next to the reference line or band.
+     */
+    label: string;
+
+    /**
+     * Color of the reference line or band. Defaults to a shade of grey.
+     */
+    color?: Color;
+}
+
+/**
+ * Options for exporting a chart as an image.
+ * @beta
+ */
+export interface ChartExportOptions {
+    /**
+     * Width of the image, in pixels.
+     * Defaults to the current width of the chart.
+     */
+    width?: number;
+
+    /**
+     * Height of the image, in pixels.
+     * Defaults to the current height of the chart.
+     */
+    height?: number;
+
+    /**
+     * Background color of the image. Defaults to transparent.
+     */
+    background?: Color;
+
+    /**
+     * Number of pixels in a PNG image, for each pixel of its
+     * `width` and `height`. Use a higher number for sharper images.
+     * Defaults to `2`. Does not affect SVG images, which can be scaled freely.
+     */
+    scale?: number;
+}
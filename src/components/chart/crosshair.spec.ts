@@ -0,0 +1,17 @@
+import { findNearestIndex } from './crosshair';
+
+describe('findNearestIndex', () => {
+    it('returns the index of the nearest position', () => {
+        expect(findNearestIndex([0, 25, 50, 75], 30)).toEqual(1);
+        expect(findNearestIndex([0, 25, 50, 75], 100)).toEqual(3);
+        expect(findNearestIndex([0, 10, 90], 60)).toEqual(2);
+    });
+
+    it('returns the first index when two positions are equally near', () => {
+        expect(findNearestIndex([0, 50], 25)).toEqual(0);
+    });
+
+    it('returns -1 when there are no positions', () => {
+        expect(findNearestIndex([], 50)).toEqual(-1);
+    });
+});
@@ -0,0 +1,21 @@
+/**
+ * Find the index of the position that is nearest to the given position
+ *
+ * @param positions - the positions to search, e.g. of the items in a chart
+ * @param position - the position to find the nearest position to
+ * @returns the index of the nearest position, or `-1` if there are no positions
+ */
+export function findNearestIndex(positions: number[], position: number) {
+    let nearestIndex = -1;
+    let nearestDistance = Infinity;
+
+    for (const [index, value] of positions.entries()) {
+        const distance = Math.abs(value - position);
+        if (distance < nearestDistance) {
+            nearestIndex = index;
+            nearestDistance = distance;
+        }
+    }
+
+    return nearestIndex;
+}
@@ -0,0 +1,65 @@
+import { Component, h, Host, State } from '@stencil/core';
+import { LimelSelectCustomEvent, Option } from '@limetech/lime-elements';
+import { chartSeries } from './chart-items-series';
+
+/**
+ * Crosshair and table view
+ * Hovering, or focusing, a `line` or `area` chart displays a vertical
+ * crosshair at the nearest point, along with the values of
+ * all visible series at that point. In other chart types, each item
+ * shows a tooltip with its text, formatted value and series name instead.
+ *
+ * Set `displayTableToggle` to `true` to let users switch between
+ * the chart and a regular table of the same data.
+ * The table is often easier to use with a keyboard or a screen reader,
+ * and is a convenient way to read out the exact values.
+ *
+ * @sourceFile chart-items-series.ts
+ */
+@Component({
+    tag: 'limel-example-chart-crosshair-and-table',
+    shadow: true,
+    styleUrl: 'chart-examples.scss',
+})
+export class ChartCrosshairAndTableExample {
+    @State()
+    private type: 'line' | 'area' | 'bar' = 'line';
+
+    private types: Option[] = [
+        { text: 'line', value: 'line' },
+        { text: 'area', value: 'area' },
+        { text: 'bar', value: 'bar' },
+    ];
+
+    public render() {
+        return (
+            <Host class="large">
+                <h4>Monthly sales per person</h4>
+                <limel-chart
+                    type={this.type}
+                    series={chartSeries}
+                    displayTableToggle={true}
+                    accessibleLabel="Monthly sales per person"
+                    accessibleItemsLabel="Month"
+                    accessibleValuesLabel="Sales"
+                />
+                <limel-example-controls>
+                    <limel-select
+                        label="type"
+                        value={this.types.find(
+                            (option) => option.value === this.type
+                        )}
+                        options={this.types}
+                        onChange={this.handleTypeChange}
+                    />
+                </limel-example-controls>
+            </Host>
+        );
+    }
+
+    private handleTypeChange = (
+        event: LimelSelectCustomEvent<Option<string>>
+    ) => {
+        this.type = event.detail.value as 'line' | 'area' | 'bar';
+    };
+}
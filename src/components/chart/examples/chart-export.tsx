@@ -0,0 +1,66 @@
+import { Component, h, Host } from '@stencil/core';
+import { chartSeries } from './chart-items-series';
+
+/**
+ * Exporting as an image
+ * Use `exportSvg` to render the chart as a standalone SVG image,
+ * or `exportPng` to get a PNG image, for instance to let users
+ * paste the chart into a presentation or an email.
+ * The images include the colors, axis labels and legend of the chart,
+ * and are rendered in its current size, unless another `width` and `height`
+ * are given.
+ *
+ * @sourceFile chart-items-series.ts
+ */
+@Component({
+    tag: 'limel-example-chart-export',
+    shadow: true,
+    styleUrl: 'chart-examples.scss',
+})
+export class ChartExportExample {
+    private chart: HTMLLimelChartElement;
+
+    public render() {
+        return (
+            <Host class="large">
+                <limel-chart
+                    type="bar"
+                    series={chartSeries}
+                    accessibleLabel="Monthly sales per person"
+                    ref={(element) => (this.chart = element)}
+                />
+                <limel-example-controls>
+                    <limel-button
+                        label="Download SVG"
+                        onClick={this.handleSvgClick}
+                    />
+                    <limel-button
+                        label="Download PNG"
+                        onClick={this.handlePngClick}
+                    />
+                </limel-example-controls>
+            </Host>
+        );
+    }
+
+    private handleSvgClick = async () => {
+        const svg = await this.chart.exportSvg({ background: 'white' });
+
+        this.download(new Blob([svg], { type: 'image/svg+xml' }), 'chart.svg');
+    };
+
+    private handlePngClick = async () => {
+        const png = await this.chart.exportPng({ background: 'white' });
+
+        this.download(png, 'chart.png');
+    };
+
+    private download(blob: Blob, fileName: string) {
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        link.click();
+        URL.revokeObjectURL(url);
+    }
+}
@@ -0,0 +1,29 @@
+import { ChartItem } from '@limetech/lime-elements';
+
+export const chartItems: ChartItem[] = [
+    {
+        text: 'Leads',
+        value: 1200,
+        color: 'rgb(var(--color-sky-light))',
+    },
+    {
+        text: 'Qualified',
+        value: 640,
+        color: 'rgb(var(--color-sky-default))',
+    },
+    {
+        text: 'Proposal',
+        value: 310,
+        color: 'rgb(var(--color-blue-light))',
+    },
+    {
+        text: 'Negotiation',
+        value: 150,
+        color: 'rgb(var(--color-blue-default))',
+    },
+    {
+        text: 'Won',
+        value: 85,
+        color: 'rgb(var(--color-indigo-default))',
+    },
+];
@@ -0,0 +1,26 @@
+import { ChartItem } from '@limetech/lime-elements';
+
+const NUMBER_OF_DAYS = 12 * 7;
+const firstDay = new Date(2024, 0, 1);
+
+/**
+ * Creates a number of activities for each day,
+ * with fewer activities during weekends
+ */
+export const chartItems: ChartItem[] = Array.from(
+    { length: NUMBER_OF_DAYS },
+    (_, index) => {
+        const date = new Date(firstDay);
+        date.setDate(firstDay.getDate() + index);
+
+        const isWeekend = index % 7 >= 5;
+        const value = isWeekend ? index % 3 : ((index * 7) % 11) + 2;
+
+        return {
+            text: date.toDateString(),
+            value: value,
+            formattedValue: `${value} activities`,
+            color: 'rgb(var(--color-green-default))',
+        };
+    }
+);
@@ -0,0 +1,16 @@
+import { ChartItem } from '@limetech/lime-elements';
+
+export const chartItems: ChartItem[] = [
+    { text: 'Acme Inc.', x: 12, value: 80, size: 12 },
+    { text: 'Globex', x: 45, value: 30, size: 45 },
+    { text: 'Initech', x: 28, value: 55, size: 28 },
+    { text: 'Umbrella', x: 90, value: 20, size: 90 },
+    { text: 'Hooli', x: 65, value: 70, size: 65 },
+    { text: 'Stark Industries', x: 120, value: 45, size: 120 },
+    { text: 'Wayne Enterprises', x: 8, value: 95, size: 8 },
+    { text: 'Soylent', x: 38, value: 10, size: 38 },
+].map((item) => ({
+    ...item,
+    formattedValue: `€${item.x}k deal, ${item.value}% probability`,
+    color: 'rgb(var(--color-teal-default))',
+}));
@@ -0,0 +1,27 @@
+import { ChartSeries } from '@limetech/lime-elements';
+
+const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun'];
+
+const createItems = (values: number[]) =>
+    values.map((value, index) => ({
+        text: months[index],
+        value: value,
+    }));
+
+export const chartSeries: ChartSeries[] = [
+    {
+        text: 'Alice',
+        color: 'rgb(var(--color-sky-default))',
+        items: createItems([12, 19, 15, 24, 28, 31]),
+    },
+    {
+        text: 'Bob',
+        color: 'rgb(var(--color-orange-default))',
+        items: createItems([8, 11, 17, 14, 20, 18]),
+    },
+    {
+        text: 'Carol',
+        color: 'rgb(var(--color-lime-default))',
+        items: createItems([15, 13, 10, 16, 12, 22]),
+    },
+];
@@ -0,0 +1,21 @@
+import { ChartItem } from '@limetech/lime-elements';
+
+const measurements: Array<[string, number]> = [
+    ['2024-01-03', 12],
+    ['2024-01-08', 18],
+    ['2024-01-10', 15],
+    ['2024-02-02', 34],
+    ['2024-02-05', 30],
+    ['2024-03-18', 52],
+    ['2024-04-01', 47],
+    ['2024-04-03', 55],
+    ['2024-05-20', 68],
+    ['2024-06-28', 74],
+];
+
+export const chartItems: ChartItem[] = measurements.map(([date, value]) => ({
+    text: new Date(date).toLocaleDateString('en'),
+    value: value,
+    x: new Date(date),
+    color: 'rgb(var(--color-violet-default))',
+}));
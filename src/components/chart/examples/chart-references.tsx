@@ -0,0 +1,103 @@
+import { Component, h, Host, State } from '@stencil/core';
+import {
+    ChartReference,
+    LimelSelectCustomEvent,
+    Option,
+} from '@limetech/lime-elements';
+import { chartItems } from './chart-items-bar';
+
+/**
+ * Reference lines and bands
+ * Use `references` to draw lines across the chart, for instance to display
+ * a sales target or a limit. Give a reference a start and an end value
+ * to draw a shaded band between them instead.
+ *
+ * The range of the chart always grows to include the references, even when
+ * they are above the `maxValue`.
+ *
+ * @sourceFile chart-items-bar.ts
+ */
+@Component({
+    tag: 'limel-example-chart-references',
+    shadow: true,
+    styleUrl: 'chart-examples.scss',
+})
+export class ChartReferencesExample {
+    @State()
+    private type: 'bar' | 'line' | 'area' | 'stacked-bar' = 'bar';
+
+    @State()
+    private orientation: 'landscape' | 'portrait' = 'landscape';
+
+    private references: ChartReference[] = [
+        {
+            value: 60,
+            label: 'Target',
+            color: 'rgb(var(--color-green-default))',
+        },
+        {
+            value: [0, 20],
+            label: 'Below expectations',
+            color: 'rgb(var(--color-red-default))',
+        },
+    ];
+
+    private types: Option[] = [
+        { text: 'bar', value: 'bar' },
+        { text: 'line', value: 'line' },
+        { text: 'area', value: 'area' },
+        { text: 'stacked-bar', value: 'stacked-bar' },
+    ];
+
+    private orientations: Option[] = [
+        { text: 'landscape', value: 'landscape' },
+        { text: 'portrait', value: 'portrait' },
+    ];
+
+    public render() {
+        return (
+            <Host class="large">
+                <limel-chart
+                    type={this.type}
+                    orientation={this.orientation}
+                    items={chartItems}
+                    references={this.references}
+                />
+                <limel-example-controls>
+                    <limel-select
+                        label="type"
+                        value={this.types.find(
+                            (option) => option.value === this.type
+                        )}
+                        options={this.types}
+                        onChange={this.handleTypeChange}
+                    />
+                    <limel-select
+                        label="orientation"
+                        value={this.orientations.find(
+                            (option) => option.value === this.orientation
+                        )}
+                        options={this.orientations}
+                        onChange={this.handleOrientationChange}
+                    />
+                </limel-example-controls>
+            </Host>
+        );
+    }
+
+    private handleTypeChange = (
+        event: LimelSelectCustomEvent<Option<string>>
+    ) => {
+        this.type = event.detail.value as
+            | 'bar'
+            | 'line'
+            | 'area'
+            | 'stacked-bar';
+    };
+
+    private handleOrientationChange = (
+        event: LimelSelectCustomEvent<Option<string>>
+    ) => {
+        this.orientation = event.detail.value as 'landscape' | 'portrait';
+    };
+}
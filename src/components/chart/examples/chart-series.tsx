@@ -0,0 +1,96 @@
+import { Component, h, Host, State } from '@stencil/core';
+import { LimelSelectCustomEvent, Option } from '@limetech/lime-elements';
+import { chartSeries } from './chart-items-series';
+
+/**
+ * Multiple series
+ * Instead of `items`, a chart can be given a list of named `series`,
+ * which share the same category axis. This makes it possible to compare
+ * several sets of values with each other, for example the sales
+ * of different sales reps over the same months.
+ *
+ * The `text` of each item in a series defines which category
+ * it belongs to. Each series is displayed in its own color,
+ * and the legend below the chart can be used to toggle
+ * a series on and off.
+ *
+ * :::note
+ * Series are supported by `line`, `area`, `bar` and `stacked-bar` charts.
+ * :::
+ *
+ * @sourceFile chart-items-series.ts
+ */
+@Component({
+    tag: 'limel-example-chart-series',
+    shadow: true,
+    styleUrl: 'chart-examples.scss',
+})
+export class ChartSeriesExample {
+    @State()
+    private type: 'line' | 'area' | 'bar' | 'stacked-bar' = 'line';
+
+    @State()
+    private orientation: 'landscape' | 'portrait' = 'landscape';
+
+    private types: Option[] = [
+        { text: 'line', value: 'line' },
+        { text: 'area', value: 'area' },
+        { text: 'bar', value: 'bar' },
+        { text: 'stacked-bar', value: 'stacked-bar' },
+    ];
+
+    private orientations: Option[] = [
+        { text: 'landscape', value: 'landscape' },
+        { text: 'portrait', value: 'portrait' },
+    ];
+
+    public render() {
+        return (
+            <Host class="large">
+                <h4>Deals won per sales rep</h4>
+                <limel-chart
+                    type={this.type}
+                    orientation={this.orientation}
+                    series={chartSeries}
+                    accessibleItemsLabel="Month"
+                    accessibleValuesLabel="Deals won"
+                    displayAxisLabels={true}
+                />
+                <limel-example-controls>
+                    <limel-select
+                        label="type"
+                        value={this.types.find(
+                            (option) => option.value === this.type
+                        )}
+                        options={this.types}
+                        onChange={this.handleTypeChange}
+                    />
+                    <limel-select
+                        label="orientation"
+                        value={this.orientations.find(
+                            (option) => option.value === this.orientation
+                        )}
+                        options={this.orientations}
+                        onChange={this.handleOrientationChange}
+                    />
+                </limel-example-controls>
+            </Host>
+        );
+    }
+
+    private handleTypeChange = (
+        event: LimelSelectCustomEvent<Option<string>>
+    ) => {
+        this.type = event.detail.value as
+            | 'line'
+            | 'area'
+            | 'bar'
+            | 'stacked-bar';
+    };
+
+    private handleOrientationChange = (
+        event: LimelSelectCustomEvent<Option<string>>
+    ) => {
+        this.orientation = event.detail.value as 'landscape' | 'portrait';
+    };
+}
@@ -0,0 +1,92 @@
+import { Component, h, Host, State } from '@stencil/core';
+import {
+    Languages,
+    LimelSelectCustomEvent,
+    Option,
+} from '@limetech/lime-elements';
+import { chartItems } from './chart-items-time';
+
+/**
+ * Time axis
+ * When items of a `line`, `area` or `dot` chart have a `Date` as their `x`,
+ * they are placed on a time axis, in proportion to the time between them.
+ * This means that uneven gaps between dates are displayed as such.
+ *
+ * The ticks of the time axis are placed at the start of each day, week,
+ * month, quarter or year, depending on the period the items cover.
+ * Their labels are formatted according to the `language` of the chart.
+ *
+ * :::note
+ * Items should be sorted by their date.
+ * :::
+ *
+ * @sourceFile chart-items-time.ts
+ */
+@Component({
+    tag: 'limel-example-chart-time-axis',
+    shadow: true,
+    styleUrl: 'chart-examples.scss',
+})
+export class ChartTimeAxisExample {
+    @State()
+    private type: 'line' | 'area' | 'dot' = 'line';
+
+    @State()
+    private language: Languages = 'en';
+
+    private types: Option[] = [
+        { text: 'line', value: 'line' },
+        { text: 'area', value: 'area' },
+        { text: 'dot', value: 'dot' },
+    ];
+
+    private languages: Option[] = [
+        { text: 'English', value: 'en' },
+        { text: 'Svenska', value: 'sv' },
+        { text: 'Deutsch', value: 'de' },
+        { text: 'Français', value: 'fr' },
+    ];
+
+    public render() {
+        return (
+            <Host class="large">
+                <h4>Subscriptions</h4>
+                <limel-chart
+                    type={this.type}
+                    language={this.language}
+                    items={chartItems}
+                />
+                <limel-example-controls>
+                    <limel-select
+                        label="type"
+                        value={this.types.find(
+                            (option) => option.value === this.type
+                        )}
+                        options={this.types}
+                        onChange={this.handleTypeChange}
+                    />
+                    <limel-select
+                        label="language"
+                        value={this.languages.find(
+                            (option) => option.value === this.language
+                        )}
+                        options={this.languages}
+                        onChange={this.handleLanguageChange}
+                    />
+                </limel-example-controls>
+            </Host>
+        );
+    }
+
+    private handleTypeChange = (
+        event: LimelSelectCustomEvent<Option<string>>
+    ) => {
+        this.type = event.detail.value as 'line' | 'area' | 'dot';
+    };
+
+    private handleLanguageChange = (
+        event: LimelSelectCustomEvent<Option<string>>
+    ) => {
+        this.language = event.detail.value as Languages;
+    };
+}
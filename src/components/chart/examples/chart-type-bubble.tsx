@@ -0,0 +1,43 @@
+import { Component, h, Host } from '@stencil/core';
+import { chartItems } from './chart-items-scatter';
+
+/**
+ * Bubble chart
+ * A bubble chart is a scatter chart, where the area of each item
+ * also represents a third value, given by its `size`.
+ *
+ * It's good for:
+ * - Comparing items on three dimensions at once.
+ *
+ * :::tip
+ * **Use:**
+ * - When the third value is important for understanding the data,
+ * such as weighting deals by their size.
+ *
+ * **Avoid:**
+ * - With many items, where bubbles overlap and become hard to read.
+ * :::
+ *
+ * @sourceFile chart-items-scatter.ts
+ */
+@Component({
+    tag: 'limel-example-chart-type-bubble',
+    shadow: true,
+    styleUrl: 'chart-examples.scss',
+})
+export class ChartTypeBubbleExample {
+    public render() {
+        return (
+            <Host class="large">
+                <h4>Deal size (€k) vs. probability (%)</h4>
+                <limel-chart
+                    type="bubble"
+                    items={chartItems}
+                    accessibleItemsLabel="Deal size"
+                    accessibleValuesLabel="Probability"
+                    displayAxisLabels={true}
+                />
+            </Host>
+        );
+    }
+}
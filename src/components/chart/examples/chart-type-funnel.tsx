@@ -0,0 +1,71 @@
+import { Component, h, Host, State } from '@stencil/core';
+import { LimelSelectCustomEvent, Option } from '@limetech/lime-elements';
+import { chartItems } from './chart-items-funnel';
+
+/**
+ * Funnel chart
+ * A funnel chart displays items as stages that narrow down
+ * from the first item to the last, where the size of each stage
+ * is proportional to its value.
+ *
+ * It's good for:
+ * - Visualizing how many items make it through each step of a process,
+ * like the stages of a sales pipeline.
+ * - Spotting the stages where most items drop off.
+ *
+ * :::tip
+ * **Use:**
+ * - When the stages are sequential, and each stage is a subset of the previous one.
+ *
+ * **Avoid:**
+ * - When the values do not decrease from one stage to the next
+ * (consider a bar chart instead).
+ * :::
+ *
+ * @sourceFile chart-items-funnel.ts
+ */
+@Component({
+    tag: 'limel-example-chart-type-funnel',
+    shadow: true,
+    styleUrl: 'chart-examples.scss',
+})
+export class ChartTypeFunnelExample {
+    @State()
+    private orientation: 'landscape' | 'portrait' = 'portrait';
+
+    private orientations: Option[] = [
+        { text: 'landscape', value: 'landscape' },
+        { text: 'portrait', value: 'portrait' },
+    ];
+
+    public render() {
+        return (
+            <Host class="large">
+                <h4>Sales pipeline</h4>
+                <limel-chart
+                    type="funnel"
+                    items={chartItems}
+                    orientation={this.orientation}
+                    displayItemText={true}
+                    displayItemValue={true}
+                />
+                <limel-example-controls>
+                    <limel-select
+                        label="orientation"
+                        value={this.orientations.find(
+                            (option) => option.value === this.orientation
+                        )}
+                        options={this.orientations}
+                        onChange={this.handleOrientationChange}
+                    />
+                </limel-example-controls>
+            </Host>
+        );
+    }
+
+    private handleOrientationChange = (
+        event: LimelSelectCustomEvent<Option<string>>
+    ) => {
+        this.orientation = event.detail.value as 'landscape' | 'portrait';
+    };
+}
@@ -0,0 +1,45 @@
+import { Component, h, Host } from '@stencil/core';
+import { chartItems } from './chart-items-heatmap';
+
+/**
+ * Heatmap chart
+ * A heatmap displays items as cells in a grid, where the intensity
+ * of the color of each cell represents its value.
+ *
+ * The cells fill one column at a time, with seven cells per column
+ * by default. So when each item represents a day, and the first item is
+ * a Monday, each column of the chart represents a week.
+ *
+ * It's good for:
+ * - Visualizing patterns in activity over time, such as weekdays
+ * being busier than weekends.
+ *
+ * :::tip
+ * **Use:**
+ * - With many items, where the overall pattern matters more than each value.
+ *
+ * **Avoid:**
+ * - When exact values need to be compared (consider a bar chart instead).
+ * :::
+ *
+ * @sourceFile chart-items-heatmap.ts
+ */
+@Component({
+    tag: 'limel-example-chart-type-heatmap',
+    shadow: true,
+    styleUrl: 'chart-examples.scss',
+})
+export class ChartTypeHeatmapExample {
+    public render() {
+        return (
+            <Host>
+                <h4>Activities per day</h4>
+                <limel-chart
+                    type="heatmap"
+                    items={chartItems}
+                    accessibleLabel="Activities per day, during the first 12 weeks of 2024"
+                />
+            </Host>
+        );
+    }
+}
@@ -0,0 +1,44 @@
+import { Component, h, Host } from '@stencil/core';
+import { chartItems } from './chart-items-scatter';
+
+/**
+ * Scatter chart
+ * A scatter chart places each item as a dot, using its `x` for the position
+ * on the horizontal axis, and its `value` for the position on the vertical axis.
+ *
+ * It's good for:
+ * - Revealing the relationship between two values, such as the size of deals
+ * and their probability of being won.
+ * - Spotting clusters and outliers.
+ *
+ * :::tip
+ * **Use:**
+ * - When each item has two numeric values that may be related.
+ *
+ * **Avoid:**
+ * - When the values change over time (consider a line chart instead).
+ * :::
+ *
+ * @sourceFile chart-items-scatter.ts
+ */
+@Component({
+    tag: 'limel-example-chart-type-scatter',
+    shadow: true,
+    styleUrl: 'chart-examples.scss',
+})
+export class ChartTypeScatterExample {
+    public render() {
+        return (
+            <Host class="large">
+                <h4>Deal size (€k) vs. probability (%)</h4>
+                <limel-chart
+                    type="scatter"
+                    items={chartItems}
+                    accessibleItemsLabel="Deal size"
+                    accessibleValuesLabel="Probability"
+                    displayAxisLabels={true}
+                />
+            </Host>
+        );
+    }
+}
@@ -0,0 +1,218 @@
+import {
+    ChartImage,
+    createChartSvg,
+    createPng,
+    escapeXml,
+    ImageRenderer,
+} from './export';
+
+function createImage(image: Partial<ChartImage> = {}): ChartImage {
+    return {
+        type: 'bar',
+        orientation: 'landscape',
+        width: 400,
+        height: 300,
+        marks: [],
+        numberOfCategories: 0,
+        numberOfGroups: 1,
+        categoryLabels: [],
+        valueTicks: [],
+        xTicks: [],
+        baseline: 0,
+        cellsPerColumn: 7,
+        references: [],
+        legend: [],
+        colors: {
+            text: 'rgb(0, 0, 0)',
+            axis: 'rgb(128, 128, 128)',
+            track: 'rgb(240, 240, 240)',
+            gauge: [],
+        },
+        ...image,
+    };
+}
+
+function countElements(svg: string, name: string): number {
+    return svg.split(`<${name} `).length - 1;
+}
+
+describe('escapeXml', () => {
+    it('escapes characters that have a meaning in XML', () => {
+        expect(escapeXml(`<a href="b">Tom & Jerry's</a>`)).toEqual(
+            '&lt;a href=&quot;b&quot;&gt;Tom &amp; Jerry&apos;s&lt;/a&gt;'
+        );
+    });
+});
+
+describe('createChartSvg', () => {
+    it('creates a standalone SVG document of the given size', () => {
+        const svg = createChartSvg(createImage());
+
+        expect(svg).toMatch(
+            /^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" width="400" height="300"/
+        );
+        expect(svg).toMatch(/<\/svg>$/);
+    });
+
+    it('draws a bar for each item', () => {
+        const svg = createChartSvg(
+            createImage({
+                numberOfCategories: 2,
+                marks: [
+                    { color: 'red', index: 0, group: 0, offset: 0, size: 50 },
+                    { color: 'blue', index: 1, group: 0, offset: 0, size: 100 },
+                ],
+            })
+        );
+
+        expect(countElements(svg, 'rect')).toEqual(2);
+        expect(svg).toContain('fill="red"');
+        expect(svg).toContain('fill="blue"');
+    });
+
+    it('draws a line for each series', () => {
+        const marks = [0, 1].flatMap((group) =>
+            [0, 1, 2].map((index) => ({
+                color: 'red',
+                index: index,
+                group: group,
+                offset: 0,
+                size: index * 10,
+            }))
+        );
+        const svg = createChartSvg(
+            createImage({
+                type: 'line',
+                numberOfCategories: 3,
+                numberOfGroups: 2,
+                marks: marks,
+            })
+        );
+
+        expect(countElements(svg, 'polyline')).toEqual(2);
+        expect(countElements(svg, 'circle')).toEqual(6);
+    });
+
+    it('draws a slice for each item of a pie chart', () => {
+        const svg = createChartSvg(
+            createImage({
+                type: 'pie',
+                marks: [
+                    { color: 'red', index: 0, group: 0, offset: 0, size: 25 },
+                    { color: 'blue', index: 1, group: 0, offset: 25, size: 75 },
+                ],
+            })
+        );
+
+        expect(countElements(svg, 'path')).toEqual(2);
+    });
+
+    it('renders the title, axis labels and legend as escaped text', () => {
+        const svg = createChartSvg(
+            createImage({
+                title: 'Sales <2024>',
+                numberOfCategories: 1,
+                categoryLabels: ['Q1 & Q2'],
+                valueTicks: [
+                    { position: 0, label: '0' },
+                    { position: 100, label: '100' },
+                ],
+                legend: [{ text: 'Alice', color: 'red' }],
+            })
+        );
+
+        expect(svg).toContain('<title>Sales &lt;2024&gt;</title>');
+        expect(svg).toContain('>Q1 &amp; Q2</text>');
+        expect(svg).toContain('>100</text>');
+        expect(svg).toContain('>Alice</text>');
+        expect(countElements(svg, 'line')).toEqual(2);
+    });
+
+    it('draws reference lines and bands with their labels', () => {
+        const svg = createChartSvg(
+            createImage({
+                references: [
+                    { offset: 80, size: 0, label: 'Target', color: 'red' },
+                    { offset: 20, size: 10, label: 'Limit', color: 'blue' },
+                ],
+            })
+        );
+
+        expect(countElements(svg, 'line')).toEqual(3);
+        expect(countElements(svg, 'polygon')).toEqual(1);
+        expect(svg).toContain('>Target</text>');
+        expect(svg).toContain('>Limit</text>');
+    });
+
+    it('draws a background when given', () => {
+        const svg = createChartSvg(
+            createImage({
+                colors: { ...createImage().colors, background: 'white' },
+            })
+        );
+
+        expect(svg).toContain('<rect width="400" height="300" fill="white"/>');
+    });
+});
+
+describe('createPng', () => {
+    const png = { type: 'image/png' } as Blob;
+    let context: { scale: jest.Mock; drawImage: jest.Mock };
+    let canvas: any;
+    let renderer: ImageRenderer;
+
+    beforeEach(() => {
+        context = { scale: jest.fn(), drawImage: jest.fn() };
+        canvas = {
+            getContext: () => context,
+            toBlob: (callback: (blob: Blob) => void) => callback(png),
+        };
+        renderer = {
+            loadImage: jest.fn(async (src: string) => ({ src }) as any),
+            createCanvas: jest.fn(() => canvas),
+        };
+    });
+
+    it('draws the SVG document on a scaled canvas', async () => {
+        const blob = await createPng('<svg/>', 400, 300, 2, renderer);
+
+        expect(blob).toBe(png);
+        expect(renderer.loadImage).toHaveBeenCalledWith(
+            'data:image/svg+xml;charset=utf-8,%3Csvg%2F%3E'
+        );
+        expect(renderer.createCanvas).toHaveBeenCalledWith(800, 600);
+        expect(context.scale).toHaveBeenCalledWith(2, 2);
+        expect(context.drawImage).toHaveBeenCalledWith(
+            { src: 'data:image/svg+xml;charset=utf-8,%3Csvg%2F%3E' },
+            0,
+            0,
+            400,
+            300
+        );
+    });
+
+    it('fails when the canvas cannot be drawn on', async () => {
+        canvas.getContext = () => null;
+
+        await expect(
+            createPng('<svg/>', 400, 300, 1, renderer)
+        ).rejects.toThrow('Could not export the chart as PNG');
+    });
+
+    it('fails when the canvas cannot be exported', async () => {
+        canvas.toBlob = (callback: (blob: Blob) => void) => callback(null);
+
+        await expect(
+            createPng('<svg/>', 400, 300, 1, renderer)
+        ).rejects.toThrow('Could not export the chart as PNG');
+    });
+
+    it('fails when the image cannot be loaded', async () => {
+        renderer.loadImage = () =>
+            Promise.reject(new Error('Could not load the chart image'));
+
+        await expect(
+            createPng('<svg/>', 400, 300, 1, renderer)
+        ).rejects.toThrow('Could not load the chart image');
+    });
+});
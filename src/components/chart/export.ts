@@ -0,0 +1,958 @@
+const PERCENT = 100;
+const FULL_CIRCLE = 360;
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+const FONT_SIZE = 12;
+const PADDING = 8;
+const TITLE_HEIGHT = 24;
+const LEGEND_HEIGHT = 24;
+const AXIS_LABEL_HEIGHT = 20;
+const AXIS_LABEL_WIDTH = 40;
+const CATEGORY_LABEL_WIDTH = 64;
+const DOT_RADIUS = 4;
+const MAX_BUBBLE_RADIUS = 24;
+const BAR_GAP = 0.1;
+const NPS_GAUGE_ANGLE = 220;
+const IMAGE_LOAD_TIMEOUT = 10_000;
+
+// Roughly the average width of a character, relative to the font size,
+// used to lay out the legend without measuring any text
+const CHARACTER_WIDTH = 0.6;
+
+/**
+ * A visualized item of the chart, positioned in percent of the plot area
+ */
+export interface ChartImageMark {
+    /**
+     * The resolved color of the item
+     */
+    color: string;
+
+    /**
+     * Position of the item along the category axis
+     */
+    index: number;
+
+    /**
+     * Position of the series of the item, among the visible series
+     */
+    group: number;
+
+    /**
+     * Start of the item on the value axis
+     */
+    offset: number;
+
+    /**
+     * Length of the item on the value axis. Negative for negative values
+     */
+    size: number;
+
+    /**
+     * Size of the next item, for charts where items narrow down into
+     * the next one
+     */
+    nextSize?: number;
+
+    /**
+     * Position of the item on the secondary axis, when the chart has one
+     */
+    x?: number;
+
+    /**
+     * Scale of a bubble, between `0` and `1`
+     */
+    scale?: number;
+
+    /**
+     * `true` if the item has both a start and an end value
+     */
+    isRange?: boolean;
+}
+
+/**
+ * A labeled line on an axis, positioned in percent of the axis
+ */
+export interface ChartImageTick {
+    position: number;
+    label: string;
+}
+
+/**
+ * A reference line, or band, positioned in percent of the value axis
+ */
+export interface ChartImageReference {
+    offset: number;
+    size: number;
+    label: string;
+    color: string;
+}
+
+/**
+ * Everything needed to draw a chart as an image, with all values
+ * calculated and all colors resolved
+ */
+export interface ChartImage {
+    type: string;
+    orientation: 'landscape' | 'portrait';
+    width: number;
+    height: number;
+    title?: string;
+    marks: ChartImageMark[];
+
+    /**
+     * Number of positions on the category axis
+     */
+    numberOfCategories: number;
+
+    /**
+     * Number of visible series, or `1` when the chart has no series
+     */
+    numberOfGroups: number;
+    categoryLabels: string[];
+    valueTicks: ChartImageTick[];
+    xTicks: ChartImageTick[];
+
+    /**
+     * Position of the zero value on the value axis
+     */
+    baseline: number;
+    cellsPerColumn: number;
+    references: ChartImageReference[];
+    legend: Array<{ text: string; color: string }>;
+    colors: {
+        background?: string;
+        text: string;
+        axis: string;
+        track: string;
+        gauge: string[];
+    };
+}
+
+interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+type Mapper = (u: number, v: number) => [number, number];
+
+/**
+ * Create a standalone SVG document of a chart
+ *
+ * @param image - the chart to draw
+ * @returns the SVG document, as a string
+ */
+export function createChartSvg(image: ChartImage): string {
+    const { width, height, title, colors } = image;
+    const plot = getPlotArea(image);
+    const content = [
+        colors.background &&
+            `<rect width="${width}" height="${height}" fill="${escapeXml(colors.background)}"/>`,
+        title &&
+            `<title>${escapeXml(title)}</title>` +
+                text(width / 2, PADDING + FONT_SIZE, title, {
+                    'text-anchor': 'middle',
+                    'font-weight': '500',
+                }),
+        renderValueTicks(image, plot),
+        renderXTicks(image, plot),
+        renderCategoryLabels(image, plot),
+        renderMarks(image, plot),
+        renderReferences(image, plot),
+        renderLegend(image),
+    ];
+
+    return [
+        `<svg xmlns="${SVG_NAMESPACE}" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}"`,
+        ` font-family="sans-serif" font-size="${FONT_SIZE}" fill="${escapeXml(colors.text)}">`,
+        ...content.filter(Boolean),
+        '</svg>',
+    ].join('');
+}
+
+/**
+ * Loads images and creates canvases to draw them on
+ */
+export interface ImageRenderer {
+    /**
+     * Load an image, to be drawn on a canvas
+     */
+    loadImage: (src: string) => Promise<CanvasImageSource>;
+
+    /**
+     * Create a canvas of the given size, in image pixels
+     */
+    createCanvas: (width: number, height: number) => HTMLCanvasElement;
+}
+
+/**
+ * Loads images and creates canvases with the DOM of the browser
+ */
+export const browserImageRenderer: ImageRenderer = {
+    loadImage: loadImage,
+    createCanvas: createCanvas,
+};
+
+/**
+ * Draw an SVG document on a canvas, and export it as a PNG image
+ *
+ * @param svg - the SVG document
+ * @param width - width of the image, in CSS pixels
+ * @param height - height of the image, in CSS pixels
+ * @param scale - number of image pixels per CSS pixel
+ * @param renderer - loads the image and creates the canvas
+ * @returns the PNG image
+ */
+export async function createPng(
+    svg: string,
+    width: number,
+    height: number,
+    scale: number = 1,
+    renderer: ImageRenderer = browserImageRenderer
+): Promise<Blob> {
+    const image = await renderer.loadImage(
+        `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`
+    );
+    const canvas = renderer.createCanvas(
+        Math.round(width * scale),
+        Math.round(height * scale)
+    );
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+        throw new Error('Could not export the chart as PNG');
+    }
+
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0, width, height);
+
+    return new Promise((resolve, reject) => {
+        canvas.toBlob((blob) => {
+            if (!blob) {
+                reject(new Error('Could not export the chart as PNG'));
+
+                return;
+            }
+
+            resolve(blob);
+        }, 'image/png');
+    });
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+
+        // Some environments, like the DOM implementations used in tests,
+        // never load images, so give up instead of waiting forever
+        const timeout = setTimeout(
+            () => reject(new Error('Could not load the chart image')),
+            IMAGE_LOAD_TIMEOUT
+        );
+
+        image.addEventListener('load', () => {
+            clearTimeout(timeout);
+            resolve(image);
+        });
+        image.addEventListener('error', () => {
+            clearTimeout(timeout);
+            reject(new Error('Could not load the chart image'));
+        });
+        image.src = src;
+    });
+}
+
+function createCanvas(width: number, height: number): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+
+    return canvas;
+}
+
+/**
+ * Escape a string to be used as text, or as the value of an attribute,
+ * in an XML document
+ *
+ * @param value - the string to escape
+ * @returns the escaped string
+ */
+export function escapeXml(value: string): string {
+    const entities: Record<string, string> = {
+        '&': '&amp;',
+        '<': '&lt;',
+        '>': '&gt;',
+        '"': '&quot;',
+        "'": '&apos;',
+    };
+
+    return String(value).replaceAll(
+        /["&'<>]/g,
+        (character) => entities[character]
+    );
+}
+
+function getPlotArea(image: ChartImage): Rect {
+    const isPortrait = image.orientation === 'portrait';
+    const hasCategoryAxis =
+        image.categoryLabels.length > 0 || image.xTicks.length > 0;
+    const hasValueAxis = image.valueTicks.length > 0;
+    const hasLeftLabels = isPortrait ? hasCategoryAxis : hasValueAxis;
+    const hasBottomLabels = isPortrait ? hasValueAxis : hasCategoryAxis;
+
+    let left = PADDING;
+    if (hasLeftLabels) {
+        left += isPortrait ? CATEGORY_LABEL_WIDTH : AXIS_LABEL_WIDTH;
+    }
+
+    const top = PADDING + (image.title ? TITLE_HEIGHT : 0);
+    const bottom =
+        PADDING +
+        (hasBottomLabels ? AXIS_LABEL_HEIGHT : 0) +
+        (image.legend.length > 0 ? LEGEND_HEIGHT : 0);
+
+    return {
+        x: left,
+        y: top,
+        width: Math.max(image.width - left - PADDING, 0),
+        height: Math.max(image.height - top - bottom, 0),
+    };
+}
+
+/**
+ * Map a position along the category axis, `u`, and the value axis, `v`,
+ * both in percent, to a point in the plot area
+ *
+ * @param plot - the plot area
+ * @param orientation - the orientation of the chart
+ * @returns the mapping function
+ */
+function createMapper(
+    plot: Rect,
+    orientation: ChartImage['orientation']
+): Mapper {
+    if (orientation === 'portrait') {
+        return (u, v) => [
+            plot.x + (v / PERCENT) * plot.width,
+            plot.y + (u / PERCENT) * plot.height,
+        ];
+    }
+
+    return (u, v) => [
+        plot.x + (u / PERCENT) * plot.width,
+        plot.y + plot.height - (v / PERCENT) * plot.height,
+    ];
+}
+
+function renderValueTicks(image: ChartImage, plot: Rect): string {
+    const map = createMapper(plot, image.orientation);
+    const isPortrait = image.orientation === 'portrait';
+
+    return image.valueTicks
+        .map((tick) => {
+            const [x1, y1] = map(0, tick.position);
+            const [x2, y2] = map(PERCENT, tick.position);
+            const opacity = tick.position === image.baseline ? 0.6 : 0.2;
+            const label = isPortrait
+                ? text(x1, y2 + AXIS_LABEL_HEIGHT - PADDING / 2, tick.label, {
+                      'text-anchor': 'middle',
+                  })
+                : text(x1 - PADDING / 2, y1 + FONT_SIZE / 3, tick.label, {
+                      'text-anchor': 'end',
+                  });
+
+            return line(x1, y1, x2, y2, image.colors.axis, opacity) + label;
+        })
+        .join('');
+}
+
+function renderXTicks(image: ChartImage, plot: Rect): string {
+    const isPortrait = image.orientation === 'portrait';
+
+    return image.xTicks
+        .map((tick) => {
+            const ratio = tick.position / PERCENT;
+            if (isPortrait) {
+                const y = isScatter(image)
+                    ? plot.y + plot.height - ratio * plot.height
+                    : plot.y + ratio * plot.height;
+
+                return (
+                    line(plot.x, y, plot.x + plot.width, y, image.colors.axis) +
+                    text(plot.x - PADDING / 2, y + FONT_SIZE / 3, tick.label, {
+                        'text-anchor': 'end',
+                    })
+                );
+            }
+
+            const x = plot.x + ratio * plot.width;
+            const bottom = plot.y + plot.height;
+
+            return (
+                line(x, plot.y, x, bottom, image.colors.axis) +
+                text(x, bottom + AXIS_LABEL_HEIGHT - PADDING / 2, tick.label, {
+                    'text-anchor': 'middle',
+                })
+            );
+        })
+        .join('');
+}
+
+function renderCategoryLabels(image: ChartImage, plot: Rect): string {
+    const map = createMapper(plot, image.orientation);
+    const isPortrait = image.orientation === 'portrait';
+
+    return image.categoryLabels
+        .map((label, index) => {
+            const [x, y] = map(getCategoryPosition(image, index), 0);
+
+            return isPortrait
+                ? text(x - PADDING / 2, y + FONT_SIZE / 3, label, {
+                      'text-anchor': 'end',
+                  })
+                : text(x, y + AXIS_LABEL_HEIGHT - PADDING / 2, label, {
+                      'text-anchor': 'middle',
+                  });
+        })
+        .join('');
+}
+
+/**
+ * Get the position of a category on the category axis. The points of
+ * line and area charts are placed at the start of their category,
+ * and all other items in the middle of it.
+ *
+ * @param image - the chart
+ * @param index - the index of the category
+ * @returns the position, in percent of the axis
+ */
+function getCategoryPosition(image: ChartImage, index: number): number {
+    const slot = PERCENT / (image.numberOfCategories || 1);
+    if (image.type === 'line' || image.type === 'area') {
+        return index * slot;
+    }
+
+    return index * slot + slot / 2;
+}
+
+function renderMarks(image: ChartImage, plot: Rect): string {
+    const renderers: Record<string, (image: ChartImage, plot: Rect) => string> =
+        {
+            area: renderLines,
+            bar: renderBars,
+            bubble: renderScatter,
+            doughnut: renderPie,
+            dot: renderDots,
+            funnel: renderFunnel,
+            heatmap: renderHeatmap,
+            line: renderLines,
+            nps: renderGauge,
+            pie: renderPie,
+            ring: renderRings,
+            scatter: renderScatter,
+            'stacked-bar': renderBars,
+        };
+
+    return renderers[image.type]?.(image, plot) ?? '';
+}
+
+function renderReferences(image: ChartImage, plot: Rect): string {
+    let map = createMapper(plot, image.orientation);
+    if (isSingleStack(image)) {
+        // The values of the stack grow in the same direction as
+        // the category axis of other charts
+        const mapCategory = map;
+        map =
+            image.orientation === 'portrait'
+                ? (u, v) => mapCategory(PERCENT - v, u)
+                : (u, v) => mapCategory(v, u);
+    }
+
+    return image.references
+        .map((reference) => {
+            const start = reference.offset;
+            const end = reference.offset + reference.size;
+            const edges = reference.size === 0 ? [start] : [start, end];
+            const band =
+                reference.size === 0
+                    ? ''
+                    : polygon(
+                          [
+                              map(0, start),
+                              map(PERCENT, start),
+                              map(PERCENT, end),
+                              map(0, end),
+                          ],
+                          reference.color,
+                          0.12
+                      );
+            const lines = edges
+                .map((edge) => {
+                    const [x1, y1] = map(0, edge);
+                    const [x2, y2] = map(PERCENT, edge);
+
+                    return line(x1, y1, x2, y2, reference.color, 1, 1, true);
+                })
+                .join('');
+            const [x, y] = map(PERCENT, end);
+
+            return (
+                band +
+                lines +
+                text(x - PADDING / 2, y - PADDING / 2, reference.label, {
+                    'text-anchor': 'end',
+                    fill: reference.color,
+                    'font-size': `${FONT_SIZE - 2}`,
+                })
+            );
+        })
+        .join('');
+}
+
+function isSingleStack(image: ChartImage): boolean {
+    return image.type === 'stacked-bar' && image.numberOfCategories === 0;
+}
+
+function renderBars(image: ChartImage, plot: Rect): string {
+    const map = createMapper(plot, image.orientation);
+    if (isSingleStack(image)) {
+        return renderStack(image, plot);
+    }
+
+    const slot = PERCENT / (image.numberOfCategories || 1);
+    const gap = slot * BAR_GAP;
+    const groups = image.type === 'bar' ? image.numberOfGroups : 1;
+    const barSize = (slot - 2 * gap) / groups;
+
+    return image.marks
+        .map((mark) => {
+            const group = image.type === 'bar' ? mark.group : 0;
+            const start = mark.index * slot + gap + group * barSize;
+
+            return rect(
+                map,
+                start,
+                start + barSize,
+                mark.offset,
+                mark.offset + mark.size,
+                mark.color
+            );
+        })
+        .join('');
+}
+
+/**
+ * Draw the items of a `stacked-bar` chart without series, which fill
+ * the chart one after the other
+ *
+ * @param image - the chart
+ * @param plot - the plot area
+ * @returns the SVG elements
+ */
+function renderStack(image: ChartImage, plot: Rect): string {
+    const isPortrait = image.orientation === 'portrait';
+    let start = 0;
+
+    return image.marks
+        .map((mark) => {
+            const size = Math.abs(mark.size);
+            const element = isPortrait
+                ? `<rect x="${round(plot.x)}" y="${round(plot.y + plot.height * (1 - (start + size) / PERCENT))}"` +
+                  ` width="${round(plot.width)}" height="${round((plot.height * size) / PERCENT)}" fill="${escapeXml(mark.color)}"/>`
+                : `<rect x="${round(plot.x + (plot.width * start) / PERCENT)}" y="${round(plot.y)}"` +
+                  ` width="${round((plot.width * size) / PERCENT)}" height="${round(plot.height)}" fill="${escapeXml(mark.color)}"/>`;
+            start += size;
+
+            return element;
+        })
+        .join('');
+}
+
+function renderDots(image: ChartImage, plot: Rect): string {
+    const map = createMapper(plot, image.orientation);
+
+    return image.marks
+        .map((mark) => {
+            const u = mark.x ?? getCategoryPosition(image, mark.index);
+            const dots = [map(u, mark.offset + mark.size)];
+            if (mark.isRange) {
+                dots.push(map(u, mark.offset));
+            }
+
+            return dots
+                .map(([x, y]) => circle(x, y, DOT_RADIUS, mark.color))
+                .join('');
+        })
+        .join('');
+}
+
+function renderLines(image: ChartImage, plot: Rect): string {
+    const map = createMapper(plot, image.orientation);
+    const groups = new Map<number, ChartImageMark[]>();
+    for (const mark of image.marks) {
+        groups.set(mark.group, [...(groups.get(mark.group) ?? []), mark]);
+    }
+
+    return [...groups.values()]
+        .map((marks) => {
+            const points = marks.map((mark) =>
+                map(
+                    mark.x ?? getCategoryPosition(image, mark.index),
+                    mark.offset + mark.size
+                )
+            );
+            const color = escapeXml(marks[0].color);
+            const path = points
+                .map(([x, y]) => `${round(x)},${round(y)}`)
+                .join(' ');
+            const dots = points
+                .map(([x, y], index) =>
+                    circle(x, y, DOT_RADIUS, marks[index].color)
+                )
+                .join('');
+
+            if (image.type === 'area') {
+                const first = marks[0].x ?? getCategoryPosition(image, 0);
+                const last =
+                    marks.at(-1).x ??
+                    getCategoryPosition(image, marks.at(-1).index);
+                const [x1, y1] = map(first, image.baseline);
+                const [x2, y2] = map(last, image.baseline);
+
+                return (
+                    `<polygon points="${round(x1)},${round(y1)} ${path} ${round(x2)},${round(y2)}"` +
+                    ` fill="${color}" fill-opacity="0.5"/>` +
+                    dots
+                );
+            }
+
+            return (
+                `<polyline points="${path}" fill="none" stroke="${color}" stroke-width="2"/>` +
+                dots
+            );
+        })
+        .join('');
+}
+
+function renderScatter(image: ChartImage, plot: Rect): string {
+    const map = createMapper(plot, image.orientation);
+    const isPortrait = image.orientation === 'portrait';
+
+    return image.marks
+        .map((mark) => {
+            // The `x` axis of a portrait scatter chart goes upwards
+            const u = isPortrait ? PERCENT - (mark.x ?? 0) : (mark.x ?? 0);
+            const [x, y] = map(u, mark.offset + mark.size);
+            const radius = DOT_RADIUS + (mark.scale ?? 0) * MAX_BUBBLE_RADIUS;
+
+            return circle(x, y, radius, mark.color, 0.8);
+        })
+        .join('');
+}
+
+function renderFunnel(image: ChartImage, plot: Rect): string {
+    // Funnels narrow down from top to bottom in landscape, and from
+    // left to right in portrait, which is the other way around compared to
+    // the category axis of other charts
+    const map = createMapper(
+        plot,
+        image.orientation === 'portrait' ? 'landscape' : 'portrait'
+    );
+    const slot = PERCENT / (image.numberOfCategories || 1);
+    const center = PERCENT / 2;
+
+    return image.marks
+        .map((mark) => {
+            const start = mark.index * slot;
+            const end = start + slot;
+            const nextSize = mark.nextSize ?? mark.size;
+            const points = [
+                map(start, center - mark.size / 2),
+                map(start, center + mark.size / 2),
+                map(end, center + nextSize / 2),
+                map(end, center - nextSize / 2),
+            ];
+
+            return polygon(points, mark.color);
+        })
+        .join('');
+}
+
+function renderHeatmap(image: ChartImage, plot: Rect): string {
+    const cellsPerColumn = Math.max(image.cellsPerColumn, 1);
+    const columns = Math.ceil(image.marks.length / cellsPerColumn) || 1;
+    const isPortrait = image.orientation === 'portrait';
+    const across = isPortrait ? cellsPerColumn : columns;
+    const down = isPortrait ? columns : cellsPerColumn;
+    const gap = 2;
+    const cellWidth = (plot.width - (across - 1) * gap) / across;
+    const cellHeight = (plot.height - (down - 1) * gap) / down;
+
+    return image.marks
+        .map((mark, index) => {
+            const column = Math.floor(index / cellsPerColumn);
+            const row = index % cellsPerColumn;
+            const [x, y] = isPortrait ? [row, column] : [column, row];
+            const opacity = 0.08 + mark.size * 0.0092;
+
+            return (
+                `<rect x="${round(plot.x + x * (cellWidth + gap))}" y="${round(plot.y + y * (cellHeight + gap))}"` +
+                ` width="${round(cellWidth)}" height="${round(cellHeight)}" rx="2"` +
+                ` fill="${escapeXml(mark.color)}" fill-opacity="${round(opacity)}"/>`
+            );
+        })
+        .join('');
+}
+
+function renderPie(image: ChartImage, plot: Rect): string {
+    const radius = Math.min(plot.width, plot.height) / 2;
+    const cx = plot.x + plot.width / 2;
+    const cy = plot.y + plot.height / 2;
+    const innerRadius = image.type === 'doughnut' ? radius / 2 : 0;
+
+    return image.marks
+        .map((mark) =>
+            sector(
+                cx,
+                cy,
+                radius,
+                innerRadius,
+                (mark.offset / PERCENT) * FULL_CIRCLE,
+                ((mark.offset + mark.size) / PERCENT) * FULL_CIRCLE,
+                mark.color
+            )
+        )
+        .join('');
+}
+
+function renderRings(image: ChartImage, plot: Rect): string {
+    const radius = Math.min(plot.width, plot.height) / 2;
+    const cx = plot.x + plot.width / 2;
+    const cy = plot.y + plot.height / 2;
+    const thickness = radius / (image.marks.length + 1);
+
+    return image.marks
+        .map((mark, index) => {
+            const outer = radius - index * thickness;
+            const inner = outer - thickness;
+            const end = ((mark.offset + mark.size) / PERCENT) * FULL_CIRCLE;
+
+            return (
+                sector(
+                    cx,
+                    cy,
+                    outer,
+                    inner,
+                    0,
+                    FULL_CIRCLE,
+                    image.colors.track
+                ) + sector(cx, cy, outer, inner, 0, end, mark.color)
+            );
+        })
+        .join('');
+}
+
+function renderGauge(image: ChartImage, plot: Rect): string {
+    const radius = Math.min(plot.width / 2, plot.height / 2);
+    const cx = plot.x + plot.width / 2;
+    const cy = plot.y + plot.height / 2;
+    const start = -NPS_GAUGE_ANGLE / 2;
+    const zones = [0, 0.5, 0.65, 0.85, 1];
+    const needles = image.marks.map((mark) => {
+        const angle = start + (mark.size / PERCENT) * NPS_GAUGE_ANGLE;
+        const [x, y] = polar(cx, cy, radius * 0.75, angle);
+
+        return line(cx, cy, x, y, mark.color, 1, 3);
+    });
+
+    return [
+        ...image.colors.gauge.map((color, index) =>
+            sector(
+                cx,
+                cy,
+                radius,
+                radius * 0.8,
+                start + zones[index] * NPS_GAUGE_ANGLE,
+                start + zones[index + 1] * NPS_GAUGE_ANGLE,
+                color
+            )
+        ),
+        ...needles,
+        circle(cx, cy, DOT_RADIUS, image.colors.text),
+    ].join('');
+}
+
+function renderLegend(image: ChartImage): string {
+    if (image.legend.length === 0) {
+        return '';
+    }
+
+    const swatch = FONT_SIZE * 0.8;
+    const spacing = FONT_SIZE;
+    const widths = image.legend.map(
+        (entry) =>
+            swatch +
+            spacing / 2 +
+            entry.text.length * FONT_SIZE * CHARACTER_WIDTH
+    );
+    const totalWidth =
+        widths.reduce((sum, width) => sum + width, 0) +
+        spacing * (widths.length - 1);
+    const y = image.height - PADDING - LEGEND_HEIGHT / 2;
+    let x = Math.max((image.width - totalWidth) / 2, PADDING);
+
+    return image.legend
+        .map((entry, index) => {
+            const element =
+                circle(x + swatch / 2, y, swatch / 2, entry.color) +
+                text(x + swatch + spacing / 2, y + FONT_SIZE / 3, entry.text);
+            x += widths[index] + spacing;
+
+            return element;
+        })
+        .join('');
+}
+
+function isScatter(image: ChartImage): boolean {
+    return image.type === 'scatter' || image.type === 'bubble';
+}
+
+function polar(
+    cx: number,
+    cy: number,
+    radius: number,
+    angle: number
+): [number, number] {
+    const radians = (angle * Math.PI) / (FULL_CIRCLE / 2);
+
+    return [cx + radius * Math.sin(radians), cy - radius * Math.cos(radians)];
+}
+
+/**
+ * Draw a slice of a circle, or of a ring when `innerRadius` is given.
+ * Angles are in degrees, clockwise from the top.
+ *
+ * @param cx - horizontal center of the circle
+ * @param cy - vertical center of the circle
+ * @param radius - outer radius
+ * @param innerRadius - inner radius, or `0` for a slice of a pie
+ * @param start - angle where the slice starts
+ * @param end - angle where the slice ends
+ * @param color - fill color of the slice
+ * @returns the SVG element
+ */
+function sector(
+    cx: number,
+    cy: number,
+    radius: number,
+    innerRadius: number,
+    start: number,
+    end: number,
+    color: string
+): string {
+    // An arc can not start and end at the same point
+    const sweep = Math.min(end - start, FULL_CIRCLE - 0.01);
+    if (sweep <= 0) {
+        return '';
+    }
+
+    const largeArc = sweep > FULL_CIRCLE / 2 ? 1 : 0;
+    const [x1, y1] = polar(cx, cy, radius, start);
+    const [x2, y2] = polar(cx, cy, radius, start + sweep);
+    const path = [`M${round(x1)} ${round(y1)}`];
+    path.push(
+        `A${round(radius)} ${round(radius)} 0 ${largeArc} 1 ${round(x2)} ${round(y2)}`
+    );
+
+    if (innerRadius > 0) {
+        const [x3, y3] = polar(cx, cy, innerRadius, start + sweep);
+        const [x4, y4] = polar(cx, cy, innerRadius, start);
+        path.push(
+            `L${round(x3)} ${round(y3)}`,
+            `A${round(innerRadius)} ${round(innerRadius)} 0 ${largeArc} 0 ${round(x4)} ${round(y4)}`
+        );
+    } else {
+        path.push(`L${round(cx)} ${round(cy)}`);
+    }
+
+    return `<path d="${path.join(' ')}Z" fill="${escapeXml(color)}"/>`;
+}
+
+function rect(
+    map: Mapper,
+    u1: number,
+    u2: number,
+    v1: number,
+    v2: number,
+    color: string
+): string {
+    const [xa, ya] = map(u1, v1);
+    const [xb, yb] = map(u2, v2);
+
+    return (
+        `<rect x="${round(Math.min(xa, xb))}" y="${round(Math.min(ya, yb))}"` +
+        ` width="${round(Math.abs(xb - xa))}" height="${round(Math.abs(yb - ya))}"` +
+        ` rx="2" fill="${escapeXml(color)}"/>`
+    );
+}
+
+function polygon(
+    points: Array<[number, number]>,
+    color: string,
+    opacity: number = 1
+): string {
+    const coordinates = points
+        .map(([x, y]) => `${round(x)},${round(y)}`)
+        .join(' ');
+    const fillOpacity = opacity === 1 ? '' : ` fill-opacity="${opacity}"`;
+
+    return `<polygon points="${coordinates}" fill="${escapeXml(color)}"${fillOpacity}/>`;
+}
+
+function circle(
+    cx: number,
+    cy: number,
+    radius: number,
+    color: string,
+    opacity: number = 1
+): string {
+    const fillOpacity = opacity === 1 ? '' : ` fill-opacity="${opacity}"`;
+
+    return `<circle cx="${round(cx)}" cy="${round(cy)}" r="${round(radius)}" fill="${escapeXml(color)}"${fillOpacity}/>`;
+}
+
+function line(
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    color: string,
+    opacity: number = 0.2,
+    width: number = 1,
+    isDashed: boolean = false
+): string {
+    const dashes = isDashed ? ' stroke-dasharray="4 3"' : '';
+
+    return (
+        `<line x1="${round(x1)}" y1="${round(y1)}" x2="${round(x2)}" y2="${round(y2)}"` +
+        ` stroke="${escapeXml(color)}" stroke-opacity="${opacity}" stroke-width="${width}"${dashes}/>`
+    );
+}
+
+function text(
+    x: number,
+    y: number,
+    content: string,
+    attributes: Record<string, string> = {}
+): string {
+    const extra = Object.entries(attributes)
+        .map(([name, value]) => ` ${name}="${escapeXml(value)}"`)
+        .join('');
+
+    return `<text x="${round(x)}" y="${round(y)}"${extra}>${escapeXml(content)}</text>`;
+}
+
+function round(value: number): number {
+    return Math.round(value * PERCENT) / PERCENT;
+}
@@ -0,0 +1,84 @@
+import { ChartSeries } from './chart.types';
+import {
+    findSeriesItem,
+    getCategories,
+    getStackedTotals,
+    getStackedValue,
+} from './series';
+
+describe('series', () => {
+    let series: ChartSeries[];
+
+    beforeEach(() => {
+        series = [
+            {
+                text: 'This year',
+                items: [
+                    { text: 'Jan', value: 10 },
+                    { text: 'Feb', value: -4 },
+                ],
+            },
+            {
+                text: 'Last year',
+                items: [
+                    { text: 'Jan', value: 5 },
+                    { text: 'Mar', value: 7 },
+                    { text: 'Feb', value: -2 },
+                ],
+            },
+            {
+                text: 'Budget',
+                items: [
+                    { text: 'Jan', value: -3 },
+                    { text: 'Feb', value: 6 },
+                ],
+            },
+        ];
+    });
+
+    describe('getCategories', () => {
+        it('returns the distinct categories in the order they appear', () => {
+            expect(getCategories(series)).toEqual(['Jan', 'Feb', 'Mar']);
+        });
+
+        it('returns an empty list when there are no series', () => {
+            expect(getCategories()).toEqual([]);
+        });
+    });
+
+    describe('findSeriesItem', () => {
+        it('returns the item of the category', () => {
+            expect(findSeriesItem(series[1], 'Mar')).toEqual({
+                text: 'Mar',
+                value: 7,
+            });
+        });
+
+        it('returns undefined when the series has no item in the category', () => {
+            expect(findSeriesItem(series[0], 'Mar')).toBeUndefined();
+        });
+    });
+
+    describe('getStackedValue', () => {
+        it('stacks positive values on top of each other', () => {
+            expect(getStackedValue(series, 0, 'Jan')).toEqual([0, 10]);
+            expect(getStackedValue(series, 1, 'Jan')).toEqual([10, 15]);
+        });
+
+        it('stacks negative values below zero', () => {
+            expect(getStackedValue(series, 2, 'Jan')).toEqual([0, -3]);
+            expect(getStackedValue(series, 1, 'Feb')).toEqual([-4, -6]);
+            expect(getStackedValue(series, 2, 'Feb')).toEqual([0, 6]);
+        });
+    });
+
+    describe('getStackedTotals', () => {
+        it('returns the negative and positive sums of each category', () => {
+            expect(getStackedTotals(series, ['Jan', 'Feb', 'Mar'])).toEqual([
+                { text: 'Jan', value: [-3, 15] },
+                { text: 'Feb', value: [-6, 6] },
+                { text: 'Mar', value: [0, 7] },
+            ]);
+        });
+    });
+});
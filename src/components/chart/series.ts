@@ -0,0 +1,97 @@
+import { ChartItem, ChartSeries } from './chart.types';
+
+/**
+ * The chart types that can visualize a list of series
+ */
+export const SERIES_CHART_TYPES = ['area', 'bar', 'line', 'stacked-bar'];
+
+/**
+ * Get the categories shared by the series, i.e. the distinct `text` of
+ * their items, in the order they first appear
+ *
+ * @param series - the series in the chart
+ * @returns the categories
+ */
+export function getCategories(series: ChartSeries[] = []): string[] {
+    const categories = new Set<string>();
+    for (const { items = [] } of series) {
+        for (const item of items) {
+            categories.add(item.text);
+        }
+    }
+
+    return [...categories];
+}
+
+/**
+ * Find the item of a series that belongs to the given category
+ *
+ * @param series - the series to search
+ * @param category - the category of the item
+ * @returns the item, or `undefined` if the series has no value in the category
+ */
+export function findSeriesItem(
+    series: ChartSeries,
+    category: string
+): ChartItem<number> | undefined {
+    return series.items?.find((item) => item.text === category);
+}
+
+/**
+ * Get the start and end values of an item when the series are stacked
+ * on top of each other.
+ *
+ * Positive values are stacked upwards from zero, and negative values
+ * downwards, in the order of the series.
+ *
+ * @param series - the series in the chart, in the order they are stacked
+ * @param seriesIndex - the index of the series of the item
+ * @param category - the category of the item
+ * @returns the start and end values of the item in the stack
+ */
+export function getStackedValue(
+    series: ChartSeries[],
+    seriesIndex: number,
+    category: string
+): [number, number] {
+    const value = findSeriesItem(series[seriesIndex], category)?.value ?? 0;
+    let start = 0;
+
+    for (const other of series.slice(0, seriesIndex)) {
+        const otherValue = findSeriesItem(other, category)?.value ?? 0;
+        if (Math.sign(otherValue) === Math.sign(value)) {
+            start += otherValue;
+        }
+    }
+
+    return [start, start + value];
+}
+
+/**
+ * Get the sum of all negative values, and the sum of all positive values,
+ * of each category when the series are stacked on top of each other
+ *
+ * @param series - the series in the chart
+ * @param categories - the categories shared by the series
+ * @returns one item for each category, with the range of its stack as value
+ */
+export function getStackedTotals(
+    series: ChartSeries[],
+    categories: string[]
+): Array<ChartItem<[number, number]>> {
+    return categories.map((category) => {
+        const values = series.map(
+            (item) => findSeriesItem(item, category)?.value ?? 0
+        );
+        const sum = (numbers: number[]) =>
+            numbers.reduce((total, value) => total + value, 0);
+
+        return {
+            text: category,
+            value: [
+                sum(values.filter((value) => value < 0)),
+                sum(values.filter((value) => value > 0)),
+            ],
+        };
+    });
+}
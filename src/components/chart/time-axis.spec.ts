@@ -0,0 +1,91 @@
+import { getTime, getTimeTicks, getTimeUnit } from './time-axis';
+
+describe('getTime', () => {
+    it('returns the time of a date', () => {
+        const date = new Date(2024, 0, 1);
+
+        expect(getTime(date)).toEqual(date.getTime());
+    });
+
+    it('returns numbers as they are', () => {
+        expect(getTime(42)).toEqual(42);
+    });
+});
+
+describe('getTimeUnit', () => {
+    const start = new Date(2024, 0, 1);
+    const after = (days: number) => new Date(2024, 0, 1 + days);
+
+    it('picks a unit that gives at most ten ticks', () => {
+        expect(getTimeUnit(start, after(6))).toEqual('day');
+        expect(getTimeUnit(start, after(45))).toEqual('week');
+        expect(getTimeUnit(start, after(200))).toEqual('month');
+        expect(getTimeUnit(start, after(700))).toEqual('quarter');
+        expect(getTimeUnit(start, after(3000))).toEqual('year');
+    });
+
+    it('picks a unit for the given number of ticks', () => {
+        expect(getTimeUnit(start, after(45), 50)).toEqual('day');
+    });
+});
+
+describe('getTimeTicks', () => {
+    const labels = (start: Date, end: Date, language: any = 'en') =>
+        getTimeTicks(start, end, language).map((tick) => tick.label);
+
+    it('places ticks at the start of each day', () => {
+        const ticks = getTimeTicks(
+            new Date(2024, 0, 1, 12),
+            new Date(2024, 0, 4)
+        );
+
+        expect(ticks.map((tick) => tick.value)).toEqual([
+            new Date(2024, 0, 2),
+            new Date(2024, 0, 3),
+            new Date(2024, 0, 4),
+        ]);
+    });
+
+    it('places ticks on the Monday of each week', () => {
+        const ticks = getTimeTicks(new Date(2024, 0, 3), new Date(2024, 1, 1));
+
+        expect(ticks.map((tick) => tick.value.getDay())).toEqual([1, 1, 1, 1]);
+        expect(ticks[0].value).toEqual(new Date(2024, 0, 8));
+    });
+
+    it('labels months in the given language', () => {
+        expect(labels(new Date(2024, 0, 1), new Date(2024, 3, 15))).toEqual([
+            'Jan 24',
+            'Feb 24',
+            'Mar 24',
+            'Apr 24',
+        ]);
+        expect(
+            labels(new Date(2024, 0, 1), new Date(2024, 2, 15), 'de')
+        ).toEqual(['Jan. 24', 'Feb. 24', 'März 24']);
+    });
+
+    it('labels quarters', () => {
+        expect(labels(new Date(2023, 10, 1), new Date(2025, 0, 1))).toEqual([
+            'Q1 2024',
+            'Q2 2024',
+            'Q3 2024',
+            'Q4 2024',
+            'Q1 2025',
+        ]);
+    });
+
+    it('labels years', () => {
+        expect(labels(new Date(2015, 5, 1), new Date(2024, 5, 1))).toEqual([
+            '2016',
+            '2017',
+            '2018',
+            '2019',
+            '2020',
+            '2021',
+            '2022',
+            '2023',
+            '2024',
+        ]);
+    });
+});
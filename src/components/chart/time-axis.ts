@@ -0,0 +1,170 @@
+import translate from '../../global/translations';
+import { Languages } from '../date-picker/date.types';
+
+const DEFAULT_MAX_TICKS = 10;
+const DAY = 24 * 60 * 60 * 1000;
+const MONTHS_PER_QUARTER = 3;
+const MONTHS_PER_YEAR = 12;
+
+/**
+ * The unit of time between the ticks of a time axis
+ */
+export type TimeUnit = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+/**
+ * A tick on a time axis
+ */
+export interface TimeTick {
+    value: Date;
+    label: string;
+}
+
+const APPROXIMATE_LENGTH: Record<TimeUnit, number> = {
+    day: DAY,
+    week: 7 * DAY,
+    month: 30 * DAY,
+    quarter: 91 * DAY,
+    year: 365 * DAY,
+};
+
+const UNITS: TimeUnit[] = ['day', 'week', 'month', 'quarter', 'year'];
+
+/**
+ * Get the value of a point on a time axis
+ *
+ * @param value - a date, or a number of milliseconds since the epoch
+ * @returns the number of milliseconds since the epoch
+ */
+export function getTime(value: number | Date): number {
+    return value instanceof Date ? value.getTime() : Number(value ?? 0);
+}
+
+/**
+ * Pick the smallest unit of time that splits the given period into
+ * at most the given number of ticks
+ *
+ * @param start - the start of the period
+ * @param end - the end of the period
+ * @param maxTicks - the maximum number of ticks
+ * @returns the unit of time between the ticks
+ */
+export function getTimeUnit(
+    start: Date,
+    end: Date,
+    maxTicks: number = DEFAULT_MAX_TICKS
+): TimeUnit {
+    const period = end.getTime() - start.getTime();
+
+    return (
+        UNITS.find((unit) => period / APPROXIMATE_LENGTH[unit] <= maxTicks) ??
+        'year'
+    );
+}
+
+/**
+ * Get the ticks of a time axis for the given period. The ticks are placed
+ * at the start of each day, week, month, quarter or year, depending on
+ * the length of the period, and are labeled in the given language.
+ *
+ * @param start - the start of the period
+ * @param end - the end of the period
+ * @param language - the language to use for the labels
+ * @param maxTicks - the maximum number of ticks
+ * @returns the ticks within the period
+ */
+export function getTimeTicks(
+    start: Date,
+    end: Date,
+    language: Languages = 'en',
+    maxTicks: number = DEFAULT_MAX_TICKS
+): TimeTick[] {
+    const unit = getTimeUnit(start, end, maxTicks);
+    const step =
+        unit === 'year'
+            ? Math.max(
+                  Math.ceil(
+                      (end.getFullYear() - start.getFullYear()) / maxTicks
+                  ),
+                  1
+              )
+            : 1;
+    const ticks: TimeTick[] = [];
+
+    let value = startOf(start, unit);
+    while (value <= end) {
+        if (value >= start) {
+            ticks.push({
+                value: value,
+                label: formatTick(value, unit, language),
+            });
+        }
+
+        value = addUnit(value, unit, step);
+    }
+
+    return ticks;
+}
+
+function startOf(date: Date, unit: TimeUnit): Date {
+    const result = new Date(date);
+    result.setHours(0, 0, 0, 0);
+
+    if (unit === 'week') {
+        // Weeks start on Monday
+        const daysSinceMonday = (result.getDay() + 6) % 7;
+        result.setDate(result.getDate() - daysSinceMonday);
+    }
+
+    if (unit === 'month' || unit === 'quarter' || unit === 'year') {
+        result.setDate(1);
+    }
+
+    if (unit === 'quarter') {
+        const month = result.getMonth();
+        result.setMonth(month - (month % MONTHS_PER_QUARTER));
+    }
+
+    if (unit === 'year') {
+        result.setMonth(0);
+    }
+
+    return result;
+}
+
+function addUnit(date: Date, unit: TimeUnit, step: number): Date {
+    const result = new Date(date);
+    const months: Partial<Record<TimeUnit, number>> = {
+        month: 1,
+        quarter: MONTHS_PER_QUARTER,
+        year: MONTHS_PER_YEAR,
+    };
+
+    if (unit === 'day' || unit === 'week') {
+        result.setDate(result.getDate() + (unit === 'week' ? 7 : 1) * step);
+    } else {
+        result.setMonth(result.getMonth() + months[unit] * step);
+    }
+
+    return result;
+}
+
+function formatTick(date: Date, unit: TimeUnit, language: Languages): string {
+    if (unit === 'quarter') {
+        return translate.get('chart.quarter', language, {
+            quarter: Math.floor(date.getMonth() / MONTHS_PER_QUARTER) + 1,
+            year: date.getFullYear(),
+        });
+    }
+
+    const options: Record<
+        Exclude<TimeUnit, 'quarter'>,
+        Intl.DateTimeFormatOptions
+    > = {
+        day: { day: 'numeric', month: 'short' },
+        week: { day: 'numeric', month: 'short' },
+        month: { month: 'short', year: '2-digit' },
+        year: { year: 'numeric' },
+    };
+
+    return new Intl.DateTimeFormat(language, options[unit]).format(date);
+}
@@ -8,32 +8,106 @@ import {
     State,
     Watch,
     Host,
+    Method,
 } from '@stencil/core';
 import { createRandomString } from '../../util/random-string';
-import { ColorScheme, Language } from './code-editor.types';
+import {
+    CodeCompletion,
+    CodeCompletionProvider,
+    CodeDiagnostic,
+    CodeSearchOptions,
+    CodeSelection,
+    ColorScheme,
+    DiffLayout,
+    Language,
+} from './code-editor.types';
 import CodeMirror from 'codemirror';
 import 'codemirror/mode/css/css';
 import 'codemirror/mode/htmlmixed/htmlmixed';
 import 'codemirror/mode/javascript/javascript';
 import 'codemirror/mode/jinja2/jinja2';
+import 'codemirror/mode/markdown/markdown';
+import 'codemirror/mode/python/python';
+import 'codemirror/mode/sql/sql';
+import 'codemirror/mode/xml/xml';
+import 'codemirror/mode/yaml/yaml';
 import 'codemirror/addon/selection/active-line';
 import 'codemirror/addon/edit/matchbrackets';
 import 'codemirror/addon/edit/matchtags';
 import 'codemirror/addon/lint/lint';
 import 'codemirror/addon/lint/json-lint';
+import 'codemirror/addon/lint/yaml-lint';
 import 'codemirror/addon/fold/foldgutter';
 import 'codemirror/addon/fold/brace-fold';
 import 'codemirror/addon/fold/xml-fold';
+import 'codemirror/addon/fold/indent-fold';
+import 'codemirror/addon/fold/markdown-fold';
+import 'codemirror/addon/hint/show-hint';
+import 'codemirror/addon/merge/merge';
+import { Annotation } from 'codemirror/addon/lint/lint';
+import { MergeView } from 'codemirror/addon/merge/merge';
 import jslint from 'jsonlint-mod';
+import jsyaml from 'js-yaml';
 import translate from '../../global/translations';
 import { Languages } from '../date-picker/date.types';
+import { FormSchema } from '../form/form.types';
+import {
+    findKeyAt,
+    getJsonContext,
+    JsonLocation,
+    parseJsonLocations,
+} from './json-locations';
+import {
+    createJsonValidator,
+    getSchemaCompletions,
+    getSchemaDescription,
+    JsonValidator,
+} from './json-schema';
+import {
+    createAnnotation,
+    fromPos,
+    getLinter,
+    getWordRange,
+    registerDiffMatchPatch,
+    renderHint,
+    toPos,
+} from './code-mirror';
+import {
+    acceptHunk,
+    createUnifiedDiff,
+    DiffHunk,
+    getDiffHunks,
+    revertHunk,
+    UnifiedDiff,
+} from './diff';
+import {
+    createSearchQuery,
+    findMatches,
+    findNextMatch,
+    getReplacement,
+    replaceMatches,
+} from './search';
+import { isEqual } from 'lodash-es';
 
 type CopyState = 'idle' | 'success' | 'failed';
 
+const SCROLL_MARGIN = 40;
+
+// The lint addons of CodeMirror expect the linters to be available globally
+const LINTERS: Partial<Record<Language, { name: string; linter: unknown }>> = {
+    json: { name: 'jsonlint', linter: jslint },
+    yaml: { name: 'jsyaml', linter: jsyaml },
+};
+
 /**
  * @exampleComponent limel-example-code-editor
  * @exampleComponent limel-example-code-editor-readonly-with-line-numbers
  * @exampleComponent limel-example-code-editor-fold-lint-wrap
+ * @exampleComponent limel-example-code-editor-json-schema
+ * @exampleComponent limel-example-code-editor-completions
+ * @exampleComponent limel-example-code-editor-diff
+ * @exampleComponent limel-example-code-editor-methods
+ * @exampleComponent limel-example-code-editor-languages
  * @exampleComponent limel-example-code-editor-copy
  * @exampleComponent limel-example-code-editor-composite
  */
@@ -116,11 +190,66 @@ export class CodeEditor {
     public fold = false;
 
     /**
-     * Enables linting of JSON content
+     * Enables linting of JSON and YAML content
      */
     @Prop({ reflect: true })
     public lint = false;
 
+    /**
+     * A JSON Schema that JSON code is expected to follow.
+     * Keys and values from the schema are suggested while typing,
+     * or when pressing `Ctrl-Space`, and the `title` and `description`
+     * of a key are displayed when hovering it.
+     * Code that does not follow the schema is marked in the editor,
+     * and makes the editor invalid.
+     *
+     * Only used when `language` is `json`.
+     * @beta
+     */
+    @Prop()
+    public jsonSchema?: FormSchema;
+
+    /**
+     * A function that returns suggestions for what to write at the cursor.
+     * It is called while typing, or when pressing `Ctrl-Space`,
+     * with the code, the position of the cursor, and the language.
+     * Suggestions that do not start with what has been written
+     * at the cursor are not displayed.
+     * @beta
+     */
+    @Prop()
+    public completions?: CodeCompletionProvider;
+
+    /**
+     * Problems in the code to mark in the editor, such as errors
+     * found by the application. They are displayed as underlines
+     * and as markers in the gutter, along with the problems
+     * found by `lint`.
+     * @beta
+     */
+    @Prop()
+    public diagnostics?: CodeDiagnostic[];
+
+    /**
+     * The original version of the code. When set, the editor shows what
+     * has changed from `originalValue` to `value`. Each change can be
+     * accepted or reverted, unless the editor is `readonly` or `disabled`.
+     * @beta
+     */
+    @Prop()
+    public originalValue?: string;
+
+    /**
+     * How the changes are displayed when `originalValue` is set.
+     * `side-by-side` displays the original code next to the code,
+     * and `unified` displays the removed lines above the added lines.
+     * In the `unified` layout, the code can only be changed by accepting
+     * or reverting changes.
+     * @beta
+     */
+    @Prop({ reflect: true })
+    public diffLayout: DiffLayout = 'side-by-side';
+
     /**
      * Select color scheme for the editor
      */
@@ -147,6 +276,22 @@ export class CodeEditor {
     @Event()
     public change: EventEmitter<string>;
 
+    /**
+     * Emitted when JSON code has been checked against the `jsonSchema`,
+     * with the problems that were found, if any
+     * @beta
+     */
+    @Event()
+    public diagnosticsChange: EventEmitter<CodeDiagnostic[]>;
+
+    /**
+     * Emitted when a change is accepted, with the original code
+     * that now includes the change
+     * @beta
+     */
+    @Event()
+    public originalValueChange: EventEmitter<string>;
+
     @Element()
     private host: HTMLLimelCodeEditorElement;
 
@@ -160,16 +305,54 @@ export class CodeEditor {
     @State()
     private wasCopied: CopyState = 'idle';
 
+    @State()
+    private hasSchemaErrors = false;
+
+    @State()
+    private isSearchOpen = false;
+
+    @State()
+    private searchQuery = '';
+
+    @State()
+    private replacement = '';
+
+    @State()
+    private searchOptions: CodeSearchOptions = {};
+
+    @State()
+    private searchMatches: CodeSelection[] = [];
+
+    @State()
+    private currentMatch = -1;
+
     private editor: CodeMirror.Editor;
     private observer: ResizeObserver;
     private labelId: string;
     private helperTextId: string;
+    private validateJson: JsonValidator;
+    private schemaTooltip: HTMLElement;
+    private schemaDiagnostics: CodeDiagnostic[] = [];
+    private jsonLocations: JsonLocation[];
+    private mergeView: MergeView;
+    private original: string;
+    private unifiedValue: string;
+    private unifiedDiff: UnifiedDiff;
+    private hunkWidgets: CodeMirror.LineWidget[] = [];
+    private searchMarks: CodeMirror.TextMarker[] = [];
+    private searchInput: HTMLLimelInputFieldElement;
+    private shouldFocusSearch = false;
+    private completionRequest = 0;
 
     public constructor() {
         this.labelId = createRandomString();
         this.helperTextId = createRandomString();
     }
 
+    public componentWillLoad() {
+        this.createJsonValidator();
+    }
+
     public connectedCallback() {
         this.observer = new ResizeObserver(this.handleResize) as any;
         this.observer.observe(this.host);
@@ -179,19 +362,17 @@ export class CodeEditor {
 
     public disconnectedCallback() {
         this.observer.unobserve(this.host);
-        this.editor?.off('change', this.handleChange);
-        this.editor = null;
+        this.destroyEditor();
 
         this.darkMode.removeEventListener('change', this.handleChangeDarkMode);
-
-        const editorElement = this.host.shadowRoot.querySelector('.editor');
-        // eslint-disable-next-line no-unsafe-optional-chaining
-        for (const child of editorElement?.childNodes) {
-            child.remove();
-        }
     }
 
     public componentDidRender() {
+        if (this.shouldFocusSearch) {
+            this.shouldFocusSearch = false;
+            this.searchInput?.focus();
+        }
+
         if (this.editor) {
             return;
         }
@@ -200,32 +381,234 @@ export class CodeEditor {
         this.updateInputFieldAccessibilityAttributes();
     }
 
+    /**
+     * Sets focus on the editor
+     *
+     * @returns does not return anything, but methods have to be async
+     */
+    @Method()
+    public async setFocus() {
+        this.editor?.focus();
+    }
+
+    /**
+     * Get what is selected in the code. There is one selection
+     * for each cursor, in the order they appear in the code.
+     *
+     * @returns the selections
+     * @beta
+     */
+    @Method()
+    public async getSelection(): Promise<CodeSelection[]> {
+        if (!this.editor) {
+            return [];
+        }
+
+        return this.editor.listSelections().map((range) => ({
+            from: fromPos(range.from()),
+            to: fromPos(range.to()),
+        }));
+    }
+
+    /**
+     * Select a part of the code, or place the cursor, and scroll it into
+     * view. Give more than one selection to place a cursor for each of them,
+     * which makes it possible to edit several places at once.
+     *
+     * @param selection - the selection, or selections, to make
+     * @returns does not return anything, but methods have to be async
+     * @beta
+     */
+    @Method()
+    public async setSelection(selection: CodeSelection | CodeSelection[]) {
+        const selections = [selection].flat();
+        if (!this.editor || selections.length === 0) {
+            return;
+        }
+
+        this.editor.setSelections(
+            selections.map(({ from, to }) => ({
+                anchor: toPos(from),
+                head: toPos(to),
+            })),
+            0
+        );
+        this.editor.scrollIntoView(toPos(selections[0].to), SCROLL_MARGIN);
+    }
+
+    /**
+     * Insert text at the cursor, replacing what is selected.
+     * When there is more than one cursor, the text is inserted at each
+     * of them. Nothing is inserted when the editor is `readonly`
+     * or `disabled`.
+     *
+     * @param text - the text to insert
+     * @returns does not return anything, but methods have to be async
+     * @beta
+     */
+    @Method()
+    public async insertAtCursor(text: string) {
+        if (!this.editor || this.getReadOnlyOption()) {
+            return;
+        }
+
+        this.editor.replaceSelection(text);
+    }
+
+    /**
+     * Search the code, and select the first match after the selection.
+     * Calling the method again with the same query selects the next match.
+     *
+     * @param query - the text to search for
+     * @param options - how to match the text
+     * @returns every match in the code
+     * @beta
+     */
+    @Method()
+    public async find(
+        query: string,
+        options: CodeSearchOptions = {}
+    ): Promise<CodeSelection[]> {
+        const regexp = createSearchQuery(query, options);
+        if (!this.editor || !regexp) {
+            return [];
+        }
+
+        const matches = findMatches(this.editor, regexp);
+        this.selectMatch(
+            matches,
+            findNextMatch(matches, fromPos(this.editor.getCursor('to')))
+        );
+
+        return matches;
+    }
+
+    /**
+     * Replace every match of a query in the code. When `options.regexp`
+     * is set, `$1`, `$2` etc. in the replacement are replaced by the
+     * groups of the match. Nothing is replaced when the editor is
+     * `readonly` or `disabled`.
+     *
+     * @param query - the text to search for
+     * @param replacement - the text to replace each match with
+     * @param options - how to match the text
+     * @returns the number of replaced matches
+     * @beta
+     */
+    @Method()
+    public async replaceAll(
+        query: string,
+        replacement: string,
+        options: CodeSearchOptions = {}
+    ): Promise<number> {
+        const regexp = createSearchQuery(query, options);
+        if (!this.editor || !regexp || this.getReadOnlyOption()) {
+            return 0;
+        }
+
+        return replaceMatches(this.editor, regexp, replacement, options);
+    }
+
+    /**
+     * Place the cursor at the start of a line, and scroll it into view
+     *
+     * @param line - the number of the line, starting at `1`
+     * like the line numbers of the editor
+     * @returns does not return anything, but methods have to be async
+     * @beta
+     */
+    @Method()
+    public async goToLine(line: number) {
+        if (!this.editor) {
+            return;
+        }
+
+        this.editor.setCursor(line - 1, 0);
+        this.editor.scrollIntoView(this.editor.getCursor(), SCROLL_MARGIN);
+    }
+
     @Watch('value')
     protected watchValue(newValue: string) {
         if (!this.editor) {
             return;
         }
 
-        const currentValue = this.editor.getValue();
+        const currentValue = this.getCode();
         if (newValue === currentValue) {
             // Circuit breaker for when the change comes from the editor itself
             // The caret position will be reset without this
             return;
         }
 
+        if (this.isUnifiedDiff()) {
+            this.unifiedValue = newValue || '';
+            this.updateDiff();
+
+            return;
+        }
+
         this.editor.getDoc().setValue(newValue || '');
     }
 
-    @Watch('disabled')
-    protected watchDisabled() {
-        this.updateEditorReadOnlyState();
-        this.updateInputFieldAccessibilityAttributes();
+    @Watch('originalValue')
+    protected watchOriginalValue(newValue?: string, oldValue?: string) {
+        if (!this.editor) {
+            return;
+        }
+
+        const isDiffModeChanged =
+            (newValue === undefined) !== (oldValue === undefined);
+        if (isDiffModeChanged) {
+            this.recreateEditor();
+
+            return;
+        }
+
+        if (newValue === this.original) {
+            // The change comes from accepting a change in the editor
+            return;
+        }
+
+        this.original = newValue;
+        this.updateDiff();
+    }
+
+    @Watch('diffLayout')
+    protected watchDiffLayout() {
+        if (!this.editor || !this.isDiffMode()) {
+            return;
+        }
+
+        this.recreateEditor();
     }
 
+    @Watch('jsonSchema')
+    protected watchJsonSchema() {
+        this.createJsonValidator();
+        this.setSchemaDiagnostics([]);
+        this.watchLanguage();
+    }
+
+    @Watch('language')
+    @Watch('diagnostics')
+    protected watchLanguage() {
+        if (!this.editor) {
+            return;
+        }
+
+        const options = this.getOptions();
+        this.editor.setOption('mode', options.mode);
+        this.editor.setOption('gutters', options.gutters);
+        this.editor.setOption('foldOptions', options.foldOptions);
+        this.editor.setOption('lint', options.lint);
+    }
+
+    @Watch('disabled')
     @Watch('readonly')
     protected watchReadonly() {
         this.updateEditorReadOnlyState();
         this.updateInputFieldAccessibilityAttributes();
+        this.updateHunkActions();
     }
 
     @Watch('invalid')
@@ -252,6 +635,7 @@ export class CodeEditor {
     };
 
     private handleChange = () => {
+        this.jsonLocations = undefined;
         this.change.emit(this.editor.getValue());
     };
 
@@ -263,15 +647,43 @@ export class CodeEditor {
         this.editor.refresh();
     };
 
-    private createEditor() {
-        const options = this.getOptions();
+    private createEditor(value = this.value || '') {
+        const element: HTMLElement =
+            this.host.shadowRoot.querySelector('.editor');
+        const options = { ...this.getOptions(), value: value };
+        this.jsonLocations = undefined;
 
-        const editor = CodeMirror(
-            this.host.shadowRoot.querySelector('.editor'),
-            options
-        );
+        if (this.isDiffMode()) {
+            this.original = this.originalValue;
+            registerDiffMatchPatch();
+        }
+
+        if (this.isUnifiedDiff()) {
+            return this.createUnifiedDiffEditor(element, options);
+        }
+
+        let editor: CodeMirror.Editor;
+        if (this.isDiffMode()) {
+            this.mergeView = CodeMirror.MergeView(element, {
+                ...options,
+                origLeft: this.original,
+                connect: 'align',
+                revertButtons: false,
+            });
+            editor = this.mergeView.editor();
+            editor.on('change', this.updateHunkActions);
+        } else {
+            editor = CodeMirror(element, options);
+        }
 
         editor.on('change', this.handleChange);
+        editor.on('change', this.updateSearchMatches);
+        editor.on('cursorActivity', this.updateCurrentMatch);
+        editor.on('inputRead', this.handleInputRead);
+
+        const wrapper = editor.getWrapperElement();
+        wrapper.addEventListener('mousemove', this.handleMouseMove);
+        wrapper.addEventListener('mouseleave', this.hideSchemaTooltip);
 
         // Replace tab with spaces and use the actual indent setting for
         // the space count
@@ -280,11 +692,464 @@ export class CodeEditor {
                 const spaces = ' '.repeat(codeMirror.getOption('indentUnit'));
                 codeMirror.replaceSelection(spaces);
             },
+            'Ctrl-Space': this.showCompletions,
+            'Ctrl-F': this.openSearch,
+            'Cmd-F': this.openSearch,
+            Esc: this.handleEscape,
         });
 
+        this.updateHunkActions(editor);
+        this.updateSearchMatches(editor);
+
         return editor;
     }
 
+    private createUnifiedDiffEditor(
+        element: HTMLElement,
+        options: CodeMirror.EditorConfiguration
+    ) {
+        this.unifiedValue = options.value as string;
+
+        const editor = CodeMirror(element, {
+            ...options,
+            value: '',
+            lint: false,
+            gutters: ['CodeMirror-diff-markers', ...options.gutters],
+            lineNumberFormatter: this.formatUnifiedLineNumber,
+            extraKeys: {
+                'Ctrl-F': this.openSearch,
+                'Cmd-F': this.openSearch,
+                Esc: this.handleEscape,
+            },
+        });
+        editor.on('cursorActivity', this.updateCurrentMatch);
+        this.updateUnifiedDiff(editor);
+
+        return editor;
+    }
+
+    private destroyEditor() {
+        this.clearHunkActions();
+        this.clearSearchMarks();
+        this.editor?.off('change', this.handleChange);
+        this.editor?.off('change', this.updateSearchMatches);
+        this.editor?.off('cursorActivity', this.updateCurrentMatch);
+        this.editor?.off('inputRead', this.handleInputRead);
+        this.editor = null;
+        this.mergeView = null;
+        this.unifiedDiff = null;
+        this.hideSchemaTooltip();
+
+        const editorElement = this.host.shadowRoot.querySelector('.editor');
+        // eslint-disable-next-line no-unsafe-optional-chaining
+        for (const child of editorElement?.childNodes) {
+            child.remove();
+        }
+    }
+
+    private recreateEditor() {
+        const value = this.getCode();
+        this.destroyEditor();
+        this.editor = this.createEditor(value);
+        this.updateInputFieldAccessibilityAttributes();
+    }
+
+    private isDiffMode(): boolean {
+        return this.originalValue !== undefined && this.originalValue !== null;
+    }
+
+    private isUnifiedDiff(): boolean {
+        return this.isDiffMode() && this.diffLayout === 'unified';
+    }
+
+    /**
+     * Get the code of the editor. In the unified diff layout, the editor
+     * contains both versions of the code, so the code is kept separately
+     *
+     * @returns the code
+     */
+    private getCode(): string {
+        if (this.unifiedDiff) {
+            return this.unifiedValue;
+        }
+
+        return this.editor?.getValue();
+    }
+
+    private updateDiff() {
+        if (this.unifiedDiff) {
+            this.updateUnifiedDiff();
+
+            return;
+        }
+
+        const originalEditor = this.mergeView?.leftOriginal();
+        if (originalEditor && originalEditor.getValue() !== this.original) {
+            originalEditor.setValue(this.original);
+        }
+
+        this.updateHunkActions();
+    }
+
+    private updateUnifiedDiff(editor = this.editor) {
+        this.clearHunkActions();
+
+        const hunks = getDiffHunks(this.original, this.unifiedValue);
+        this.unifiedDiff = createUnifiedDiff(
+            this.original,
+            this.unifiedValue,
+            hunks
+        );
+
+        const lines = this.unifiedDiff.lines;
+        editor.setValue(lines.map((line) => line.text).join('\n'));
+
+        for (const [index, line] of lines.entries()) {
+            if (line.type === 'unchanged') {
+                continue;
+            }
+
+            const marker = document.createElement('span');
+            marker.className = `diff-marker diff-marker-${line.type}`;
+            marker.textContent = line.type === 'added' ? '+' : '−';
+            editor.setGutterMarker(index, 'CodeMirror-diff-markers', marker);
+            editor.addLineClass(index, 'background', `diff-line-${line.type}`);
+        }
+
+        this.updateHunkActions(editor);
+        this.updateSearchMatches(editor);
+    }
+
+    private formatUnifiedLineNumber = (line: number): string => {
+        const diffLine = this.unifiedDiff?.lines[line - 1];
+        if (diffLine?.valueLine === undefined) {
+            return '';
+        }
+
+        return String(diffLine.valueLine + 1);
+    };
+
+    /**
+     * Get the changes between the original code and the code,
+     * and the line of the editor where each change starts
+     *
+     * @returns the changes
+     */
+    private getHunks(): Array<{ hunk: DiffHunk; line: number }> {
+        if (this.unifiedDiff) {
+            return getDiffHunks(this.original, this.unifiedValue).map(
+                (hunk, index) => ({
+                    hunk: hunk,
+                    line: this.unifiedDiff.hunkStarts[index],
+                })
+            );
+        }
+
+        const chunks = this.mergeView?.leftChunks() || [];
+
+        return chunks.map((chunk) => ({
+            hunk: {
+                originalFrom: chunk.origFrom,
+                originalTo: chunk.origTo,
+                valueFrom: chunk.editFrom,
+                valueTo: chunk.editTo,
+            },
+            line: chunk.editFrom,
+        }));
+    }
+
+    private updateHunkActions = (editor = this.editor) => {
+        this.clearHunkActions();
+
+        if (!editor || !this.isDiffMode() || this.readonly || this.disabled) {
+            return;
+        }
+
+        const lastLine = editor.lastLine();
+        for (const { hunk, line } of this.getHunks()) {
+            const widget = editor.addLineWidget(
+                Math.min(line, lastLine),
+                this.createHunkActions(hunk),
+                { above: line <= lastLine }
+            );
+            this.hunkWidgets.push(widget);
+        }
+    };
+
+    private clearHunkActions() {
+        for (const widget of this.hunkWidgets) {
+            widget.clear();
+        }
+
+        this.hunkWidgets = [];
+    }
+
+    private createHunkActions(hunk: DiffHunk): HTMLElement {
+        const element = document.createElement('div');
+        element.className = 'diff-hunk-actions';
+
+        const createButton = (key: string, onClick: () => void) => {
+            const button = document.createElement('button');
+            button.type = 'button';
+            button.className = 'diff-hunk-action';
+            button.textContent = translate.get(key, this.translationLanguage);
+            button.addEventListener('click', onClick);
+
+            return button;
+        };
+
+        element.append(
+            createButton('code-editor.accept-change', () =>
+                this.acceptChange(hunk)
+            ),
+            createButton('code-editor.revert-change', () =>
+                this.revertChange(hunk)
+            )
+        );
+
+        return element;
+    }
+
+    private acceptChange(hunk: DiffHunk) {
+        this.original = acceptHunk(this.original, this.getCode(), hunk);
+        this.originalValueChange.emit(this.original);
+        this.updateDiff();
+    }
+
+    private revertChange(hunk: DiffHunk) {
+        const value = revertHunk(this.original, this.getCode(), hunk);
+
+        if (this.unifiedDiff) {
+            this.unifiedValue = value;
+            this.change.emit(value);
+            this.updateDiff();
+
+            return;
+        }
+
+        // The change is emitted, and the actions are updated,
+        // by the listeners of the editor
+        const { left, top } = this.editor.getScrollInfo();
+        this.editor.setValue(value);
+        this.editor.scrollTo(left, top);
+    }
+
+    private goToPreviousChange = () => {
+        this.goToChange(-1);
+    };
+
+    private goToNextChange = () => {
+        this.goToChange(1);
+    };
+
+    private goToChange(direction: 1 | -1) {
+        const lastLine = this.editor.lastLine();
+        const lines = this.getHunks().map(({ line }) =>
+            Math.min(line, lastLine)
+        );
+        if (lines.length === 0) {
+            return;
+        }
+
+        const cursor = this.editor.getCursor().line;
+        const line =
+            direction > 0
+                ? (lines.find((hunkLine) => hunkLine > cursor) ?? lines[0])
+                : ([...lines].reverse().find((hunkLine) => hunkLine < cursor) ??
+                  lines.at(-1));
+
+        this.editor.focus();
+        this.editor.setCursor(line, 0);
+        this.editor.scrollIntoView({ line: line, ch: 0 }, SCROLL_MARGIN);
+    }
+
+    private openSearch = () => {
+        const selection = this.editor.getSelection();
+        if (selection && !selection.includes('\n')) {
+            this.searchQuery = selection;
+        }
+
+        this.isSearchOpen = true;
+        this.shouldFocusSearch = true;
+        this.searchInput?.focus();
+        this.updateSearchMatches();
+    };
+
+    private closeSearch = () => {
+        this.isSearchOpen = false;
+        this.searchMatches = [];
+        this.currentMatch = -1;
+        this.clearSearchMarks();
+        this.editor?.focus();
+    };
+
+    private handleEscape = () => {
+        if (!this.isSearchOpen) {
+            return CodeMirror.Pass;
+        }
+
+        this.closeSearch();
+    };
+
+    private updateSearchMatches = (editor = this.editor) => {
+        this.clearSearchMarks();
+
+        if (!editor || !this.isSearchOpen) {
+            return;
+        }
+
+        const query = createSearchQuery(this.searchQuery, this.searchOptions);
+        this.searchMatches = query ? findMatches(editor, query) : [];
+        this.searchMarks = this.searchMatches.map(({ from, to }) =>
+            editor.markText(toPos(from), toPos(to), {
+                className: 'cm-search-match',
+            })
+        );
+        this.updateCurrentMatch(editor);
+    };
+
+    private clearSearchMarks() {
+        for (const mark of this.searchMarks) {
+            mark.clear();
+        }
+
+        this.searchMarks = [];
+    }
+
+    /**
+     * Find out which match is selected, if any,
+     * to display its number in the search panel
+     *
+     * @param editor - the editor
+     */
+    private updateCurrentMatch = (editor = this.editor) => {
+        if (!this.isSearchOpen) {
+            return;
+        }
+
+        const from = fromPos(editor.getCursor('from'));
+        const to = fromPos(editor.getCursor('to'));
+        this.currentMatch = this.searchMatches.findIndex(
+            (match) =>
+                match.from.line === from.line &&
+                match.from.column === from.column &&
+                match.to.line === to.line &&
+                match.to.column === to.column
+        );
+    };
+
+    private selectMatch(matches: CodeSelection[], index: number) {
+        const match = matches[index];
+        if (!match) {
+            return;
+        }
+
+        this.editor.setSelection(toPos(match.from), toPos(match.to));
+        this.editor.scrollIntoView(toPos(match.to), SCROLL_MARGIN);
+    }
+
+    private goToPreviousMatch = () => {
+        this.goToMatch(-1);
+    };
+
+    private goToNextMatch = () => {
+        this.goToMatch(1);
+    };
+
+    private goToMatch(direction: 1 | -1) {
+        const cursor = this.editor.getCursor(direction > 0 ? 'to' : 'from');
+        this.selectMatch(
+            this.searchMatches,
+            findNextMatch(this.searchMatches, fromPos(cursor), direction)
+        );
+    }
+
+    private selectAllMatches = () => {
+        if (this.searchMatches.length === 0) {
+            return;
+        }
+
+        this.setSelection(this.searchMatches);
+        this.editor.focus();
+    };
+
+    private replaceMatch = () => {
+        const match = this.searchMatches[this.currentMatch];
+        const query = createSearchQuery(this.searchQuery, this.searchOptions);
+        if (match && query) {
+            const from = toPos(match.from);
+            const to = toPos(match.to);
+            const text = this.editor.getRange(from, to);
+            this.editor.replaceRange(
+                getReplacement(
+                    text.match(query),
+                    this.replacement,
+                    this.searchOptions
+                ),
+                from,
+                to
+            );
+        }
+
+        this.goToNextMatch();
+    };
+
+    private replaceAllMatches = () => {
+        this.replaceAll(this.searchQuery, this.replacement, this.searchOptions);
+    };
+
+    private handleSearchChange = (event: CustomEvent<string>) => {
+        event.stopPropagation();
+        this.searchQuery = event.detail;
+        this.updateSearchMatches();
+
+        // Search from the start of the selection while typing,
+        // so that the selected match grows with the query
+        this.selectMatch(
+            this.searchMatches,
+            findNextMatch(
+                this.searchMatches,
+                fromPos(this.editor.getCursor('from'))
+            )
+        );
+    };
+
+    private handleReplacementChange = (event: CustomEvent<string>) => {
+        event.stopPropagation();
+        this.replacement = event.detail;
+    };
+
+    private handleSearchKeyDown = (event: KeyboardEvent) => {
+        if (event.key === 'Escape') {
+            event.preventDefault();
+            this.closeSearch();
+        } else if (event.key === 'Enter' && event.altKey) {
+            event.preventDefault();
+            this.selectAllMatches();
+        } else if (event.key === 'Enter') {
+            event.preventDefault();
+            this.goToMatch(event.shiftKey ? -1 : 1);
+        }
+    };
+
+    private handleReplacementKeyDown = (event: KeyboardEvent) => {
+        if (event.key === 'Escape') {
+            event.preventDefault();
+            this.closeSearch();
+        } else if (event.key === 'Enter') {
+            event.preventDefault();
+            this.replaceMatch();
+        }
+    };
+
+    private toggleSearchOption(option: keyof CodeSearchOptions) {
+        this.searchOptions = {
+            ...this.searchOptions,
+            [option]: !this.searchOptions[option],
+        };
+        this.updateSearchMatches();
+    }
+
     private getOptions(): CodeMirror.EditorConfiguration {
         let mode: string | CodeMirror.ModeSpec<any> = this.language;
         const TAB_SIZE = 4;
@@ -300,12 +1165,6 @@ export class CodeEditor {
                 name: 'application/json',
                 json: true,
             };
-            if (this.lint) {
-                gutters.push('CodeMirror-lint-markers');
-                if (!('jsonlint' in window)) {
-                    window['jsonlint'] = jslint;
-                }
-            }
         } else if (this.language === 'typescript') {
             mode = {
                 name: 'application/typescript',
@@ -313,6 +1172,21 @@ export class CodeEditor {
             };
         } else if (this.language === 'html') {
             mode = 'htmlmixed';
+        } else if (this.language === 'sql') {
+            mode = 'text/x-sql';
+        }
+
+        const linter = LINTERS[this.language];
+        if (
+            (this.lint || this.hasJsonSchema()) &&
+            linter &&
+            !(linter.name in window)
+        ) {
+            window[linter.name] = linter.linter;
+        }
+
+        if (this.getLintOption()) {
+            gutters.push('CodeMirror-lint-markers');
         }
 
         if (this.fold) {
@@ -331,12 +1205,268 @@ export class CodeEditor {
             styleActiveLine: true,
             matchBrackets: true,
             matchTags: { bothTags: true },
-            lint: this.lint,
+            lint: this.getLintOption(),
             foldGutter: this.fold,
+            foldOptions: this.getFoldOptions(),
             gutters: gutters,
         };
     }
 
+    private getFoldOptions(): CodeMirror.FoldOptions {
+        if (this.language !== 'sql') {
+            // Folding is based on the mode of the language
+            return;
+        }
+
+        // SQL has no blocks of its own, so subqueries and lists in
+        // parentheses are folded, as well as indented lines
+        return {
+            rangeFinder: CodeMirror.fold.combine(
+                CodeMirror.fold['brace-paren'],
+                CodeMirror.fold.indent
+            ),
+        };
+    }
+
+    private getLintOption(): CodeMirror.EditorConfiguration['lint'] {
+        if (!this.hasJsonSchema() && !this.diagnostics?.length) {
+            return this.lint && !!LINTERS[this.language];
+        }
+
+        return { getAnnotations: this.getAnnotations };
+    }
+
+    private hasJsonSchema(): boolean {
+        return this.language === 'json' && !!this.jsonSchema;
+    }
+
+    private createJsonValidator() {
+        this.validateJson = this.jsonSchema
+            ? createJsonValidator(this.jsonSchema)
+            : undefined;
+    }
+
+    private getAnnotations = (text: string): Annotation[] => {
+        const annotations: Annotation[] = [];
+
+        // Syntax errors are only marked when linting is enabled,
+        // but schema errors are marked as long as there is a schema
+        const linter = getLinter(this.language);
+        if (this.lint && LINTERS[this.language] && linter) {
+            annotations.push(...linter(text));
+        }
+
+        if (this.hasJsonSchema()) {
+            const diagnostics = this.validateJson(text);
+            this.setSchemaDiagnostics(diagnostics);
+            annotations.push(...diagnostics.map(createAnnotation));
+        }
+
+        annotations.push(...(this.diagnostics || []).map(createAnnotation));
+
+        return annotations;
+    };
+
+    private setSchemaDiagnostics(diagnostics: CodeDiagnostic[]) {
+        const hadSchemaErrors = this.hasSchemaErrors;
+        this.hasSchemaErrors = diagnostics.some(
+            (diagnostic) => diagnostic.severity === 'error'
+        );
+
+        if (this.hasSchemaErrors !== hadSchemaErrors) {
+            this.updateInputFieldAccessibilityAttributes();
+        }
+
+        if (isEqual(diagnostics, this.schemaDiagnostics)) {
+            return;
+        }
+
+        this.schemaDiagnostics = diagnostics;
+        this.diagnosticsChange.emit(diagnostics);
+    }
+
+    private handleInputRead = (
+        editor: CodeMirror.Editor,
+        change: CodeMirror.EditorChange
+    ) => {
+        if (!/^["\w.]$/.test(change.text.join(''))) {
+            return;
+        }
+
+        if (editor.state.completionActive) {
+            return;
+        }
+
+        this.showCompletions(editor);
+    };
+
+    private showCompletions = (editor: CodeMirror.Editor) => {
+        const hasCompletions = this.hasJsonSchema() || !!this.completions;
+        if (!hasCompletions || this.getReadOnlyOption()) {
+            return;
+        }
+
+        editor.showHint({
+            hint: this.getCompletions,
+            completeSingle: false,
+        });
+    };
+
+    private getCompletions = async (
+        editor: CodeMirror.Editor
+    ): Promise<CodeMirror.Hints> => {
+        const request = ++this.completionRequest;
+        const cursor = editor.getCursor();
+        const line = editor.getLine(cursor.line);
+
+        const list = [
+            ...this.getSchemaHints(editor),
+            ...(await this.getProvidedHints(editor)),
+        ];
+
+        // The code may have changed while the completions were loading,
+        // and then they are no longer relevant
+        const isStale =
+            request !== this.completionRequest ||
+            CodeMirror.cmpPos(cursor, editor.getCursor()) !== 0 ||
+            line !== editor.getLine(cursor.line);
+        if (isStale || list.length === 0) {
+            return;
+        }
+
+        return {
+            list: list,
+            from: list[0].from,
+            to: list[0].to,
+        };
+    };
+
+    private getSchemaHints(editor: CodeMirror.Editor): CodeMirror.Hint[] {
+        if (!this.hasJsonSchema()) {
+            return [];
+        }
+
+        const context = getJsonContext(
+            editor.getValue(),
+            editor.indexFromPos(editor.getCursor())
+        );
+        if (!context) {
+            return [];
+        }
+
+        return getSchemaCompletions(this.jsonSchema, context).map(
+            (completion) => ({
+                text: completion.text,
+                displayText: completion.label,
+                from: editor.posFromIndex(context.from),
+                to: editor.posFromIndex(context.to),
+            })
+        );
+    }
+
+    private async getProvidedHints(
+        editor: CodeMirror.Editor
+    ): Promise<CodeMirror.Hint[]> {
+        if (!this.completions) {
+            return [];
+        }
+
+        const cursor = editor.getCursor();
+        let completions: CodeCompletion[];
+        try {
+            completions = await this.completions({
+                value: editor.getValue(),
+                position: { line: cursor.line, column: cursor.ch },
+                language: this.language,
+            });
+        } catch (error) {
+            console.error('Failed to get completions:', error);
+
+            return [];
+        }
+
+        const word = getWordRange(editor, cursor);
+
+        return (completions || [])
+            .map((completion) => ({
+                text: completion.text,
+                displayText: completion.label ?? completion.text,
+                from: toPos(completion.from) ?? word.from,
+                to: toPos(completion.to) ?? word.to,
+                render: renderHint(completion),
+            }))
+            .filter((hint) =>
+                hint.text
+                    .toLowerCase()
+                    .startsWith(
+                        editor.getRange(hint.from, cursor).toLowerCase()
+                    )
+            );
+    }
+
+    private handleMouseMove = (event: MouseEvent) => {
+        const description = this.getSchemaDescriptionAt(event);
+        if (!description) {
+            this.hideSchemaTooltip();
+
+            return;
+        }
+
+        if (!this.schemaTooltip) {
+            // Like the tooltips of the lint addon, the tooltip is placed
+            // in the document, and styled by the global styles
+            this.schemaTooltip = document.createElement('div');
+            this.schemaTooltip.className =
+                'CodeMirror-schema-tooltip cm-s-lime';
+            document.body.append(this.schemaTooltip);
+        }
+
+        const OFFSET = 12;
+        this.schemaTooltip.textContent = description;
+        this.schemaTooltip.style.left = `${event.clientX + OFFSET}px`;
+        this.schemaTooltip.style.top = `${event.clientY + OFFSET}px`;
+        this.schemaTooltip.style.opacity = '1';
+    };
+
+    private hideSchemaTooltip = () => {
+        this.schemaTooltip?.remove();
+        this.schemaTooltip = null;
+    };
+
+    private getSchemaDescriptionAt(event: MouseEvent): string | undefined {
+        if (!this.editor || !this.hasJsonSchema()) {
+            return;
+        }
+
+        const position = this.editor.coordsChar(
+            { left: event.clientX, top: event.clientY },
+            'window'
+        );
+        const location = findKeyAt(
+            this.getJsonLocations(),
+            this.editor.indexFromPos(position)
+        );
+        if (!location) {
+            return;
+        }
+
+        return getSchemaDescription(this.jsonSchema, location.path);
+    }
+
+    /**
+     * Get the locations in the JSON document. The document is only parsed
+     * again after it has changed, since this is called on every mouse move
+     *
+     * @returns the locations
+     */
+    private getJsonLocations(): JsonLocation[] {
+        if (!this.jsonLocations) {
+            this.jsonLocations = parseJsonLocations(this.editor.getValue());
+        }
+
+        return this.jsonLocations;
+    }
+
     private isDarkMode(): boolean {
         if (this.colorScheme !== 'auto') {
             return this.colorScheme === 'dark';
@@ -357,11 +1487,13 @@ export class CodeEditor {
         return (
             <Host>
                 {this.renderCopyButton()}
+                {this.renderDiffNavigation()}
+                {this.renderSearchPanel()}
                 <limel-notched-outline
                     labelId={this.labelId}
                     label={this.label}
                     required={this.required}
-                    invalid={this.invalid}
+                    invalid={this.isInvalid()}
                     disabled={this.disabled}
                     readonly={this.readonly}
                     hasValue={!!this.value}
@@ -374,6 +1506,187 @@ export class CodeEditor {
         );
     }
 
+    private renderDiffNavigation() {
+        if (!this.isDiffMode()) {
+            return;
+        }
+
+        return (
+            <div class="diff-navigation">
+                <button
+                    class="diff-navigation-button"
+                    type="button"
+                    onClick={this.goToPreviousChange}
+                >
+                    {translate.get(
+                        'code-editor.previous-change',
+                        this.translationLanguage
+                    )}
+                </button>
+                <button
+                    class="diff-navigation-button"
+                    type="button"
+                    onClick={this.goToNextChange}
+                >
+                    {translate.get(
+                        'code-editor.next-change',
+                        this.translationLanguage
+                    )}
+                </button>
+            </div>
+        );
+    }
+
+    private renderSearchPanel() {
+        if (!this.isSearchOpen) {
+            return;
+        }
+
+        const searchLabel = translate.get(
+            'code-editor.search',
+            this.translationLanguage
+        );
+
+        return (
+            <div class="search-panel" role="search">
+                <div class="search-row">
+                    <limel-input-field
+                        class="search-input"
+                        label={searchLabel}
+                        value={this.searchQuery}
+                        onChange={this.handleSearchChange}
+                        onKeyDown={this.handleSearchKeyDown}
+                        ref={(element) => (this.searchInput = element)}
+                    />
+                    <span class="search-result" aria-live="polite">
+                        {this.getSearchResultText()}
+                    </span>
+                    <limel-icon-button
+                        icon="angle_up"
+                        label={translate.get(
+                            'code-editor.previous-match',
+                            this.translationLanguage
+                        )}
+                        onClick={this.goToPreviousMatch}
+                    />
+                    <limel-icon-button
+                        icon="angle_down"
+                        label={translate.get(
+                            'code-editor.next-match',
+                            this.translationLanguage
+                        )}
+                        onClick={this.goToNextMatch}
+                    />
+                    {this.renderSearchButton(
+                        'code-editor.select-all-matches',
+                        this.selectAllMatches
+                    )}
+                    <limel-icon-button
+                        class="close-search"
+                        icon="multiply"
+                        label={translate.get(
+                            'code-editor.close-search',
+                            this.translationLanguage
+                        )}
+                        onClick={this.closeSearch}
+                    />
+                </div>
+                <div class="search-row">
+                    {this.renderSearchOption(
+                        'caseSensitive',
+                        'code-editor.match-case'
+                    )}
+                    {this.renderSearchOption(
+                        'wholeWord',
+                        'code-editor.whole-word'
+                    )}
+                    {this.renderSearchOption(
+                        'regexp',
+                        'code-editor.regular-expression'
+                    )}
+                </div>
+                {this.renderReplaceRow()}
+            </div>
+        );
+    }
+
+    private renderReplaceRow() {
+        if (this.getReadOnlyOption()) {
+            return;
+        }
+
+        const replaceLabel = translate.get(
+            'code-editor.replace-with',
+            this.translationLanguage
+        );
+
+        return (
+            <div class="search-row">
+                <limel-input-field
+                    class="search-input"
+                    label={replaceLabel}
+                    value={this.replacement}
+                    onChange={this.handleReplacementChange}
+                    onKeyDown={this.handleReplacementKeyDown}
+                />
+                {this.renderSearchButton(
+                    'code-editor.replace',
+                    this.replaceMatch
+                )}
+                {this.renderSearchButton(
+                    'code-editor.replace-all',
+                    this.replaceAllMatches
+                )}
+            </div>
+        );
+    }
+
+    private renderSearchOption(
+        option: keyof CodeSearchOptions,
+        labelKey: string
+    ) {
+        return (
+            <limel-chip
+                type="filter"
+                size="small"
+                text={translate.get(labelKey, this.translationLanguage)}
+                selected={!!this.searchOptions[option]}
+                onClick={() => this.toggleSearchOption(option)}
+            />
+        );
+    }
+
+    private renderSearchButton(labelKey: string, onClick: () => void) {
+        return (
+            <limel-button
+                label={translate.get(labelKey, this.translationLanguage)}
+                onClick={onClick}
+            />
+        );
+    }
+
+    private getSearchResultText(): string {
+        if (!this.searchQuery) {
+            return '';
+        }
+
+        if (this.searchMatches.length === 0) {
+            return translate.get(
+                'code-editor.no-results',
+                this.translationLanguage
+            );
+        }
+
+        return translate.get(
+            'code-editor.search-results',
+            this.translationLanguage,
+            {
+                current: this.currentMatch === -1 ? '?' : this.currentMatch + 1,
+                total: this.searchMatches.length,
+            }
+        );
+    }
+
     private renderHelperLine = () => {
         if (!this.helperText) {
             return;
@@ -383,18 +1696,22 @@ export class CodeEditor {
             <limel-helper-line
                 helperText={this.helperText}
                 helperTextId={this.helperTextId}
-                invalid={this.invalid}
+                invalid={this.isInvalid()}
             />
         );
     };
 
+    private isInvalid(): boolean {
+        return this.invalid || this.hasSchemaErrors;
+    }
+
     private forceRedraw() {
         // eslint-disable-next-line sonarjs/pseudo-random
         this.random = Math.random();
     }
 
     private renderCopyButton() {
-        const hasContent = !!(this.editor?.getValue() || this.value);
+        const hasContent = !!(this.getCode() || this.value);
 
         if (!hasContent || this.disabled || !this.showCopyButton) {
             return;
@@ -416,7 +1733,7 @@ export class CodeEditor {
 
     private copyCode = async () => {
         // Prefer the live editor content; fall back to the prop value
-        const text = this.editor?.getValue() ?? this.value ?? '';
+        const text = this.getCode() ?? this.value ?? '';
         try {
             await navigator.clipboard.writeText(text);
             this.wasCopied = 'success';
@@ -478,7 +1795,7 @@ export class CodeEditor {
             return 'nocursor';
         }
 
-        return this.readonly;
+        return this.readonly || this.isUnifiedDiff();
     }
 
     private updateInputFieldAccessibilityAttributes() {
@@ -507,7 +1824,7 @@ export class CodeEditor {
             inputField.removeAttribute('aria-required');
         }
 
-        if (this.invalid) {
+        if (this.isInvalid()) {
             inputField.setAttribute('aria-invalid', 'true');
         } else {
             inputField.removeAttribute('aria-invalid');
@@ -7,9 +7,166 @@ export type Language =
     | 'javascript'
     | 'jinja2'
     | 'json'
-    | 'typescript';
+    | 'markdown'
+    | 'python'
+    | 'sql'
+    | 'typescript'
+    | 'xml'
+    | 'yaml';
 
 /**
  * @public
  */
 export type ColorScheme = 'dark' | 'light' | 'auto';
+
+/**
+ * A position in the code of a code editor
+ * @public
+ */
+export interface CodePosition {
+    /**
+     * The line of the position, starting at `0`
+     */
+    line: number;
+
+    /**
+     * The column of the position, starting at `0`
+     */
+    column: number;
+}
+
+/**
+ * A problem found in the code of a code editor, such as a value
+ * that does not match the JSON Schema of the code
+ * @public
+ */
+export interface CodeDiagnostic {
+    /**
+     * Description of the problem
+     */
+    message: string;
+
+    /**
+     * How serious the problem is
+     */
+    severity: 'error' | 'warning' | 'info';
+
+    /**
+     * Start of the code that the problem concerns
+     */
+    from: CodePosition;
+
+    /**
+     * End of the code that the problem concerns
+     */
+    to: CodePosition;
+}
+
+/**
+ * A suggestion for what to write at the cursor of a code editor
+ * @beta
+ */
+export interface CodeCompletion {
+    /**
+     * The text to insert
+     */
+    text: string;
+
+    /**
+     * The text to display in the list of suggestions.
+     * Defaults to `text`.
+     */
+    label?: string;
+
+    /**
+     * Additional information displayed next to the label,
+     * such as a description or the type of the suggestion
+     */
+    detail?: string;
+
+    /**
+     * Start of the code that the suggestion replaces.
+     * Defaults to the start of the word at the cursor.
+     */
+    from?: CodePosition;
+
+    /**
+     * End of the code that the suggestion replaces.
+     * Defaults to the end of the word at the cursor.
+     */
+    to?: CodePosition;
+}
+
+/**
+ * What the code editor knows about the cursor when asking for completions
+ * @beta
+ */
+export interface CodeCompletionContext {
+    /**
+     * The code in the editor
+     */
+    value: string;
+
+    /**
+     * The position of the cursor
+     */
+    position: CodePosition;
+
+    /**
+     * The language of the code
+     */
+    language: Language;
+}
+
+/**
+ * A function that returns suggestions for what to write at the cursor
+ * of a code editor
+ * @beta
+ */
+export type CodeCompletionProvider = (
+    context: CodeCompletionContext
+) => Promise<CodeCompletion[]>;
+
+/**
+ * How the changes between two versions of the code are displayed
+ * @beta
+ */
+export type DiffLayout = 'side-by-side' | 'unified';
+
+/**
+ * A selection in the code of a code editor.
+ * When `from` and `to` are the same position, the selection is a cursor.
+ * @beta
+ */
+export interface CodeSelection {
+    /**
+     * Start of the selection
+     */
+    from: CodePosition;
+
+    /**
+     * End of the selection
+     */
+    to: CodePosition;
+}
+
+/**
+ * How to match the text that is searched for in a code editor
+ * @beta
+ */
+export interface CodeSearchOptions {
+    /**
+     * Set to `true` to only match text with the same case
+     */
+    caseSensitive?: boolean;
+
+    /**
+     * Set to `true` to treat the text as a regular expression
+     */
+    regexp?: boolean;
+
+    /**
+     * Set to `true` to only match whole words
+     */
+    wholeWord?: boolean;
+}
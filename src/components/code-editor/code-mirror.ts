@@ -0,0 +1,146 @@
+import CodeMirror from 'codemirror';
+import { Annotation } from 'codemirror/addon/lint/lint';
+import DiffMatchPatch, {
+    DIFF_DELETE,
+    DIFF_EQUAL,
+    DIFF_INSERT,
+} from 'diff-match-patch';
+import {
+    CodeCompletion,
+    CodeDiagnostic,
+    CodePosition,
+} from './code-editor.types';
+
+const WORD_CHARACTER = /[\w$.]/;
+
+/**
+ * The linters that the lint addons of CodeMirror register, by language
+ */
+type Linters = Partial<Record<string, (text: string) => Annotation[]>>;
+
+/**
+ * Make diff-match-patch available globally,
+ * which is where the merge addon of CodeMirror expects it to be
+ */
+export function registerDiffMatchPatch() {
+    if ('diff_match_patch' in window) {
+        return;
+    }
+
+    Object.assign(window, {
+        diff_match_patch: DiffMatchPatch,
+        DIFF_DELETE: DIFF_DELETE,
+        DIFF_EQUAL: DIFF_EQUAL,
+        DIFF_INSERT: DIFF_INSERT,
+    });
+}
+
+/**
+ * Get the linter that a lint addon of CodeMirror has registered
+ *
+ * @param language - the language of the code
+ * @returns the linter, or `undefined` if no linter has been registered
+ */
+export function getLinter(
+    language: string
+): ((text: string) => Annotation[]) | undefined {
+    return (CodeMirror as typeof CodeMirror & { lint?: Linters }).lint?.[
+        language
+    ];
+}
+
+/**
+ * Convert a position in the code to a position in CodeMirror
+ *
+ * @param position - the position in the code
+ * @returns the position in CodeMirror
+ */
+export function toPos(position?: CodePosition): CodeMirror.Position {
+    if (!position) {
+        return;
+    }
+
+    return CodeMirror.Pos(position.line, position.column);
+}
+
+/**
+ * Convert a position in CodeMirror to a position in the code
+ *
+ * @param pos - the position in CodeMirror
+ * @returns the position in the code
+ */
+export function fromPos(pos: CodeMirror.Position): CodePosition {
+    return { line: pos.line, column: pos.ch };
+}
+
+/**
+ * Convert a diagnostic to an annotation for the lint addon of CodeMirror,
+ * which marks it in the code and in the gutter
+ *
+ * @param diagnostic - the diagnostic
+ * @returns the annotation
+ */
+export function createAnnotation(diagnostic: CodeDiagnostic): Annotation {
+    return {
+        message: diagnostic.message,
+        severity: diagnostic.severity,
+        from: toPos(diagnostic.from),
+        to: toPos(diagnostic.to),
+    };
+}
+
+/**
+ * Get the range of the word at the cursor, which completions replace
+ * unless they have a range of their own. Dots are part of words,
+ * so that paths like `contact.name` are replaced as a whole.
+ *
+ * @param editor - the editor
+ * @param cursor - the position of the cursor
+ * @returns the start and end of the word
+ */
+export function getWordRange(
+    editor: CodeMirror.Editor,
+    cursor: CodeMirror.Position
+): { from: CodeMirror.Position; to: CodeMirror.Position } {
+    const line = editor.getLine(cursor.line);
+    let start = cursor.ch;
+    let end = cursor.ch;
+
+    while (start > 0 && WORD_CHARACTER.test(line[start - 1])) {
+        start--;
+    }
+
+    while (end < line.length && WORD_CHARACTER.test(line[end])) {
+        end++;
+    }
+
+    return {
+        from: CodeMirror.Pos(cursor.line, start),
+        to: CodeMirror.Pos(cursor.line, end),
+    };
+}
+
+/**
+ * Create a function that renders a completion in the list of suggestions,
+ * with its `detail` next to its label
+ *
+ * @param completion - the completion
+ * @returns the render function of the hint
+ */
+export function renderHint(
+    completion: CodeCompletion
+): CodeMirror.Hint['render'] {
+    return (element: HTMLLIElement) => {
+        const label = document.createElement('span');
+        label.className = 'CodeMirror-hint-label';
+        label.textContent = completion.label ?? completion.text;
+        element.append(label);
+
+        if (completion.detail) {
+            const detail = document.createElement('span');
+            detail.className = 'CodeMirror-hint-detail';
+            detail.textContent = completion.detail;
+            element.append(detail);
+        }
+    };
+}
@@ -0,0 +1,73 @@
+import {
+    acceptHunk,
+    createUnifiedDiff,
+    getDiffHunks,
+    revertHunk,
+} from './diff';
+
+const original = ['a', 'b', 'c', 'd', 'e'].join('\n');
+const value = ['a', 'B', 'c', 'e', 'f'].join('\n');
+
+describe('getDiffHunks', () => {
+    it('returns the hunks of lines that differ', () => {
+        expect(getDiffHunks(original, value)).toEqual([
+            { originalFrom: 1, originalTo: 2, valueFrom: 1, valueTo: 2 },
+            { originalFrom: 3, originalTo: 4, valueFrom: 3, valueTo: 3 },
+            { originalFrom: 5, originalTo: 5, valueFrom: 4, valueTo: 5 },
+        ]);
+    });
+
+    it('returns no hunks for equal texts', () => {
+        expect(getDiffHunks(original, original)).toEqual([]);
+    });
+});
+
+describe('createUnifiedDiff', () => {
+    it('places the removed lines of each hunk before the added lines', () => {
+        const diff = createUnifiedDiff(
+            original,
+            value,
+            getDiffHunks(original, value)
+        );
+
+        expect(diff.lines.map((line) => [line.type, line.text])).toEqual([
+            ['unchanged', 'a'],
+            ['removed', 'b'],
+            ['added', 'B'],
+            ['unchanged', 'c'],
+            ['removed', 'd'],
+            ['unchanged', 'e'],
+            ['added', 'f'],
+        ]);
+        expect(diff.hunkStarts).toEqual([1, 4, 6]);
+        expect(diff.lines[5]).toEqual({
+            type: 'unchanged',
+            text: 'e',
+            originalLine: 4,
+            valueLine: 3,
+        });
+    });
+});
+
+describe('revertHunk', () => {
+    it('replaces the lines of the hunk with the original lines', () => {
+        const hunks = getDiffHunks(original, value);
+
+        expect(revertHunk(original, value, hunks[0])).toEqual(
+            ['a', 'b', 'c', 'e', 'f'].join('\n')
+        );
+        expect(revertHunk(original, value, hunks[1])).toEqual(
+            ['a', 'B', 'c', 'd', 'e', 'f'].join('\n')
+        );
+    });
+});
+
+describe('acceptHunk', () => {
+    it('replaces the original lines of the hunk with the new lines', () => {
+        const hunks = getDiffHunks(original, value);
+
+        expect(acceptHunk(original, value, hunks[2])).toEqual(
+            ['a', 'b', 'c', 'd', 'e', 'f'].join('\n')
+        );
+    });
+});
@@ -0,0 +1,223 @@
+import DiffMatchPatch, { DIFF_DELETE, DIFF_EQUAL } from 'diff-match-patch';
+
+/**
+ * A group of adjacent lines that differ between two versions of a text.
+ * Line numbers start at `0`, and the end of each range is not included.
+ */
+export interface DiffHunk {
+    originalFrom: number;
+    originalTo: number;
+    valueFrom: number;
+    valueTo: number;
+}
+
+/**
+ * A line of a unified diff
+ */
+export interface UnifiedDiffLine {
+    type: 'unchanged' | 'added' | 'removed';
+    text: string;
+
+    /**
+     * The number of the line in the original text.
+     * Not set for added lines
+     */
+    originalLine?: number;
+
+    /**
+     * The number of the line in the new text.
+     * Not set for removed lines
+     */
+    valueLine?: number;
+}
+
+/**
+ * Both versions of a text in one, where the lines of each hunk that were
+ * removed are followed by the lines that were added
+ */
+export interface UnifiedDiff {
+    lines: UnifiedDiffLine[];
+
+    /**
+     * The line of the unified diff where each hunk starts
+     */
+    hunkStarts: number[];
+}
+
+/**
+ * Find the lines that differ between two versions of a text
+ *
+ * @param original - the original text
+ * @param value - the new text
+ * @returns the hunks of lines that differ
+ */
+export function getDiffHunks(original: string, value: string): DiffHunk[] {
+    const dmp = new DiffMatchPatch();
+
+    // Every line ends with a line break when comparing the lines,
+    // so that the last line equals the same line further up in the other text
+    const { chars1, chars2, lineArray } = dmp.diff_linesToChars_(
+        `${original}\n`,
+        `${value}\n`
+    );
+    const diffs = dmp.diff_main(chars1, chars2, false);
+    dmp.diff_charsToLines_(diffs, lineArray);
+
+    const hunks: DiffHunk[] = [];
+    let hunk: DiffHunk;
+    let originalLine = 0;
+    let valueLine = 0;
+
+    for (const [operation, text] of diffs) {
+        const lineCount = countLines(text);
+
+        if (operation === DIFF_EQUAL) {
+            hunk = undefined;
+            originalLine += lineCount;
+            valueLine += lineCount;
+            continue;
+        }
+
+        if (!hunk) {
+            hunk = {
+                originalFrom: originalLine,
+                originalTo: originalLine,
+                valueFrom: valueLine,
+                valueTo: valueLine,
+            };
+            hunks.push(hunk);
+        }
+
+        if (operation === DIFF_DELETE) {
+            originalLine += lineCount;
+            hunk.originalTo = originalLine;
+        } else {
+            valueLine += lineCount;
+            hunk.valueTo = valueLine;
+        }
+    }
+
+    return hunks;
+}
+
+/**
+ * Combine two versions of a text into a unified diff
+ *
+ * @param original - the original text
+ * @param value - the new text
+ * @param hunks - the hunks of lines that differ
+ * @returns the unified diff
+ */
+export function createUnifiedDiff(
+    original: string,
+    value: string,
+    hunks: DiffHunk[]
+): UnifiedDiff {
+    const originalLines = original.split('\n');
+    const valueLines = value.split('\n');
+    const lines: UnifiedDiffLine[] = [];
+    const hunkStarts: number[] = [];
+    let originalLine = 0;
+    let valueLine = 0;
+
+    const addUnchangedLines = (to: number) => {
+        for (; valueLine < to; valueLine++, originalLine++) {
+            lines.push({
+                type: 'unchanged',
+                text: valueLines[valueLine],
+                originalLine: originalLine,
+                valueLine: valueLine,
+            });
+        }
+    };
+
+    for (const hunk of hunks) {
+        addUnchangedLines(hunk.valueFrom);
+        hunkStarts.push(lines.length);
+
+        for (let line = hunk.originalFrom; line < hunk.originalTo; line++) {
+            lines.push({
+                type: 'removed',
+                text: originalLines[line],
+                originalLine: line,
+            });
+        }
+
+        for (let line = hunk.valueFrom; line < hunk.valueTo; line++) {
+            lines.push({
+                type: 'added',
+                text: valueLines[line],
+                valueLine: line,
+            });
+        }
+
+        originalLine = hunk.originalTo;
+        valueLine = hunk.valueTo;
+    }
+
+    addUnchangedLines(valueLines.length);
+
+    return { lines: lines, hunkStarts: hunkStarts };
+}
+
+/**
+ * Undo the changes of a hunk, by replacing its lines in the new text
+ * with the lines of the original text
+ *
+ * @param original - the original text
+ * @param value - the new text
+ * @param hunk - the hunk to revert
+ * @returns the new text, without the changes of the hunk
+ */
+export function revertHunk(
+    original: string,
+    value: string,
+    hunk: DiffHunk
+): string {
+    return replaceLines(
+        value,
+        hunk.valueFrom,
+        hunk.valueTo,
+        original.split('\n').slice(hunk.originalFrom, hunk.originalTo)
+    );
+}
+
+/**
+ * Accept the changes of a hunk, by replacing its lines in the original text
+ * with the lines of the new text
+ *
+ * @param original - the original text
+ * @param value - the new text
+ * @param hunk - the hunk to accept
+ * @returns the original text, with the changes of the hunk
+ */
+export function acceptHunk(
+    original: string,
+    value: string,
+    hunk: DiffHunk
+): string {
+    return replaceLines(
+        original,
+        hunk.originalFrom,
+        hunk.originalTo,
+        value.split('\n').slice(hunk.valueFrom, hunk.valueTo)
+    );
+}
+
+function replaceLines(
+    text: string,
+    from: number,
+    to: number,
+    newLines: string[]
+): string {
+    const lines = text.split('\n');
+    lines.splice(from, to - from, ...newLines);
+
+    return lines.join('\n');
+}
+
+function countLines(text: string): number {
+    const lineCount = text.split('\n').length;
+
+    return text.endsWith('\n') ? lineCount - 1 : lineCount;
+}
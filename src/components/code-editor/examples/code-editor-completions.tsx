@@ -0,0 +1,107 @@
+import { Component, h, State } from '@stencil/core';
+import {
+    CodeCompletion,
+    CodeCompletionContext,
+    CodeDiagnostic,
+} from '@limetech/lime-elements';
+
+const MERGE_FIELDS = [
+    { name: 'contact.first_name', description: 'First name of the contact' },
+    { name: 'contact.last_name', description: 'Last name of the contact' },
+    { name: 'contact.email', description: 'Email address of the contact' },
+    { name: 'company.name', description: 'Name of the company' },
+    { name: 'sender.name', description: 'Name of the coworker who sends it' },
+];
+
+/**
+ * Completions and diagnostics from the application
+ * The `completions` prop takes a function that returns suggestions for
+ * what to write at the cursor. In this example, it suggests the merge fields
+ * that can be used in an email template, when the cursor is inside `{{ }}`,
+ * while typing or when pressing `Ctrl-Space`.
+ *
+ * The `diagnostics` prop marks problems that the application has found
+ * in the code. Here, merge fields that do not exist are marked as errors,
+ * and the `sender` fields are marked with a warning.
+ */
+@Component({
+    tag: 'limel-example-code-editor-completions',
+    shadow: true,
+    styleUrl: 'code-editor.scss',
+})
+export class CodeEditorCompletionsExample {
+    @State()
+    private template = [
+        '<p>Dear {{ contact.first_name }},</p>',
+        '<p>Thank you for your order from {{ company.nme }}!</p>',
+        '<p>Best regards,<br>{{ sender.name }}</p>',
+    ].join('\n');
+
+    public render() {
+        return (
+            <limel-code-editor
+                value={this.template}
+                language="jinja2"
+                lineNumbers={true}
+                completions={this.getCompletions}
+                diagnostics={this.getDiagnostics()}
+                onChange={this.handleChange}
+            />
+        );
+    }
+
+    private getCompletions = async (
+        context: CodeCompletionContext
+    ): Promise<CodeCompletion[]> => {
+        const line = context.value.split('\n')[context.position.line];
+        const textBeforeCursor = line.slice(0, context.position.column);
+        const isInMergeField =
+            textBeforeCursor.lastIndexOf('{{') >
+            textBeforeCursor.lastIndexOf('}}');
+
+        if (!isInMergeField) {
+            return [];
+        }
+
+        return MERGE_FIELDS.map((field) => ({
+            text: field.name,
+            detail: field.description,
+        }));
+    };
+
+    private getDiagnostics(): CodeDiagnostic[] {
+        const diagnostics: CodeDiagnostic[] = [];
+
+        for (const [index, line] of this.template.split('\n').entries()) {
+            for (const match of line.matchAll(/{{\s*([\w.]+)\s*}}/g)) {
+                const name = match[1];
+                const column = match.index + match[0].indexOf(name);
+                const from = { line: index, column: column };
+                const to = { line: index, column: column + name.length };
+
+                if (!MERGE_FIELDS.some((field) => field.name === name)) {
+                    diagnostics.push({
+                        message: `Unknown merge field: ${name}`,
+                        severity: 'error',
+                        from: from,
+                        to: to,
+                    });
+                } else if (name.startsWith('sender.')) {
+                    diagnostics.push({
+                        message:
+                            'The sender is only known when the email is sent',
+                        severity: 'warning',
+                        from: from,
+                        to: to,
+                    });
+                }
+            }
+        }
+
+        return diagnostics;
+    }
+
+    private handleChange = (event: CustomEvent<string>) => {
+        this.template = event.detail;
+    };
+}
@@ -0,0 +1,119 @@
+import { Component, h, Host, State } from '@stencil/core';
+import {
+    DiffLayout,
+    LimelSelectCustomEvent,
+    Option,
+} from '@limetech/lime-elements';
+
+const original = `integration:
+    name: Webshop
+    enabled: false
+    endpoints:
+        - url: https://example.com/orders
+          method: POST
+        - url: https://example.com/customers
+          method: GET
+    retries: 3`;
+
+const value = `integration:
+    name: Webshop
+    enabled: true
+    endpoints:
+        - url: https://example.com/orders
+          method: POST
+        - url: https://example.com/invoices
+          method: POST
+        - url: https://example.com/customers
+          method: GET`;
+
+/**
+ * Comparing two versions of the code
+ * When `originalValue` is set, the editor shows what has changed between
+ * `originalValue` and `value`, either side by side or in a unified layout.
+ *
+ * Each change can be accepted, which emits an `originalValueChange` event,
+ * or reverted, which emits a `change` event. Use the buttons above the editor
+ * to go to the previous or next change.
+ */
+@Component({
+    tag: 'limel-example-code-editor-diff',
+    shadow: true,
+    styleUrl: 'code-editor.scss',
+})
+export class CodeEditorDiffExample {
+    @State()
+    private original = original;
+
+    @State()
+    private value = value;
+
+    @State()
+    private layout: DiffLayout = 'side-by-side';
+
+    @State()
+    private readonly = false;
+
+    private layouts: Option[] = [
+        { text: 'Side by side', value: 'side-by-side' },
+        { text: 'Unified', value: 'unified' },
+    ];
+
+    public render() {
+        return (
+            <Host>
+                <limel-code-editor
+                    value={this.value}
+                    originalValue={this.original}
+                    diffLayout={this.layout}
+                    language="yaml"
+                    lineNumbers={true}
+                    readonly={this.readonly}
+                    onChange={this.handleChange}
+                    onOriginalValueChange={this.handleOriginalValueChange}
+                />
+                <limel-example-controls>
+                    <limel-select
+                        label="Layout"
+                        value={this.layouts.find(
+                            (option) => option.value === this.layout
+                        )}
+                        options={this.layouts}
+                        onChange={this.handleLayoutChange}
+                    />
+                    <limel-checkbox
+                        label="Readonly"
+                        checked={this.readonly}
+                        onChange={this.handleReadonlyChange}
+                    />
+                    <limel-button label="Reset" onClick={this.reset} />
+                </limel-example-controls>
+            </Host>
+        );
+    }
+
+    private handleChange = (event: CustomEvent<string>) => {
+        event.stopPropagation();
+        this.value = event.detail;
+    };
+
+    private handleOriginalValueChange = (event: CustomEvent<string>) => {
+        this.original = event.detail;
+    };
+
+    private handleLayoutChange = (
+        event: LimelSelectCustomEvent<Option<string>>
+    ) => {
+        event.stopPropagation();
+        this.layout = event.detail.value as DiffLayout;
+    };
+
+    private handleReadonlyChange = (event: CustomEvent<boolean>) => {
+        event.stopPropagation();
+        this.readonly = event.detail;
+    };
+
+    private reset = () => {
+        this.original = original;
+        this.value = value;
+    };
+}
@@ -0,0 +1,107 @@
+import { Component, h, Host, State } from '@stencil/core';
+import { CodeDiagnostic, FormSchema } from '@limetech/lime-elements';
+
+/**
+ * Editable with a JSON Schema
+ * When the editor is given a `jsonSchema`, it suggests keys and values from
+ * the schema while typing, or when pressing `Ctrl-Space`.
+ * Hovering a key displays its `title` and `description`.
+ *
+ * Code that does not follow the schema is marked in the editor,
+ * which is then displayed as invalid. The problems are also emitted
+ * in the `diagnosticsChange` event.
+ *
+ * :::tip
+ * The schema is the same kind of schema that `limel-form` uses,
+ * so the schema of a form can be reused to edit its value as JSON.
+ * :::
+ */
+@Component({
+    tag: 'limel-example-code-editor-json-schema',
+    shadow: true,
+    styleUrl: 'code-editor.scss',
+})
+export class CodeEditorJsonSchemaExample {
+    @State()
+    private json: string = JSON.stringify(
+        {
+            name: 'Ada Lovelace',
+            role: 'owner',
+            address: {
+                city: 'London',
+            },
+        },
+        null,
+        '    '
+    );
+
+    @State()
+    private diagnostics: CodeDiagnostic[] = [];
+
+    private schema: FormSchema = {
+        type: 'object',
+        required: ['name', 'role'],
+        additionalProperties: false,
+        properties: {
+            name: {
+                type: 'string',
+                title: 'Name',
+                description: 'The full name of the user',
+            },
+            role: {
+                type: 'string',
+                title: 'Role',
+                description: 'Decides what the user is allowed to do',
+                enum: ['admin', 'editor', 'viewer'],
+            },
+            active: {
+                type: 'boolean',
+                title: 'Active',
+                description: 'Inactive users can not log in',
+            },
+            address: {
+                type: 'object',
+                title: 'Address',
+                properties: {
+                    street: { type: 'string', title: 'Street' },
+                    city: { type: 'string', title: 'City' },
+                    country: {
+                        type: 'string',
+                        title: 'Country',
+                        enum: ['Sweden', 'United Kingdom'],
+                    },
+                },
+            },
+        },
+    };
+
+    public render() {
+        return (
+            <Host>
+                <limel-code-editor
+                    value={this.json}
+                    language="json"
+                    lineNumbers={true}
+                    lint={true}
+                    jsonSchema={this.schema}
+                    onChange={this.handleChange}
+                    onDiagnosticsChange={this.handleDiagnosticsChange}
+                />
+                <limel-example-value
+                    label="Diagnostics"
+                    value={this.diagnostics}
+                />
+            </Host>
+        );
+    }
+
+    private handleChange = (event: CustomEvent<string>) => {
+        this.json = event.detail;
+    };
+
+    private handleDiagnosticsChange = (
+        event: CustomEvent<CodeDiagnostic[]>
+    ) => {
+        this.diagnostics = event.detail;
+    };
+}
@@ -0,0 +1,109 @@
+import { Component, h, Host, State } from '@stencil/core';
+import {
+    Language,
+    LimelSelectCustomEvent,
+    Option,
+} from '@limetech/lime-elements';
+
+const snippets: Partial<Record<Language, string>> = {
+    sql: `SELECT name, COUNT(*) AS deals
+FROM companies
+WHERE id IN (
+    SELECT company_id
+    FROM deals
+    WHERE value > 1000
+)
+GROUP BY name;`,
+    yaml: `integration:
+    name: Webshop
+    enabled: true
+    endpoints:
+        - url: https://example.com/orders
+          method: POST
+        - url: https://example.com/customers
+          method: GET`,
+    markdown: `# Welcome, {{ name }}!
+
+Thank you for your order. Here is a summary:
+
+- **Order number:** 12345
+- **Delivery:** 2-3 working days
+
+> Questions? [Contact us](https://example.com/contact)`,
+    xml: `<?xml version="1.0" encoding="UTF-8"?>
+<order id="12345">
+    <customer>Jane Doe</customer>
+    <items>
+        <item sku="A-1" quantity="2" />
+    </items>
+</order>`,
+    python: `def total(deals):
+    """Sum the value of all won deals"""
+    result = 0
+    for deal in deals:
+        if deal.status == "won":
+            result += deal.value
+
+    return result`,
+};
+
+/**
+ * More languages
+ * Besides web languages, the editor can highlight SQL, YAML, Markdown,
+ * XML and Python. All of them can be folded when `fold` is set.
+ * When `lint` is set, YAML is linted as well as JSON.
+ * Try to break the indentation of the YAML example!
+ */
+@Component({
+    tag: 'limel-example-code-editor-languages',
+    shadow: true,
+    styleUrl: 'code-editor.scss',
+})
+export class CodeEditorLanguagesExample {
+    @State()
+    private language: Language = 'sql';
+
+    @State()
+    private value = snippets.sql;
+
+    private languages: Option[] = Object.keys(snippets).map((language) => ({
+        text: language,
+        value: language,
+    }));
+
+    public render() {
+        return (
+            <Host>
+                <limel-code-editor
+                    value={this.value}
+                    language={this.language}
+                    lineNumbers={true}
+                    fold={true}
+                    lint={true}
+                    onChange={this.handleChange}
+                />
+                <limel-example-controls>
+                    <limel-select
+                        label="language"
+                        value={this.languages.find(
+                            (option) => option.value === this.language
+                        )}
+                        options={this.languages}
+                        onChange={this.handleLanguageChange}
+                    />
+                </limel-example-controls>
+            </Host>
+        );
+    }
+
+    private handleChange = (event: CustomEvent<string>) => {
+        this.value = event.detail;
+    };
+
+    private handleLanguageChange = (
+        event: LimelSelectCustomEvent<Option<string>>
+    ) => {
+        this.language = event.detail.value as Language;
+        this.value = snippets[this.language];
+    };
+}
@@ -0,0 +1,89 @@
+import { Component, h, Host, State } from '@stencil/core';
+
+const snippets = [
+    { label: 'Name', text: '{{ contact.name }}' },
+    { label: 'Company', text: '{{ company.name }}' },
+    { label: 'Greeting', text: 'Hello {{ contact.firstname }},\n\n' },
+];
+
+/**
+ * Controlling the editor
+ * The editor has methods to read and change the selection, insert text
+ * at the cursor, search and replace, and go to a line. This makes it
+ * possible to build toolbars around the editor, like the one below
+ * that inserts snippets.
+ *
+ * When there is more than one cursor, text is inserted at each of them.
+ * Hold `Ctrl` or `Cmd` and click in the code to add a cursor,
+ * or click _Select all_ in the search panel.
+ *
+ * Press `Ctrl-F` or `Cmd-F` in the editor to open the search panel,
+ * which is translated using `translationLanguage`.
+ */
+@Component({
+    tag: 'limel-example-code-editor-methods',
+    shadow: true,
+    styleUrl: 'code-editor.scss',
+})
+export class CodeEditorMethodsExample {
+    @State()
+    private value = `<p>Dear customer,</p>
+<p>Your order has been shipped.</p>
+<p>Kind regards,<br>{{ user.name }}</p>`;
+
+    private editor: HTMLLimelCodeEditorElement;
+
+    public render() {
+        return (
+            <Host>
+                <limel-example-controls>
+                    {snippets.map((snippet) => (
+                        <limel-button
+                            key={snippet.label}
+                            label={snippet.label}
+                            icon="plus_math"
+                            onClick={() => this.insert(snippet.text)}
+                        />
+                    ))}
+                    <limel-button
+                        label="Go to line 3"
+                        onClick={this.goToLineThree}
+                    />
+                    <limel-button
+                        label="Select all merge fields"
+                        onClick={this.selectMergeFields}
+                    />
+                </limel-example-controls>
+                <limel-code-editor
+                    ref={(element) => (this.editor = element)}
+                    value={this.value}
+                    language="jinja2"
+                    lineNumbers={true}
+                    onChange={this.handleChange}
+                />
+            </Host>
+        );
+    }
+
+    private insert = async (text: string) => {
+        await this.editor.insertAtCursor(text);
+        await this.editor.setFocus();
+    };
+
+    private goToLineThree = async () => {
+        await this.editor.goToLine(3);
+        await this.editor.setFocus();
+    };
+
+    private selectMergeFields = async () => {
+        const matches = await this.editor.find(String.raw`\{\{.*?\}\}`, {
+            regexp: true,
+        });
+        await this.editor.setSelection(matches);
+        await this.editor.setFocus();
+    };
+
+    private handleChange = (event: CustomEvent<string>) => {
+        this.value = event.detail;
+    };
+}
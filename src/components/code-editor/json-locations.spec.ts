@@ -0,0 +1,102 @@
+import {
+    findKeyAt,
+    findLocation,
+    getJsonContext,
+    getPosition,
+    parseJsonLocations,
+} from './json-locations';
+
+describe('parseJsonLocations', () => {
+    it('finds the location of each key and value', () => {
+        const text = '{"name": "Ada", "tags": [1, true]}';
+        const locations = parseJsonLocations(text);
+
+        expect(findLocation(locations, [])).toMatchObject({
+            valueFrom: 0,
+            valueTo: text.length,
+        });
+        expect(findLocation(locations, ['name'])).toEqual({
+            path: ['name'],
+            keyFrom: 1,
+            keyTo: 7,
+            valueFrom: 9,
+            valueTo: 14,
+        });
+        expect(findLocation(locations, ['tags', 1])).toMatchObject({
+            valueFrom: 28,
+            valueTo: 32,
+        });
+    });
+
+    it('handles documents that are being written', () => {
+        const locations = parseJsonLocations('{"address": {"city": "Lu');
+
+        expect(findLocation(locations, ['address', 'city'])).toMatchObject({
+            valueFrom: 21,
+            valueTo: 24,
+        });
+    });
+});
+
+describe('findKeyAt', () => {
+    it('returns the location of the key at the offset', () => {
+        const locations = parseJsonLocations('{"a": 1, "b": 2}');
+
+        expect(findKeyAt(locations, 10).path).toEqual(['b']);
+        expect(findKeyAt(locations, 5)).toBeUndefined();
+    });
+});
+
+describe('getJsonContext', () => {
+    it('returns the keys of the object when a key is expected', () => {
+        const text = '{"name": "Ada", "}';
+
+        expect(getJsonContext(text, 17)).toEqual({
+            kind: 'key',
+            path: [],
+            keys: ['name'],
+            hasColon: false,
+            from: 16,
+            to: 17,
+            prefix: '"',
+        });
+    });
+
+    it('returns the path of the value that is being written', () => {
+        const text = '{"address": {"city": "Lu"}, "tags": [1, ]}';
+
+        expect(getJsonContext(text, 24)).toMatchObject({
+            kind: 'value',
+            path: ['address', 'city'],
+            from: 21,
+            to: 25,
+            prefix: '"Lu',
+        });
+        expect(getJsonContext(text, 40)).toMatchObject({
+            kind: 'value',
+            path: ['tags', 1],
+            prefix: '',
+        });
+    });
+
+    it('knows when a key is already followed by a colon', () => {
+        expect(getJsonContext('{"na": 1}', 3)).toMatchObject({
+            kind: 'key',
+            hasColon: true,
+            keys: [],
+        });
+    });
+
+    it('returns undefined after the root value', () => {
+        expect(getJsonContext('{} ', 3)).toBeUndefined();
+    });
+});
+
+describe('getPosition', () => {
+    it('returns the zero-based line and column of the offset', () => {
+        expect(getPosition('{\n  "a": 1\n}', 6)).toEqual({
+            line: 1,
+            column: 4,
+        });
+    });
+});
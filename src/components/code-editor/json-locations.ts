@@ -0,0 +1,475 @@
+import { CodePosition } from './code-editor.types';
+
+/**
+ * The path to a value in a JSON document, as a list of
+ * property names and array indexes
+ */
+export type JsonPath = Array<string | number>;
+
+/**
+ * Where a value, and the key it belongs to, are found in a JSON document.
+ * All offsets are counted in characters from the start of the document.
+ */
+export interface JsonLocation {
+    path: JsonPath;
+    valueFrom: number;
+    valueTo: number;
+    keyFrom?: number;
+    keyTo?: number;
+}
+
+/**
+ * What is being written at a given position in a JSON document
+ */
+export interface JsonContext {
+    /**
+     * Whether the position is where a key, or a value, is expected
+     */
+    kind: 'key' | 'value';
+
+    /**
+     * Path to the object that the key belongs to,
+     * or to the value that is being written
+     */
+    path: JsonPath;
+
+    /**
+     * Keys that the object already has. Only set when `kind` is `key`
+     */
+    keys?: string[];
+
+    /**
+     * Whether the key is already followed by a colon.
+     * Only set when `kind` is `key`
+     */
+    hasColon?: boolean;
+
+    /**
+     * Start of the key or value that is being written
+     */
+    from: number;
+
+    /**
+     * End of the key or value that is being written
+     */
+    to: number;
+
+    /**
+     * What has been written so far, from `from` to the position
+     */
+    prefix: string;
+}
+
+type TokenType = '{' | '}' | '[' | ']' | ':' | ',' | 'string' | 'literal';
+
+interface Token {
+    type: TokenType;
+    from: number;
+    to: number;
+    value?: string;
+}
+
+interface Container {
+    type: 'object' | 'array';
+    path: JsonPath;
+    key?: string;
+    expectsKey?: boolean;
+    index?: number;
+}
+
+const PUNCTUATION = '{}[]:,';
+
+/**
+ * Find the location of every value in a JSON document. The document does not
+ * have to be valid, which makes it possible to use while it is being written.
+ *
+ * @param text - the JSON document
+ * @returns the location of each value, including the root value
+ */
+export function parseJsonLocations(text: string): JsonLocation[] {
+    const tokens = tokenize(text);
+    const locations: JsonLocation[] = [];
+    const parser = { tokens: tokens, index: 0, end: text.length };
+
+    if (tokens.length > 0) {
+        parseValue(parser, [], locations);
+    }
+
+    return locations;
+}
+
+/**
+ * Find the key whose name covers the given offset
+ *
+ * @param locations - the locations in the JSON document
+ * @param offset - the offset in the document
+ * @returns the location of the key and its value, if any
+ */
+export function findKeyAt(
+    locations: JsonLocation[],
+    offset: number
+): JsonLocation | undefined {
+    return locations.find(
+        (location) =>
+            location.keyFrom !== undefined &&
+            location.keyFrom <= offset &&
+            offset < location.keyTo
+    );
+}
+
+/**
+ * Find the location of the value at the given path
+ *
+ * @param locations - the locations in the JSON document
+ * @param path - the path to the value
+ * @returns the location of the value, if it exists
+ */
+export function findLocation(
+    locations: JsonLocation[],
+    path: JsonPath
+): JsonLocation | undefined {
+    return locations.find(
+        (location) =>
+            location.path.length === path.length &&
+            location.path.every(
+                (segment, index) => String(segment) === String(path[index])
+            )
+    );
+}
+
+/**
+ * Find out what is being written at the given offset in a JSON document
+ *
+ * @param text - the JSON document
+ * @param offset - the offset of the cursor in the document
+ * @returns the context of the cursor, or `undefined` if it is not where
+ * a key or a value can be written
+ */
+export function getJsonContext(
+    text: string,
+    offset: number
+): JsonContext | undefined {
+    const tokens = tokenize(text);
+    const current = tokens.find(
+        (token) =>
+            (token.type === 'string' || token.type === 'literal') &&
+            token.from < offset &&
+            offset <= token.to
+    );
+    const stack: Container[] = [];
+    let hasRootValue = false;
+
+    for (const token of tokens) {
+        if (token.from >= offset || token === current) {
+            break;
+        }
+
+        readToken(token, stack);
+        hasRootValue = stack.length === 0;
+    }
+
+    const from = current?.from ?? offset;
+    const to = current?.to ?? offset;
+    const prefix = text.slice(from, offset);
+    const container = stack.at(-1);
+
+    if (!container) {
+        return hasRootValue
+            ? undefined
+            : { kind: 'value', path: [], from: from, to: to, prefix: prefix };
+    }
+
+    if (container.type === 'array') {
+        return {
+            kind: 'value',
+            path: [...container.path, container.index],
+            from: from,
+            to: to,
+            prefix: prefix,
+        };
+    }
+
+    if (!container.expectsKey) {
+        return {
+            kind: 'value',
+            path: [...container.path, container.key],
+            from: from,
+            to: to,
+            prefix: prefix,
+        };
+    }
+
+    const keys = parseJsonLocations(text)
+        .filter(
+            (location) =>
+                location.keyFrom !== from &&
+                isChildOf(location.path, container.path)
+        )
+        .map((location) => String(location.path[container.path.length]));
+
+    return {
+        kind: 'key',
+        path: container.path,
+        keys: keys,
+        hasColon: /^\s*:/.test(text.slice(to)),
+        from: from,
+        to: to,
+        prefix: prefix,
+    };
+}
+
+/**
+ * Get the line and column of an offset in a text
+ *
+ * @param text - the text
+ * @param offset - the offset in the text
+ * @returns the zero-based line and column of the offset
+ */
+export function getPosition(text: string, offset: number): CodePosition {
+    const lines = text.slice(0, offset).split('\n');
+
+    return {
+        line: lines.length - 1,
+        column: lines.at(-1).length,
+    };
+}
+
+/**
+ * Update the stack of open containers with a token
+ *
+ * @param token - the token
+ * @param stack - the containers that are open before the token
+ */
+function readToken(token: Token, stack: Container[]) {
+    const container = stack.at(-1);
+
+    if (token.type === '{' || token.type === '[') {
+        stack.push({
+            type: token.type === '{' ? 'object' : 'array',
+            path: getNextPath(container),
+            expectsKey: token.type === '{',
+            index: 0,
+        });
+    } else if (token.type === '}' || token.type === ']') {
+        stack.pop();
+    } else if (!container) {
+        return;
+    } else if (token.type === ',' && container.type === 'array') {
+        container.index++;
+    } else if (token.type === ',') {
+        container.expectsKey = true;
+        container.key = undefined;
+    } else if (token.type === ':') {
+        container.expectsKey = false;
+    } else if (token.type === 'string' && container.expectsKey) {
+        container.key = token.value;
+    }
+}
+
+function getNextPath(container?: Container): JsonPath {
+    if (!container) {
+        return [];
+    }
+
+    if (container.type === 'array') {
+        return [...container.path, container.index];
+    }
+
+    return [...container.path, container.key];
+}
+
+function isChildOf(path: JsonPath, parent: JsonPath): boolean {
+    return (
+        path.length === parent.length + 1 &&
+        parent.every(
+            (segment, index) => String(segment) === String(path[index])
+        )
+    );
+}
+
+interface Parser {
+    tokens: Token[];
+    index: number;
+    end: number;
+}
+
+function parseValue(
+    parser: Parser,
+    path: JsonPath,
+    locations: JsonLocation[],
+    key?: Token
+) {
+    const token = parser.tokens[parser.index];
+    parser.index++;
+
+    let valueTo = token.to;
+    if (token.type === '{') {
+        valueTo = parseObject(parser, path, locations);
+    } else if (token.type === '[') {
+        valueTo = parseArray(parser, path, locations);
+    }
+
+    locations.push({
+        path: path,
+        valueFrom: token.from,
+        valueTo: valueTo,
+        keyFrom: key?.from,
+        keyTo: key?.to,
+    });
+}
+
+function parseObject(
+    parser: Parser,
+    path: JsonPath,
+    locations: JsonLocation[]
+): number {
+    while (parser.index < parser.tokens.length) {
+        const token = parser.tokens[parser.index];
+        if (token.type === '}') {
+            parser.index++;
+
+            return token.to;
+        }
+
+        if (token.type === ']') {
+            return token.from;
+        }
+
+        parser.index++;
+        if (token.type !== 'string') {
+            continue;
+        }
+
+        if (parser.tokens[parser.index]?.type === ':') {
+            parser.index++;
+        }
+
+        if (startsValue(parser.tokens[parser.index])) {
+            parseValue(parser, [...path, token.value], locations, token);
+        }
+    }
+
+    return parser.end;
+}
+
+function parseArray(
+    parser: Parser,
+    path: JsonPath,
+    locations: JsonLocation[]
+): number {
+    let index = 0;
+
+    while (parser.index < parser.tokens.length) {
+        const token = parser.tokens[parser.index];
+        if (token.type === ']') {
+            parser.index++;
+
+            return token.to;
+        }
+
+        if (token.type === '}') {
+            return token.from;
+        }
+
+        if (startsValue(token)) {
+            parseValue(parser, [...path, index], locations);
+            continue;
+        }
+
+        if (token.type === ',') {
+            index++;
+        }
+
+        parser.index++;
+    }
+
+    return parser.end;
+}
+
+function startsValue(token?: Token): boolean {
+    return (
+        !!token &&
+        (token.type === '{' ||
+            token.type === '[' ||
+            token.type === 'string' ||
+            token.type === 'literal')
+    );
+}
+
+function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    let index = 0;
+
+    while (index < text.length) {
+        const char = text[index];
+
+        if (/\s/.test(char)) {
+            index++;
+        } else if (PUNCTUATION.includes(char)) {
+            tokens.push({
+                type: char as TokenType,
+                from: index,
+                to: index + 1,
+            });
+            index++;
+        } else if (char === '"') {
+            const to = findStringEnd(text, index);
+            tokens.push({
+                type: 'string',
+                from: index,
+                to: to,
+                value: readString(text.slice(index, to)),
+            });
+            index = to;
+        } else {
+            const from = index;
+            while (
+                index < text.length &&
+                !/\s/.test(text[index]) &&
+                !PUNCTUATION.includes(text[index]) &&
+                text[index] !== '"'
+            ) {
+                index++;
+            }
+
+            tokens.push({ type: 'literal', from: from, to: index });
+        }
+    }
+
+    return tokens;
+}
+
+function findStringEnd(text: string, start: number): number {
+    let index = start + 1;
+    let punctuation: number;
+
+    while (index < text.length && text[index] !== '\n') {
+        if (text[index] === '\\') {
+            index += 2;
+        } else if (text[index] === '"') {
+            return index + 1;
+        } else {
+            if (
+                punctuation === undefined &&
+                PUNCTUATION.includes(text[index])
+            ) {
+                punctuation = index;
+            }
+
+            index++;
+        }
+    }
+
+    // The string is not closed, which is most likely because it is being
+    // written, so it should not swallow the brackets that follow it
+    return punctuation ?? index;
+}
+
+function readString(text: string): string {
+    try {
+        return JSON.parse(text);
+    } catch {
+        // The string is not closed yet, or has an invalid escape sequence
+        return text.slice(1).replace(/"$/, '');
+    }
+}
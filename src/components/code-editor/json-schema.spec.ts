@@ -0,0 +1,128 @@
+import { FormSchema } from '../form/form.types';
+import { getJsonContext } from './json-locations';
+import {
+    createJsonValidator,
+    getSchemaCompletions,
+    getSchemaDescription,
+    getSubschemas,
+} from './json-schema';
+
+const schema: FormSchema = {
+    type: 'object',
+    required: ['name'],
+    additionalProperties: false,
+    properties: {
+        name: { type: 'string', description: 'Full name of the person' },
+        role: { enum: ['admin', 'user'] },
+        active: { type: 'boolean' },
+        address: { $ref: '#/definitions/address' },
+        phones: { type: 'array', items: { type: 'string' } },
+    },
+    definitions: {
+        address: {
+            title: 'Address',
+            type: 'object',
+            allOf: [{ properties: { city: { type: 'string' } } }],
+        },
+    },
+};
+
+describe('getSubschemas', () => {
+    it('follows properties, items, references and compositions', () => {
+        expect(getSubschemas(schema, ['phones', 0])).toEqual([
+            { type: 'string' },
+        ]);
+        expect(getSubschemas(schema, ['address', 'city'])).toEqual([
+            { type: 'string' },
+        ]);
+    });
+
+    it('returns no schemas for unknown paths', () => {
+        expect(getSubschemas(schema, ['unknown'])).toEqual([]);
+    });
+});
+
+describe('getSchemaDescription', () => {
+    it('returns the title and description of the value', () => {
+        expect(getSchemaDescription(schema, ['name'])).toEqual(
+            'Full name of the person'
+        );
+        expect(getSchemaDescription(schema, ['address'])).toEqual('Address');
+        expect(getSchemaDescription(schema, ['role'])).toBeUndefined();
+    });
+});
+
+describe('getSchemaCompletions', () => {
+    it('suggests the keys that the object does not have yet', () => {
+        const text = '{"name": "Ada", "a';
+        const completions = getSchemaCompletions(
+            schema,
+            getJsonContext(text, text.length)
+        );
+
+        expect(completions).toEqual([
+            { text: '"active": ', label: 'active' },
+            { text: '"address": ', label: 'address' },
+        ]);
+    });
+
+    it('suggests the allowed values', () => {
+        const role = '{"role": ';
+        const active = '{"active": ';
+
+        expect(
+            getSchemaCompletions(schema, getJsonContext(role, role.length))
+        ).toEqual([
+            { text: '"admin"', label: '"admin"' },
+            { text: '"user"', label: '"user"' },
+        ]);
+        expect(
+            getSchemaCompletions(schema, getJsonContext(active, active.length))
+        ).toEqual([
+            { text: 'true', label: 'true' },
+            { text: 'false', label: 'false' },
+        ]);
+    });
+});
+
+describe('createJsonValidator', () => {
+    const validate = createJsonValidator(schema);
+
+    it('returns no diagnostics for valid documents', () => {
+        expect(validate('{"name": "Ada", "role": "admin"}')).toEqual([]);
+    });
+
+    it('returns no diagnostics for documents with syntax errors', () => {
+        expect(validate('{"name": ')).toEqual([]);
+    });
+
+    it('marks the values that do not match the schema', () => {
+        const diagnostics = validate('{\n    "name": 42,\n    "other": 1\n}');
+
+        expect(diagnostics).toEqual([
+            {
+                message: "should NOT have additional properties: 'other'",
+                severity: 'error',
+                from: { line: 2, column: 4 },
+                to: { line: 2, column: 11 },
+            },
+            {
+                message: 'should be string',
+                severity: 'error',
+                from: { line: 1, column: 12 },
+                to: { line: 1, column: 14 },
+            },
+        ]);
+    });
+
+    it('marks the object that is missing a required property', () => {
+        expect(validate('{}')).toEqual([
+            {
+                message: "should have required property 'name'",
+                severity: 'error',
+                from: { line: 0, column: 0 },
+                to: { line: 0, column: 1 },
+            },
+        ]);
+    });
+});
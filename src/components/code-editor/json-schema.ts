@@ -0,0 +1,329 @@
+import Ajv from 'ajv';
+import { FormSchema } from '../form/form.types';
+import { isInteger } from '../form/validators';
+import { CodeDiagnostic } from './code-editor.types';
+import {
+    findLocation,
+    getPosition,
+    JsonContext,
+    JsonLocation,
+    JsonPath,
+    parseJsonLocations,
+} from './json-locations';
+
+/**
+ * A suggestion for what to write at the cursor of a JSON document
+ */
+export interface JsonCompletion {
+    /**
+     * The text to insert
+     */
+    text: string;
+
+    /**
+     * The text to display in the list of suggestions
+     */
+    label: string;
+}
+
+/**
+ * Validates a JSON document, and returns the problems that were found
+ */
+export type JsonValidator = (text: string) => CodeDiagnostic[];
+
+const COMPOSITION_KEYWORDS = ['allOf', 'anyOf', 'oneOf'];
+
+/**
+ * Get the schemas that apply to the value at the given path. More than one
+ * schema can apply when the schema is composed with `allOf`, `anyOf` or
+ * `oneOf`. Local references, like `#/definitions/address`, are resolved.
+ *
+ * @param schema - the schema of the whole document
+ * @param path - the path to the value
+ * @returns the schemas of the value
+ */
+export function getSubschemas(
+    schema: FormSchema,
+    path: JsonPath
+): FormSchema[] {
+    let schemas = expand(schema, schema);
+
+    for (const segment of path) {
+        schemas = schemas
+            .flatMap((subschema) => getChildSchemas(subschema, segment))
+            .flatMap((subschema) => expand(subschema, schema));
+    }
+
+    return schemas;
+}
+
+/**
+ * Get the documentation of the value at the given path, from the `title`
+ * and `description` of its schema
+ *
+ * @param schema - the schema of the whole document
+ * @param path - the path to the value
+ * @returns the documentation, if any
+ */
+export function getSchemaDescription(
+    schema: FormSchema,
+    path: JsonPath
+): string | undefined {
+    const subschema = getSubschemas(schema, path).find(
+        ({ title, description }) => title || description
+    );
+    if (!subschema) {
+        return;
+    }
+
+    return [subschema.title, subschema.description].filter(Boolean).join('\n');
+}
+
+/**
+ * Get suggestions for what to write at the cursor of a JSON document
+ *
+ * @param schema - the schema of the whole document
+ * @param context - what is being written at the cursor
+ * @returns the suggestions that match what has been written so far
+ */
+export function getSchemaCompletions(
+    schema: FormSchema,
+    context: JsonContext
+): JsonCompletion[] {
+    const completions =
+        context.kind === 'key'
+            ? getKeyCompletions(schema, context)
+            : getValueCompletions(schema, context);
+    const prefix = context.prefix.toLowerCase();
+
+    return completions.filter(
+        (completion, index) =>
+            completion.text.toLowerCase().startsWith(prefix) &&
+            completions.findIndex(({ text }) => text === completion.text) ===
+                index
+    );
+}
+
+/**
+ * Create a function that validates JSON documents against a schema
+ *
+ * @param schema - the schema to validate against
+ * @returns the validator
+ */
+export function createJsonValidator(schema: FormSchema): JsonValidator {
+    const validate = new Ajv({
+        unknownFormats: 'ignore',
+        allErrors: true,
+        multipleOfPrecision: 2,
+        jsonPointers: true,
+    })
+        .addFormat('integer', isInteger)
+        .compile(schema);
+
+    return (text: string) => {
+        let data: unknown;
+        try {
+            data = JSON.parse(text);
+        } catch {
+            // Syntax errors are reported by the linter
+            return [];
+        }
+
+        if (validate(data)) {
+            return [];
+        }
+
+        const locations = parseJsonLocations(text);
+
+        return validate.errors.map((error) =>
+            createDiagnostic(text, locations, error)
+        );
+    };
+}
+
+function createDiagnostic(
+    text: string,
+    locations: JsonLocation[],
+    error: Ajv.ErrorObject
+): CodeDiagnostic {
+    const path = parsePointer(error.dataPath);
+    const params = error.params as Record<string, any>;
+    let message = error.message;
+    let range: [number, number];
+
+    if (error.keyword === 'additionalProperties') {
+        const location = findLocation(locations, [
+            ...path,
+            params.additionalProperty,
+        ]);
+        range = [location?.keyFrom, location?.keyTo];
+        message = `${message}: '${params.additionalProperty}'`;
+    } else if (error.keyword === 'enum') {
+        message = `${message}: ${params.allowedValues
+            .map((value: unknown) => JSON.stringify(value))
+            .join(', ')}`;
+    }
+
+    if (range?.[0] === undefined) {
+        range = getRange(text, findLocation(locations, path));
+    }
+
+    return {
+        message: message,
+        severity: 'error',
+        from: getPosition(text, range[0]),
+        to: getPosition(text, range[1]),
+    };
+}
+
+/**
+ * Get the part of the document to mark for a problem with a value.
+ * Objects and arrays are marked by their key, or by their opening bracket,
+ * instead of by everything they contain.
+ *
+ * @param text - the JSON document
+ * @param location - the location of the value
+ * @returns the start and end of the part to mark
+ */
+function getRange(text: string, location?: JsonLocation): [number, number] {
+    if (!location) {
+        return [0, 1];
+    }
+
+    const isContainer = '{['.includes(text[location.valueFrom]);
+    if (!isContainer) {
+        return [location.valueFrom, location.valueTo];
+    }
+
+    if (location.keyFrom !== undefined) {
+        return [location.keyFrom, location.keyTo];
+    }
+
+    return [location.valueFrom, location.valueFrom + 1];
+}
+
+function parsePointer(pointer: string): JsonPath {
+    return pointer
+        .split('/')
+        .slice(1)
+        .map((segment) => segment.replaceAll('~1', '/').replaceAll('~0', '~'));
+}
+
+function getKeyCompletions(
+    schema: FormSchema,
+    context: JsonContext
+): JsonCompletion[] {
+    const separator = context.hasColon ? '' : ': ';
+
+    return getSubschemas(schema, context.path)
+        .flatMap((subschema) => Object.keys(subschema.properties || {}))
+        .filter((key) => !context.keys.includes(key))
+        .map((key) => ({
+            text: JSON.stringify(key) + separator,
+            label: key,
+        }));
+}
+
+function getValueCompletions(
+    schema: FormSchema,
+    context: JsonContext
+): JsonCompletion[] {
+    const values = getSubschemas(schema, context.path).flatMap((subschema) => {
+        const types = new Set([subschema.type || []].flat());
+
+        return [
+            ...(subschema.enum || []),
+            ...('const' in subschema ? [subschema.const] : []),
+            ...(types.has('boolean') ? [true, false] : []),
+            ...(types.has('null') ? [null] : []),
+            ...('default' in subschema ? [subschema.default] : []),
+            ...[subschema.examples || []].flat(),
+        ];
+    });
+
+    return values.map((value) => {
+        const text = JSON.stringify(value);
+
+        return { text: text, label: text };
+    });
+}
+
+function getChildSchemas(
+    schema: FormSchema,
+    segment: string | number
+): FormSchema[] {
+    if (typeof segment === 'number') {
+        if (Array.isArray(schema.items)) {
+            return toSchemas(schema.items[segment] ?? schema.additionalItems);
+        }
+
+        return toSchemas(schema.items);
+    }
+
+    const property = schema.properties?.[segment];
+    if (property !== undefined) {
+        return toSchemas(property);
+    }
+
+    const patterns = Object.entries(schema.patternProperties || {})
+        .filter(([pattern]) => new RegExp(pattern).test(segment))
+        .map(([, subschema]) => subschema);
+    if (patterns.length > 0) {
+        return toSchemas(patterns);
+    }
+
+    return toSchemas(schema.additionalProperties);
+}
+
+/**
+ * Resolve the local reference of a schema, if any, and add the schemas
+ * that it is composed of
+ *
+ * @param schema - the schema
+ * @param root - the schema of the whole document
+ * @param visited - the schemas that have already been expanded
+ * @returns the schema and the schemas it is composed of
+ */
+function expand(
+    schema: FormSchema,
+    root: FormSchema,
+    visited = new Set<FormSchema>()
+): FormSchema[] {
+    if (visited.has(schema)) {
+        return [];
+    }
+
+    visited.add(schema);
+
+    const resolved = resolveReference(schema, root);
+    if (resolved !== schema) {
+        return expand(resolved, root, visited);
+    }
+
+    const parts = COMPOSITION_KEYWORDS.flatMap((keyword) =>
+        toSchemas(schema[keyword])
+    );
+
+    return [schema, ...parts.flatMap((part) => expand(part, root, visited))];
+}
+
+function resolveReference(schema: FormSchema, root: FormSchema): FormSchema {
+    if (!schema.$ref?.startsWith('#')) {
+        return schema;
+    }
+
+    let resolved: unknown = root;
+    for (const segment of parsePointer(schema.$ref.slice(1))) {
+        resolved = resolved?.[segment];
+    }
+
+    return isSchema(resolved) ? resolved : schema;
+}
+
+function toSchemas(value: unknown): FormSchema[] {
+    return [value ?? []].flat().filter(isSchema);
+}
+
+function isSchema(value: unknown): value is FormSchema {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,75 @@
+import { CodeSelection } from './code-editor.types';
+import { createSearchQuery, findNextMatch, getReplacement } from './search';
+
+describe('createSearchQuery', () => {
+    it('matches the text, ignoring case', () => {
+        const query = createSearchQuery('a.b');
+
+        expect(query.test('A.B')).toBe(true);
+        expect(query.test('axb')).toBe(false);
+    });
+
+    it('matches the case when case sensitive', () => {
+        const query = createSearchQuery('a', { caseSensitive: true });
+
+        expect(query.test('A')).toBe(false);
+    });
+
+    it('matches whole words', () => {
+        const query = createSearchQuery('name', { wholeWord: true });
+
+        expect(query.test('first name')).toBe(true);
+        expect(query.test('firstname')).toBe(false);
+    });
+
+    it('treats the text as a regular expression', () => {
+        const query = createSearchQuery(String.raw`\d+`, { regexp: true });
+
+        expect(query.test('abc 123')).toBe(true);
+    });
+
+    it('returns nothing for an empty or invalid query', () => {
+        expect(createSearchQuery('')).toBeUndefined();
+        expect(createSearchQuery('(', { regexp: true })).toBeUndefined();
+    });
+});
+
+describe('findNextMatch', () => {
+    const matches: CodeSelection[] = [
+        { from: { line: 0, column: 0 }, to: { line: 0, column: 3 } },
+        { from: { line: 2, column: 4 }, to: { line: 2, column: 7 } },
+    ];
+
+    it('finds the first match after the position', () => {
+        expect(findNextMatch(matches, { line: 0, column: 3 })).toBe(1);
+    });
+
+    it('finds the first match before the position when searching backward', () => {
+        expect(findNextMatch(matches, { line: 2, column: 4 }, -1)).toBe(0);
+    });
+
+    it('wraps around', () => {
+        expect(findNextMatch(matches, { line: 3, column: 0 })).toBe(0);
+        expect(findNextMatch(matches, { line: 0, column: 0 }, -1)).toBe(1);
+    });
+
+    it('returns -1 when there are no matches', () => {
+        expect(findNextMatch([], { line: 0, column: 0 })).toBe(-1);
+    });
+});
+
+describe('getReplacement', () => {
+    it('replaces groups when the query is a regular expression', () => {
+        const match = 'John Doe'.match(/(John) (Doe)/);
+
+        expect(getReplacement(match, '$2, $1', { regexp: true })).toBe(
+            'Doe, John'
+        );
+    });
+
+    it('keeps the replacement as it is otherwise', () => {
+        const match = 'John Doe'.match(/John Doe/);
+
+        expect(getReplacement(match, '$2, $1')).toBe('$2, $1');
+    });
+});
@@ -0,0 +1,164 @@
+import CodeMirror from 'codemirror';
+import 'codemirror/addon/search/searchcursor';
+import {
+    CodePosition,
+    CodeSearchOptions,
+    CodeSelection,
+} from './code-editor.types';
+import { fromPos } from './code-mirror';
+
+/**
+ * Create the regular expression to search the code with
+ *
+ * @param query - the text to search for, or a regular expression
+ * when `options.regexp` is set
+ * @param options - how to match the query
+ * @returns the regular expression, or `undefined` if the query is empty
+ * or is not a valid regular expression
+ */
+export function createSearchQuery(
+    query: string,
+    options: CodeSearchOptions = {}
+): RegExp | undefined {
+    if (!query) {
+        return;
+    }
+
+    let source = options.regexp ? query : escapeRegExp(query);
+    if (options.wholeWord) {
+        source = `\\b(?:${source})\\b`;
+    }
+
+    try {
+        return new RegExp(source, options.caseSensitive ? '' : 'i');
+    } catch {
+        // The regular expression is still being written
+        return;
+    }
+}
+
+/**
+ * Find every match of a query in the code of an editor
+ *
+ * @param editor - the editor
+ * @param query - the query, as created by `createSearchQuery`
+ * @returns the start and end of each match
+ */
+export function findMatches(
+    editor: CodeMirror.Editor,
+    query: RegExp
+): CodeSelection[] {
+    const matches: CodeSelection[] = [];
+    const cursor = editor.getSearchCursor(query, CodeMirror.Pos(0, 0));
+
+    while (cursor.findNext()) {
+        // Empty matches, like those of `a*`, cannot be selected
+        if (CodeMirror.cmpPos(cursor.from(), cursor.to()) !== 0) {
+            matches.push({
+                from: fromPos(cursor.from()),
+                to: fromPos(cursor.to()),
+            });
+        }
+    }
+
+    return matches;
+}
+
+/**
+ * Find the match to go to from a position in the code. The search wraps
+ * around, so the first match follows the last one.
+ *
+ * @param matches - the matches, in the order they appear in the code
+ * @param position - the position to search from
+ * @param direction - `1` to search forward, `-1` to search backward
+ * @returns the index of the match, or `-1` if there are no matches
+ */
+export function findNextMatch(
+    matches: CodeSelection[],
+    position: CodePosition,
+    direction: 1 | -1 = 1
+): number {
+    if (matches.length === 0) {
+        return -1;
+    }
+
+    if (direction > 0) {
+        const index = matches.findIndex(
+            (match) => comparePositions(match.from, position) >= 0
+        );
+
+        return index === -1 ? 0 : index;
+    }
+
+    for (let index = matches.length - 1; index >= 0; index--) {
+        if (comparePositions(matches[index].to, position) <= 0) {
+            return index;
+        }
+    }
+
+    return matches.length - 1;
+}
+
+/**
+ * Replace every match of a query in the code of an editor.
+ * When the query is a regular expression, `$1`, `$2` etc. in the
+ * replacement are replaced by the groups of the match.
+ *
+ * @param editor - the editor
+ * @param query - the query, as created by `createSearchQuery`
+ * @param replacement - the text to replace each match with
+ * @param options - how the query was created
+ * @returns the number of replaced matches
+ */
+export function replaceMatches(
+    editor: CodeMirror.Editor,
+    query: RegExp,
+    replacement: string,
+    options: CodeSearchOptions = {}
+): number {
+    let count = 0;
+
+    editor.operation(() => {
+        const cursor = editor.getSearchCursor(query, CodeMirror.Pos(0, 0));
+        let match = cursor.findNext();
+
+        while (match) {
+            cursor.replace(getReplacement(match, replacement, options));
+            count++;
+            match = cursor.findNext();
+        }
+    });
+
+    return count;
+}
+
+/**
+ * Get the replacement of a single match
+ *
+ * @param match - the match, as returned by the search cursor
+ * @param replacement - the text to replace the match with
+ * @param options - how the query was created
+ * @returns the text to replace the match with
+ */
+export function getReplacement(
+    match: boolean | RegExpMatchArray,
+    replacement: string,
+    options: CodeSearchOptions = {}
+): string {
+    if (!options.regexp || typeof match === 'boolean') {
+        return replacement;
+    }
+
+    return replacement.replaceAll(
+        /\$(\d)/g,
+        (_, group: string) => match[Number(group)] ?? ''
+    );
+}
+
+function comparePositions(a: CodePosition, b: CodePosition): number {
+    return a.line - b.line || a.column - b.column;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replaceAll(/[$()*+.?[\\\]^{|}]/g, String.raw`\$&`);
+}
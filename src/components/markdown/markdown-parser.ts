@@ -114,10 +114,20 @@ function getWhiteList(allowedComponents: CustomElementDefinition[]): Schema {
         },
     };
 
+    // The same tag may be allowed more than once, with different attributes,
+    // and standard tags keep the attributes they are allowed by default
+    const componentAttributes: Schema['attributes'] = {};
     for (const component of allowedComponents) {
-        whitelist.attributes[component.tagName] = component.attributes;
+        componentAttributes[component.tagName] = [
+            ...(componentAttributes[component.tagName] ??
+                whitelist.attributes[component.tagName] ??
+                []),
+            ...component.attributes,
+        ];
     }
 
+    Object.assign(whitelist.attributes, componentAttributes);
+
     return whitelist;
 }
 
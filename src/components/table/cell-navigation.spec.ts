@@ -0,0 +1,275 @@
+import { CellComponent, ColumnComponent, RowComponent } from 'tabulator-tables';
+import {
+    CellNavigation,
+    createTsv,
+    getCellText,
+    getTargetPosition,
+} from './cell-navigation';
+
+describe('getTargetPosition', () => {
+    const size = { rows: 10, columns: 4, page: 3 };
+    const position = { row: 5, column: 2 };
+    const move = (key: string, ctrlKey = false) =>
+        getTargetPosition(position, { key, ctrlKey, metaKey: false }, size);
+
+    it('moves one cell with the arrow keys', () => {
+        expect(move('ArrowUp')).toEqual({ row: 4, column: 2 });
+        expect(move('ArrowDown')).toEqual({ row: 6, column: 2 });
+        expect(move('ArrowLeft')).toEqual({ row: 5, column: 1 });
+        expect(move('ArrowRight')).toEqual({ row: 5, column: 3 });
+    });
+
+    it('moves to the edges of the row with Home and End', () => {
+        expect(move('Home')).toEqual({ row: 5, column: 0 });
+        expect(move('End')).toEqual({ row: 5, column: 3 });
+    });
+
+    it('moves to the edges of the table with Ctrl+Home and Ctrl+End', () => {
+        expect(move('Home', true)).toEqual({ row: 0, column: 0 });
+        expect(move('End', true)).toEqual({ row: 9, column: 3 });
+    });
+
+    it('moves one page with PageUp and PageDown', () => {
+        expect(move('PageUp')).toEqual({ row: 2, column: 2 });
+        expect(move('PageDown')).toEqual({ row: 8, column: 2 });
+    });
+
+    it('stays within the table', () => {
+        expect(
+            getTargetPosition(
+                { row: 9, column: 3 },
+                { key: 'PageDown', ctrlKey: false, metaKey: false },
+                size
+            )
+        ).toEqual({ row: 9, column: 3 });
+        expect(
+            getTargetPosition(
+                { row: 0, column: 0 },
+                { key: 'ArrowLeft', ctrlKey: false, metaKey: false },
+                size
+            )
+        ).toEqual({ row: 0, column: 0 });
+    });
+
+    it('returns undefined for other keys', () => {
+        expect(move('a')).toBeUndefined();
+    });
+});
+
+describe('createTsv', () => {
+    it('separates cells with tabs and rows with newlines', () => {
+        expect(
+            createTsv([
+                ['a', 'b'],
+                ['c', 'd'],
+            ])
+        ).toEqual('a\tb\nc\td');
+    });
+
+    it('quotes cells with tabs, newlines or quotes', () => {
+        expect(createTsv([['a\tb', 'c\nd', 'say "hi"']])).toEqual(
+            '"a\tb"\t"c\nd"\t"say ""hi"""'
+        );
+    });
+});
+
+describe('getCellText', () => {
+    const createCell = (value: any) =>
+        ({
+            getValue: () => value,
+            getData: () => ({ value: value }),
+        }) as any;
+
+    it('returns the text of the formatted value', () => {
+        const column = {
+            title: 'Height',
+            field: 'value',
+            formatter: (value: number) => `${value} cm`,
+        };
+
+        expect(getCellText(createCell(180), column)).toEqual('180 cm');
+    });
+
+    it('returns the text without HTML escaping', () => {
+        const column = { title: 'Name', field: 'value' };
+
+        expect(getCellText(createCell('Tom & Jerry'), column)).toEqual(
+            'Tom & Jerry'
+        );
+    });
+
+    it('returns an empty string for empty values', () => {
+        const column = { title: 'Name', field: 'value' };
+
+        expect(getCellText(createCell(null), column)).toEqual('');
+    });
+});
+
+describe('CellNavigation', () => {
+    let navigation: CellNavigation;
+    let rows: RowComponent[];
+    let columns: ColumnComponent[];
+    let announce: jest.Mock;
+    let writeText: jest.Mock;
+
+    const createColumn = (field: string): ColumnComponent =>
+        ({
+            getField: () => field,
+            isVisible: () => true,
+            getDefinition: () => ({ title: field.toUpperCase() }),
+        }) as any;
+
+    const createRow = (data: Record<string, string>): RowComponent => {
+        const element = document.createElement('div');
+        const cells = new Map<ColumnComponent, CellComponent>();
+        for (const column of columns) {
+            const cellElement = document.createElement('div');
+            cellElement.classList.add('tabulator-cell');
+            element.append(cellElement);
+            cells.set(column, {
+                getElement: () => cellElement,
+                getValue: () => data[column.getField()],
+            } as any);
+        }
+
+        return {
+            getElement: () => element,
+            getCell: (column: ColumnComponent) => cells.get(column),
+        } as any;
+    };
+
+    const getCellElement = (row: number, column: number) =>
+        rows[row].getCell(columns[column]).getElement();
+
+    const pressKey = (
+        row: number,
+        column: number,
+        key: string,
+        options: Partial<KeyboardEvent> = {}
+    ) => {
+        const event = {
+            key: key,
+            target: getCellElement(row, column),
+            preventDefault: jest.fn(),
+            ...options,
+        } as any;
+
+        return navigation.handleKeyDown(event);
+    };
+
+    const flushPromises = () => new Promise((resolve) => setTimeout(resolve));
+
+    beforeEach(() => {
+        columns = [createColumn('name'), createColumn('kind')];
+        rows = [
+            createRow({ name: 'Alice', kind: 'Cat' }),
+            createRow({ name: 'Bob', kind: 'Dog' }),
+            createRow({ name: 'Carol', kind: 'Bird' }),
+        ];
+        const table = {
+            getColumns: () => columns,
+            getRows: () => rows,
+            scrollToRow: jest.fn(() => Promise.resolve()),
+        } as any;
+        announce = jest.fn();
+        writeText = jest.fn(() => Promise.resolve());
+        Object.defineProperty(navigator, 'clipboard', {
+            value: { writeText: writeText },
+            configurable: true,
+        });
+
+        navigation = new CellNavigation(
+            () => table,
+            () => rows,
+            (cell) => cell.getValue(),
+            announce,
+            (key, params) => `${key} ${JSON.stringify(params ?? {})}`
+        );
+        for (const row of rows) {
+            navigation.formatRow(row);
+        }
+    });
+
+    it('makes the first cell the only cell in the tab order', () => {
+        expect(getCellElement(0, 0).getAttribute('tabindex')).toEqual('0');
+        expect(getCellElement(0, 1).getAttribute('tabindex')).toEqual('-1');
+        expect(getCellElement(1, 0).getAttribute('tabindex')).toEqual('-1');
+    });
+
+    it('moves the focus with the keyboard', async () => {
+        const handled = pressKey(0, 0, 'ArrowDown');
+        await flushPromises();
+
+        expect(handled).toBe(true);
+        expect(getCellElement(0, 0).getAttribute('tabindex')).toEqual('-1');
+        expect(getCellElement(1, 0).getAttribute('tabindex')).toEqual('0');
+    });
+
+    it('announces the position of the focused cell', async () => {
+        pressKey(0, 0, 'ArrowRight');
+        await flushPromises();
+
+        expect(announce).toHaveBeenCalledWith(
+            'table.cell-position {"title":"KIND","row":1,"rows":3,"column":2,"columns":2}'
+        );
+    });
+
+    it('ignores keys that do not move the focus', () => {
+        expect(pressKey(0, 0, 'a')).toBe(false);
+    });
+
+    it('ignores events that are not from a cell', () => {
+        const event = {
+            key: 'ArrowDown',
+            target: document.createElement('input'),
+        } as any;
+
+        expect(navigation.handleKeyDown(event)).toBe(false);
+    });
+
+    it('selects a range of cells with shift', async () => {
+        pressKey(0, 0, 'ArrowDown', { shiftKey: true });
+        await flushPromises();
+        pressKey(1, 0, 'ArrowRight', { shiftKey: true });
+        await flushPromises();
+
+        expect(
+            getCellElement(1, 1).classList.contains(
+                'limel-table--cell-selected'
+            )
+        ).toBe(true);
+        expect(getCellElement(2, 0).getAttribute('aria-selected')).toBeNull();
+        expect(navigation.getSelectedText()).toEqual('Alice\tCat\nBob\tDog');
+    });
+
+    it('collapses the range when moving without shift', async () => {
+        pressKey(0, 0, 'ArrowDown', { shiftKey: true });
+        await flushPromises();
+        pressKey(1, 0, 'ArrowDown');
+        await flushPromises();
+
+        expect(
+            getCellElement(0, 0).classList.contains(
+                'limel-table--cell-selected'
+            )
+        ).toBe(false);
+        expect(navigation.getSelectedText()).toEqual('Carol');
+    });
+
+    it('copies the selected cells as TSV', async () => {
+        pressKey(0, 0, 'ArrowDown', { shiftKey: true });
+        await flushPromises();
+        pressKey(1, 0, 'c', { ctrlKey: true });
+        await flushPromises();
+
+        expect(writeText).toHaveBeenCalledWith('Alice\nBob');
+        expect(announce).toHaveBeenLastCalledWith('table.copied {}');
+    });
+
+    it('focuses a cell that is clicked', () => {
+        navigation.handleFocus(getCellElement(2, 1));
+
+        expect(getCellElement(2, 1).getAttribute('tabindex')).toEqual('0');
+        expect(navigation.getSelectedText()).toEqual('Bird');
+    });
+});
@@ -0,0 +1,465 @@
+import {
+    Tabulator,
+    CellComponent as TabulatorCellComponent,
+    ColumnComponent as TabulatorColumnComponent,
+    RowComponent as TabulatorRowComponent,
+} from 'tabulator-tables';
+import { unescape } from 'lodash-es';
+import { formatCell } from './columns';
+import { Column } from './table.types';
+import {
+    ARROW_DOWN,
+    ARROW_LEFT,
+    ARROW_RIGHT,
+    ARROW_UP,
+    END,
+    HOME,
+    PAGE_DOWN,
+    PAGE_UP,
+} from '../../util/keycodes';
+
+const SELECTED_CLASS = 'limel-table--cell-selected';
+
+/**
+ * The position of a cell, given by the index of its row and column
+ */
+export interface CellPosition {
+    row: number;
+    column: number;
+}
+
+/**
+ * The number of rows and columns that can be navigated, and the number of
+ * rows to move when paging up or down
+ */
+export interface NavigationSize {
+    rows: number;
+    columns: number;
+    page: number;
+}
+
+interface CellReference {
+    row: TabulatorRowComponent;
+    column: TabulatorColumnComponent;
+}
+
+/**
+ * Get the position of the cell to move to when a key is pressed
+ *
+ * @param position - the position of the focused cell
+ * @param event - the keyboard event
+ * @param size - the size of the table
+ * @returns the position to move to, or `undefined` if the key does not move
+ * the focus
+ */
+export function getTargetPosition(
+    position: CellPosition,
+    event: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey'>,
+    size: NavigationSize
+): CellPosition {
+    const modifier = event.ctrlKey || event.metaKey;
+    const lastRow = size.rows - 1;
+    const lastColumn = size.columns - 1;
+    const moves: Record<string, CellPosition> = {
+        [ARROW_UP]: { row: position.row - 1, column: position.column },
+        [ARROW_DOWN]: { row: position.row + 1, column: position.column },
+        [ARROW_LEFT]: { row: position.row, column: position.column - 1 },
+        [ARROW_RIGHT]: { row: position.row, column: position.column + 1 },
+        [PAGE_UP]: { row: position.row - size.page, column: position.column },
+        [PAGE_DOWN]: { row: position.row + size.page, column: position.column },
+        [HOME]: { row: modifier ? 0 : position.row, column: 0 },
+        [END]: { row: modifier ? lastRow : position.row, column: lastColumn },
+    };
+
+    const target = moves[event.key];
+    if (!target) {
+        return;
+    }
+
+    return {
+        row: Math.min(Math.max(target.row, 0), lastRow),
+        column: Math.min(Math.max(target.column, 0), lastColumn),
+    };
+}
+
+/**
+ * Create tab separated values from rows of text, that can be pasted into a
+ * spreadsheet
+ *
+ * @param rows - the rows of text
+ * @returns the TSV
+ */
+export function createTsv(rows: string[][]): string {
+    return rows.map((row) => row.map(escapeTsvValue).join('\t')).join('\n');
+}
+
+function escapeTsvValue(value: string): string {
+    if (!/[\t\n\r"]/.test(value)) {
+        return value;
+    }
+
+    return `"${value.replaceAll('"', '""')}"`;
+}
+
+/**
+ * Get the text of a cell, as given by `formatCell`
+ *
+ * @param cell - the cell
+ * @param column - configuration for the column of the cell
+ * @returns the text of the cell
+ */
+export function getCellText(cell: TabulatorCellComponent, column: Column) {
+    const value: any = formatCell(cell, column);
+    if (value === null || value === undefined) {
+        return '';
+    }
+
+    if (typeof value === 'string' && !column.component) {
+        return unescape(value);
+    }
+
+    return String(value);
+}
+
+/**
+ * Provides spreadsheet-style keyboard navigation between the cells of the
+ * table, with range selection and copying of the selected cells
+ */
+export class CellNavigation {
+    private focused: CellReference;
+    private anchor: CellReference;
+    private selectedRows = new Set<TabulatorRowComponent>();
+    private selectedColumns = new Set<TabulatorColumnComponent>();
+
+    /**
+     * Creates an instance of the CellNavigation class
+     *
+     * @param getTable - Function that returns the Tabulator instance
+     * @param getRows - Function that returns the rows displayed in the table
+     * @param getText - Function that returns the text of a cell
+     * @param announce - Function that announces a message to screen readers
+     * @param getTranslation - Function to get translated strings
+     */
+    constructor(
+        private getTable: () => Tabulator,
+        private getRows: () => TabulatorRowComponent[],
+        private getText: (cell: TabulatorCellComponent) => string,
+        private announce: (message: string) => void,
+        private getTranslation: (key: string, params?: object) => string
+    ) {}
+
+    /**
+     * Moves the focus, or copies the selected cells, if the key pressed in a
+     * focused cell is a navigation key or the copy shortcut
+     *
+     * @param event - the keyboard event
+     * @returns `true` if the event was handled
+     */
+    public handleKeyDown(event: KeyboardEvent): boolean {
+        const current = this.findCell(event.target as HTMLElement);
+        if (!current) {
+            return false;
+        }
+
+        if (isCopyShortcut(event)) {
+            event.preventDefault();
+            this.copy();
+
+            return true;
+        }
+
+        const rows = this.getRows();
+        const columns = this.getColumns();
+        const target = getTargetPosition(
+            {
+                row: rows.indexOf(current.row),
+                column: columns.indexOf(current.column),
+            },
+            event,
+            {
+                rows: rows.length,
+                columns: columns.length,
+                page: this.getPageSize(),
+            }
+        );
+
+        if (!target) {
+            return false;
+        }
+
+        event.preventDefault();
+        this.focusCell(
+            { row: rows[target.row], column: columns[target.column] },
+            event.shiftKey
+        );
+
+        return true;
+    }
+
+    /**
+     * Makes the given element the focused cell, if it is a cell that has
+     * been focused by clicking or tabbing into it
+     *
+     * @param element - the element that received focus
+     */
+    public handleFocus(element: HTMLElement): void {
+        const cell = this.findCell(element);
+        if (!cell || this.isFocused(cell)) {
+            return;
+        }
+
+        this.setFocus(cell, false);
+        this.announcePosition();
+    }
+
+    /**
+     * Makes the cells of the row focusable, and marks the cells that are
+     * selected
+     *
+     * @param row - the row to format
+     */
+    public formatRow(row: TabulatorRowComponent): void {
+        const columns = this.getColumns();
+        if (!this.focused && columns.length > 0) {
+            // The first cell is where the focus goes when tabbing into the table
+            this.focused = { row: row, column: columns[0] };
+            this.anchor = this.focused;
+        }
+
+        for (const column of columns) {
+            this.formatCell({ row: row, column: column });
+        }
+    }
+
+    /**
+     * Gets the text of the selected cells, as tab separated values
+     *
+     * @returns the selected cells as TSV
+     */
+    public getSelectedText(): string {
+        const rows = this.getRows();
+        const columns = this.getColumns();
+        if (!this.focused) {
+            return '';
+        }
+
+        const range = this.getRange(rows, columns);
+
+        return createTsv(
+            range.rows.map((row) =>
+                range.columns.map((column) => {
+                    const cell = row.getCell(column);
+
+                    return cell ? this.getText(cell) : '';
+                })
+            )
+        );
+    }
+
+    /**
+     * Clears the focused cell and the selected range
+     */
+    public clear(): void {
+        this.focused = null;
+        this.anchor = null;
+        this.selectedRows.clear();
+        this.selectedColumns.clear();
+    }
+
+    private async copy() {
+        try {
+            await navigator.clipboard.writeText(this.getSelectedText());
+            this.announce(this.getTranslation('table.copied'));
+        } catch (error) {
+            console.error('Failed to copy to clipboard:', error);
+        }
+    }
+
+    private async focusCell(target: CellReference, extend: boolean) {
+        this.setFocus(target, extend);
+
+        try {
+            // The row might not be rendered until it has been scrolled to
+            await this.getTable().scrollToRow(target.row, 'nearest', false);
+        } catch {
+            // The row is already visible
+        }
+
+        target.row.getCell(target.column)?.getElement().focus();
+        this.announcePosition();
+    }
+
+    private setFocus(target: CellReference, extend: boolean) {
+        const previous = this.focused;
+        this.focused = target;
+        if (!extend || !this.anchor) {
+            this.anchor = target;
+        }
+
+        if (previous) {
+            this.formatCell(previous);
+        }
+
+        this.formatCell(target);
+        this.updateRange();
+    }
+
+    private updateRange() {
+        const rows = this.getRows();
+        const columns = this.getColumns();
+        const previousRows = [...this.selectedRows];
+        const range = this.getRange(rows, columns);
+
+        this.selectedRows.clear();
+        this.selectedColumns.clear();
+        if (range.rows.length * range.columns.length > 1) {
+            for (const row of range.rows) {
+                this.selectedRows.add(row);
+            }
+
+            for (const column of range.columns) {
+                this.selectedColumns.add(column);
+            }
+        }
+
+        const changedRows = new Set([...previousRows, ...this.selectedRows]);
+        for (const row of changedRows) {
+            for (const column of columns) {
+                this.formatCell({ row: row, column: column });
+            }
+        }
+    }
+
+    private getRange(
+        rows: TabulatorRowComponent[],
+        columns: TabulatorColumnComponent[]
+    ) {
+        const anchor = this.anchor ?? this.focused;
+        const rowIndexes = [
+            rows.indexOf(anchor.row),
+            rows.indexOf(this.focused.row),
+        ];
+        const columnIndexes = [
+            columns.indexOf(anchor.column),
+            columns.indexOf(this.focused.column),
+        ];
+
+        if ([...rowIndexes, ...columnIndexes].includes(-1)) {
+            return { rows: [this.focused.row], columns: [this.focused.column] };
+        }
+
+        return {
+            rows: rows.slice(
+                Math.min(...rowIndexes),
+                Math.max(...rowIndexes) + 1
+            ),
+            columns: columns.slice(
+                Math.min(...columnIndexes),
+                Math.max(...columnIndexes) + 1
+            ),
+        };
+    }
+
+    private formatCell(reference: CellReference) {
+        const element = reference.row.getCell(reference.column)?.getElement();
+        if (!element) {
+            return;
+        }
+
+        const selected =
+            this.selectedRows.has(reference.row) &&
+            this.selectedColumns.has(reference.column);
+
+        element.setAttribute(
+            'tabindex',
+            this.isFocused(reference) ? '0' : '-1'
+        );
+        if (selected) {
+            element.classList.add(SELECTED_CLASS);
+            element.setAttribute('aria-selected', 'true');
+        } else {
+            element.classList.remove(SELECTED_CLASS);
+            element.removeAttribute('aria-selected');
+        }
+    }
+
+    private announcePosition() {
+        const rows = this.getRows();
+        const columns = this.getColumns();
+        const { row, column } = this.focused;
+        const messages = [
+            this.getTranslation('table.cell-position', {
+                title: column.getDefinition().title,
+                row: rows.indexOf(row) + 1,
+                rows: rows.length,
+                column: columns.indexOf(column) + 1,
+                columns: columns.length,
+            }),
+        ];
+
+        const count = this.selectedRows.size * this.selectedColumns.size;
+        if (count > 1) {
+            messages.push(
+                this.getTranslation('table.cells-selected', { count: count })
+            );
+        }
+
+        this.announce(messages.join('. '));
+    }
+
+    private findCell(element: HTMLElement): CellReference {
+        if (!element?.classList?.contains('tabulator-cell')) {
+            return;
+        }
+
+        const row = this.getRows().find(
+            (r) => r.getElement() === element.parentElement
+        );
+        if (!row) {
+            return;
+        }
+
+        const column = this.getColumns().find(
+            (c) => row.getCell(c)?.getElement() === element
+        );
+        if (!column) {
+            return;
+        }
+
+        return { row: row, column: column };
+    }
+
+    private isFocused(reference: CellReference) {
+        return (
+            this.focused?.row === reference.row &&
+            this.focused?.column === reference.column
+        );
+    }
+
+    private getColumns(): TabulatorColumnComponent[] {
+        const table = this.getTable();
+        if (!table) {
+            return [];
+        }
+
+        // Columns without a field are added by the table itself, e.g. the
+        // column with the checkboxes for selecting rows
+        return table
+            .getColumns()
+            .filter((column) => column.isVisible() && !!column.getField());
+    }
+
+    private getPageSize(): number {
+        const visibleRows = this.getTable().getRows('visible').length;
+
+        return Math.max(visibleRows - 1, 1);
+    }
+}
+
+function isCopyShortcut(event: KeyboardEvent) {
+    return (
+        (event.ctrlKey || event.metaKey) &&
+        !event.altKey &&
+        event.key.toLowerCase() === 'c'
+    );
+}
@@ -0,0 +1,89 @@
+import { createColumnMenuItems } from './column-menu';
+import { Column, ColumnState } from './table.types';
+
+describe('createColumnMenuItems', () => {
+    const columns: Column[] = [
+        { title: 'Name', field: 'name' },
+        { title: 'Age', field: 'age' },
+    ];
+    const getTranslation = (key: string) => key;
+
+    it('creates an item for toggling each column', () => {
+        const states: ColumnState[] = [
+            { field: 'age', hidden: true },
+            { field: 'name' },
+        ];
+
+        const items = createColumnMenuItems(
+            columns,
+            states,
+            { hideable: true, pinnable: false },
+            getTranslation
+        );
+
+        expect(items).toEqual([
+            {
+                text: 'Age',
+                icon: 'unchecked_checkbox',
+                disabled: false,
+                value: { field: 'age', action: 'toggle' },
+            },
+            {
+                text: 'Name',
+                icon: 'checked_checkbox',
+                disabled: true,
+                value: { field: 'name', action: 'toggle' },
+            },
+        ]);
+    });
+
+    it('creates items for pinning each column', () => {
+        const states: ColumnState[] = [
+            { field: 'name', pinned: 'left' },
+            { field: 'age' },
+        ];
+
+        const items = createColumnMenuItems(
+            columns,
+            states,
+            { hideable: false, pinnable: true },
+            getTranslation
+        );
+
+        expect(items[0].secondaryText).toEqual('table.pin-left');
+        expect(items[0].items).toEqual([
+            {
+                text: 'table.pin-right',
+                value: { field: 'name', action: 'right' },
+            },
+            { text: 'table.unpin', value: { field: 'name', action: null } },
+        ]);
+        expect(items[1].items).toEqual([
+            {
+                text: 'table.pin-left',
+                value: { field: 'age', action: 'left' },
+            },
+            {
+                text: 'table.pin-right',
+                value: { field: 'age', action: 'right' },
+            },
+        ]);
+    });
+
+    it('adds an item for toggling the column to the pin items', () => {
+        const items = createColumnMenuItems(
+            columns,
+            [{ field: 'name' }, { field: 'age' }],
+            { hideable: true, pinnable: true },
+            getTranslation
+        );
+
+        expect(items[0].icon).toEqual('checked_checkbox');
+        expect(items[0].items[0]).toEqual({
+            text: 'table.show-column',
+            icon: 'checked_checkbox',
+            disabled: false,
+            value: { field: 'name', action: 'toggle' },
+        });
+    });
+});
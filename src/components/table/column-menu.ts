@@ -0,0 +1,104 @@
+import { MenuItem } from '../menu/menu.types';
+import { Column, ColumnPinning, ColumnState } from './table.types';
+
+/**
+ * A change of a column, chosen from the column menu
+ */
+export interface ColumnMenuAction {
+    /**
+     * The name of the `Column` field
+     */
+    field: string;
+
+    /**
+     * `toggle` to show or hide the column, or the edge of the table to pin
+     * the column to. `null` unpins the column
+     */
+    action: 'toggle' | ColumnPinning | null;
+}
+
+/**
+ * Options for the column menu
+ */
+export interface ColumnMenuOptions {
+    /**
+     * `true` if the user can show and hide columns
+     */
+    hideable: boolean;
+
+    /**
+     * `true` if the user can pin columns to the edges of the table
+     */
+    pinnable: boolean;
+}
+
+/**
+ * Create the items of the menu that lets the user show, hide and pin the
+ * columns of the table
+ *
+ * @param columns - all available columns in the table
+ * @param states - the state of each column, in the order they are displayed
+ * @param options - the changes the user is allowed to make
+ * @param getTranslation - function to get translated strings
+ * @returns the menu items
+ */
+export function createColumnMenuItems(
+    columns: Column[],
+    states: ColumnState[],
+    options: ColumnMenuOptions,
+    getTranslation: (key: string) => string
+): Array<MenuItem<ColumnMenuAction>> {
+    const visibleColumns = states.filter((state) => !state.hidden).length;
+
+    return states.map((state) => {
+        const column = columns.find((c) => String(c.field) === state.field);
+        // The last visible column cannot be hidden
+        const disabled = !state.hidden && visibleColumns === 1;
+        const toggleItem: MenuItem<ColumnMenuAction> = {
+            text: column?.title ?? state.field,
+            icon: state.hidden ? 'unchecked_checkbox' : 'checked_checkbox',
+            disabled: disabled,
+            value: { field: state.field, action: 'toggle' },
+        };
+
+        if (!options.pinnable) {
+            return toggleItem;
+        }
+
+        const items = createPinItems(state, getTranslation);
+        if (options.hideable) {
+            items.unshift({
+                ...toggleItem,
+                text: getTranslation('table.show-column'),
+            });
+        }
+
+        return {
+            text: toggleItem.text,
+            secondaryText: state.pinned
+                ? getTranslation(`table.pin-${state.pinned}`)
+                : undefined,
+            icon: options.hideable ? toggleItem.icon : undefined,
+            items: items,
+        };
+    });
+}
+
+function createPinItems(
+    state: ColumnState,
+    getTranslation: (key: string) => string
+): Array<MenuItem<ColumnMenuAction>> {
+    const actions: Array<ColumnMenuAction['action']> = ['left', 'right'];
+    if (state.pinned) {
+        actions.push(null);
+    }
+
+    return actions
+        .filter((action) => action !== state.pinned)
+        .map((action) => ({
+            text: getTranslation(
+                action ? `table.pin-${action}` : 'table.unpin'
+            ),
+            value: { field: state.field, action: action },
+        }));
+}
@@ -0,0 +1,150 @@
+import {
+    changeColumnState,
+    createColumnSorters,
+    createColumnStates,
+    createSortState,
+    createStateDefinition,
+    orderColumns,
+    sortByPinning,
+} from './column-state';
+import { Column } from './table.types';
+
+const columns: Column[] = [
+    { title: 'Name', field: 'name' },
+    { title: 'Age', field: 'age' },
+    { title: 'Role', field: 'role', pinned: 'right' },
+    { title: 'Id', field: 'id', pinned: 'left' },
+];
+
+describe('createColumnStates', () => {
+    it('creates the state from the columns', () => {
+        expect(createColumnStates(columns)).toEqual([
+            { field: 'id', pinned: 'left' },
+            { field: 'name' },
+            { field: 'age' },
+            { field: 'role', pinned: 'right' },
+        ]);
+    });
+
+    it('keeps the order and state of the given columns', () => {
+        const states = createColumnStates(columns, [
+            { field: 'age', width: 100 },
+            { field: 'role', hidden: true },
+            { field: 'name' },
+        ]);
+
+        expect(states).toEqual([
+            { field: 'id', pinned: 'left' },
+            { field: 'age', width: 100 },
+            { field: 'role', hidden: true },
+            { field: 'name' },
+        ]);
+    });
+
+    it('leaves out columns that are no longer available', () => {
+        const states = createColumnStates(columns, [{ field: 'removed' }]);
+
+        expect(states.map((state) => state.field)).toEqual([
+            'id',
+            'name',
+            'age',
+            'role',
+        ]);
+    });
+});
+
+describe('sortByPinning', () => {
+    it('moves pinned columns to the edges, keeping their order', () => {
+        const states = sortByPinning([
+            { field: 'a', pinned: 'right' },
+            { field: 'b' },
+            { field: 'c', pinned: 'left' },
+            { field: 'd', pinned: 'right' },
+            { field: 'e', pinned: 'left' },
+        ]);
+
+        expect(states.map((state) => state.field)).toEqual([
+            'c',
+            'e',
+            'b',
+            'a',
+            'd',
+        ]);
+    });
+});
+
+describe('changeColumnState', () => {
+    it('changes the state of the column', () => {
+        expect(
+            changeColumnState({ field: 'name' }, { width: 100, hidden: true })
+        ).toEqual({ field: 'name', width: 100, hidden: true });
+    });
+
+    it('leaves out properties that are not set', () => {
+        expect(
+            changeColumnState(
+                { field: 'name', hidden: true, pinned: 'left' },
+                { hidden: false, pinned: undefined }
+            )
+        ).toEqual({ field: 'name' });
+    });
+});
+
+describe('orderColumns', () => {
+    it('sorts the columns in the order of the state', () => {
+        const ordered = orderColumns(columns, [
+            { field: 'role' },
+            { field: 'id' },
+            { field: 'age' },
+            { field: 'name' },
+        ]);
+
+        expect(ordered).toEqual([
+            columns[2],
+            columns[3],
+            columns[1],
+            columns[0],
+        ]);
+    });
+});
+
+describe('createStateDefinition', () => {
+    it('creates the Tabulator options for the state', () => {
+        expect(
+            createStateDefinition({
+                field: 'name',
+                width: 120,
+                hidden: true,
+                pinned: 'left',
+            })
+        ).toEqual({ frozen: true, visible: false, width: 120 });
+    });
+
+    it('creates the default options when there is no state', () => {
+        expect(createStateDefinition()).toEqual({
+            frozen: false,
+            visible: true,
+        });
+    });
+});
+
+describe('createSortState', () => {
+    it('creates the sort state from the Tabulator sorters', () => {
+        const sorters: any[] = [{ field: 'name', dir: 'asc', column: {} }];
+
+        expect(createSortState(sorters)).toEqual([
+            { field: 'name', direction: 'ASC' },
+        ]);
+    });
+});
+
+describe('createColumnSorters', () => {
+    it('creates column sorters for the available columns', () => {
+        const sorters = createColumnSorters(columns, [
+            { field: 'age', direction: 'DESC' },
+            { field: 'removed', direction: 'ASC' },
+        ]);
+
+        expect(sorters).toEqual([{ column: columns[1], direction: 'DESC' }]);
+    });
+});
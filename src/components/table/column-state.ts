@@ -0,0 +1,163 @@
+import { ColumnDefinition, SorterFromTable } from 'tabulator-tables';
+import { sortBy } from 'lodash-es';
+import {
+    Column,
+    ColumnPinning,
+    ColumnSorter,
+    ColumnSortState,
+    ColumnState,
+} from './table.types';
+
+/**
+ * Create the state of each column, in the order the columns should be
+ * displayed
+ *
+ * Columns that are missing from the given state are added after the
+ * columns that are in it, pinned as given by their `Column` config. Pinned
+ * columns are moved to the edge of the table they are pinned to, since
+ * Tabulator can only freeze columns at the edges.
+ *
+ * @param columns - all available columns in the table
+ * @param state - the state of the columns, e.g. restored by the consumer
+ * @returns the state of each column
+ */
+export function createColumnStates(
+    columns: Column[],
+    state: ColumnState[] = []
+): ColumnState[] {
+    const fields = new Set(columns.map((column) => String(column.field)));
+    const states = state
+        .filter((item) => fields.has(item.field))
+        .map((item) => ({ ...item }));
+
+    for (const column of columns) {
+        const field = String(column.field);
+        if (states.some((item) => item.field === field)) {
+            continue;
+        }
+
+        const item: ColumnState = { field: field };
+        if (column.pinned) {
+            item.pinned = column.pinned;
+        }
+
+        states.push(item);
+    }
+
+    return sortByPinning(states);
+}
+
+/**
+ * Move pinned columns to the edge of the table they are pinned to, keeping
+ * the order of the columns on each side
+ *
+ * @param states - the state of each column
+ * @returns the state of each column, in the order they should be displayed
+ */
+export function sortByPinning(states: ColumnState[]): ColumnState[] {
+    const order: Record<ColumnPinning | 'none', number> = {
+        left: 0,
+        none: 1,
+        right: 2,
+    };
+
+    return sortBy(states, (item) => order[item.pinned ?? 'none']);
+}
+
+/**
+ * Change the state of a column
+ *
+ * Properties that are not set are left out of the state, to keep it small.
+ *
+ * @param state - the state of the column
+ * @param changes - the properties to change
+ * @returns the new state of the column
+ */
+export function changeColumnState(
+    state: ColumnState,
+    changes: Partial<ColumnState>
+): ColumnState {
+    const newState: ColumnState = { ...state, ...changes };
+    if (!newState.width) {
+        delete newState.width;
+    }
+
+    if (!newState.hidden) {
+        delete newState.hidden;
+    }
+
+    if (!newState.pinned) {
+        delete newState.pinned;
+    }
+
+    return newState;
+}
+
+/**
+ * Sort columns in the order given by their state
+ *
+ * @param columns - all available columns in the table
+ * @param states - the state of each column
+ * @returns the columns in the order they should be displayed
+ */
+export function orderColumns(
+    columns: Column[],
+    states: ColumnState[]
+): Column[] {
+    return sortBy(columns, (column) =>
+        states.findIndex((item) => item.field === String(column.field))
+    );
+}
+
+/**
+ * Create the Tabulator column options for the state of a column
+ *
+ * @param state - the state of the column
+ * @returns options for the Tabulator column
+ */
+export function createStateDefinition(
+    state?: ColumnState
+): Partial<ColumnDefinition> {
+    const definition: Partial<ColumnDefinition> = {
+        frozen: !!state?.pinned,
+        visible: !state?.hidden,
+    };
+
+    if (state?.width) {
+        definition.width = state.width;
+    }
+
+    return definition;
+}
+
+/**
+ * Create the sort state from the sorters of Tabulator
+ *
+ * @param sorters - the sorters of the table
+ * @returns the sort state
+ */
+export function createSortState(sorters: SorterFromTable[]): ColumnSortState[] {
+    return sorters.map((sorter) => ({
+        field: sorter.field,
+        direction: sorter.dir.toUpperCase() as 'ASC' | 'DESC',
+    }));
+}
+
+/**
+ * Create column sorters from the sort state
+ *
+ * @param columns - all available columns in the table
+ * @param sorting - the sort state
+ * @returns the column sorters
+ */
+export function createColumnSorters(
+    columns: Column[],
+    sorting: ColumnSortState[] = []
+): ColumnSorter[] {
+    return sorting
+        .map((item) => ({
+            column: columns.find((column) => column.field === item.field),
+            direction: item.direction,
+        }))
+        .filter((sorter) => sorter.column);
+}
@@ -0,0 +1,161 @@
+import { createEditor } from './editors';
+import { Column } from './table.types';
+
+describe('createEditor', () => {
+    let cell: any;
+    let column: Column;
+    let onRendered: jest.Mock;
+    let success: jest.Mock;
+    let cancel: jest.Mock;
+
+    beforeEach(() => {
+        cell = {
+            getField: () => 'foo',
+            getData: () => ({ foo: 'bar' }),
+            getValue: () => 'bar',
+        };
+        column = {
+            title: 'Foo',
+            field: 'foo',
+        };
+        onRendered = jest.fn();
+        success = jest.fn();
+        cancel = jest.fn();
+    });
+
+    const openEditor = (): HTMLElement => {
+        const editor = createEditor(column) as Function;
+
+        return editor(cell, onRendered, success, cancel, {});
+    };
+
+    const dispatchChange = (element: HTMLElement, detail: any) => {
+        element.dispatchEvent(new CustomEvent('change', { detail: detail }));
+    };
+
+    const dispatchKey = (element: HTMLElement, key: string) => {
+        element.dispatchEvent(new KeyboardEvent('keydown', { key: key }));
+    };
+
+    describe('when the editor is an input field', () => {
+        beforeEach(() => {
+            column.editor = 'input-field';
+        });
+
+        it('creates an input field with the value of the cell', () => {
+            const element = openEditor();
+            expect(element.tagName.toLowerCase()).toEqual('limel-input-field');
+            expect(element).toHaveProperty('value', 'bar');
+        });
+
+        it('commits the edit when Enter is pressed', () => {
+            const element = openEditor();
+            dispatchChange(element, 'baz');
+            expect(success).not.toHaveBeenCalled();
+
+            dispatchKey(element, 'Enter');
+            expect(success).toHaveBeenCalledWith('baz');
+        });
+
+        it('commits the edit when the editor loses focus', () => {
+            const element = openEditor();
+            dispatchChange(element, 'baz');
+            element.dispatchEvent(new FocusEvent('focusout'));
+            expect(success).toHaveBeenCalledWith('baz');
+        });
+
+        it('cancels the edit when Escape is pressed', () => {
+            const element = openEditor();
+            dispatchChange(element, 'baz');
+            dispatchKey(element, 'Escape');
+            expect(cancel).toHaveBeenCalled();
+            expect(success).not.toHaveBeenCalled();
+        });
+
+        it('converts the value to a number when type is number', () => {
+            column.editor = { type: 'input-field', props: { type: 'number' } };
+            const element = openEditor();
+            dispatchChange(element, '42');
+            dispatchKey(element, 'Enter');
+            expect(success).toHaveBeenCalledWith(42);
+        });
+    });
+
+    describe('when the editor is a select', () => {
+        const options = [
+            { text: 'Bar', value: 'bar' },
+            { text: 'Baz', value: 'baz' },
+        ];
+
+        beforeEach(() => {
+            column.editor = { type: 'select', props: { options: options } };
+        });
+
+        it('selects the option matching the value of the cell', () => {
+            const element = openEditor();
+            expect(element.tagName.toLowerCase()).toEqual('limel-select');
+            expect(element).toHaveProperty('value', options[0]);
+        });
+
+        it('commits the value of the chosen option', () => {
+            const element = openEditor();
+            dispatchChange(element, options[1]);
+            expect(success).toHaveBeenCalledWith('baz');
+        });
+    });
+
+    describe('when the editor is a checkbox', () => {
+        it('commits the edit when toggled', () => {
+            column.editor = 'checkbox';
+            cell.getValue = () => false;
+            const element = openEditor();
+            expect(element).toHaveProperty('checked', false);
+
+            dispatchChange(element, true);
+            expect(success).toHaveBeenCalledWith(true);
+        });
+    });
+
+    describe('when the editor is a custom component', () => {
+        beforeEach(() => {
+            column.editor = {
+                name: 'my-editor',
+                props: { foo: 'foo' },
+                propsFactory: () => ({ baz: 'baz' }),
+            };
+        });
+
+        it('creates the component with the configured properties', () => {
+            const element = openEditor();
+            expect(element.tagName.toLowerCase()).toEqual('my-editor');
+            expect(element).toHaveProperty('foo', 'foo');
+            expect(element).toHaveProperty('baz', 'baz');
+            expect(element).toHaveProperty('field', 'foo');
+            expect(element).toHaveProperty('value', 'bar');
+            expect(element).toHaveProperty('data', { foo: 'bar' });
+        });
+
+        it('commits the last emitted value when Enter is pressed', () => {
+            const element = openEditor();
+            dispatchChange(element, 'baz');
+            dispatchKey(element, 'Enter');
+            expect(success).toHaveBeenCalledWith('baz');
+        });
+    });
+
+    it('does not let the change event escape the editor', () => {
+        column.editor = 'input-field';
+        const element = openEditor();
+        const listener = jest.fn();
+        document.body.append(element);
+        document.body.addEventListener('change', listener);
+
+        element.dispatchEvent(
+            new CustomEvent('change', { detail: 'baz', bubbles: true })
+        );
+        expect(listener).not.toHaveBeenCalled();
+
+        document.body.removeEventListener('change', listener);
+        element.remove();
+    });
+});
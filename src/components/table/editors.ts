@@ -0,0 +1,193 @@
+import { CellComponent, Editor } from 'tabulator-tables';
+import {
+    Column,
+    ColumnEditor,
+    ColumnEditorType,
+    TableComponentDefinition,
+} from './table.types';
+import { setElementProperties } from './columns';
+import { Option } from '../select/option.types';
+import { ENTER, ESCAPE } from '../../util/keycodes';
+
+/**
+ * Describes how a value is passed to, and read back from, an editor component
+ */
+interface EditorAdapter {
+    /**
+     * Tag name of the editor component
+     */
+    name: string;
+
+    /**
+     * `true` if the edit should be committed as soon as the editor emits a
+     * `change` event, otherwise the edit is committed on `Enter` or blur
+     */
+    commitOnChange: boolean;
+
+    /**
+     * Get the properties that gives the editor its value
+     */
+    getProps: (
+        value: any,
+        props: Record<string, any>,
+        cell: CellComponent
+    ) => Record<string, any>;
+
+    /**
+     * Get the cell value from the `detail` of a `change` event
+     */
+    getValue: (detail: any, props: Record<string, any>) => any;
+}
+
+const builtInAdapters: Record<ColumnEditorType, EditorAdapter> = {
+    'input-field': {
+        name: 'limel-input-field',
+        commitOnChange: false,
+        getProps: (value: any) => ({
+            value: value === null || value === undefined ? '' : String(value),
+        }),
+        getValue: (detail: string, props: Record<string, any>) => {
+            if (props.type !== 'number') {
+                return detail;
+            }
+
+            return detail === '' ? null : Number(detail);
+        },
+    },
+    select: {
+        name: 'limel-select',
+        commitOnChange: true,
+        getProps: (value: any, props: Record<string, any>) => ({
+            value: props.options?.find((option: Option) => {
+                return option.value === value;
+            }),
+        }),
+        getValue: (detail: Option) => detail?.value,
+    },
+    'date-picker': {
+        name: 'limel-date-picker',
+        commitOnChange: true,
+        getProps: (value: Date) => ({ value: value }),
+        getValue: (detail: Date) => detail,
+    },
+    checkbox: {
+        name: 'limel-checkbox',
+        commitOnChange: true,
+        getProps: (value: any) => ({ checked: !!value }),
+        getValue: (detail: boolean) => detail,
+    },
+};
+
+const createCustomAdapter = (name: string): EditorAdapter => ({
+    name: name,
+    commitOnChange: false,
+    getProps: (value: any, _, cell: CellComponent) => ({
+        field: cell.getField(),
+        value: value,
+        data: cell.getData(),
+    }),
+    getValue: (detail: any) => detail,
+});
+
+/**
+ * Create a Tabulator editor for a column
+ *
+ * @param column - config describing the column
+ * @returns Tabulator editor
+ */
+export function createEditor(column: Column): Editor {
+    const definition = getEditorDefinition(column.editor);
+    const adapter = getEditorAdapter(column.editor);
+
+    return (cell, onRendered, success, cancel) => {
+        const props = {
+            ...definition.props,
+            ...definition.propsFactory?.(cell.getData()),
+        };
+        let value = cell.getValue();
+
+        const element = document.createElement(adapter.name);
+        setElementProperties(element, {
+            ...props,
+            ...adapter.getProps(value, props, cell),
+        });
+        element.classList.add('limel-table--cell-editor');
+        if (adapter.name === builtInAdapters.checkbox.name) {
+            setElementProperties(element, { label: column.title });
+            element.classList.add('hide-label');
+        }
+
+        element.addEventListener('change', (event: CustomEvent) => {
+            event.stopPropagation();
+            value = adapter.getValue(event.detail, props);
+
+            if (adapter.commitOnChange) {
+                success(value);
+
+                return;
+            }
+
+            setElementProperties(element, adapter.getProps(value, props, cell));
+        });
+
+        element.addEventListener('keydown', (event: KeyboardEvent) => {
+            if (event.key === ESCAPE) {
+                event.stopPropagation();
+                cancel(value);
+
+                return;
+            }
+
+            if (event.key === ENTER && !adapter.commitOnChange) {
+                event.preventDefault();
+                event.stopPropagation();
+                success(value);
+            }
+        });
+
+        if (!adapter.commitOnChange) {
+            element.addEventListener('focusout', (event: FocusEvent) => {
+                const target = event.relatedTarget as Node;
+                if (target && element.contains(target)) {
+                    return;
+                }
+
+                success(value);
+            });
+        }
+
+        onRendered(() => {
+            element.focus();
+        });
+
+        return element;
+    };
+}
+
+function getEditorDefinition(
+    editor: Column['editor']
+): Omit<TableComponentDefinition, 'name'> {
+    if (typeof editor === 'string') {
+        return {};
+    }
+
+    return editor;
+}
+
+function getEditorAdapter(editor: Column['editor']): EditorAdapter {
+    if (typeof editor === 'string') {
+        return builtInAdapters[editor];
+    }
+
+    if (isBuiltInEditor(editor)) {
+        return builtInAdapters[editor.type];
+    }
+
+    return createCustomAdapter(editor.name);
+}
+
+function isBuiltInEditor(
+    editor: ColumnEditor | TableComponentDefinition
+): editor is ColumnEditor {
+    return 'type' in editor;
+}
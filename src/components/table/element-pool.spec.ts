@@ -48,6 +48,28 @@ describe('ElementPool', () => {
         });
     });
 
+    describe('releaseWithin', () => {
+        it('releases the elements inside the container', () => {
+            const container = document.createElement('div');
+            const foo1 = pool.get('foo');
+            const foo2 = pool.get('foo');
+            container.append(foo1);
+
+            const released = pool.releaseWithin(container);
+
+            expect(released).toBe(true);
+            expect(pool.get('foo')).toBe(foo1);
+            expect(pool.get('foo')).not.toBe(foo2);
+        });
+
+        it('returns false when no element is released', () => {
+            const container = document.createElement('div');
+            pool.get('foo');
+
+            expect(pool.releaseWithin(container)).toBe(false);
+        });
+    });
+
     describe('releaseAll', () => {
         it('releases all elements in the pool', () => {
             const foo1 = pool.get('foo');
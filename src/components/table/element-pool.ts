@@ -39,6 +39,27 @@ export class ElementPool {
         this.usedElements.delete(element);
     }
 
+    /**
+     * Release all elements inside the given container from the pool so that
+     * they can be reused
+     *
+     * @param container - the element containing the elements to release
+     * @returns `true` if any element was released
+     */
+    public releaseWithin(container: Element): boolean {
+        let released = false;
+        for (const elements of Object.values(this.pool)) {
+            for (const element of elements) {
+                if (!this.isFree(element) && container.contains(element)) {
+                    this.release(element);
+                    released = true;
+                }
+            }
+        }
+
+        return released;
+    }
+
     /**
      * Release all elements from the pool so that they can be reused
      */
@@ -0,0 +1,92 @@
+import {
+    Column,
+    LimelTableCustomEvent,
+    TableColumnState,
+} from '@limetech/lime-elements';
+import { Component, h, State } from '@stencil/core';
+import { persons, Person } from './persons';
+
+const STORAGE_KEY = 'limel-example-table-column-state';
+
+/**
+ * Saving the layout of the columns
+ *
+ * The columns of the table can be resized by dragging the edges of the
+ * column headers. Set `resizableColumns` to `false` to prevent this.
+ *
+ * Set `hideableColumns` to let the user show and hide columns, and
+ * `pinnableColumns` to let the user pin columns to the left or right edge
+ * of the table, using the menu in the header of the table. Columns can
+ * also be pinned from the start, by setting `pinned` on the `Column`.
+ *
+ * Whenever the user moves, resizes, hides, pins or sorts the columns, the
+ * table emits a `changeColumnState` event. The state only contains plain
+ * data, so it can be saved, and given back to the table with the
+ * `columnState` prop to restore the layout later on.
+ *
+ * In this example, the state is saved in the local storage of the browser.
+ * Try changing the layout of the table and reload the page!
+ *
+ * @sourceFile persons.ts
+ */
+@Component({
+    tag: 'limel-example-table-column-state',
+    styleUrl: 'table.scss',
+    shadow: true,
+})
+export class TableExampleColumnState {
+    @State()
+    private columnState: TableColumnState;
+
+    private columns: Array<Column<Person>> = [
+        { title: 'Name', field: 'name', pinned: 'left' },
+        { title: 'Age', field: 'age', horizontalAlign: 'right' },
+        { title: 'Kind', field: 'kind' },
+        { title: 'Height', field: 'height', horizontalAlign: 'right' },
+        { title: 'Stamina', field: 'stamina' },
+        { title: 'Place of Birth', field: 'placeOfBirth' },
+        { title: 'Sign', field: 'sign' },
+        { title: 'Date of Birth', field: 'dateOfBirth' },
+        { title: 'Role', field: 'role' },
+    ];
+
+    constructor() {
+        const state = localStorage.getItem(STORAGE_KEY);
+        if (state) {
+            this.columnState = JSON.parse(state);
+        }
+    }
+
+    public render() {
+        return [
+            <limel-table
+                data={persons}
+                columns={this.columns}
+                columnState={this.columnState}
+                movableColumns={true}
+                hideableColumns={true}
+                pinnableColumns={true}
+                onChangeColumnState={this.handleChangeColumnState}
+            />,
+            <limel-example-controls>
+                <limel-button label="Reset layout" onClick={this.reset} />
+            </limel-example-controls>,
+            <limel-example-value
+                label="Column state"
+                value={this.columnState}
+            />,
+        ];
+    }
+
+    private handleChangeColumnState = (
+        event: LimelTableCustomEvent<TableColumnState>
+    ) => {
+        this.columnState = event.detail;
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(event.detail));
+    };
+
+    private reset = () => {
+        this.columnState = undefined;
+        localStorage.removeItem(STORAGE_KEY);
+    };
+}
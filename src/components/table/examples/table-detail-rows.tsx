@@ -0,0 +1,78 @@
+import { Component, h, State } from '@stencil/core';
+import {
+    Column,
+    LimelTableCustomEvent,
+    TableComponentDefinition,
+} from '@limetech/lime-elements';
+import { persons, Person } from './persons';
+
+/**
+ * Expandable detail rows
+ *
+ * Set `detailComponent` to display a component with details about a row in
+ * a panel below the row. This adds a column with a toggle to each row, that
+ * expands and collapses the panel.
+ *
+ * The component is created when the row is expanded for the first time, and
+ * receives the data of the row as its `data` property, in addition to the
+ * `props` and the result of the `propsFactory` of the definition. This
+ * follows the [TableComponentDefinition](#/type/TableComponentDefinition/)
+ * specification, just like custom components in cells.
+ *
+ * Just like for tree data, the table emits `expand` and `collapse` events,
+ * which can be used to load the details lazily.
+ *
+ * @sourceFile persons.ts
+ */
+@Component({
+    tag: 'limel-example-table-detail-rows',
+    styleUrl: 'table.scss',
+    shadow: true,
+})
+export class TableExampleDetailRows {
+    @State()
+    private expanded: string[] = [];
+
+    private columns: Array<Column<Person>> = [
+        { title: 'Name', field: 'name' },
+        { title: 'Kind', field: 'kind' },
+        { title: 'Role', field: 'role' },
+    ];
+
+    private detailComponent: TableComponentDefinition = {
+        name: 'limel-example-value',
+        propsFactory: (person: Person) => ({
+            label: `About ${person.name}`,
+            value: {
+                age: person.age,
+                height: person.height,
+                placeOfBirth: person.placeOfBirth,
+                dateOfBirth: person.dateOfBirth,
+                sign: person.sign,
+            },
+        }),
+    };
+
+    public render() {
+        return [
+            <limel-table
+                data={persons}
+                columns={this.columns}
+                detailComponent={this.detailComponent}
+                onExpand={this.handleExpand}
+                onCollapse={this.handleCollapse}
+            />,
+            <limel-example-value label="Expanded rows" value={this.expanded} />,
+        ];
+    }
+
+    private handleExpand = (event: LimelTableCustomEvent<Person>) => {
+        this.expanded = [...this.expanded, event.detail.name];
+    };
+
+    private handleCollapse = (event: LimelTableCustomEvent<Person>) => {
+        this.expanded = this.expanded.filter(
+            (name) => name !== event.detail.name
+        );
+    };
+}
@@ -0,0 +1,78 @@
+import {
+    Column,
+    LimelTableCustomEvent,
+    Option,
+    TableCellEdit,
+} from '@limetech/lime-elements';
+import { Component, h, State } from '@stencil/core';
+import { persons, Person } from './persons';
+
+/**
+ * Editable cells
+ *
+ * Give a column an `editor` to make its cells editable. Double-click a cell,
+ * or focus it and press `Enter`, to open the editor. Press `Enter` or move
+ * focus away from the editor to save the change, or press `Escape` to cancel.
+ *
+ * Every committed change emits a `cellEdit` event. When `mode` is `remote`,
+ * the consumer can call `rejectEdit` to roll the cell back, for example if
+ * the change could not be saved on the server.
+ *
+ * @sourceFile persons.ts
+ */
+@Component({
+    tag: 'limel-example-table-editable-cells',
+    styleUrl: 'table.scss',
+    shadow: true,
+})
+export class TableExampleEditableCells {
+    @State()
+    private lastEdit: TableCellEdit<Person>;
+
+    private tableData: Person[] = persons.map((person) => ({ ...person }));
+
+    private kinds: Option[] = [
+        'Angel',
+        'Dragon',
+        'Elf',
+        'Ork',
+        'Vampire',
+        'Werewolf',
+        'Wizard',
+        'Yeti',
+    ].map((kind) => ({ text: kind, value: kind }));
+
+    private columns: Array<Column<Person>> = [
+        { title: 'Name', field: 'name', editor: 'input-field' },
+        {
+            title: 'Age',
+            field: 'age',
+            horizontalAlign: 'right',
+            editor: { type: 'input-field', props: { type: 'number' } },
+        },
+        {
+            title: 'Kind',
+            field: 'kind',
+            editor: { type: 'select', props: { options: this.kinds } },
+        },
+        { title: 'Role', field: 'role', editor: 'input-field' },
+        { title: 'Place of Birth', field: 'placeOfBirth' },
+    ];
+
+    public render() {
+        return [
+            <limel-table
+                data={this.tableData}
+                columns={this.columns}
+                onCellEdit={this.handleCellEdit}
+            />,
+            <limel-example-value label="Last edit" value={this.lastEdit} />,
+        ];
+    }
+
+    private handleCellEdit = (
+        event: LimelTableCustomEvent<TableCellEdit<Person>>
+    ) => {
+        this.lastEdit = event.detail;
+    };
+}
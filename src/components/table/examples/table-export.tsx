@@ -0,0 +1,145 @@
+import {
+    Column,
+    LimelSelectCustomEvent,
+    LimelTableCustomEvent,
+    Option,
+    TableExportFormat,
+    TableExportScope,
+} from '@limetech/lime-elements';
+import { Component, h, State } from '@stencil/core';
+import { data, Bird } from './birds';
+import { capitalize } from 'lodash-es';
+
+/**
+ * Exporting data
+ *
+ * Call `exportData` to export the data of the table to a CSV, Excel or
+ * JSON file. The method returns a `Blob`, that can for example be
+ * downloaded, or uploaded to a server.
+ *
+ * The columns are exported in the order they are currently displayed,
+ * and the rows in the order of the current sorting. Try moving the
+ * columns or sorting the table before exporting!
+ *
+ * By default, the values of the cells are exported the way they are
+ * displayed, using the `formatter` of each column. Set `raw` to export
+ * the values as they are in the data instead.
+ *
+ * @sourceFile birds.ts
+ */
+@Component({
+    tag: 'limel-example-table-export',
+    styleUrl: 'table.scss',
+    shadow: true,
+})
+export class TableExampleExport {
+    @State()
+    private selection: Bird[] = [];
+
+    @State()
+    private scope: Option<TableExportScope>;
+
+    @State()
+    private raw = false;
+
+    private table: HTMLLimelTableElement;
+
+    private columns: Array<Column<Bird>> = [
+        { title: 'Name', field: 'name' },
+        { title: 'Binominal name', field: 'binominalName' },
+        { title: 'Nest type', field: 'nest', formatter: capitalize },
+        {
+            title: 'Wingspan',
+            field: 'wingspan',
+            horizontalAlign: 'right',
+            formatter: (value: number) => `${value} cm`,
+        },
+        {
+            title: 'Eggs per clutch',
+            field: 'eggs',
+            horizontalAlign: 'right',
+        },
+    ];
+
+    private scopes: Array<Option<TableExportScope>> = [
+        { text: 'All rows', value: 'all' },
+        { text: 'Current page', value: 'page' },
+        { text: 'Selected rows', value: 'selection' },
+    ];
+
+    constructor() {
+        this.scope = this.scopes[0];
+    }
+
+    public render() {
+        return [
+            <limel-table
+                ref={(el) => (this.table = el)}
+                data={data}
+                columns={this.columns}
+                pageSize={5}
+                selectable={true}
+                selection={this.selection}
+                movableColumns={true}
+                onSelect={this.handleSelect}
+            />,
+            <limel-example-controls>
+                <limel-select
+                    label="Rows"
+                    options={this.scopes}
+                    value={this.scope}
+                    onChange={this.handleScopeChange}
+                />
+                <limel-checkbox
+                    label="Raw values"
+                    checked={this.raw}
+                    onChange={this.handleRawChange}
+                />
+                <limel-button label="CSV" onClick={this.exportCsv} />
+                <limel-button label="Excel" onClick={this.exportXlsx} />
+                <limel-button label="JSON" onClick={this.exportJson} />
+            </limel-example-controls>,
+        ];
+    }
+
+    private handleSelect = (event: LimelTableCustomEvent<Bird[]>) => {
+        this.selection = event.detail;
+    };
+
+    private handleScopeChange = (
+        event: LimelSelectCustomEvent<Option<TableExportScope>>
+    ) => {
+        this.scope = event.detail;
+    };
+
+    private handleRawChange = (event: CustomEvent<boolean>) => {
+        event.stopPropagation();
+        this.raw = event.detail;
+    };
+
+    private exportCsv = () => {
+        this.download('csv');
+    };
+
+    private exportXlsx = () => {
+        this.download('xlsx');
+    };
+
+    private exportJson = () => {
+        this.download('json');
+    };
+
+    private download = async (format: TableExportFormat) => {
+        const blob = await this.table.exportData({
+            format: format,
+            scope: this.scope.value,
+            raw: this.raw,
+        });
+
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(blob);
+        link.download = `birds.${format}`;
+        link.click();
+        URL.revokeObjectURL(link.href);
+    };
+}
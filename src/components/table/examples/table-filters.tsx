@@ -0,0 +1,59 @@
+import { Column, Option } from '@limetech/lime-elements';
+import { Component, h } from '@stencil/core';
+import { persons, Person } from './persons';
+
+/**
+ * Filtering columns
+ *
+ * Give a column a `filter` to let the user filter the rows of the table
+ * from the column header. The following filters are available:
+ *
+ * - `text`: rows where the value contains the given text
+ * - `number`: rows where the value is within a range
+ * - `date`: rows where the date is within a range
+ * - `enum`: rows where the value is one of the chosen options
+ *
+ * When `mode` is `local`, the table filters the rows itself. When `mode` is
+ * `remote`, the active filters are sent in the `filters` of the `load`
+ * event, next to the `sorters`.
+ *
+ * @sourceFile persons.ts
+ */
+@Component({
+    tag: 'limel-example-table-filters',
+    styleUrl: 'table.scss',
+    shadow: true,
+})
+export class TableExampleFilters {
+    private kinds: Option[] = [
+        'Angel',
+        'Dragon',
+        'Elf',
+        'Ork',
+        'Vampire',
+        'Werewolf',
+        'Wizard',
+        'Yeti',
+    ].map((kind) => ({ text: kind, value: kind }));
+
+    private columns: Array<Column<Person>> = [
+        { title: 'Name', field: 'name', filter: 'text' },
+        {
+            title: 'Age',
+            field: 'age',
+            horizontalAlign: 'right',
+            filter: 'number',
+        },
+        {
+            title: 'Kind',
+            field: 'kind',
+            filter: { type: 'enum', options: this.kinds },
+        },
+        { title: 'Place of Birth', field: 'placeOfBirth', filter: 'text' },
+        { title: 'Role', field: 'role' },
+    ];
+
+    public render() {
+        return <limel-table data={persons} columns={this.columns} />;
+    }
+}
@@ -0,0 +1,93 @@
+import { Component, h, State } from '@stencil/core';
+import {
+    Column,
+    ColumnAggregatorType,
+    LimelSelectCustomEvent,
+    Option,
+    TableGroupBy,
+} from '@limetech/lime-elements';
+import { data, Bird } from './birds';
+import { capitalize } from 'lodash-es';
+
+/**
+ * Grouped rows
+ *
+ * Use `groupBy` to group the rows of the table, either on the name of a
+ * field, or with a function that returns the value to group a row on.
+ *
+ * Each group gets a header that can be clicked to collapse or expand the
+ * group. The header displays the number of rows in the group, and the
+ * aggregated values of the group for each column with an `aggregator`.
+ * The aggregates for the whole table are still displayed at the bottom.
+ *
+ * @sourceFile birds.ts
+ */
+@Component({
+    tag: 'limel-example-table-grouped-rows',
+    styleUrl: 'table.scss',
+    shadow: true,
+})
+export class TableExampleGroupedRows {
+    @State()
+    private groupBy: TableGroupBy<Bird> = 'nest';
+
+    private columns: Array<Column<Bird>> = [
+        { title: 'Name', field: 'name' },
+        { title: 'Nest type', field: 'nest', formatter: capitalize },
+        {
+            title: 'Wingspan',
+            field: 'wingspan',
+            aggregator: ColumnAggregatorType.Maximum,
+            horizontalAlign: 'right',
+        },
+        {
+            title: 'Eggs per clutch',
+            field: 'eggs',
+            aggregator: ColumnAggregatorType.Average,
+            horizontalAlign: 'right',
+        },
+    ];
+
+    private options: Option[] = [
+        { text: 'Nest type', value: 'nest' },
+        { text: 'Size', value: 'size' },
+    ];
+
+    public render() {
+        return [
+            <limel-select
+                label="Group by"
+                options={this.options}
+                value={this.options.find(this.isSelectedOption)}
+                onChange={this.handleChange}
+            />,
+            <limel-table
+                data={data}
+                columns={this.columns}
+                groupBy={this.groupBy}
+            />,
+        ];
+    }
+
+    private isSelectedOption = (option: Option) => {
+        if (typeof this.groupBy === 'function') {
+            return option.value === 'size';
+        }
+
+        return option.value === this.groupBy;
+    };
+
+    private handleChange = (event: LimelSelectCustomEvent<Option<string>>) => {
+        if (event.detail.value === 'size') {
+            this.groupBy = this.getSize;
+
+            return;
+        }
+
+        this.groupBy = 'nest';
+    };
+
+    private getSize = (bird: Bird) => {
+        return bird.wingspan > 100 ? 'Large birds' : 'Small birds';
+    };
+}
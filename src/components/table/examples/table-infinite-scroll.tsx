@@ -0,0 +1,115 @@
+import { Component, h, State } from '@stencil/core';
+import {
+    Column,
+    LimelTableCustomEvent,
+    TableParams,
+} from '@limetech/lime-elements';
+
+const NETWORK_DELAY = 500;
+const TOTAL_ROWS = 500;
+
+interface Activity {
+    id: number;
+    date: string;
+    user: string;
+    action: string;
+}
+
+/**
+ * Infinite scroll
+ *
+ * When `mode` is `remote`, set `paginationMode` to `infinite` to load more
+ * rows as the user scrolls, instead of displaying a paginator.
+ *
+ * The table emits a `load` event for the next page when the user scrolls
+ * close to the end of the loaded rows. Add the rows of the page to the end
+ * of `data` to display them below the rows that are already loaded. When
+ * the table is sorted or filtered, the `load` event is emitted for the first
+ * page again, and `data` should be replaced with the rows of that page.
+ *
+ * `totalRows` tells the table when all rows have been loaded, and no more
+ * pages should be requested. Without it, the table stops requesting pages
+ * when a page has fewer rows than `pageSize`. The rows need to have an `id`,
+ * so the table can tell that rows have been added rather than replaced.
+ *
+ * Only the rows that are visible are rendered, and custom components in
+ * the cells of rows that have been scrolled out of view are reused by the
+ * rows that are rendered instead.
+ *
+ * :::note
+ * The table needs a fixed height for infinite scroll to work.
+ * :::
+ */
+@Component({
+    tag: 'limel-example-table-infinite-scroll',
+    styleUrl: 'table.scss',
+    shadow: true,
+})
+export class TableExampleInfiniteScroll {
+    @State()
+    private data: Activity[] = [];
+
+    @State()
+    private loading = false;
+
+    private pageSize = 25;
+
+    private columns: Array<Column<Activity>> = [
+        { title: 'Date', field: 'date' },
+        { title: 'User', field: 'user' },
+        { title: 'Action', field: 'action' },
+    ];
+
+    public render() {
+        return (
+            <limel-table
+                mode="remote"
+                paginationMode="infinite"
+                loading={this.loading}
+                data={this.data}
+                columns={this.columns}
+                pageSize={this.pageSize}
+                totalRows={TOTAL_ROWS}
+                onLoad={this.handleLoad}
+            />
+        );
+    }
+
+    private handleLoad = (event: LimelTableCustomEvent<TableParams>) => {
+        const page = event.detail.page;
+        const descending = event.detail.sorters?.[0]?.direction === 'DESC';
+
+        this.loading = true;
+        setTimeout(() => {
+            const rows = this.createPage(page, descending);
+            this.data = page === 1 ? rows : [...this.data, ...rows];
+            this.loading = false;
+        }, NETWORK_DELAY);
+    };
+
+    /**
+     * Simulate loading a page of activities from a server
+     * @param page
+     * @param descending
+     */
+    private createPage(page: number, descending: boolean): Activity[] {
+        const users = ['Alice', 'Bob', 'Carol', 'Dave'];
+        const actions = ['Created a deal', 'Sent an email', 'Booked a meeting'];
+        const start = (page - 1) * this.pageSize;
+        const end = Math.min(start + this.pageSize, TOTAL_ROWS);
+        const rows: Activity[] = [];
+
+        for (let index = start; index < end; index++) {
+            const id = descending ? TOTAL_ROWS - index : index + 1;
+            const date = new Date(2024, 0, 1, 8 + (id % 10), id % 60);
+            rows.push({
+                id: id,
+                date: date.toLocaleString(),
+                user: users[id % users.length],
+                action: actions[id % actions.length],
+            });
+        }
+
+        return rows;
+    }
+}
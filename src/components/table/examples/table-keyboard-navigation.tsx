@@ -0,0 +1,55 @@
+import { Component, h } from '@stencil/core';
+import { Column } from '@limetech/lime-elements';
+import { persons, Person } from './persons';
+
+/**
+ * Keyboard navigation and copying cells
+ *
+ * The cells of the table can be navigated with the keyboard, just like in a
+ * spreadsheet. Click a cell, or press `Tab` to move the focus into the table,
+ * and then use:
+ *
+ * - the arrow keys to move to the next cell in any direction
+ * - `Home` and `End` to move to the first or last cell of the row
+ * - `Ctrl` + `Home` and `Ctrl` + `End` to move to the first or last cell of the table
+ * - `PageUp` and `PageDown` to move one page of rows up or down
+ * - `Shift` together with any of the keys above to select a range of cells
+ *
+ * Press `Ctrl` + `C` (or `⌘` + `C`) to copy the selected cells to the
+ * clipboard. The cells are copied as tab separated values, using the same
+ * text that is displayed in the cells, so that they can be pasted into a
+ * spreadsheet.
+ *
+ * The position of the focused cell is announced to screen readers.
+ *
+ * @sourceFile persons.ts
+ */
+@Component({
+    tag: 'limel-example-table-keyboard-navigation',
+    styleUrl: 'table.scss',
+    shadow: true,
+})
+export class TableExampleKeyboardNavigation {
+    private columns: Array<Column<Person>> = [
+        { title: 'Name', field: 'name' },
+        {
+            title: 'Age',
+            field: 'age',
+            horizontalAlign: 'right',
+            formatter: (value: number) => `${value} years`,
+        },
+        { title: 'Kind', field: 'kind' },
+        {
+            title: 'Height',
+            field: 'height',
+            horizontalAlign: 'right',
+            formatter: (value: number) => `${value} cm`,
+        },
+        { title: 'Place of Birth', field: 'placeOfBirth' },
+        { title: 'Role', field: 'role' },
+    ];
+
+    public render() {
+        return <limel-table data={persons} columns={this.columns} />;
+    }
+}
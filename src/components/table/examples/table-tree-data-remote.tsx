@@ -0,0 +1,122 @@
+import { Component, h, State } from '@stencil/core';
+import {
+    Column,
+    LimelTableCustomEvent,
+    TableParams,
+} from '@limetech/lime-elements';
+
+const NETWORK_DELAY = 500;
+
+interface Region {
+    id: string;
+    name: string;
+    customers: number;
+    children?: Region[];
+}
+
+const regions: Region[] = [
+    { id: 'nordics', name: 'Nordics', customers: 1204 },
+    { id: 'baltics', name: 'Baltics', customers: 312 },
+    { id: 'benelux', name: 'Benelux', customers: 587 },
+    { id: 'dach', name: 'DACH', customers: 943 },
+    { id: 'iberia', name: 'Iberia', customers: 401 },
+    { id: 'france', name: 'France', customers: 655 },
+    { id: 'italy', name: 'Italy', customers: 498 },
+    { id: 'uk', name: 'United Kingdom', customers: 876 },
+];
+
+/**
+ * Tree data with lazily loaded children
+ *
+ * With `mode` set to `remote`, the table only has the rows that have been
+ * loaded so far. Give each row an empty list of `children` to make it
+ * expandable, and load its children when the `expand` event is emitted.
+ * When they have been loaded, update `data` with the row and its children.
+ *
+ * The rows need to have an `id` for the table to keep track of which rows
+ * are expanded when the data is updated.
+ */
+@Component({
+    tag: 'limel-example-table-tree-data-remote',
+    styleUrl: 'table.scss',
+    shadow: true,
+})
+export class TableExampleTreeDataRemote {
+    @State()
+    private data: Region[] = [];
+
+    @State()
+    private loading = false;
+
+    private pageSize = 4;
+
+    private columns: Array<Column<Region>> = [
+        { title: 'Region', field: 'name' },
+        {
+            title: 'Customers',
+            field: 'customers',
+            horizontalAlign: 'right',
+        },
+    ];
+
+    public render() {
+        return (
+            <limel-table
+                mode="remote"
+                loading={this.loading}
+                data={this.data}
+                columns={this.columns}
+                pageSize={this.pageSize}
+                totalRows={regions.length}
+                onLoad={this.handleLoad}
+                onExpand={this.handleExpand}
+            />
+        );
+    }
+
+    private handleLoad = (event: LimelTableCustomEvent<TableParams>) => {
+        this.loadPage(event.detail.page);
+    };
+
+    private handleExpand = (event: LimelTableCustomEvent<Region>) => {
+        const region = event.detail;
+        if (region.children?.length > 0) {
+            return;
+        }
+
+        setTimeout(() => this.loadChildren(region), NETWORK_DELAY);
+    };
+
+    /**
+     * Simulate some network delay, like loading data from a server
+     *
+     * @param page - the page to load
+     */
+    private loadPage(page: number) {
+        this.loading = true;
+        setTimeout(() => {
+            const start = (page - 1) * this.pageSize;
+
+            this.data = regions
+                .slice(start, start + this.pageSize)
+                .map((region) => ({ ...region, children: [] }));
+            this.loading = false;
+        }, NETWORK_DELAY);
+    }
+
+    private loadChildren(parent: Region) {
+        const children: Region[] = ['North', 'South'].map((part, index) => ({
+            id: `${parent.id}-${part.toLowerCase()}`,
+            name: `${parent.name} ${part}`,
+            customers: Math.round(parent.customers / 2) - index,
+        }));
+
+        this.data = this.data.map((region) => {
+            if (region.id !== parent.id) {
+                return region;
+            }
+
+            return { ...region, children: children };
+        });
+    }
+}
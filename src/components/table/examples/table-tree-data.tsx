@@ -0,0 +1,162 @@
+import { Component, h, State } from '@stencil/core';
+import { Column, LimelTableCustomEvent } from '@limetech/lime-elements';
+
+const NETWORK_DELAY = 500;
+
+interface Department {
+    id: string;
+    name: string;
+    manager: string;
+    employees: number;
+    children?: Department[];
+}
+
+/**
+ * Tree data
+ *
+ * When any of the rows in `data` has a list of `children`, the table is
+ * displayed as a tree. Each row with `children` gets a toggle that expands
+ * the row to show its child rows, and collapses it again. The child rows can
+ * have `children` of their own.
+ *
+ * The table emits an `expand` event when a row is expanded, and a
+ * `collapse` event when it is collapsed. This can be used to load the
+ * children of a row lazily. Give the row an empty list of `children` to make
+ * it expandable, and update `data` with the children when the `expand` event
+ * is emitted. The rows need to have an `id` for the table to keep track of
+ * them when the data is updated.
+ *
+ * In this example, the children of "Sales" are loaded when the row is
+ * expanded for the first time.
+ */
+@Component({
+    tag: 'limel-example-table-tree-data',
+    styleUrl: 'table.scss',
+    shadow: true,
+})
+export class TableExampleTreeData {
+    @State()
+    private data: Department[] = [
+        {
+            id: 'management',
+            name: 'Management',
+            manager: 'Fauji Sheladia',
+            employees: 3,
+            children: [
+                {
+                    id: 'finance',
+                    name: 'Finance',
+                    manager: 'Mäkelä Jehkinen',
+                    employees: 5,
+                },
+                {
+                    id: 'hr',
+                    name: 'Human resources',
+                    manager: 'Helrover Shgrover',
+                    employees: 4,
+                },
+            ],
+        },
+        {
+            id: 'development',
+            name: 'Development',
+            manager: 'Goliham Gigantlle',
+            employees: 12,
+            children: [
+                {
+                    id: 'frontend',
+                    name: 'Frontend',
+                    manager: 'Dumbledore Snape',
+                    employees: 6,
+                    children: [
+                        {
+                            id: 'design',
+                            name: 'Design',
+                            manager: 'Kiki Kokoro',
+                            employees: 2,
+                        },
+                    ],
+                },
+                {
+                    id: 'backend',
+                    name: 'Backend',
+                    manager: 'Bolt Boltson',
+                    employees: 6,
+                },
+            ],
+        },
+        {
+            id: 'sales',
+            name: 'Sales',
+            manager: 'Lars Larsson',
+            employees: 8,
+            children: [],
+        },
+    ];
+
+    @State()
+    private lastEvent: string;
+
+    private columns: Array<Column<Department>> = [
+        { title: 'Department', field: 'name' },
+        { title: 'Manager', field: 'manager' },
+        {
+            title: 'Employees',
+            field: 'employees',
+            horizontalAlign: 'right',
+        },
+    ];
+
+    public render() {
+        return [
+            <limel-table
+                data={this.data}
+                columns={this.columns}
+                onExpand={this.handleExpand}
+                onCollapse={this.handleCollapse}
+            />,
+            <limel-example-value label="Last event" value={this.lastEvent} />,
+        ];
+    }
+
+    private handleExpand = (event: LimelTableCustomEvent<Department>) => {
+        const department = event.detail;
+        this.lastEvent = `Expanded ${department.name}`;
+
+        if (department.id !== 'sales' || department.children.length > 0) {
+            return;
+        }
+
+        setTimeout(this.loadSales, NETWORK_DELAY);
+    };
+
+    private handleCollapse = (event: LimelTableCustomEvent<Department>) => {
+        this.lastEvent = `Collapsed ${event.detail.name}`;
+    };
+
+    private loadSales = () => {
+        this.data = this.data.map((department) => {
+            if (department.id !== 'sales') {
+                return department;
+            }
+
+            return {
+                ...department,
+                children: [
+                    {
+                        id: 'sales-nordics',
+                        name: 'Nordics',
+                        manager: 'Anna Andersson',
+                        employees: 5,
+                    },
+                    {
+                        id: 'sales-europe',
+                        name: 'Rest of Europe',
+                        manager: 'Jean Dupont',
+                        employees: 3,
+                    },
+                ],
+            };
+        });
+    };
+}
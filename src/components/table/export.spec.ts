@@ -0,0 +1,114 @@
+import { createCsv, exportTable, getCellValue } from './export';
+import { Column } from './table.types';
+
+describe('createCsv', () => {
+    it('separates values with commas and rows with line breaks', () => {
+        expect(
+            createCsv([
+                ['a', 'b'],
+                [1, 2],
+            ])
+        ).toEqual('a,b\r\n1,2');
+    });
+
+    it('quotes values containing special characters', () => {
+        expect(createCsv([['a,b', 'say "hi"', 'one\ntwo']])).toEqual(
+            '"a,b","say ""hi""","one\ntwo"'
+        );
+    });
+
+    it('keeps values from being run as formulas', () => {
+        expect(
+            createCsv([['=1+1', '+A1', '-1+1', '@SUM(A1)', '\tx', '\rx']])
+        ).toEqual(`'=1+1,'+A1,'-1+1,'@SUM(A1),'\tx,"'\rx"`);
+    });
+
+    it('keeps numbers as they are', () => {
+        expect(createCsv([[-5, '-1.5', '+3']])).toEqual('-5,-1.5,+3');
+    });
+
+    it('exports empty values as empty strings', () => {
+        expect(createCsv([[null, undefined, 0]])).toEqual(',,0');
+    });
+});
+
+describe('getCellValue', () => {
+    const column: Column = {
+        title: 'Height',
+        field: 'height',
+        formatter: (value: number) => `${value} cm`,
+    };
+
+    it('returns the formatted value', () => {
+        expect(getCellValue(column, { height: 42 }, false)).toEqual('42 cm');
+    });
+
+    it('returns the raw value', () => {
+        expect(getCellValue(column, { height: 42 }, true)).toEqual(42);
+    });
+
+    it('returns the value when the column has no formatter', () => {
+        const plainColumn = { title: 'Name', field: 'name' };
+        expect(getCellValue(plainColumn, { name: 'Kim' }, false)).toEqual(
+            'Kim'
+        );
+    });
+});
+
+describe('exportTable', () => {
+    beforeAll(() => {
+        // The mocked document used by the tests has no Blob
+        if (global.Blob === undefined) {
+            global.Blob = jest.requireActual('buffer').Blob;
+        }
+    });
+
+    const columns: Column[] = [
+        { title: 'Name', field: 'name' },
+        {
+            title: 'Height',
+            field: 'height',
+            formatter: (value: number) => `${value} cm`,
+        },
+    ];
+    const data = [
+        { name: 'Kim', height: 180 },
+        { name: 'Alex', height: 165 },
+    ];
+
+    it('exports CSV with the columns in the given order', async () => {
+        const blob = exportTable([columns[1], columns[0]], data, {
+            format: 'csv',
+        });
+
+        expect(blob.type).toEqual('text/csv;charset=utf-8');
+        expect(await blob.text()).toEqual(
+            'Height,Name\r\n180 cm,Kim\r\n165 cm,Alex'
+        );
+    });
+
+    it('starts the CSV with a byte order mark', async () => {
+        const blob = exportTable(columns, data, { format: 'csv' });
+        const bytes = new Uint8Array(await blob.arrayBuffer());
+
+        expect(bytes.slice(0, 3)).toEqual(new Uint8Array([0xef, 0xbb, 0xbf]));
+    });
+
+    it('exports JSON with the raw values', async () => {
+        const blob = exportTable(columns, data, {
+            format: 'json',
+            raw: true,
+        });
+
+        expect(JSON.parse(await blob.text())).toEqual(data);
+    });
+
+    it('exports XLSX', () => {
+        const blob = exportTable(columns, data, { format: 'xlsx' });
+
+        expect(blob.type).toEqual(
+            'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+        );
+        expect(blob.size).toBeGreaterThan(0);
+    });
+});
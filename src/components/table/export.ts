@@ -0,0 +1,127 @@
+import { Column, TableExportOptions } from './table.types';
+import { createWorkbook } from './xlsx';
+
+const CSV_SEPARATOR = ',';
+const CSV_LINE_BREAK = '\r\n';
+
+// Makes spreadsheet applications detect the CSV file as UTF-8
+const BYTE_ORDER_MARK = '\uFEFF';
+
+// Spreadsheet applications run values that start with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Export table data to a file
+ *
+ * @param columns - the columns to export, in the order they should appear
+ * @param data - the rows to export, in the order they should appear
+ * @param options - options for the export
+ * @returns the exported file
+ */
+export function exportTable(
+    columns: Column[],
+    data: object[],
+    options: TableExportOptions
+): Blob {
+    const raw = !!options.raw;
+
+    if (options.format === 'json') {
+        return new Blob([JSON.stringify(createRecords(columns, data, raw))], {
+            type: 'application/json',
+        });
+    }
+
+    const header = columns.map((column) => column.title);
+    const rows = data.map((row) =>
+        columns.map((column) => getCellValue(column, row, raw))
+    );
+
+    if (options.format === 'xlsx') {
+        return new Blob([createWorkbook([header, ...rows])], {
+            type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        });
+    }
+
+    return new Blob([BYTE_ORDER_MARK + createCsv([header, ...rows])], {
+        type: 'text/csv;charset=utf-8',
+    });
+}
+
+/**
+ * Get the value of a cell to export
+ *
+ * @param column - config describing the column
+ * @param row - the data for the row
+ * @param raw - if `true`, the value is exported without being formatted
+ * @returns the value to export
+ */
+export function getCellValue(column: Column, row: object, raw: boolean): any {
+    const value = row[column.field];
+
+    if (raw || !column.formatter) {
+        return value;
+    }
+
+    return column.formatter(value, row);
+}
+
+/**
+ * Create CSV from rows of values
+ *
+ * Values that a spreadsheet application would run as a formula, like
+ * `=SUM(A1:A2)`, get a `'` in front of them, so that they are displayed
+ * as text instead. Numbers, like `-5`, are kept as they are.
+ *
+ * @param rows - the rows to include in the CSV
+ * @returns the CSV
+ */
+export function createCsv(rows: any[][]): string {
+    return rows
+        .map((row) => row.map(escapeCsvValue).join(CSV_SEPARATOR))
+        .join(CSV_LINE_BREAK);
+}
+
+function escapeCsvValue(value: any): string {
+    let text = toText(value);
+
+    if (FORMULA_PREFIX.test(text) && Number.isNaN(Number(text))) {
+        text = `'${text}`;
+    }
+
+    if (/[",\r\n]/.test(text)) {
+        return `"${text.replaceAll('"', '""')}"`;
+    }
+
+    return text;
+}
+
+function createRecords(columns: Column[], data: object[], raw: boolean) {
+    return data.map((row) => {
+        const record = {};
+        for (const column of columns) {
+            record[column.field] = getCellValue(column, row, raw) ?? null;
+        }
+
+        return record;
+    });
+}
+
+function toText(value: any): string {
+    if (value === null || value === undefined) {
+        return '';
+    }
+
+    if (value instanceof Date) {
+        return value.toISOString();
+    }
+
+    if (Array.isArray(value)) {
+        return value.map(toText).join(', ');
+    }
+
+    if (typeof value === 'object') {
+        return JSON.stringify(value);
+    }
+
+    return String(value);
+}
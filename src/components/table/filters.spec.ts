@@ -0,0 +1,196 @@
+import {
+    createColumnFilter,
+    createFilterDefinition,
+    createFilterFunction,
+    isEmptyFilterValue,
+} from './filters';
+import { Column } from './table.types';
+
+describe('createFilterFunction', () => {
+    describe('text', () => {
+        const matches = createFilterFunction('text');
+
+        it('matches values containing the text, ignoring case', () => {
+            expect(matches('bar', 'FooBar')).toBe(true);
+            expect(matches('baz', 'FooBar')).toBe(false);
+        });
+
+        it('matches numbers as text', () => {
+            expect(matches('42', 1420)).toBe(true);
+        });
+
+        it('does not match empty values', () => {
+            expect(matches('foo', null)).toBe(false);
+            expect(matches('foo', undefined)).toBe(false);
+        });
+    });
+
+    describe('number', () => {
+        const matches = createFilterFunction('number');
+
+        it('matches values within the range, inclusive', () => {
+            expect(matches({ from: 1, to: 3 }, 1)).toBe(true);
+            expect(matches({ from: 1, to: 3 }, 3)).toBe(true);
+            expect(matches({ from: 1, to: 3 }, 4)).toBe(false);
+        });
+
+        it('treats a missing end as unbounded', () => {
+            expect(matches({ from: 10 }, 1000)).toBe(true);
+            expect(matches({ to: 10 }, -1000)).toBe(true);
+            expect(matches({ to: 10 }, 11)).toBe(false);
+        });
+
+        it('does not match empty values', () => {
+            expect(matches({ from: 0 }, null)).toBe(false);
+            expect(matches({ from: 0 }, '')).toBe(false);
+        });
+    });
+
+    describe('date', () => {
+        const matches = createFilterFunction('date');
+        const range = {
+            from: new Date(2024, 0, 10),
+            to: new Date(2024, 0, 20),
+        };
+
+        it('matches dates within the range, including the whole last day', () => {
+            expect(matches(range, new Date(2024, 0, 10))).toBe(true);
+            expect(matches(range, new Date(2024, 0, 20, 23, 59))).toBe(true);
+            expect(matches(range, new Date(2024, 0, 21))).toBe(false);
+            expect(matches(range, new Date(2024, 0, 9, 23, 59))).toBe(false);
+        });
+
+        it('matches dates given as strings', () => {
+            expect(matches(range, '2024-01-15')).toBe(true);
+        });
+    });
+
+    describe('enum', () => {
+        const matches = createFilterFunction('enum');
+
+        it('matches values that are one of the chosen options', () => {
+            expect(matches(['a', 'b'], 'a')).toBe(true);
+            expect(matches(['a', 'b'], 'c')).toBe(false);
+        });
+
+        it('matches lists that contain one of the chosen options', () => {
+            expect(matches(['a', 'b'], ['c', 'b'])).toBe(true);
+            expect(matches(['a', 'b'], ['c'])).toBe(false);
+        });
+    });
+});
+
+describe('isEmptyFilterValue', () => {
+    it.each([undefined, null, '', [], {}, { from: undefined, to: '' }])(
+        'returns true for %p',
+        (value: any) => {
+            expect(isEmptyFilterValue(value)).toBe(true);
+        }
+    );
+
+    it.each(['foo', ['a'], { from: 0 }, { to: new Date(2024, 0, 1) }])(
+        'returns false for %p',
+        (value: any) => {
+            expect(isEmptyFilterValue(value)).toBe(false);
+        }
+    );
+});
+
+describe('createColumnFilter', () => {
+    it('creates a column filter from a Tabulator header filter', () => {
+        const columns: Column[] = [
+            { title: 'Foo', field: 'foo', filter: 'text' },
+            {
+                title: 'Bar',
+                field: 'bar',
+                filter: { type: 'enum', options: [] },
+            },
+        ];
+
+        const filter = createColumnFilter(columns)({
+            field: 'bar',
+            value: ['baz'],
+        });
+
+        expect(filter).toEqual({
+            column: columns[1],
+            type: 'enum',
+            value: ['baz'],
+        });
+    });
+});
+
+describe('createFilterDefinition', () => {
+    let column: Column;
+    let success: jest.Mock;
+
+    const createFilter = (): HTMLElement => {
+        const definition = createFilterDefinition(column, (key) => key);
+        const editor = definition.headerFilter as Function;
+
+        return editor({}, jest.fn(), success, jest.fn(), {});
+    };
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        success = jest.fn();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('disables the live filtering of Tabulator', () => {
+        column = { title: 'Foo', field: 'foo', filter: 'text' };
+        const definition = createFilterDefinition(column, (key) => key);
+        expect(definition.headerFilterLiveFilter).toBe(false);
+    });
+
+    it('applies the text filter after a delay', () => {
+        column = { title: 'Foo', field: 'foo', filter: 'text' };
+        const element = createFilter();
+        const input = element.querySelector('limel-input-field');
+        expect(input).toHaveProperty('placeholder', 'table.filter');
+
+        input.dispatchEvent(new CustomEvent('change', { detail: 'foo' }));
+        expect(success).not.toHaveBeenCalled();
+
+        jest.runAllTimers();
+        expect(success).toHaveBeenCalledWith('foo');
+    });
+
+    it('creates a range from the number inputs', () => {
+        column = { title: 'Foo', field: 'foo', filter: 'number' };
+        const element = createFilter();
+        const [from, to] = [...element.querySelectorAll('limel-input-field')];
+
+        from.dispatchEvent(new CustomEvent('change', { detail: '1' }));
+        to.dispatchEvent(new CustomEvent('change', { detail: '5' }));
+        jest.runAllTimers();
+
+        expect(success).toHaveBeenCalledTimes(1);
+        expect(success).toHaveBeenCalledWith({ from: 1, to: 5 });
+    });
+
+    it('filters on the values of the chosen options', () => {
+        const options = [
+            { text: 'A', value: 'a' },
+            { text: 'B', value: 'b' },
+        ];
+        column = {
+            title: 'Foo',
+            field: 'foo',
+            filter: { type: 'enum', options: options },
+        };
+        const element = createFilter();
+        const select = element.querySelector('limel-select');
+
+        select.dispatchEvent(
+            new CustomEvent('change', { detail: [options[1]] })
+        );
+        jest.runAllTimers();
+
+        expect(success).toHaveBeenCalledWith(['b']);
+        expect(select).toHaveProperty('value', [options[1]]);
+    });
+});
@@ -0,0 +1,302 @@
+import { ColumnDefinition, Editor } from 'tabulator-tables';
+import dayjs from 'dayjs';
+import {
+    Column,
+    ColumnFilter,
+    ColumnFilterConfig,
+    ColumnFilterRange,
+    ColumnFilterType,
+} from './table.types';
+import { setElementProperties } from './columns';
+import { Option } from '../select/option.types';
+
+const FILTER_DELAY = 300;
+
+type FilterValue = ColumnFilter['value'];
+
+/**
+ * Create the Tabulator header filter options for a column
+ *
+ * @param column - config describing the column
+ * @param getTranslation - function to get translated strings
+ * @returns the header filter options for the Tabulator column
+ */
+export function createFilterDefinition(
+    column: Column,
+    getTranslation: (key: string) => string
+): Partial<ColumnDefinition> {
+    const config = getFilterConfig(column);
+
+    return {
+        headerFilter: createFilterEditor(config, getTranslation),
+        headerFilterFunc: createFilterFunction(config.type),
+        headerFilterEmptyCheck: isEmptyFilterValue,
+        headerFilterLiveFilter: false,
+    };
+}
+
+/**
+ * Create a column filter from a Tabulator header filter
+ *
+ * @param columns - all available columns in the table
+ * @returns function that creates a column filter from a Tabulator filter
+ */
+export const createColumnFilter =
+    (columns: Column[]) =>
+    (filter: { field: string; value: any }): ColumnFilter => {
+        const column = columns.find((col) => col.field === filter.field);
+
+        return {
+            column: column,
+            type: getFilterConfig(column).type,
+            value: filter.value,
+        };
+    };
+
+/**
+ * Create a function that checks if a value matches a filter
+ *
+ * @param type - the type of filter
+ * @returns function that returns `true` if the value matches the filter
+ */
+export function createFilterFunction(
+    type: ColumnFilterType
+): (filterValue: FilterValue, value: any) => boolean {
+    const filterFunctions: Record<
+        ColumnFilterType,
+        (filterValue: any, value: any) => boolean
+    > = {
+        text: matchText,
+        number: matchNumberRange,
+        date: matchDateRange,
+        enum: matchOptions,
+    };
+
+    return filterFunctions[type];
+}
+
+/**
+ * Check if a filter value is empty, i.e. if the filter should be removed
+ *
+ * @param value - the value of the filter
+ * @returns `true` if the filter value is empty
+ */
+export function isEmptyFilterValue(value: FilterValue): boolean {
+    if (value === null || value === undefined || value === '') {
+        return true;
+    }
+
+    if (Array.isArray(value)) {
+        return value.length === 0;
+    }
+
+    if (typeof value === 'object') {
+        return isEmpty(value.from) && isEmpty(value.to);
+    }
+
+    return false;
+}
+
+function matchText(filterValue: string, value: any): boolean {
+    if (value === null || value === undefined) {
+        return false;
+    }
+
+    return String(value)
+        .toLowerCase()
+        .includes(String(filterValue).toLowerCase());
+}
+
+function matchNumberRange(
+    filterValue: ColumnFilterRange<number>,
+    value: any
+): boolean {
+    if (value === null || value === undefined || value === '') {
+        return false;
+    }
+
+    const number = Number(value);
+
+    return (
+        (isEmpty(filterValue.from) || number >= filterValue.from) &&
+        (isEmpty(filterValue.to) || number <= filterValue.to)
+    );
+}
+
+function matchDateRange(
+    filterValue: ColumnFilterRange<Date>,
+    value: any
+): boolean {
+    if (!value) {
+        return false;
+    }
+
+    const date = dayjs(value);
+
+    return (
+        (isEmpty(filterValue.from) ||
+            !date.isBefore(dayjs(filterValue.from).startOf('day'))) &&
+        (isEmpty(filterValue.to) ||
+            !date.isAfter(dayjs(filterValue.to).endOf('day')))
+    );
+}
+
+function matchOptions(filterValue: string[], value: any): boolean {
+    if (Array.isArray(value)) {
+        return value.some((item) => filterValue.includes(item));
+    }
+
+    return filterValue.includes(value);
+}
+
+function isEmpty(value: any): boolean {
+    return value === null || value === undefined || value === '';
+}
+
+function getFilterConfig(column: Column): ColumnFilterConfig {
+    if (typeof column.filter === 'string') {
+        return { type: column.filter };
+    }
+
+    return column.filter;
+}
+
+function createFilterEditor(
+    config: ColumnFilterConfig,
+    getTranslation: (key: string) => string
+): Editor {
+    return (_, __, success) => {
+        const container = document.createElement('div');
+        container.classList.add('limel-table--header-filter');
+
+        // Keep interactions with the filter from sorting or moving the column
+        container.addEventListener('mousedown', stopPropagation);
+        container.addEventListener('click', stopPropagation);
+
+        const elements = createFilterElements(config, getTranslation);
+        let timeout: ReturnType<typeof setTimeout>;
+        let value: FilterValue;
+
+        for (const [index, element] of elements.entries()) {
+            element.addEventListener('change', (event: CustomEvent) => {
+                event.stopPropagation();
+                value = getFilterValue(config, value, index, event.detail);
+                updateFilterElements(config, elements, value);
+
+                clearTimeout(timeout);
+                timeout = setTimeout(() => success(value), FILTER_DELAY);
+            });
+            container.append(element);
+        }
+
+        return container;
+    };
+}
+
+function createFilterElements(
+    config: ColumnFilterConfig,
+    getTranslation: (key: string) => string
+): HTMLElement[] {
+    if (config.type === 'text') {
+        return [
+            createElement('limel-input-field', {
+                type: 'search',
+                placeholder: getTranslation('table.filter'),
+            }),
+        ];
+    }
+
+    if (config.type === 'enum') {
+        return [
+            createElement('limel-select', {
+                label: getTranslation('table.filter'),
+                options: config.options ?? [],
+                multiple: true,
+                value: [],
+            }),
+        ];
+    }
+
+    const name =
+        config.type === 'date' ? 'limel-date-picker' : 'limel-input-field';
+    const props =
+        config.type === 'date' ? { type: 'date' } : { type: 'number' };
+
+    return [
+        createElement(name, {
+            ...props,
+            placeholder: getTranslation('table.filter-from'),
+        }),
+        createElement(name, {
+            ...props,
+            placeholder: getTranslation('table.filter-to'),
+        }),
+    ];
+}
+
+function createElement(name: string, props: object): HTMLElement {
+    const element = document.createElement(name);
+    setElementProperties(element, props);
+
+    return element;
+}
+
+function getFilterValue(
+    config: ColumnFilterConfig,
+    currentValue: FilterValue,
+    index: number,
+    detail: any
+): FilterValue {
+    if (config.type === 'text') {
+        return detail;
+    }
+
+    if (config.type === 'enum') {
+        return (detail as Option[]).map((option) => option.value);
+    }
+
+    if (config.type === 'number') {
+        detail = detail === '' ? undefined : Number(detail);
+    }
+
+    const key = index === 0 ? 'from' : 'to';
+
+    return {
+        ...(currentValue as ColumnFilterRange),
+        [key]: detail ?? undefined,
+    };
+}
+
+function updateFilterElements(
+    config: ColumnFilterConfig,
+    elements: HTMLElement[],
+    value: FilterValue
+) {
+    if (config.type === 'text') {
+        setElementProperties(elements[0], { value: value });
+
+        return;
+    }
+
+    if (config.type === 'enum') {
+        const values = value as string[];
+        setElementProperties(elements[0], {
+            value: config.options?.filter((option) =>
+                values.includes(option.value)
+            ),
+        });
+
+        return;
+    }
+
+    const range = value as ColumnFilterRange;
+    const toProp = (item: number | Date) =>
+        config.type === 'number' ? (item ?? '').toString() : item;
+
+    setElementProperties(elements[0], { value: toProp(range.from) });
+    setElementProperties(elements[1], { value: toProp(range.to) });
+}
+
+function stopPropagation(event: Event) {
+    event.stopPropagation();
+}
@@ -0,0 +1,75 @@
+import { aggregate, createGroupHeader } from './groups';
+import { Column, ColumnAggregatorType } from './table.types';
+
+describe('aggregate', () => {
+    const data = [{ foo: 1 }, { foo: '4' }, { foo: null }, { foo: 2 }];
+    const column: Column = { title: 'Foo', field: 'foo' };
+
+    it.each([
+        [ColumnAggregatorType.Sum, 7],
+        [ColumnAggregatorType.Average, 2.33],
+        [ColumnAggregatorType.Minimum, 1],
+        [ColumnAggregatorType.Maximum, 4],
+        [ColumnAggregatorType.Count, 3],
+    ])('calculates %s', (aggregator, expected) => {
+        expect(aggregate({ ...column, aggregator: aggregator }, data)).toEqual(
+            expected
+        );
+    });
+
+    it('calls custom aggregator functions with values and data', () => {
+        const aggregator = jest.fn(() => 'custom');
+
+        const value = aggregate({ ...column, aggregator: aggregator }, data);
+
+        expect(value).toEqual('custom');
+        expect(aggregator).toHaveBeenCalledWith(
+            expect.objectContaining({ field: 'foo' }),
+            [1, '4', null, 2],
+            data
+        );
+    });
+});
+
+describe('createGroupHeader', () => {
+    const columns: Column[] = [
+        { title: 'Name', field: 'name', formatter: (v) => `Mr. ${v}` },
+        {
+            title: 'Amount',
+            field: 'amount',
+            aggregator: ColumnAggregatorType.Sum,
+            formatter: (v) => `${v} kr`,
+        },
+    ];
+    const data = [
+        { name: 'Smith', amount: 10 },
+        { name: 'Smith', amount: 5 },
+    ];
+
+    it('renders the group value, row count and aggregates', () => {
+        const header = createGroupHeader('name', () => columns)(
+            'Smith',
+            2,
+            data
+        );
+
+        const text = (selector: string) =>
+            header.querySelector(selector).textContent;
+
+        expect(text('.group-value')).toEqual('Mr. Smith');
+        expect(text('.group-count')).toEqual('(2)');
+        expect(text('.group-aggregate-title')).toEqual('Amount');
+        expect(text('.group-aggregate-value')).toEqual('15 kr');
+    });
+
+    it('does not format the value when grouping with a function', () => {
+        const header = createGroupHeader(
+            () => 'Smith',
+            () => columns
+        )('Smith', 2, data);
+
+        expect(header.querySelector('.group-value').textContent).toEqual(
+            'Smith'
+        );
+    });
+});
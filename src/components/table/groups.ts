@@ -0,0 +1,127 @@
+import {
+    Column,
+    ColumnAggregatorFunction,
+    ColumnAggregatorType,
+    TableGroupBy,
+} from './table.types';
+
+const AVERAGE_PRECISION = 2;
+
+const aggregators: Record<ColumnAggregatorType, (values: any[]) => any> = {
+    [ColumnAggregatorType.Average]: (values: any[]) => {
+        const numbers = getNumbers(values);
+        if (numbers.length === 0) {
+            return 0;
+        }
+
+        const average = sum(numbers) / numbers.length;
+
+        return Number(average.toFixed(AVERAGE_PRECISION));
+    },
+    [ColumnAggregatorType.Maximum]: (values: any[]) => {
+        const numbers = getNumbers(values);
+
+        return numbers.length > 0 ? Math.max(...numbers) : '';
+    },
+    [ColumnAggregatorType.Minimum]: (values: any[]) => {
+        const numbers = getNumbers(values);
+
+        return numbers.length > 0 ? Math.min(...numbers) : '';
+    },
+    [ColumnAggregatorType.Sum]: (values: any[]) => sum(getNumbers(values)),
+    [ColumnAggregatorType.Count]: (values: any[]) =>
+        values.filter(Boolean).length,
+};
+
+/**
+ * Calculate the aggregate value of a column for the given rows
+ *
+ * @param column - config describing the column
+ * @param data - the rows to aggregate
+ * @returns the aggregated value
+ */
+export function aggregate(column: Column, data: object[]): any {
+    const values = data.map((row) => row[column.field]);
+
+    if (isAggregatorFunction(column.aggregator)) {
+        return column.aggregator(column, values, data);
+    }
+
+    return aggregators[column.aggregator]?.(values);
+}
+
+/**
+ * Create a function that renders the header of a group of rows
+ *
+ * The header displays the value that the rows are grouped on, the number of
+ * rows in the group, and the aggregated values of the group for each
+ * column that has an `aggregator`.
+ *
+ * @param groupBy - the field or function that the rows are grouped on
+ * @param getColumns - function that returns the columns to aggregate
+ * @returns function that renders a group header
+ */
+export const createGroupHeader =
+    (groupBy: TableGroupBy, getColumns: () => Column[]) =>
+    (value: any, count: number, data: object[]): HTMLElement => {
+        const columns = getColumns();
+        const element = document.createElement('div');
+        element.classList.add('limel-table--group-header');
+
+        const groupColumn = columns.find((column) => column.field === groupBy);
+        element.append(
+            createText('group-value', format(groupColumn, value)),
+            createText('group-count', `(${count})`)
+        );
+
+        for (const column of columns.filter((c) => c.aggregator)) {
+            const aggregateElement = createText('group-aggregate', '');
+            aggregateElement.append(
+                createText('group-aggregate-title', column.title),
+                createText(
+                    'group-aggregate-value',
+                    format(column, aggregate(column, data))
+                )
+            );
+            element.append(aggregateElement);
+        }
+
+        return element;
+    };
+
+function format(column: Column, value: any): string {
+    if (column?.formatter) {
+        value = column.formatter(value);
+    }
+
+    if (value === null || value === undefined) {
+        return '';
+    }
+
+    return String(value);
+}
+
+function createText(className: string, text: string): HTMLElement {
+    const element = document.createElement('span');
+    element.classList.add(className);
+    element.textContent = text;
+
+    return element;
+}
+
+function getNumbers(values: any[]): number[] {
+    return values
+        .filter(
+            (value) => value !== null && value !== undefined && value !== ''
+        )
+        .map(Number)
+        .filter((value) => !Number.isNaN(value));
+}
+
+function sum(numbers: number[]): number {
+    return numbers.reduce((total, value) => total + value, 0);
+}
+
+function isAggregatorFunction(value: any): value is ColumnAggregatorFunction {
+    return typeof value === 'function';
+}
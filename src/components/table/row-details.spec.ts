@@ -0,0 +1,139 @@
+import { RowComponent } from 'tabulator-tables';
+import { getTreeOptions, hasTreeData, RowDetails } from './row-details';
+
+describe('hasTreeData', () => {
+    it('returns true if any row has children', () => {
+        expect(hasTreeData([{ id: 1 }, { id: 2, children: [] }])).toBe(true);
+    });
+
+    it('returns false if no row has children', () => {
+        expect(hasTreeData([{ id: 1 }, { id: 2 }])).toBe(false);
+        expect(hasTreeData()).toBe(false);
+    });
+});
+
+describe('getTreeOptions', () => {
+    it('displays the children of each row as a tree', () => {
+        const options = getTreeOptions((key) => key);
+
+        expect(options.dataTree).toBe(true);
+        expect(options.dataTreeChildField).toEqual('children');
+    });
+
+    it('uses translated toggles for expanding and collapsing rows', () => {
+        const options = getTreeOptions((key) => key);
+        const expand = options.dataTreeExpandElement as HTMLElement;
+        const collapse = options.dataTreeCollapseElement as HTMLElement;
+
+        expect(expand.getAttribute('aria-expanded')).toEqual('false');
+        expect(expand.getAttribute('aria-label')).toEqual('table.expand-row');
+        expect(collapse.getAttribute('aria-expanded')).toEqual('true');
+        expect(collapse.getAttribute('aria-label')).toEqual(
+            'table.collapse-row'
+        );
+    });
+});
+
+describe('RowDetails', () => {
+    let rowDetails: RowDetails;
+    let emitExpand: jest.Mock;
+    let emitCollapse: jest.Mock;
+
+    const createRow = (data: object): RowComponent => {
+        const element = document.createElement('div');
+        const row: Partial<RowComponent> = {
+            getData: () => data,
+            getElement: () => element,
+            normalizeHeight: jest.fn(),
+        };
+
+        return row as RowComponent;
+    };
+
+    const getDetail = (row: RowComponent): any =>
+        row.getElement().querySelector('.limel-table--row-detail')
+            ?.firstElementChild;
+
+    beforeEach(() => {
+        emitExpand = jest.fn();
+        emitCollapse = jest.fn();
+        rowDetails = new RowDetails(
+            () => ({
+                name: 'my-details',
+                props: { label: 'Details' },
+                propsFactory: (data: any) => ({ value: data.name }),
+            }),
+            { emit: emitExpand },
+            { emit: emitCollapse },
+            (key) => key
+        );
+    });
+
+    it('prepends a column with the toggles', () => {
+        const columns = rowDetails.getColumnDefinitions([
+            { title: 'Name', field: 'name', frozen: true },
+        ]);
+
+        expect(columns.length).toEqual(2);
+        expect(columns[0].cssClass).toEqual('limel-table--row-toggle-column');
+        expect(columns[0].frozen).toBe(true);
+        expect(columns[1].field).toEqual('name');
+    });
+
+    it('expands a collapsed row', () => {
+        const data = { id: 1, name: 'Alice' };
+        const row = createRow(data);
+
+        rowDetails.toggle(row);
+
+        expect(emitExpand).toHaveBeenCalledWith(data);
+        expect(rowDetails.isExpanded(data)).toBe(true);
+        expect(row.normalizeHeight).toHaveBeenCalled();
+        expect(
+            row.getElement().classList.contains('limel-table--row-expanded')
+        ).toBe(true);
+    });
+
+    it('renders the detail component with the data of the row', () => {
+        const data = { id: 1, name: 'Alice' };
+        const row = createRow(data);
+
+        rowDetails.toggle(row);
+        const detail = getDetail(row);
+
+        expect(detail.tagName).toEqual('MY-DETAILS');
+        expect(detail.label).toEqual('Details');
+        expect(detail.value).toEqual('Alice');
+        expect(detail.data).toBe(data);
+    });
+
+    it('collapses an expanded row', () => {
+        const data = { id: 1, name: 'Alice' };
+        const row = createRow(data);
+
+        rowDetails.toggle(row);
+        rowDetails.toggle(row);
+
+        expect(emitCollapse).toHaveBeenCalledWith(data);
+        expect(rowDetails.isExpanded(data)).toBe(false);
+        expect(getDetail(row)).toBeUndefined();
+    });
+
+    it('keeps rows with the same id expanded when they are formatted again', () => {
+        rowDetails.toggle(createRow({ id: 1, name: 'Alice' }));
+        const row = createRow({ id: 1, name: 'Alice Smith' });
+
+        rowDetails.formatRow(row);
+
+        expect(getDetail(row)).toBeDefined();
+    });
+
+    it('collapses all rows when cleared', () => {
+        const data = { id: 1, name: 'Alice' };
+        rowDetails.toggle(createRow(data));
+
+        rowDetails.clear();
+
+        expect(rowDetails.isExpanded(data)).toBe(false);
+    });
+});
@@ -0,0 +1,265 @@
+import { EventEmitter } from '@stencil/core';
+import {
+    CellComponent as TabulatorCellComponent,
+    ColumnDefinition as TabulatorColumnDefinition,
+    OptionsDataTree as TabulatorOptionsDataTree,
+    RowComponent as TabulatorRowComponent,
+} from 'tabulator-tables';
+import { setElementProperties } from './columns';
+import { RowData, TableComponentDefinition } from './table.types';
+
+const EXPANDED_CLASS = 'limel-table--row-expanded';
+const DETAIL_CLASS = 'limel-table--row-detail';
+const TOGGLE_CLASS = 'limel-table--row-toggle';
+const TREE_INDENT = 16;
+
+const getRowId = (data: RowData) => data.id ?? data;
+
+/**
+ * Get the Tabulator options for displaying rows with `children` as a tree
+ *
+ * @param getTranslation - function to get translated strings
+ * @returns the data tree options for Tabulator
+ */
+export function getTreeOptions(
+    getTranslation: (key: string) => string
+): TabulatorOptionsDataTree {
+    return {
+        dataTree: true,
+        dataTreeChildField: 'children',
+        dataTreeBranchElement: false,
+        dataTreeChildIndent: TREE_INDENT,
+        dataTreeExpandElement: createToggle(
+            false,
+            getTranslation('table.expand-row')
+        ),
+        dataTreeCollapseElement: createToggle(
+            true,
+            getTranslation('table.collapse-row')
+        ),
+    };
+}
+
+/**
+ * Check if any of the rows have `children`, i.e. if the data is a tree
+ *
+ * @param data - the data of the table
+ * @returns `true` if the data should be displayed as a tree
+ */
+export function hasTreeData(data: RowData[] = []): boolean {
+    return data.some((row) => Array.isArray(row.children));
+}
+
+/**
+ * Provides rows that can be expanded to display a component with details
+ * about the row in a panel below it
+ */
+export class RowDetails {
+    private expanded = new Set<RowData | RowData['id']>();
+    private elements = new Map<RowData | RowData['id'], HTMLElement>();
+    private rows = new WeakMap<HTMLElement, TabulatorRowComponent>();
+    private resizeObserver: ResizeObserver;
+
+    /**
+     * Creates an instance of the RowDetails class
+     *
+     * @param getComponent - Function that returns the component to display in the panel
+     * @param expandEvent - The event emitter to use when a row is expanded
+     * @param collapseEvent - The event emitter to use when a row is collapsed
+     * @param getTranslation - Function to get translated strings
+     */
+    constructor(
+        private getComponent: () => TableComponentDefinition,
+        private expandEvent: EventEmitter<object>,
+        private collapseEvent: EventEmitter<object>,
+        private getTranslation: (key: string) => string
+    ) {
+        if ('ResizeObserver' in window) {
+            this.resizeObserver = new ResizeObserver(this.handleResize);
+        }
+    }
+
+    /**
+     * Prepends a column with the expand toggles to the given column definitions
+     *
+     * @param columnDefinitions - The column definitions for the table
+     * @returns The column definitions with the toggle column prepended to it
+     */
+    public getColumnDefinitions(
+        columnDefinitions: TabulatorColumnDefinition[]
+    ): TabulatorColumnDefinition[] {
+        return [
+            {
+                title: '',
+                formatter: this.formatToggle,
+                cellClick: this.toggleCellClick,
+                headerSort: false,
+                cssClass: 'limel-table--row-toggle-column',
+                resizable: false,
+                frozen: !!columnDefinitions[0]?.frozen,
+                htmlOutput: false,
+                clipboard: false,
+            },
+            ...columnDefinitions,
+        ];
+    }
+
+    /**
+     * Checks if a row is expanded
+     *
+     * @param data - The data of the row
+     * @returns `true` if the row is expanded
+     */
+    public isExpanded(data: RowData): boolean {
+        return this.expanded.has(getRowId(data));
+    }
+
+    /**
+     * Adds the panel with details to the row if it is expanded, and removes
+     * it if it is not
+     *
+     * @param row - The row to format
+     */
+    public formatRow(row: TabulatorRowComponent): void {
+        const data = row.getData();
+        const element = row.getElement();
+        const expanded = this.isExpanded(data);
+
+        element.classList.toggle(EXPANDED_CLASS, expanded);
+        const toggle = element.querySelector(`.${TOGGLE_CLASS}`);
+        toggle?.setAttribute('aria-expanded', String(expanded));
+        toggle?.setAttribute(
+            'aria-label',
+            this.getTranslation(
+                expanded ? 'table.collapse-row' : 'table.expand-row'
+            )
+        );
+
+        const panel = [...element.children].find((child) =>
+            child.classList.contains(DETAIL_CLASS)
+        );
+        if (!expanded) {
+            panel?.remove();
+
+            return;
+        }
+
+        const detailElement = this.getDetailElement(row);
+        if (panel !== detailElement) {
+            panel?.remove();
+            element.append(detailElement);
+        }
+    }
+
+    /**
+     * Expands the row if it is collapsed, and collapses it if it is expanded
+     *
+     * @param row - The row to toggle
+     */
+    public toggle(row: TabulatorRowComponent): void {
+        const data = row.getData();
+        const id = getRowId(data);
+
+        if (this.expanded.has(id)) {
+            this.expanded.delete(id);
+            this.removeDetailElement(id);
+            this.collapseEvent.emit(data);
+        } else {
+            this.expanded.add(id);
+            this.expandEvent.emit(data);
+        }
+
+        this.formatRow(row);
+        row.normalizeHeight();
+    }
+
+    /**
+     * Collapses all rows
+     */
+    public clear(): void {
+        this.expanded.clear();
+        this.resizeObserver?.disconnect();
+        this.elements.clear();
+    }
+
+    private getDetailElement(row: TabulatorRowComponent): HTMLElement {
+        const data = row.getData();
+        const id = getRowId(data);
+        let panel = this.elements.get(id);
+
+        if (!panel) {
+            const component = this.getComponent();
+            const element = document.createElement(component.name);
+            setElementProperties(element, this.getProps(data));
+
+            panel = document.createElement('div');
+            panel.classList.add(DETAIL_CLASS);
+            panel.append(element);
+            this.elements.set(id, panel);
+            this.resizeObserver?.observe(panel);
+        }
+
+        this.rows.set(panel, row);
+
+        return panel;
+    }
+
+    private getProps(data: object): object {
+        const component = this.getComponent();
+        let props: object = component.props || {};
+        if (component.propsFactory) {
+            props = {
+                ...props,
+                ...component.propsFactory(data),
+            };
+        }
+
+        return { ...props, data: data };
+    }
+
+    private removeDetailElement(id: RowData | RowData['id']) {
+        const panel = this.elements.get(id);
+        if (!panel) {
+            return;
+        }
+
+        this.resizeObserver?.unobserve(panel);
+        this.rows.delete(panel);
+        this.elements.delete(id);
+    }
+
+    // The component might change its size after it has been rendered, so
+    // the height of the row has to be recalculated
+    private handleResize = (entries: ResizeObserverEntry[]) => {
+        for (const entry of entries) {
+            const row = this.rows.get(entry.target as HTMLElement);
+            if (entry.target.isConnected) {
+                row?.normalizeHeight();
+            }
+        }
+    };
+
+    private formatToggle = () => {
+        return createToggle(false, this.getTranslation('table.expand-row'));
+    };
+
+    private toggleCellClick = (
+        event: PointerEvent,
+        cell: TabulatorCellComponent
+    ) => {
+        event.stopPropagation();
+        event.preventDefault();
+
+        this.toggle(cell.getRow());
+    };
+}
+
+function createToggle(expanded: boolean, label: string): HTMLElement {
+    const element = document.createElement('button');
+    element.classList.add(TOGGLE_CLASS);
+    element.setAttribute('type', 'button');
+    element.setAttribute('aria-expanded', String(expanded));
+    element.setAttribute('aria-label', label);
+
+    return element;
+}
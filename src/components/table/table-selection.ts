@@ -87,12 +87,22 @@ export class TableSelection {
     public getColumnDefinitions(
         columnDefinitions: TabulatorColumnDefinition[]
     ): TabulatorColumnDefinition[] {
-        return [this.getRowSelectorColumnDefinition(), ...columnDefinitions];
+        // Tabulator only pins columns to the left if all columns before
+        // them are pinned as well
+        const frozen = !!columnDefinitions[0]?.frozen;
+
+        return [
+            this.getRowSelectorColumnDefinition(frozen),
+            ...columnDefinitions,
+        ];
     }
 
-    private getRowSelectorColumnDefinition(): TabulatorColumnDefinition {
+    private getRowSelectorColumnDefinition(
+        frozen: boolean
+    ): TabulatorColumnDefinition {
         return {
             title: '',
+            frozen: frozen,
             formatter: this.getRowSelectorFormatter(),
             cellClick: this.rowSelectorCellClick,
             headerClick: this.headerClick,
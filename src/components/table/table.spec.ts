@@ -1,4 +1,5 @@
 import { Table } from './table';
+import { Column, ColumnAggregatorType } from './table.types';
 
 describe('limel-table data updates', () => {
     let component: Table;
@@ -6,6 +7,7 @@ describe('limel-table data updates', () => {
     beforeEach(() => {
         component = new Table();
         (component as any).tabulator = {
+            addData: jest.fn(),
             replaceData: jest.fn(),
             updateData: jest.fn(),
             updateOrAddData: jest.fn(),
@@ -83,6 +85,44 @@ describe('limel-table data updates', () => {
         expect(tabulator.updateOrAddData).not.toHaveBeenCalled();
     });
 
+    it('adds rows when the next page is loaded with infinite pagination', () => {
+        jest.useFakeTimers();
+        component.mode = 'remote';
+        component.pageSize = 1;
+        component.paginationMode = 'infinite';
+
+        const oldData = [{ id: 1, name: 'John' }];
+        const newData = [
+            { id: 1, name: 'John' },
+            { id: 2, name: 'Jane' },
+        ];
+
+        (component as any).updateData(newData, oldData);
+        jest.runAllTimers();
+
+        const tabulator = (component as any).tabulator;
+        expect(tabulator.addData).toHaveBeenCalledWith([newData[1]]);
+        expect(tabulator.replaceData).not.toHaveBeenCalled();
+        expect(tabulator.updateData).not.toHaveBeenCalled();
+    });
+
+    it('replaces data when rows are appended without infinite pagination', () => {
+        jest.useFakeTimers();
+
+        const oldData = [{ id: 1, name: 'John' }];
+        const newData = [
+            { id: 1, name: 'John' },
+            { id: 2, name: 'Jane' },
+        ];
+
+        (component as any).updateData(newData, oldData);
+        jest.runAllTimers();
+
+        const tabulator = (component as any).tabulator;
+        expect(tabulator.addData).not.toHaveBeenCalled();
+        expect(tabulator.replaceData).toHaveBeenCalledWith(newData);
+    });
+
     it('uses updateOrAddData when data is identical', () => {
         jest.useFakeTimers();
 
@@ -97,3 +137,173 @@ describe('limel-table data updates', () => {
         expect(tabulator.updateOrAddData).toHaveBeenCalledWith(data);
     });
 });
+
+describe('limel-table infinite pagination', () => {
+    let component: Table;
+    let holder: any;
+
+    beforeEach(() => {
+        component = new Table();
+        holder = { scrollHeight: 1000, scrollTop: 0, clientHeight: 300 };
+        Object.defineProperty(component, 'host', {
+            value: { shadowRoot: { querySelector: () => holder } },
+        });
+        Object.defineProperty(component, 'load', {
+            value: { emit: jest.fn() },
+        });
+        (component as any).tabulator = { getHeaderFilters: () => [] };
+        component.mode = 'remote';
+        component.paginationMode = 'infinite';
+        component.pageSize = 2;
+        component.totalRows = 10;
+        component.data = [{ id: 1 }, { id: 2 }];
+    });
+
+    it('loads the next page when scrolled close to the end', () => {
+        holder.scrollTop = 500;
+
+        (component as any).handleScrollVertical();
+
+        expect((component as any).load.emit).toHaveBeenCalledWith({
+            page: 2,
+            sorters: [],
+            filters: [],
+        });
+    });
+
+    it('does not load the next page when far from the end', () => {
+        (component as any).handleScrollVertical();
+
+        expect((component as any).load.emit).not.toHaveBeenCalled();
+    });
+
+    it('does not load the same page twice', () => {
+        holder.scrollTop = 500;
+
+        (component as any).handleScrollVertical();
+        (component as any).handleScrollVertical();
+
+        expect((component as any).load.emit).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not load more pages when all rows are loaded', () => {
+        holder.scrollTop = 500;
+        component.totalRows = 2;
+
+        (component as any).handleScrollVertical();
+
+        expect((component as any).load.emit).not.toHaveBeenCalled();
+    });
+
+    it('loads the next page without totalRows when the last page was full', () => {
+        holder.scrollTop = 500;
+        component.totalRows = undefined;
+
+        (component as any).handleScrollVertical();
+
+        expect((component as any).load.emit).toHaveBeenCalledWith(
+            expect.objectContaining({ page: 2 })
+        );
+    });
+
+    it('does not load more pages without totalRows after a page with fewer rows', () => {
+        holder.scrollTop = 500;
+        component.totalRows = undefined;
+        component.data = [{ id: 1 }, { id: 2 }, { id: 3 }];
+
+        (component as any).handleScrollVertical();
+
+        expect((component as any).load.emit).not.toHaveBeenCalled();
+    });
+});
+
+describe('limel-table export', () => {
+    let component: Table;
+
+    const createColumnComponent = (column: Column, visible: boolean) => ({
+        getField: () => column.field,
+        getDefinition: () => ({ title: column.title }),
+        isVisible: () => visible,
+    });
+
+    beforeEach(() => {
+        component = new Table();
+        component.columns = [
+            { field: 'name', title: 'Name' },
+            { field: 'email', title: 'Email' },
+        ];
+    });
+
+    it('exports the columns in their current order', () => {
+        (component as any).tabulator = {
+            getColumns: () => [
+                createColumnComponent(component.columns[1], true),
+                createColumnComponent(component.columns[0], true),
+            ],
+        };
+
+        expect((component as any).getExportColumns()).toEqual([
+            component.columns[1],
+            component.columns[0],
+        ]);
+    });
+
+    it('does not export columns that the user has hidden', () => {
+        (component as any).tabulator = {
+            getColumns: () => [
+                createColumnComponent(component.columns[0], true),
+                createColumnComponent(component.columns[1], false),
+            ],
+        };
+
+        expect((component as any).getExportColumns()).toEqual([
+            component.columns[0],
+        ]);
+    });
+});
+
+describe('limel-table groups', () => {
+    let component: Table;
+
+    beforeEach(() => {
+        component = new Table();
+        component.columns = [
+            { field: 'name', title: 'Name' },
+            {
+                field: 'amount',
+                title: 'Amount',
+                aggregator: ColumnAggregatorType.Sum,
+            },
+            { field: 'price', title: 'Price' },
+        ];
+        component.aggregates = [{ field: 'price', value: 999 }];
+        component.groupBy = 'name';
+    });
+
+    it('displays the values of each group in its header', () => {
+        (component as any).getColumnDefinitions();
+        const { groupHeader } = (component as any).getGroupOptions();
+
+        const headers = [
+            groupHeader('Smith', 2, [
+                { name: 'Smith', amount: 10, price: 1 },
+                { name: 'Smith', amount: 5, price: 2 },
+            ]),
+            groupHeader('Jones', 1, [{ name: 'Jones', amount: 3, price: 4 }]),
+        ];
+
+        const values = headers.map((header: HTMLElement) =>
+            [...header.querySelectorAll('.group-aggregate-value')].map(
+                (element) => element.textContent
+            )
+        );
+
+        expect(values).toEqual([['15'], ['3']]);
+    });
+
+    it('does not change the columns of the consumer', () => {
+        (component as any).getColumnDefinitions();
+
+        expect(component.columns[2].aggregator).toBeUndefined();
+    });
+});
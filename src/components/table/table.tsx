@@ -7,6 +7,8 @@ import {
     EventEmitter,
     Event,
     Host,
+    Method,
+    State,
 } from '@stencil/core';
 import {
     TabulatorFull,
@@ -18,25 +20,54 @@ import {
     ColumnComponent as TabulatorColumnComponent,
     ColumnDefinition as TabulatorColumnDefinition,
     RowComponent as TabulatorRowComponent,
+    CellComponent as TabulatorCellComponent,
     OptionsData as TabulatorOptionsData,
     OptionsPagination as TabulatorOptionsPagination,
     OptionsColumns as TabulatorOptionsColumns,
+    OptionsRowGrouping as TabulatorOptionsRowGrouping,
+    OptionsDataTree as TabulatorOptionsDataTree,
 } from 'tabulator-tables';
 import {
     Column,
     TableParams,
     ColumnSorter,
+    ColumnFilter,
     ColumnAggregate,
     RowData,
+    TableCellEdit,
+    TableGroupBy,
+    TableExportOptions,
+    TableExportScope,
+    ColumnState,
+    TableColumnState,
+    TableComponentDefinition,
 } from './table.types';
 import { ColumnDefinitionFactory, createColumnSorter } from './columns';
-import { isEqual, has } from 'lodash-es';
+import { createEditor } from './editors';
+import { createColumnFilter, createFilterDefinition } from './filters';
+import { createGroupHeader } from './groups';
+import { exportTable } from './export';
+import {
+    changeColumnState,
+    createColumnSorters,
+    createColumnStates,
+    createSortState,
+    createStateDefinition,
+    orderColumns,
+    sortByPinning,
+} from './column-state';
+import { ColumnMenuAction, createColumnMenuItems } from './column-menu';
+import { getTreeOptions, hasTreeData, RowDetails } from './row-details';
+import { CellNavigation, getCellText } from './cell-navigation';
+import { isEqual, has, sortBy } from 'lodash-es';
 import { ElementPool } from './element-pool';
 import { TableSelection } from './table-selection';
 import { _mapLayout, Layout } from './layout';
 import { areRowsEqual } from './utils';
 import { Languages } from '../date-picker/date.types';
 import translate from '../../global/translations';
+import { MenuItem } from '../menu/menu.types';
+import { ENTER } from '../../util/keycodes';
 
 const FIRST_PAGE = 1;
 
@@ -57,6 +88,16 @@ const FIRST_PAGE = 1;
  * @exampleComponent limel-example-table-layout-stretch-columns
  * @exampleComponent limel-example-table-layout-low-density
  * @exampleComponent limel-example-table-interactive-rows
+ * @exampleComponent limel-example-table-editable-cells
+ * @exampleComponent limel-example-table-filters
+ * @exampleComponent limel-example-table-grouped-rows
+ * @exampleComponent limel-example-table-export
+ * @exampleComponent limel-example-table-column-state
+ * @exampleComponent limel-example-table-tree-data
+ * @exampleComponent limel-example-table-tree-data-remote
+ * @exampleComponent limel-example-table-detail-rows
+ * @exampleComponent limel-example-table-keyboard-navigation
+ * @exampleComponent limel-example-table-infinite-scroll
  */
 @Component({
     tag: 'limel-table',
@@ -103,6 +144,27 @@ export class Table {
     @Prop()
     public pageSize: number;
 
+    /**
+     * How the rows are paginated when `mode` is `remote` and `pageSize` is
+     * set
+     *
+     * - `pages`: the rows are displayed one page at a time, and the user
+     * changes page with the paginator.
+     * - `infinite`: the next page is requested with the `load` event when
+     * the user scrolls close to the end of the table. The consumer should add
+     * the rows of the page to the end of `data`. Set `totalRows` to let the
+     * table know when all rows have been loaded. Without it, pages are
+     * requested until one has fewer rows than `pageSize`.
+     *
+     * :::note
+     * With `infinite`, the table needs a fixed height, for instance with
+     * the `height` style, since it is the scrolling of the table that
+     * loads the next page.
+     * :::
+     */
+    @Prop()
+    public paginationMode: 'pages' | 'infinite' = 'pages';
+
     /**
      * The number of total rows available for the data
      */
@@ -127,6 +189,39 @@ export class Table {
     @Prop()
     public movableColumns: boolean;
 
+    /**
+     * Set to `false` to disable resizing of the columns by dragging the
+     * edges of the column headers
+     */
+    @Prop()
+    public resizableColumns: boolean = true;
+
+    /**
+     * Set to `true` to let the user show and hide columns from a menu in
+     * the header of the table
+     */
+    @Prop()
+    public hideableColumns: boolean;
+
+    /**
+     * Set to `true` to let the user pin columns to the left or right edge
+     * of the table from a menu in the header of the table
+     */
+    @Prop()
+    public pinnableColumns: boolean;
+
+    /**
+     * The state of the columns, i.e. their order, width, visibility,
+     * pinning and sorting. Use together with the `changeColumnState` event
+     * to save the layout of the table that the user has chosen, and to
+     * restore it later on.
+     *
+     * Columns that are missing from the state are displayed after the
+     * columns that are in it.
+     */
+    @Prop()
+    public columnState: TableColumnState;
+
     /**
      * Set to `false` to disable column sorting through header interactions.
      * Programmatic sorting through the `sorting` prop and `sort` event remains available.
@@ -170,6 +265,26 @@ export class Table {
     @Prop()
     public aggregates: ColumnAggregate[];
 
+    /**
+     * Groups the rows of the table, either on the value of a field, or on
+     * the value returned by a function. Each group gets a collapsible header
+     * that displays the group value, the number of rows in the group, and
+     * the aggregated values of the group for each column with an
+     * `aggregator`. The values of `aggregates` are for the whole table,
+     * and are not displayed in the group headers.
+     */
+    @Prop()
+    public groupBy: TableGroupBy;
+
+    /**
+     * A component to display in a panel below a row when the row is
+     * expanded. Setting this adds a column with a toggle to expand each
+     * row. The component receives the data of the row as its `data`
+     * property, in addition to the properties of the definition.
+     */
+    @Prop()
+    public detailComponent: TableComponentDefinition;
+
     /**
      * Enables row selection
      */
@@ -215,6 +330,13 @@ export class Table {
     @Event()
     public changeColumns: EventEmitter<Column[]>;
 
+    /**
+     * Emitted when the user has moved, resized, hidden, pinned or sorted
+     * the columns
+     */
+    @Event()
+    public changeColumnState: EventEmitter<TableColumnState>;
+
     /**
      * Emitted when the row selection has been changed
      */
@@ -227,10 +349,40 @@ export class Table {
     @Event()
     public selectAll: EventEmitter<boolean>;
 
+    /**
+     * Emitted when a row is expanded, either to show its `children` or the
+     * `detailComponent`
+     */
+    @Event()
+    public expand: EventEmitter<object>;
+
+    /**
+     * Emitted when a row is collapsed
+     */
+    @Event()
+    public collapse: EventEmitter<object>;
+
+    /**
+     * Emitted when the value of a cell has been edited, using the `editor`
+     * of its column. When `mode` is `local`, the edited value is written to
+     * the row data. When `mode` is `remote`, the consumer is responsible for
+     * saving the new value, and can call `rejectEdit` to roll the cell back.
+     */
+    @Event()
+    public cellEdit: EventEmitter<TableCellEdit>;
+
     @Element()
     private host: HTMLLimelTableElement;
 
-    private currentLoad: { page: number; sorters: ColumnSorter[] };
+    private currentLoad: TableParams;
+
+    @State()
+    private columnStates: ColumnState[];
+
+    @State()
+    private announcement: string;
+
+    private currentColumnState: TableColumnState;
 
     private tabulator: Tabulator;
 
@@ -241,7 +393,52 @@ export class Table {
     private resizeObserver: ResizeObserver;
     private currentSorting: ColumnSorter[];
     private tableSelection: TableSelection;
+    private rowDetails: RowDetails;
+    private cellNavigation: CellNavigation;
     private shouldSort = false;
+    private recyclableRows = new Set<TabulatorRowComponent>();
+
+    /**
+     * Rolls back an edited cell to the value it had before the edit.
+     * Nothing happens if the cell has been given another value since the
+     * `cellEdit` event was emitted.
+     *
+     * @param edit - the edit to reject, as given by the `cellEdit` event
+     * @returns does not return anything, but methods have to be async
+     */
+    @Method()
+    public async rejectEdit(edit: TableCellEdit) {
+        const row = this.tabulator
+            ?.getRows()
+            .find((r) => this.isSameRow(r.getData(), edit.row));
+        const cell = row?.getCell(String(edit.field));
+        if (!cell || cell.getValue() !== edit.newValue) {
+            return;
+        }
+
+        row.update({ [edit.field]: edit.oldValue });
+    }
+
+    /**
+     * Exports the data of the table to a file. The columns are exported in
+     * the order they are currently displayed, and the rows in the order of
+     * the current sorting. Rows that do not match the current filters are
+     * not included.
+     *
+     * When `mode` is `remote`, only the rows that are currently loaded in
+     * the table can be exported.
+     *
+     * @param options - options for the export
+     * @returns the exported file
+     */
+    @Method()
+    public async exportData(options: TableExportOptions): Promise<Blob> {
+        return exportTable(
+            this.getExportColumns(),
+            this.getExportData(options.scope ?? 'all'),
+            options
+        );
+    }
 
     constructor() {
         this.handleDataSorting = this.handleDataSorting.bind(this);
@@ -258,10 +455,18 @@ export class Table {
         this.addColumnAggregator = this.addColumnAggregator.bind(this);
         this.pool = new ElementPool(document);
         this.columnFactory = new ColumnDefinitionFactory(this.pool);
+        this.cellNavigation = new CellNavigation(
+            () => this.tabulator,
+            this.getDisplayedRows,
+            this.getCellText,
+            this.announce,
+            this.getTranslation
+        );
     }
 
     public componentWillLoad() {
         this.initTableSelection();
+        this.initRowDetails();
     }
 
     public componentDidLoad() {
@@ -298,7 +503,7 @@ export class Table {
 
     @Watch('page')
     protected pageChanged() {
-        if (!this.tabulator) {
+        if (!this.tabulator || this.isInfinitePagination()) {
             return;
         }
 
@@ -323,15 +528,38 @@ export class Table {
         const newIds = this.getRowIds(newData);
         const oldIds = this.getRowIds(oldData);
         const shouldReplace = this.shouldReplaceData(newIds, oldIds);
+        const isAppended = this.isAppendedData(
+            newIds,
+            oldIds,
+            newData,
+            oldData
+        );
         const hasRowUpdates = !areRowsEqual(newData, oldData);
+        const hasTreeChanged = hasTreeData(newData) !== hasTreeData(oldData);
 
         setTimeout(() => {
             if (!this.tabulator || !this.initialized) {
                 return;
             }
 
+            if (hasTreeChanged) {
+                this.init();
+
+                return;
+            }
+
+            if (isAppended) {
+                this.tabulator.addData(newData.slice(oldData.length));
+                this.setSelection();
+
+                return;
+            }
+
             if (shouldReplace) {
                 this.pool.releaseAll();
+                this.recyclableRows.clear();
+                this.rowDetails?.clear();
+                this.cellNavigation.clear();
                 this.tabulator.replaceData(newData);
                 this.setSelection();
 
@@ -400,6 +628,29 @@ export class Table {
         this.tabulator.rowManager.redraw();
     }
 
+    @Watch('groupBy')
+    @Watch('paginationMode')
+    protected reinitialize() {
+        if (!this.tabulator) {
+            return;
+        }
+
+        this.init();
+    }
+
+    @Watch('detailComponent')
+    protected updateDetailComponent(
+        newValue: TableComponentDefinition,
+        oldValue: TableComponentDefinition
+    ) {
+        if (!!newValue === !!oldValue) {
+            return;
+        }
+
+        this.initRowDetails();
+        this.init();
+    }
+
     @Watch('selection')
     protected updateSelection(newSelection: any[]) {
         if (!this.tableSelection) {
@@ -420,7 +671,8 @@ export class Table {
     }
 
     @Watch('sortableColumns')
-    protected updateSortableColumns() {
+    @Watch('resizableColumns')
+    protected updateColumnDefinitions() {
         if (!this.tabulator) {
             return;
         }
@@ -443,6 +695,25 @@ export class Table {
         this.tabulator.setSort(newSorting);
     }
 
+    @Watch('columnState')
+    protected updateColumnState(newState: TableColumnState) {
+        if (!this.tabulator || isEqual(newState, this.currentColumnState)) {
+            return;
+        }
+
+        this.currentColumnState = newState;
+        this.columnStates = createColumnStates(this.columns, newState?.columns);
+        if (newState?.sorting) {
+            this.currentSorting = createColumnSorters(
+                this.columns,
+                newState.sorting
+            );
+        }
+
+        this.tabulator.setColumns(this.getColumnDefinitions());
+        this.shouldSort = true;
+    }
+
     private shouldReplaceData(
         newIds: Array<string | number>,
         oldIds: Array<string | number>
@@ -453,6 +724,32 @@ export class Table {
         );
     }
 
+    /**
+     * Checks if the next page has been loaded with infinite pagination, i.e.
+     * if rows have only been added to the end of the data
+     *
+     * @param newIds - the ids of the new data
+     * @param oldIds - the ids of the old data
+     * @param newData - the new data
+     * @param oldData - the old data
+     * @returns `true` if the new data only has more rows at the end
+     */
+    private isAppendedData(
+        newIds: Array<string | number>,
+        oldIds: Array<string | number>,
+        newData: RowData[],
+        oldData: RowData[]
+    ) {
+        return (
+            this.isInfinitePagination() &&
+            oldIds.length > 0 &&
+            newIds.length > oldIds.length &&
+            new Set(newIds).size === newIds.length &&
+            this.isSameOrder(oldIds, newIds) &&
+            areRowsEqual(newData.slice(0, oldData.length), oldData)
+        );
+    }
+
     private getRowIds(data: RowData[]): Array<string | number> {
         return data.map((item) => item.id ?? item) as Array<string | number>;
     }
@@ -499,6 +796,8 @@ export class Table {
     private init() {
         if (this.tabulator) {
             this.pool.releaseAll();
+            this.recyclableRows.clear();
+            this.cellNavigation.clear();
             this.tabulator.destroy();
             this.initialized = false;
         }
@@ -549,7 +848,13 @@ export class Table {
         tabulator.on('dataSorting', this.handleDataSorting);
         tabulator.on('pageLoaded', this.handlePageLoaded);
         tabulator.on('columnMoved', this.handleMoveColumn);
+        tabulator.on('columnResized', this.handleResizeColumn);
+        tabulator.on('dataSorting', this.emitColumnState);
         tabulator.on('renderComplete', this.handleRenderComplete);
+        tabulator.on('scrollVertical', this.handleScrollVertical);
+        tabulator.on('cellEdited', this.handleCellEdited);
+        tabulator.on('dataTreeRowExpanded', this.handleTreeRowExpanded);
+        tabulator.on('dataTreeRowCollapsed', this.handleTreeRowCollapsed);
         tabulator.on('tableBuilt', () => {
             if (this.destroyed) {
                 tabulator.destroy();
@@ -558,6 +863,7 @@ export class Table {
             }
 
             this.initialized = true;
+            this.currentColumnState = this.getColumnState();
             if (this.isRemoteMode() && !this.data?.length) {
                 this.tabulator.setData();
             } else if (!this.isRemoteMode()) {
@@ -580,6 +886,21 @@ export class Table {
         }
     }
 
+    private initRowDetails() {
+        if (!this.detailComponent) {
+            this.rowDetails = null;
+
+            return;
+        }
+
+        this.rowDetails = new RowDetails(
+            () => this.detailComponent,
+            this.expand,
+            this.collapse,
+            this.getTranslation
+        );
+    }
+
     private setSelection() {
         if (!(this.tabulator && this.tableSelection)) {
             return;
@@ -596,6 +917,8 @@ export class Table {
         const ajaxOptions = this.getAjaxOptions();
         const paginationOptions = this.getPaginationOptions();
         const columnOptions = this.getColumnOptions();
+        const groupOptions = this.getGroupOptions();
+        const treeOptions = this.getTreeOptions();
 
         return {
             data: this.data,
@@ -606,7 +929,51 @@ export class Table {
             rowFormatter: this.formatRow,
             initialSort: this.getInitialSorting(),
             nestedFieldSeparator: false,
+            editTriggerEvent: 'dblclick',
+            // These keys are used for moving between cells instead
+            keybindings: {
+                scrollPageUp: false,
+                scrollPageDown: false,
+                scrollToStart: false,
+                scrollToEnd: false,
+            },
             ...columnOptions,
+            ...groupOptions,
+            ...treeOptions,
+        };
+    }
+
+    private getTreeOptions(): TabulatorOptionsDataTree {
+        if (!hasTreeData(this.data)) {
+            return {};
+        }
+
+        return getTreeOptions(this.getTranslation);
+    }
+
+    private getGroupOptions(): TabulatorOptionsRowGrouping &
+        TabulatorOptionsColumns {
+        if (!this.groupBy) {
+            return {};
+        }
+
+        // Tabulator accepts an element as group header, even though its
+        // typings only allow a string
+        const groupHeader: (
+            value: any,
+            count: number,
+            data: object[]
+        ) => string | HTMLElement = createGroupHeader(
+            this.groupBy,
+            () => this.columns
+        );
+
+        return {
+            groupBy: this.groupBy as string | ((data: object) => any),
+            groupHeader:
+                groupHeader as TabulatorOptionsRowGrouping['groupHeader'],
+            groupToggleElement: 'header',
+            columnCalcs: 'table',
         };
     }
 
@@ -615,6 +982,12 @@ export class Table {
             return this.getColumnSorter(this.currentSorting);
         }
 
+        if (this.columnState?.sorting) {
+            return this.getColumnSorter(
+                createColumnSorters(this.columns, this.columnState.sorting)
+            );
+        }
+
         return this.getColumnSorter(this.sorting);
     }
 
@@ -628,16 +1001,42 @@ export class Table {
     }
 
     private getColumnDefinitions(): TabulatorColumnDefinition[] {
-        const columnDefinitions = this.columns
+        this.columnStates = createColumnStates(
+            this.columns,
+            this.columnStates ?? this.columnState?.columns
+        );
+
+        let columnDefinitions = orderColumns(this.columns, this.columnStates)
             .map(this.addColumnAggregator)
             .map((column) => {
                 const definition = this.columnFactory.create(column);
                 const columnSortable = column.headerSort ?? true;
                 definition.headerSort = this.sortableColumns && columnSortable;
+                definition.resizable = this.resizableColumns;
+                Object.assign(
+                    definition,
+                    createStateDefinition(this.findColumnState(column.field))
+                );
+
+                if (column.editor) {
+                    definition.editor = createEditor(column);
+                }
+
+                if (column.filter) {
+                    Object.assign(
+                        definition,
+                        createFilterDefinition(column, this.getTranslation)
+                    );
+                }
 
                 return definition;
             });
 
+        if (this.rowDetails) {
+            columnDefinitions =
+                this.rowDetails.getColumnDefinitions(columnDefinitions);
+        }
+
         if (this.tableSelection) {
             return this.tableSelection.getColumnDefinitions(columnDefinitions);
         }
@@ -651,8 +1050,15 @@ export class Table {
         }
 
         const aggregate = this.aggregates.find((a) => a.field === column.field);
-        if (aggregate) {
-            column.aggregator = (col?: Column) => {
+        if (!aggregate) {
+            return column;
+        }
+
+        // A copy, since the columns belong to the consumer, and the value
+        // is for the whole table, so it must not end up in group headers
+        return {
+            ...column,
+            aggregator: (col?: Column) => {
                 if (!col) {
                     return;
                 }
@@ -666,10 +1072,8 @@ export class Table {
                 }
 
                 return value;
-            };
-        }
-
-        return column;
+            },
+        };
     }
 
     private getAjaxOptions(): TabulatorOptionsData {
@@ -683,6 +1087,7 @@ export class Table {
 
         return {
             ajaxSorting: true,
+            filterMode: 'remote',
             ajaxURL: remoteUrl,
             ajaxRequestFunc: this.requestData,
             ajaxRequesting: this.handleAjaxRequesting,
@@ -694,7 +1099,7 @@ export class Table {
     }
 
     private getPaginationOptions(): TabulatorOptionsPagination {
-        if (!this.pageSize) {
+        if (!this.pageSize || this.isInfinitePagination()) {
             return {};
         }
 
@@ -723,6 +1128,7 @@ export class Table {
         const load = {
             page: currentPage,
             sorters: columnSorters,
+            filters: this.getColumnFilters(),
         };
 
         // In order to make limel-table behave more like a controlled component,
@@ -743,10 +1149,86 @@ export class Table {
         return resolveExistingData;
     }
 
+    private getColumnFilters(): ColumnFilter[] {
+        const filters = this.tabulator?.getHeaderFilters() ?? [];
+
+        return filters.map(createColumnFilter(this.columns));
+    }
+
     private isRemoteMode(): boolean {
         return this.mode === 'remote';
     }
 
+    private isInfinitePagination(): boolean {
+        return (
+            this.isRemoteMode() &&
+            !!this.pageSize &&
+            this.paginationMode === 'infinite'
+        );
+    }
+
+    private hasMoreRows(): boolean {
+        if (this.totalRows === undefined || this.totalRows === null) {
+            // Without a total, a page with fewer rows is the last one
+            return (
+                this.data.length > 0 && this.data.length % this.pageSize === 0
+            );
+        }
+
+        return this.data.length < this.totalRows;
+    }
+
+    /**
+     * Requests the next page with the `load` event, if the table has been
+     * scrolled close to the end of the loaded rows
+     */
+    private loadMoreRows() {
+        const holder = this.host.shadowRoot.querySelector(
+            '.tabulator-tableholder'
+        );
+        if (!holder || this.loading || !this.hasMoreRows()) {
+            return;
+        }
+
+        const distanceToEnd =
+            holder.scrollHeight - holder.scrollTop - holder.clientHeight;
+        if (distanceToEnd > holder.clientHeight) {
+            return;
+        }
+
+        const load: TableParams = {
+            page: Math.floor(this.data.length / this.pageSize) + FIRST_PAGE,
+            sorters: this.currentLoad?.sorters ?? [],
+            filters: this.getColumnFilters(),
+        };
+
+        if (isEqual(this.currentLoad, load)) {
+            return;
+        }
+
+        this.currentLoad = load;
+        this.load.emit(load);
+    }
+
+    /**
+     * Releases the custom components of rows that have been scrolled out of
+     * view, so that they can be reused by the rows that are rendered instead.
+     * The rows are formatted again if they are scrolled back into view.
+     */
+    private recycleRows() {
+        for (const row of this.recyclableRows) {
+            const element = row.getElement();
+            if (element.isConnected) {
+                continue;
+            }
+
+            this.recyclableRows.delete(row);
+            if (this.pool.releaseWithin(element)) {
+                row.reformat();
+            }
+        }
+    }
+
     private handleDataSorting(sorters: TabulatorSorterFromTable[]): void {
         const columnSorters = sorters.map(createColumnSorter(this.columns));
 
@@ -757,6 +1239,7 @@ export class Table {
             const load = {
                 page: currentPage ?? FIRST_PAGE,
                 sorters: columnSorters,
+                filters: this.getColumnFilters(),
             };
 
             if (!isEqual(this.currentLoad, load)) {
@@ -788,8 +1271,21 @@ export class Table {
             this.shouldSort = false;
             this.tabulator.setSort(this.getInitialSorting());
         }
+
+        if (this.isInfinitePagination()) {
+            this.loadMoreRows();
+        }
     }
 
+    private readonly handleScrollVertical = () => {
+        if (!this.isInfinitePagination()) {
+            return;
+        }
+
+        this.recycleRows();
+        this.loadMoreRows();
+    };
+
     private onClickRow(event: PointerEvent, row: TabulatorRowComponent): void {
         if (row.getPosition === undefined) {
             // Not a data row, probably a CalcComponent
@@ -809,6 +1305,73 @@ export class Table {
         this.activate.emit(this.activeRow);
     }
 
+    private getExportColumns(): Column[] {
+        if (!this.tabulator) {
+            return this.columns;
+        }
+
+        return this.tabulator
+            .getColumns()
+            .filter((column) => column.isVisible())
+            .map(this.findColumn)
+            .filter(Boolean);
+    }
+
+    private getExportData(scope: TableExportScope): object[] {
+        if (!this.tabulator) {
+            return scope === 'selection' ? (this.selection ?? []) : this.data;
+        }
+
+        let rows = this.getActiveRows();
+        if (scope === 'page') {
+            rows = this.getPageRows(rows);
+        } else if (scope === 'selection') {
+            const selection = this.selection ?? [];
+            rows = rows.filter((row) =>
+                selection.some((data) => this.isSameRow(row.getData(), data))
+            );
+        }
+
+        return rows.map((row) => row.getData());
+    }
+
+    private getPageRows(rows: TabulatorRowComponent[]) {
+        // In remote mode, only the current page is loaded in the table
+        const page = this.tabulator.getPage();
+        if (this.isRemoteMode() || !this.pageSize || !page) {
+            return rows;
+        }
+
+        return rows.slice((page - 1) * this.pageSize, page * this.pageSize);
+    }
+
+    /**
+     * The rows displayed in the table, in the order they are displayed,
+     * including the expanded child rows of tree data
+     */
+    private readonly getDisplayedRows = (): TabulatorRowComponent[] => {
+        let rows = this.getPageRows(this.getActiveRows());
+        if (hasTreeData(this.data)) {
+            rows = rows.flatMap(this.getExpandedRows);
+        }
+
+        if (this.groupBy) {
+            rows = rows.filter((row) => row.getGroup()?.isVisible());
+        }
+
+        return rows;
+    };
+
+    private readonly getExpandedRows = (
+        row: TabulatorRowComponent
+    ): TabulatorRowComponent[] => {
+        if (!row.isTreeExpanded()) {
+            return [row];
+        }
+
+        return [row, ...row.getTreeChildren().flatMap(this.getExpandedRows)];
+    };
+
     private readonly getActiveRows: () => TabulatorRowComponent[] = () => {
         if (!this.tabulator) {
             return [];
@@ -856,6 +1419,13 @@ export class Table {
             element.classList.add('interactive-feedback');
             row.getElement().prepend(element);
         }
+
+        this.rowDetails?.formatRow(row);
+        this.cellNavigation.formatRow(row);
+
+        if (this.isInfinitePagination()) {
+            this.recyclableRows.add(row);
+        }
     }
 
     private isActiveRow(row: TabulatorRowComponent) {
@@ -863,13 +1433,83 @@ export class Table {
             return false;
         }
 
-        const activeRowId = this.activeRow.id ?? null;
+        return this.isSameRow(row.getData(), this.activeRow);
+    }
+
+    private isSameRow(data: RowData, other: RowData) {
+        const id = other.id ?? null;
+
+        if (id !== null) {
+            return id === data.id;
+        }
+
+        return other === data;
+    }
+
+    private readonly handleTreeRowExpanded = (row: TabulatorRowComponent) => {
+        this.expand.emit(row.getData());
+    };
+
+    private readonly handleTreeRowCollapsed = (row: TabulatorRowComponent) => {
+        this.collapse.emit(row.getData());
+    };
+
+    private readonly handleCellEdited = (cell: TabulatorCellComponent) => {
+        this.cellEdit.emit({
+            row: cell.getData(),
+            field: cell.getField(),
+            oldValue: cell.getOldValue(),
+            newValue: cell.getValue(),
+        });
+    };
+
+    private readonly handleKeyDown = (event: KeyboardEvent) => {
+        if (this.cellNavigation.handleKeyDown(event)) {
+            return;
+        }
+
+        if (event.key !== ENTER) {
+            return;
+        }
+
+        const element = event.target as HTMLElement;
+        if (
+            !element.classList?.contains('tabulator-cell') ||
+            element.classList.contains('tabulator-editing')
+        ) {
+            return;
+        }
 
-        if (activeRowId !== null) {
-            return activeRowId === row.getData().id;
+        const cell = this.findCell(element);
+        if (!cell?.getColumn().getDefinition().editor) {
+            return;
         }
 
-        return this.activeRow === row.getData();
+        event.preventDefault();
+        cell.edit();
+    };
+
+    private readonly handleFocusIn = (event: FocusEvent) => {
+        this.cellNavigation.handleFocus(event.target as HTMLElement);
+    };
+
+    private readonly announce = (message: string) => {
+        this.announcement = message;
+    };
+
+    private readonly getCellText = (cell: TabulatorCellComponent) => {
+        const column = this.findColumn(cell.getColumn());
+
+        return column ? getCellText(cell, column) : '';
+    };
+
+    private findCell(element: HTMLElement): TabulatorCellComponent {
+        for (const row of this.getActiveRows()) {
+            const cell = row.getCells().find((c) => c.getElement() === element);
+            if (cell) {
+                return cell;
+            }
+        }
     }
 
     private calculatePageCount(): number {
@@ -882,7 +1522,11 @@ export class Table {
     }
 
     private hasAggregation(columns: Column[]): boolean {
-        return columns.some((column) => has(column, 'aggregator'));
+        return columns.some(
+            (column) =>
+                has(column, 'aggregator') ||
+                this.aggregates?.some((a) => a.field === column.field)
+        );
     }
 
     private readonly getColumnOptions = (): TabulatorOptionsColumns => {
@@ -905,8 +1549,91 @@ export class Table {
 
         const columns = components.map(this.findColumn).filter(Boolean);
         this.changeColumns.emit(columns);
+
+        const fields = components.map((component) => component.getField());
+        this.columnStates = sortBy(this.columnStates, (state) =>
+            fields.indexOf(state.field)
+        );
+        this.emitColumnState();
     };
 
+    private readonly handleResizeColumn = (
+        component: TabulatorColumnComponent
+    ) => {
+        this.updateColumnStateItem(component.getField(), {
+            width: component.getWidth(),
+        });
+        this.emitColumnState();
+    };
+
+    private readonly handleColumnMenuSelect = (
+        event: CustomEvent<MenuItem<ColumnMenuAction>>
+    ) => {
+        event.stopPropagation();
+        const { field, action } = event.detail.value;
+
+        if (action === 'toggle') {
+            const hidden = !this.findColumnState(field).hidden;
+            this.updateColumnStateItem(field, { hidden: hidden });
+            const component = this.tabulator?.getColumn(field);
+            if (hidden) {
+                component?.hide();
+            } else {
+                component?.show();
+            }
+        } else {
+            this.updateColumnStateItem(field, { pinned: action ?? undefined });
+            this.columnStates = sortByPinning(this.columnStates);
+            this.currentSorting = this.tabulator
+                .getSorters()
+                .map(createColumnSorter(this.columns));
+            this.tabulator.setColumns(this.getColumnDefinitions());
+            this.shouldSort = true;
+        }
+
+        this.emitColumnState();
+    };
+
+    private updateColumnStateItem(
+        field: string,
+        changes: Partial<ColumnState>
+    ) {
+        this.columnStates = this.columnStates.map((state) => {
+            if (state.field !== field) {
+                return state;
+            }
+
+            return changeColumnState(state, changes);
+        });
+    }
+
+    private findColumnState(field: string | number | symbol): ColumnState {
+        return this.columnStates?.find(
+            (state) => state.field === String(field)
+        );
+    }
+
+    private readonly emitColumnState = () => {
+        if (!this.tabulator || !this.initialized) {
+            return;
+        }
+
+        const state = this.getColumnState();
+        if (isEqual(state, this.currentColumnState)) {
+            return;
+        }
+
+        this.currentColumnState = state;
+        this.changeColumnState.emit(state);
+    };
+
+    private getColumnState(): TableColumnState {
+        return {
+            columns: this.columnStates.map((state) => ({ ...state })),
+            sorting: createSortState(this.tabulator.getSorters()),
+        };
+    }
+
     private readonly findColumn = (
         component: TabulatorColumnComponent
     ): Column => {
@@ -931,25 +1658,42 @@ export class Table {
                 <div
                     id="tabulator-container"
                     class={{
-                        'has-pagination': totalRows > this.pageSize,
+                        'has-pagination':
+                            !this.isInfinitePagination() &&
+                            totalRows > this.pageSize,
                         'has-aggregation': this.hasAggregation(this.columns),
                         'has-movable-columns': this.movableColumns,
+                        'has-filters': this.columns.some((c) => c.filter),
                         'has-rowselector': this.selectable,
+                        'has-row-details': !!this.detailComponent,
                         'has-selection': this.tableSelection?.hasSelection,
+                        'has-column-menu':
+                            this.hideableColumns || this.pinnableColumns,
                     }}
+                    onKeyDown={this.handleKeyDown}
+                    onFocusin={this.handleFocusIn}
                 >
                     {/* Toggle style instead of removing the loader
                     because removing the element will cause a rerender, breaking the
                     tabulator table */}
                     <div
                         id="tabulator-loader"
+                        class={{
+                            'is-loading-more':
+                                this.isInfinitePagination() &&
+                                this.data.length > 0,
+                        }}
                         style={{ display: this.loading ? 'flex' : 'none' }}
                     >
                         <limel-spinner size="large" />
                     </div>
                     {this.renderEmptyMessage()}
                     {this.renderSelectAll()}
+                    {this.renderColumnMenu()}
                     <div id="tabulator-table" />
+                    <div class="announcement" aria-live="polite">
+                        {this.announcement}
+                    </div>
                 </div>
             </Host>
         );
@@ -982,6 +1726,34 @@ export class Table {
         );
     }
 
+    private renderColumnMenu() {
+        if (!(this.hideableColumns || this.pinnableColumns)) {
+            return;
+        }
+
+        const items = createColumnMenuItems(
+            this.columns,
+            this.columnStates ?? [],
+            { hideable: this.hideableColumns, pinnable: this.pinnableColumns },
+            this.getTranslation
+        );
+
+        return (
+            <limel-menu
+                class="column-menu"
+                items={items}
+                openDirection="bottom-end"
+                onSelect={this.handleColumnMenuSelect}
+            >
+                <limel-icon-button
+                    slot="trigger"
+                    icon="columns"
+                    label={this.getTranslation('table.columns')}
+                />
+            </limel-menu>
+        );
+    }
+
     private renderEmptyMessage() {
         const showEmptyMessage =
             !this.loading && this.data.length === 0 && this.emptyMessage;
@@ -996,7 +1768,7 @@ export class Table {
         );
     }
 
-    private getTranslation = (key: string) => {
-        return translate.get(key, this.language);
+    private getTranslation = (key: string, params?: object) => {
+        return translate.get(key, this.language, params);
     };
 }
@@ -1,3 +1,5 @@
+import { Option } from '../select/option.types';
+
 /**
  * Defines the data for a table
  * @public
@@ -42,6 +44,38 @@ export interface Column<T extends object = any> {
      * Defines whether end-user can sort a column
      */
     headerSort?: boolean;
+
+    /**
+     * Makes the cells of the column editable.
+     *
+     * The editor is opened when the cell is double-clicked, or when `Enter`
+     * is pressed while the cell has focus. Pressing `Escape` cancels the
+     * edit. When the edit is committed, the table emits a `cellEdit` event.
+     *
+     * Use one of the built-in editors, or give a `TableComponentDefinition`
+     * to render a custom component. A custom editor receives the same
+     * properties as a custom cell component, and should emit a `change`
+     * event with the new value as `detail`.
+     */
+    editor?: ColumnEditorType | ColumnEditor | TableComponentDefinition;
+
+    /**
+     * Adds a filter to the header of the column.
+     *
+     * When `mode` is `local`, the rows are filtered by the table. When `mode`
+     * is `remote`, the active filters are sent in the `filters` of the
+     * `load` event, and the consumer is responsible for filtering the data.
+     */
+    filter?: ColumnFilterType | ColumnFilterConfig;
+
+    /**
+     * Pins the column to the left or right edge of the table, so that it
+     * stays visible when the table is scrolled horizontally.
+     *
+     * Pinned columns are displayed before or after all other columns, and
+     * cannot be moved by dragging them.
+     */
+    pinned?: ColumnPinning;
 }
 
 /**
@@ -94,6 +128,137 @@ export interface TableComponentDefinition {
     propsFactory?: (data: object) => Record<string, any>;
 }
 
+/**
+ * The built-in editors available for columns
+ *
+ * - `input-field`: renders a `limel-input-field`, committed on `Enter` or blur
+ * - `select`: renders a `limel-select`, committed when an option is chosen
+ * - `date-picker`: renders a `limel-date-picker`, committed when a date is chosen
+ * - `checkbox`: renders a `limel-checkbox`, committed when toggled
+ * @public
+ */
+export type ColumnEditorType =
+    | 'input-field'
+    | 'select'
+    | 'date-picker'
+    | 'checkbox';
+
+/**
+ * Configuration for one of the built-in cell editors
+ * @public
+ */
+export interface ColumnEditor {
+    /**
+     * The type of editor to use
+     */
+    type: ColumnEditorType;
+
+    /**
+     * Properties to send to the editor component, e.g. `options` for the
+     * `select` editor, or `type` for the `input-field` editor.
+     *
+     * When the `select` editor is used, the value of the cell is matched
+     * against the `value` of the given options.
+     */
+    props?: Record<string, any>;
+}
+
+/**
+ * The built-in filters available for columns
+ *
+ * - `text`: matches rows where the value contains the given text
+ * - `number`: matches rows where the value is within the given range
+ * - `date`: matches rows where the date is within the given range
+ * - `enum`: matches rows where the value is one of the chosen options
+ * @public
+ */
+export type ColumnFilterType = 'text' | 'number' | 'date' | 'enum';
+
+/**
+ * Configuration for the filter of a column
+ * @public
+ */
+export interface ColumnFilterConfig {
+    /**
+     * The type of filter to use
+     */
+    type: ColumnFilterType;
+
+    /**
+     * The options to choose from. Required when `type` is `enum`.
+     * Rows are matched against the `value` of the chosen options.
+     */
+    options?: Option[];
+}
+
+/**
+ * A range used by `number` and `date` filters. Both ends of the range are
+ * inclusive, and an end that is not set is unbounded.
+ * @public
+ */
+export interface ColumnFilterRange<T = number | Date> {
+    /**
+     * The lower end of the range
+     */
+    from?: T;
+
+    /**
+     * The upper end of the range
+     */
+    to?: T;
+}
+
+/**
+ * An active filter for a column
+ * @public
+ */
+export interface ColumnFilter {
+    /**
+     * The column being filtered
+     */
+    column: Column;
+
+    /**
+     * The type of filter
+     */
+    type: ColumnFilterType;
+
+    /**
+     * The value to filter on
+     *
+     * - `text`: the text to search for
+     * - `number` and `date`: a `ColumnFilterRange`
+     * - `enum`: the values of the chosen options
+     */
+    value: string | ColumnFilterRange | string[];
+}
+
+/**
+ * Describes an edit of a single cell in the table
+ * @public
+ */
+export interface TableCellEdit<T extends object = any> {
+    /**
+     * The data for the edited row
+     */
+    row: T;
+
+    /**
+     * Name of the edited field
+     */
+    field: keyof T;
+
+    /**
+     * The value of the cell before the edit
+     */
+    oldValue: any;
+
+    /**
+     * The value of the cell after the edit
+     */
+    newValue: any;
+}
+
 /**
  * Interface for custom components rendered inside a `limel-table`.
  * @public
@@ -132,7 +297,8 @@ export interface ColumnSorter {
 }
 
 /**
- * Specifies the current page, and which columns the table is currently sorted on.
+ * Specifies the current page, and which columns the table is currently
+ * sorted and filtered on.
  * @public
  */
 export interface TableParams {
@@ -145,6 +311,11 @@ export interface TableParams {
      * Sorters applied to the current page
      */
     sorters?: ColumnSorter[];
+
+    /**
+     * Filters applied to the data
+     */
+    filters?: ColumnFilter[];
 }
 
 /**
@@ -195,6 +366,13 @@ export type ColumnAggregatorFunction<T = object> = (
     data?: T[]
 ) => any;
 
+/**
+ * Defines how the rows of a table are grouped. Either the name of the field
+ * to group on, or a function that returns the value to group a row on.
+ * @public
+ */
+export type TableGroupBy<T extends object = any> = keyof T | ((data: T) => any);
+
 /**
  * Defines aggregate values for columns
  * @public
@@ -210,10 +388,131 @@ export interface ColumnAggregate {
     value: any;
 }
 
+/**
+ * The format of an export of the table data
+ * @public
+ */
+export type TableExportFormat = 'csv' | 'xlsx' | 'json';
+
+/**
+ * The rows to include in an export of the table data
+ * - `all` - all rows matching the current filters
+ * - `page` - the rows on the current page
+ * - `selection` - the selected rows
+ * @public
+ */
+export type TableExportScope = 'all' | 'page' | 'selection';
+
+/**
+ * Options for exporting the table data
+ * @public
+ */
+export interface TableExportOptions {
+    /**
+     * The format of the exported file
+     *
+     * In `csv` files, values that would be run as formulas by spreadsheet
+     * applications, that is values starting with `=`, `+`, `-`, `@`,
+     * a tab or a carriage return, are prefixed with `'`
+     */
+    format: TableExportFormat;
+
+    /**
+     * The rows to export. Defaults to `all`
+     */
+    scope?: TableExportScope;
+
+    /**
+     * Set to `true` to export the values of the cells as they are in the
+     * data, instead of the output of the `formatter` of each column.
+     * Defaults to `false`
+     */
+    raw?: boolean;
+}
+
+/**
+ * The edge of the table that a column is pinned to
+ * @public
+ */
+export type ColumnPinning = 'left' | 'right';
+
+/**
+ * The state of a column, as changed by the user
+ * @public
+ */
+export interface ColumnState {
+    /**
+     * The name of the `Column` field
+     */
+    field: string;
+
+    /**
+     * The width of the column in pixels, if it has been resized.
+     * When not set, the width is given by the `layout` of the table
+     */
+    width?: number;
+
+    /**
+     * `true` if the column has been hidden
+     */
+    hidden?: boolean;
+
+    /**
+     * The edge of the table that the column is pinned to, if any
+     */
+    pinned?: ColumnPinning;
+}
+
+/**
+ * A column that the table is sorted on, identified by its field
+ * @public
+ */
+export interface ColumnSortState {
+    /**
+     * The name of the `Column` field
+     */
+    field: string;
+
+    /**
+     * The direction to sort on
+     */
+    direction: 'ASC' | 'DESC';
+}
+
+/**
+ * The state of the columns of a table, i.e. their order, width, visibility,
+ * pinning and sorting. The state only contains plain data, so that it can
+ * be saved, e.g. as JSON, and be used to restore the layout of the table
+ * later on.
+ * @public
+ */
+export interface TableColumnState {
+    /**
+     * The state of each column, in the order they are displayed
+     */
+    columns: ColumnState[];
+
+    /**
+     * The columns that the table is sorted on
+     */
+    sorting?: ColumnSortState[];
+}
+
 /**
  * Data for identifying a row of the table
  * @public
  */
 export type RowData = {
     id?: string | number;
+
+    /**
+     * Child rows of the row. When any row has `children`, the table is
+     * displayed as a tree, where each row with `children` can be expanded
+     * to show its child rows.
+     *
+     * When `mode` is `remote`, give a row an empty list of `children` to
+     * make it expandable before its children have been loaded. The consumer
+     * can then load the children when the `expand` event is emitted.
+     */
+    children?: RowData[];
 };
@@ -0,0 +1,105 @@
+import {
+    crc32,
+    createWorkbook,
+    createWorksheet,
+    createZip,
+    getColumnName,
+} from './xlsx';
+
+describe('getColumnName', () => {
+    it.each([
+        [0, 'A'],
+        [25, 'Z'],
+        [26, 'AA'],
+        [51, 'AZ'],
+        [52, 'BA'],
+        [701, 'ZZ'],
+        [702, 'AAA'],
+    ])('returns the name of column %p', (index: number, name: string) => {
+        expect(getColumnName(index)).toEqual(name);
+    });
+});
+
+describe('crc32', () => {
+    it('calculates the checksum of the data', () => {
+        const data = new TextEncoder().encode('123456789');
+        expect(crc32(data)).toEqual(0xcb_f4_39_26);
+    });
+
+    it('returns 0 for empty data', () => {
+        expect(crc32(new Uint8Array(0))).toEqual(0);
+    });
+});
+
+describe('createWorksheet', () => {
+    it('creates cells with the type of the values', () => {
+        const xml = createWorksheet([
+            ['Name', 'Age', 'Alive'],
+            ['Kim', 42, true],
+        ]);
+
+        expect(xml).toContain(
+            '<c r="A1" t="inlineStr"><is><t xml:space="preserve">Name</t></is></c>'
+        );
+        expect(xml).toContain('<c r="B2"><v>42</v></c>');
+        expect(xml).toContain('<c r="C2" t="b"><v>1</v></c>');
+    });
+
+    it('escapes text', () => {
+        const xml = createWorksheet([['<b>Tom & Jerry</b>']]);
+        expect(xml).toContain('&lt;b&gt;Tom &amp; Jerry&lt;/b&gt;');
+    });
+
+    it('leaves empty values out', () => {
+        const xml = createWorksheet([[null, '', 'foo']]);
+        expect(xml).toContain('<row r="1"><c r="C1" t="inlineStr">');
+    });
+});
+
+describe('createZip', () => {
+    const content = new TextEncoder().encode('Hello');
+    let zip: Uint8Array;
+    let view: DataView;
+
+    beforeEach(() => {
+        zip = createZip([{ name: 'hello.txt', content: content }]);
+        view = new DataView(zip.buffer);
+    });
+
+    it('starts with a local file header', () => {
+        expect(view.getUint32(0, true)).toEqual(0x04_03_4b_50);
+        expect(view.getUint32(14, true)).toEqual(crc32(content));
+        expect(view.getUint32(18, true)).toEqual(content.length);
+        expect(view.getUint32(22, true)).toEqual(content.length);
+        expect(view.getUint16(26, true)).toEqual('hello.txt'.length);
+    });
+
+    it('stores the content without compression', () => {
+        expect(view.getUint16(8, true)).toEqual(0);
+        const start = 30 + 'hello.txt'.length;
+        const stored = zip.slice(start, start + content.length);
+        expect(new TextDecoder().decode(stored)).toEqual('Hello');
+    });
+
+    it('ends with a central directory', () => {
+        const end = zip.length - 22;
+        expect(view.getUint32(end, true)).toEqual(0x06_05_4b_50);
+        expect(view.getUint16(end + 10, true)).toEqual(1);
+
+        const centralStart = view.getUint32(end + 16, true);
+        expect(view.getUint32(centralStart, true)).toEqual(0x02_01_4b_50);
+        expect(view.getUint32(centralStart + 16, true)).toEqual(crc32(content));
+        expect(view.getUint32(centralStart + 42, true)).toEqual(0);
+    });
+});
+
+describe('createWorkbook', () => {
+    it('creates a zip archive with the files of a workbook', () => {
+        const workbook = createWorkbook([['foo']]);
+        const text = new TextDecoder().decode(workbook);
+
+        expect(text).toContain('[Content_Types].xml');
+        expect(text).toContain('xl/workbook.xml');
+        expect(text).toContain('xl/worksheets/sheet1.xml');
+    });
+});
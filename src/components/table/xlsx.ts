@@ -0,0 +1,255 @@
+/**
+ * A minimal writer for Office Open XML spreadsheets (`.xlsx`), with a single
+ * worksheet. The file is a zip archive of XML documents, stored without
+ * compression, so that no third party libraries are needed.
+ */
+
+interface ZipEntry {
+    name: string;
+    content: Uint8Array;
+}
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`;
+
+const ROOT_RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+
+const WORKBOOK = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="Sheet1" sheetId="1" r:id="rId1"/></sheets></workbook>`;
+
+const WORKBOOK_RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`;
+
+/**
+ * Create an `.xlsx` workbook with a single worksheet
+ *
+ * @param rows - the rows of the worksheet, each row being a list of values
+ * @returns the content of the workbook file
+ */
+export function createWorkbook(rows: any[][]): Uint8Array {
+    const encoder = new TextEncoder();
+    const files: Array<[string, string]> = [
+        ['[Content_Types].xml', CONTENT_TYPES],
+        ['_rels/.rels', ROOT_RELATIONSHIPS],
+        ['xl/workbook.xml', WORKBOOK],
+        ['xl/_rels/workbook.xml.rels', WORKBOOK_RELATIONSHIPS],
+        ['xl/worksheets/sheet1.xml', createWorksheet(rows)],
+    ];
+
+    return createZip(
+        files.map(([name, content]) => ({
+            name: name,
+            content: encoder.encode(content),
+        }))
+    );
+}
+
+/**
+ * Create the XML for a worksheet
+ *
+ * @param rows - the rows of the worksheet, each row being a list of values
+ * @returns the worksheet XML
+ */
+export function createWorksheet(rows: any[][]): string {
+    const sheetRows = rows.map((row, rowIndex) => {
+        const cells = row.map((value, columnIndex) =>
+            createCell(`${getColumnName(columnIndex)}${rowIndex + 1}`, value)
+        );
+
+        return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+    });
+
+    return (
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        `<sheetData>${sheetRows.join('')}</sheetData></worksheet>`
+    );
+}
+
+/**
+ * Get the name of a column in a spreadsheet, e.g. `A`, `Z` or `AA`
+ *
+ * @param index - zero based index of the column
+ * @returns the name of the column
+ */
+export function getColumnName(index: number): string {
+    const LETTERS = 26;
+    let name = '';
+    let remainder = index + 1;
+
+    while (remainder > 0) {
+        const letter = (remainder - 1) % LETTERS;
+        name = String.fromCodePoint(65 + letter) + name;
+        remainder = Math.floor((remainder - 1) / LETTERS);
+    }
+
+    return name;
+}
+
+function createCell(reference: string, value: any): string {
+    if (value === null || value === undefined || value === '') {
+        return '';
+    }
+
+    if (typeof value === 'number' && Number.isFinite(value)) {
+        return `<c r="${reference}"><v>${value}</v></c>`;
+    }
+
+    if (typeof value === 'boolean') {
+        return `<c r="${reference}" t="b"><v>${value ? 1 : 0}</v></c>`;
+    }
+
+    return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(toText(value))}</t></is></c>`;
+}
+
+function toText(value: any): string {
+    if (value instanceof Date) {
+        return value.toISOString();
+    }
+
+    if (Array.isArray(value)) {
+        return value.map(toText).join(', ');
+    }
+
+    if (typeof value === 'object') {
+        return JSON.stringify(value);
+    }
+
+    return String(value);
+}
+
+function escapeXml(text: string): string {
+    return (
+        text
+            .replaceAll('&', '&amp;')
+            .replaceAll('<', '&lt;')
+            .replaceAll('>', '&gt;')
+            .replaceAll('"', '&quot;')
+            // Control characters, except tab and line breaks, are not
+            // allowed in XML
+            .replaceAll(/[^\t\n\r\u0020-\uFFFF]/g, '')
+    );
+}
+
+/**
+ * Create a zip archive, with the files stored without compression
+ *
+ * @param entries - the files to add to the archive
+ * @returns the content of the archive
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array {
+    const encoder = new TextEncoder();
+    const localParts: Uint8Array[] = [];
+    const centralParts: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = encoder.encode(entry.name);
+        const checksum = crc32(entry.content);
+        const size = entry.content.length;
+
+        const localHeader = new DataView(new ArrayBuffer(30));
+        localHeader.setUint32(0, 0x04_03_4b_50, true);
+        writeFileHeader(localHeader, 4, checksum, size, name.length);
+
+        const centralHeader = new DataView(new ArrayBuffer(46));
+        centralHeader.setUint32(0, 0x02_01_4b_50, true);
+        centralHeader.setUint16(4, 20, true);
+        writeFileHeader(centralHeader, 6, checksum, size, name.length);
+        centralHeader.setUint32(42, offset, true);
+
+        localParts.push(
+            new Uint8Array(localHeader.buffer),
+            name,
+            entry.content
+        );
+        centralParts.push(new Uint8Array(centralHeader.buffer), name);
+        offset += 30 + name.length + size;
+    }
+
+    const centralSize = centralParts.reduce(
+        (total, part) => total + part.length,
+        0
+    );
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06_05_4b_50, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    return concat([...localParts, ...centralParts, new Uint8Array(end.buffer)]);
+}
+
+/**
+ * Write the part of a file header that is shared between the local file
+ * header and the central directory header
+ *
+ * @param view - the header
+ * @param start - offset of the shared part in the header
+ * @param checksum - CRC-32 of the file content
+ * @param size - size of the file content
+ * @param nameLength - length of the encoded file name
+ */
+function writeFileHeader(
+    view: DataView,
+    start: number,
+    checksum: number,
+    size: number,
+    nameLength: number
+) {
+    const VERSION_NEEDED = 20;
+    const UTF8_FILE_NAMES = 0x08_00;
+    const JANUARY_FIRST_1980 = 0x00_21;
+
+    view.setUint16(start, VERSION_NEEDED, true);
+    view.setUint16(start + 2, UTF8_FILE_NAMES, true);
+    view.setUint16(start + 8, JANUARY_FIRST_1980, true);
+    view.setUint32(start + 10, checksum, true);
+    view.setUint32(start + 14, size, true);
+    view.setUint32(start + 18, size, true);
+    view.setUint16(start + 22, nameLength, true);
+}
+
+let crcTable: Uint32Array;
+
+/**
+ * Calculate the CRC-32 checksum of some data
+ *
+ * @param data - the data
+ * @returns the checksum
+ */
+export function crc32(data: Uint8Array): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let index = 0; index < 256; index++) {
+            let value = index;
+            for (let bit = 0; bit < 8; bit++) {
+                value = value & 1 ? 0xed_b8_83_20 ^ (value >>> 1) : value >>> 1;
+            }
+
+            crcTable[index] = value;
+        }
+    }
+
+    let crc = 0xff_ff_ff_ff;
+    for (const byte of data) {
+        crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+
+    return (crc ^ 0xff_ff_ff_ff) >>> 0;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+    const length = parts.reduce((total, part) => total + part.length, 0);
+    const result = new Uint8Array(length);
+    let offset = 0;
+
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+
+    return result;
+}
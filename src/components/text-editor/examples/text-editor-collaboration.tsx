@@ -0,0 +1,66 @@
+import { Component, h, Host, State } from '@stencil/core';
+import {
+    EditorCollaboration,
+    InMemoryCollaborationRoom,
+} from '@limetech/lime-elements';
+
+/**
+ * Collaborative editing
+ * When `collaboration` is set, several users can edit the same document
+ * at the same time. Each user sees the cursors and selections of the
+ * others, and undo and redo only affect the changes the user has made.
+ *
+ * The editors below are connected through an `InMemoryCollaborationRoom`,
+ * which works without a server. In an application, the provider would
+ * instead send the changes to the other users, for instance through
+ * a WebSocket.
+ *
+ * Try writing in both editors, and undoing with <kbd>Ctrl</kbd> + <kbd>Z</kbd>!
+ */
+@Component({
+    tag: 'limel-example-text-editor-collaboration',
+    shadow: true,
+})
+export class TextEditorCollaborationExample {
+    @State()
+    private value = `# Meeting notes
+
+- Budget for next year
+- New office`;
+
+    private room = new InMemoryCollaborationRoom();
+
+    private alice: EditorCollaboration = {
+        provider: this.room.createProvider(),
+        user: { name: 'Alice', color: 'rgb(var(--color-violet-default))' },
+    };
+
+    private bob: EditorCollaboration = {
+        provider: this.room.createProvider(),
+        user: { name: 'Bob', color: 'rgb(var(--color-teal-default))' },
+    };
+
+    public render() {
+        return (
+            <Host>
+                <limel-text-editor
+                    label="Alice"
+                    value={this.value}
+                    collaboration={this.alice}
+                    onChange={this.handleChange}
+                />
+                <limel-text-editor
+                    label="Bob"
+                    value={this.value}
+                    collaboration={this.bob}
+                    onChange={this.handleChange}
+                />
+                <limel-example-value value={this.value} />
+            </Host>
+        );
+    }
+
+    private handleChange = (event: CustomEvent<string>) => {
+        this.value = event.detail;
+    };
+}
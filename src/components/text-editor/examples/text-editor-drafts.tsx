@@ -0,0 +1,145 @@
+import { Component, h, State } from '@stencil/core';
+import {
+    EditorDraftRecord,
+    EditorDraftStorage,
+    EditorSnapshot,
+    LimelTextEditorCustomEvent,
+} from '@limetech/lime-elements';
+
+/**
+ * Drafts and snapshots
+ * With `draftKey`, the changes are kept as a draft shortly after the user
+ * has stopped typing. The draft is stored in the IndexedDB of the browser
+ * by default, together with the undo history. When the editor is created,
+ * and the stored draft differs from `value`, the user is asked whether
+ * to restore it.
+ *
+ * Call `discardDraft` when the content has been saved, so that the user
+ * is not asked to restore it later.
+ *
+ * Named snapshots of the content can be created with `createSnapshot`,
+ * listed with `getSnapshots`, and restored with `restoreSnapshot`.
+ *
+ * In this example, the drafts are kept in memory with a custom
+ * `draftStorage`, and the editor is created again when "Reload"
+ * is clicked. Type something, click "Reload", and restore your changes.
+ * They can still be undone!
+ */
+@Component({
+    tag: 'limel-example-text-editor-drafts',
+    shadow: true,
+})
+export class TextEditorDraftsExample {
+    @State()
+    private value = 'The saved content';
+
+    private savedValue = this.value;
+
+    @State()
+    private editorKey = 0;
+
+    @State()
+    private snapshots: EditorSnapshot[] = [];
+
+    @State()
+    private preview: EditorSnapshot;
+
+    private editor: HTMLLimelTextEditorElement;
+
+    private records = new Map<string, EditorDraftRecord>();
+
+    private storage: EditorDraftStorage = {
+        get: async (key) => this.records.get(key),
+        set: async (key, record) => {
+            this.records.set(key, record);
+        },
+    };
+
+    public render() {
+        return [
+            <limel-text-editor
+                key={this.editorKey}
+                ref={this.setEditor}
+                value={this.value}
+                draftKey="example-draft"
+                draftStorage={this.storage}
+                onChange={this.handleChange}
+            />,
+            <limel-example-controls>
+                <limel-button label="Reload" onClick={this.reload} />
+                <limel-button label="Save" onClick={this.save} />
+                <limel-button
+                    label="Create snapshot"
+                    onClick={this.createSnapshot}
+                />
+            </limel-example-controls>,
+            this.renderSnapshots(),
+            this.renderPreview(),
+            <limel-example-value value={this.value} />,
+        ];
+    }
+
+    private renderSnapshots() {
+        if (this.snapshots.length === 0) {
+            return;
+        }
+
+        return (
+            <ul>
+                {this.snapshots.map((snapshot) => (
+                    <li>
+                        {snapshot.name}
+                        <limel-button
+                            label="Preview"
+                            onClick={() => (this.preview = snapshot)}
+                        />
+                        <limel-button
+                            label="Restore"
+                            onClick={() =>
+                                this.editor.restoreSnapshot(snapshot.id)
+                            }
+                        />
+                    </li>
+                ))}
+            </ul>
+        );
+    }
+
+    private renderPreview() {
+        if (!this.preview) {
+            return;
+        }
+
+        return (
+            <limel-collapsible-section header={this.preview.name} isOpen={true}>
+                <limel-markdown value={this.preview.value} />
+            </limel-collapsible-section>
+        );
+    }
+
+    private setEditor = (element: HTMLLimelTextEditorElement) => {
+        this.editor = element;
+    };
+
+    private handleChange = (event: LimelTextEditorCustomEvent<string>) => {
+        this.value = event.detail;
+    };
+
+    private reload = () => {
+        // Forget the changes that have not been saved,
+        // as if the page was reloaded
+        this.value = this.savedValue;
+        this.editorKey++;
+    };
+
+    private save = () => {
+        this.savedValue = this.value;
+        this.editor.discardDraft();
+    };
+
+    private createSnapshot = async () => {
+        const name = `Snapshot ${this.snapshots.length + 1}`;
+        await this.editor.createSnapshot(name);
+        this.snapshots = await this.editor.getSnapshots();
+    };
+}
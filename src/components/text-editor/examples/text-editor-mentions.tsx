@@ -0,0 +1,85 @@
+import { Component, h, Host, State } from '@stencil/core';
+import {
+    EditorMention,
+    EditorMetadata,
+    LimelTextEditorCustomEvent,
+    ListItem,
+    TriggerSearchers,
+} from '@limetech/lime-elements';
+
+const HEROES: Array<ListItem<number>> = [
+    { text: 'Wolverine', value: 1, icon: 'wolf' },
+    { text: 'Captain America', value: 2, icon: 'captain_america' },
+    { text: 'Superman', value: 3, icon: 'superman' },
+    { text: 'Tony Stark', value: 4, icon: 'iron_man' },
+    { text: 'Batman', value: 5, icon: 'batman_old' },
+];
+
+const TOPICS: Array<ListItem<string>> = [
+    { text: 'Budget', value: 'budget', icon: 'news' },
+    { text: 'Hiring', value: 'hiring', icon: 'user' },
+    { text: 'Roadmap', value: 'roadmap', icon: 'finish_flag' },
+];
+
+/**
+ * Mentions
+ * With `triggerSearchers`, the editor has a built-in picker for mentions.
+ * When one of the trigger characters is typed, the editor searches for
+ * items with the searcher of the character, and lists them at the cursor.
+ *
+ * Use the arrow keys to move between the items, and
+ * <kbd>Enter</kbd> or <kbd>Tab</kbd> to pick one, or
+ * <kbd>Esc</kbd> to close the list.
+ *
+ * The picked item is inserted as a chip, and the mentions in the
+ * document are listed in the metadata of the editor.
+ *
+ * Try typing `@` to mention a hero, or `#` to mention a topic!
+ */
+@Component({
+    tag: 'limel-example-text-editor-mentions',
+    shadow: true,
+})
+export class TextEditorMentionsExample {
+    @State()
+    private value = '';
+
+    @State()
+    private mentions: EditorMention[] = [];
+
+    private triggerSearchers: TriggerSearchers = {
+        '@': (query: string) => this.search(HEROES, query),
+        '#': (query: string) => this.search(TOPICS, query),
+    };
+
+    public render() {
+        return (
+            <Host>
+                <limel-text-editor
+                    value={this.value}
+                    triggerSearchers={this.triggerSearchers}
+                    onChange={this.handleChange}
+                    onMetadataChange={this.handleMetadataChange}
+                />
+                <limel-example-value value={this.value} />
+                <limel-example-value label="Mentions" value={this.mentions} />
+            </Host>
+        );
+    }
+
+    private search = async (items: ListItem[], query: string) => {
+        return items.filter((item) =>
+            item.text.toLowerCase().includes(query.toLowerCase())
+        );
+    };
+
+    private handleChange = (event: CustomEvent<string>) => {
+        this.value = event.detail;
+    };
+
+    private handleMetadataChange = (
+        event: LimelTextEditorCustomEvent<EditorMetadata>
+    ) => {
+        this.mentions = event.detail.mentions;
+    };
+}
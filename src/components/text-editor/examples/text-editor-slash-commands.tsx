@@ -0,0 +1,93 @@
+import { Component, h, Host, State } from '@stencil/core';
+import {
+    EditorSlashCommand,
+    EditorSlashCommandEventDetail,
+    ImageInserter,
+    LimelTextEditorCustomEvent,
+} from '@limetech/lime-elements';
+
+/**
+ * Slash commands
+ * With `slashCommands`, a menu of commands is shown when `/` is typed
+ * at the start of a line, or after a space. Keep typing to filter the
+ * commands, use the arrow keys to move between them, and
+ * <kbd>Enter</kbd> or <kbd>Tab</kbd> to run one.
+ *
+ * The built-in commands are the same as the ones in the toolbar,
+ * along with tables, horizontal rules and images. Tables are only
+ * available when `contentType` is `html`. Picked images are emitted
+ * with the `imagePasted` event, just like pasted images.
+ *
+ * Commands of your own can be added with `customSlashCommands`.
+ * When one of them is picked, the `slashCommand` event is emitted,
+ * with a `textEditor` to insert content where the command was typed.
+ *
+ * Try typing `/` and then `date` or `sign`!
+ */
+@Component({
+    tag: 'limel-example-text-editor-slash-commands',
+    shadow: true,
+})
+export class TextEditorSlashCommandsExample {
+    @State()
+    private value = '';
+
+    private customSlashCommands: EditorSlashCommand[] = [
+        {
+            id: 'date',
+            text: 'Today’s date',
+            secondaryText: 'Inserts the date of today',
+            icon: 'calendar',
+            keywords: ['today', 'now'],
+        },
+        {
+            id: 'signature',
+            text: 'Signature',
+            secondaryText: 'Inserts your name and title',
+            icon: 'signature',
+            keywords: ['sign', 'name'],
+        },
+    ];
+
+    public render() {
+        return (
+            <Host>
+                <limel-text-editor
+                    value={this.value}
+                    contentType="html"
+                    slashCommands={true}
+                    customSlashCommands={this.customSlashCommands}
+                    onChange={this.handleChange}
+                    onImagePasted={this.handleImagePasted}
+                    onSlashCommand={this.handleSlashCommand}
+                />
+                <limel-example-value value={this.value} />
+            </Host>
+        );
+    }
+
+    private handleChange = (event: LimelTextEditorCustomEvent<string>) => {
+        this.value = event.detail;
+    };
+
+    private handleImagePasted = (
+        event: LimelTextEditorCustomEvent<ImageInserter>
+    ) => {
+        const imageInserter = event.detail;
+
+        imageInserter.insertThumbnail();
+        imageInserter.insertImage();
+    };
+
+    private handleSlashCommand = (
+        event: LimelTextEditorCustomEvent<EditorSlashCommandEventDetail>
+    ) => {
+        const { command, textEditor } = event.detail;
+
+        if (command.id === 'date') {
+            textEditor.insert(new Date().toLocaleDateString());
+        } else if (command.id === 'signature') {
+            textEditor.insertHtml('<strong>Kim Doe</strong>, Head of Sales');
+        }
+    };
+}
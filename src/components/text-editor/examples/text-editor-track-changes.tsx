@@ -0,0 +1,160 @@
+import { Component, h, Host, State } from '@stencil/core';
+import {
+    EditorChange,
+    EditorCommentThread,
+    EditorMetadata,
+    LimelTextEditorCustomEvent,
+} from '@limetech/lime-elements';
+
+/**
+ * Suggesting changes and commenting
+ * With `suggesting`, the changes of the user are recorded as suggestions.
+ * Inserted text is marked as inserted, and deleted text is kept and
+ * marked as deleted, until the change is accepted or rejected with the
+ * `acceptChange` and `rejectChange` methods.
+ *
+ * Comment threads are anchored to the selected text with `addComment`,
+ * can be replied to with `replyToComment`, and are removed with
+ * `removeComment`.
+ *
+ * The suggested changes and the comment threads are listed in the
+ * metadata of the editor. They are kept in the content as data attributes,
+ * so they are not lost when the content is saved and loaded again.
+ *
+ * Try typing and deleting some text, or select some text and
+ * write a comment about it!
+ */
+@Component({
+    tag: 'limel-example-text-editor-track-changes',
+    shadow: true,
+})
+export class TextEditorTrackChangesExample {
+    @State()
+    private value =
+        '<p>The price of the license is 1 000 EUR per year, and includes support.</p>';
+
+    @State()
+    private suggesting = true;
+
+    @State()
+    private changes: EditorChange[] = [];
+
+    @State()
+    private threads: EditorCommentThread[] = [];
+
+    @State()
+    private comment = '';
+
+    private editor: HTMLLimelTextEditorElement;
+
+    public render() {
+        return (
+            <Host>
+                <limel-switch
+                    label="Suggest changes"
+                    value={this.suggesting}
+                    onChange={this.handleSuggestingChange}
+                />
+                <limel-text-editor
+                    ref={this.setEditor}
+                    contentType="html"
+                    value={this.value}
+                    suggesting={this.suggesting}
+                    author="Alice"
+                    onChange={this.handleChange}
+                    onMetadataChange={this.handleMetadataChange}
+                />
+                <limel-input-field
+                    label="Comment on the selected text"
+                    value={this.comment}
+                    onChange={this.handleCommentChange}
+                />
+                <limel-button
+                    label="Comment"
+                    disabled={!this.comment}
+                    onClick={this.addComment}
+                />
+                <h3>Suggested changes</h3>
+                <ul>{this.changes.map(this.renderChange)}</ul>
+                <h3>Comments</h3>
+                <ul>{this.threads.map(this.renderThread)}</ul>
+                <limel-example-value value={this.value} />
+            </Host>
+        );
+    }
+
+    private renderChange = (change: EditorChange) => {
+        const label = change.type === 'insertion' ? 'Inserted' : 'Deleted';
+
+        return (
+            <li>
+                {label} “{change.text}” by {change.author}
+                <limel-button
+                    label="Accept"
+                    onClick={() => this.editor.acceptChange(change.id)}
+                />
+                <limel-button
+                    label="Reject"
+                    onClick={() => this.editor.rejectChange(change.id)}
+                />
+            </li>
+        );
+    };
+
+    private renderThread = (thread: EditorCommentThread) => {
+        return (
+            <li>
+                “{thread.text}”
+                <ul>
+                    {thread.comments.map((comment) => (
+                        <li>
+                            {comment.author}: {comment.text}
+                        </li>
+                    ))}
+                </ul>
+                <limel-button
+                    label="Agree"
+                    onClick={() =>
+                        this.editor.replyToComment(thread.id, 'Agreed!')
+                    }
+                />
+                <limel-button
+                    label="Resolve"
+                    onClick={() => this.editor.removeComment(thread.id)}
+                />
+            </li>
+        );
+    };
+
+    private setEditor = (element: HTMLLimelTextEditorElement) => {
+        this.editor = element;
+    };
+
+    private handleSuggestingChange = (event: CustomEvent<boolean>) => {
+        event.stopPropagation();
+        this.suggesting = event.detail;
+    };
+
+    private handleChange = (event: LimelTextEditorCustomEvent<string>) => {
+        this.value = event.detail;
+    };
+
+    private handleMetadataChange = (
+        event: LimelTextEditorCustomEvent<EditorMetadata>
+    ) => {
+        this.changes = event.detail.changes;
+        this.threads = event.detail.comments;
+    };
+
+    private handleCommentChange = (event: CustomEvent<string>) => {
+        event.stopPropagation();
+        this.comment = event.detail;
+    };
+
+    private addComment = async () => {
+        const id = await this.editor.addComment(this.comment);
+        if (id) {
+            this.comment = '';
+        }
+    };
+}
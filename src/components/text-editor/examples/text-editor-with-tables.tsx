@@ -1,12 +1,18 @@
 import { Component, h, State } from '@stencil/core';
 /**
- * Text editor with tables (HTML mode only).
+ * Text editor with tables
  *
- * Basic table support is available when using the text editor in `HTML` mode.
- * This allows you to paste and display tables in the text editor.
- * Complex operations are not supported, adding and removing columns are not supported.
+ * Tables can be pasted into the text editor, or inserted with the
+ * `/table` slash command when `slashCommands` is enabled.
  *
- * Tables will only appear as expected in text-editor fields that are in `HTML` mode.
+ * When the cursor is in a table, a table toolbar is shown. It can be used
+ * to insert and delete rows and columns, merge and split cells, toggle
+ * header rows and columns, and set the background of the selected cells.
+ * The width of a column is changed by dragging the border of its cells.
+ *
+ * In `markdown` mode, tables are written as GFM tables. Tables that cannot
+ * be written as GFM tables, like tables with merged cells, colored cells
+ * or column widths, are written as HTML, so that their structure is kept.
  */
 @Component({
     tag: 'limel-example-text-editor-with-tables',
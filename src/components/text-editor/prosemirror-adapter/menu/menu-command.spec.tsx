@@ -8,6 +8,7 @@ import { EditorView } from 'prosemirror-view';
 import { MenuCommandFactory } from './menu-commands';
 import { EditorMenuTypes } from './types';
 import { strikethrough } from './menu-schema-extender';
+import { getTableNodes } from '../plugins/table/table-plugin';
 
 describe('MenuCommandFactory', () => {
     let mySchema: Schema;
@@ -83,6 +84,50 @@ describe('MenuCommandFactory', () => {
         ]);
     });
 
+    it('inserts a horizontal rule', () => {
+        const command = factory.getCommand(EditorMenuTypes.HorizontalRule);
+
+        let newState: EditorState;
+        const result = command(state, (tr) => {
+            newState = state.apply(tr);
+        });
+
+        expect(command.allowed(state)).toBe(true);
+        expect(result).toBe(true);
+        expect(newState.doc.firstChild.type.name).toBe('horizontal_rule');
+    });
+
+    it('does not allow inserting a table when the schema has no tables', () => {
+        const command = factory.getCommand(EditorMenuTypes.Table);
+
+        expect(command.allowed(state)).toBe(false);
+        expect(command(state, view.dispatch)).toBe(false);
+    });
+
+    it('inserts a table with the cursor in the first cell', () => {
+        const tableSchema = new Schema({
+            nodes: mySchema.spec.nodes.append(getTableNodes()),
+            marks: mySchema.spec.marks,
+        });
+        const tableState = EditorState.create({ schema: tableSchema });
+        const command = new MenuCommandFactory(tableSchema).getCommand(
+            EditorMenuTypes.Table
+        );
+
+        let newState: EditorState;
+        command(tableState, (tr) => {
+            newState = tableState.apply(tr);
+        });
+
+        const table = newState.doc.firstChild;
+        expect(table.type.name).toBe('table');
+        expect(table.childCount).toBe(3);
+        expect(table.firstChild.firstChild.type.name).toBe('table_header');
+        expect(newState.selection.$from.node(-1).type.name).toBe(
+            'table_header'
+        );
+    });
+
     it('getCommand throws error for unsupported mark', () => {
         expect(() => {
             factory.getCommand('unsupported_mark' as EditorMenuTypes);
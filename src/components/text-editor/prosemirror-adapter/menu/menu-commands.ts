@@ -1,9 +1,16 @@
 import { toggleMark, setBlockType, wrapIn, lift } from 'prosemirror-commands';
-import { Schema, MarkType, NodeType, Attrs } from 'prosemirror-model';
+import { Schema, MarkType, NodeType, Attrs, Node } from 'prosemirror-model';
 import { findWrapping, liftTarget } from 'prosemirror-transform';
-import { Command, EditorState, TextSelection } from 'prosemirror-state';
+import {
+    Command,
+    EditorState,
+    Selection,
+    TextSelection,
+    Transaction,
+} from 'prosemirror-state';
 import { EditorMenuTypes, EditorTextLink, LevelMapping } from './types';
 import { getLinkAttributes } from '../plugins/link/utils';
+import { openImageFileDialog } from '../plugins/image/inserter';
 
 type CommandFunction = (
     schema: Schema,
@@ -295,6 +302,100 @@ const createListCommand = (
     return command;
 };
 
+/**
+ * Creates a command that inserts a block node at the selection.
+ * Node types that are missing from the schema give a command that is
+ * not allowed, rather than an error, since the commands of all menu
+ * types are tracked.
+ * @param schema - ProseMirror schema.
+ * @param nodeType - Name of the node type to insert.
+ * @param createNode - Creates the node to insert.
+ * @param onInserted - Called with the transaction and the inserted node,
+ * for instance to move the cursor into it.
+ * @returns A command that inserts the node.
+ */
+const createInsertNodeCommand = (
+    schema: Schema,
+    nodeType: string,
+    createNode: (schema: Schema) => Node,
+    onInserted?: (tr: Transaction, node: Node) => void
+): CommandWithActive => {
+    const type: NodeType | undefined = schema.nodes[nodeType];
+
+    const command: CommandWithActive = (state, dispatch) => {
+        if (!type) {
+            return false;
+        }
+
+        if (dispatch) {
+            const node = createNode(schema);
+            const tr = state.tr.replaceSelectionWith(node);
+            onInserted?.(tr, node);
+            dispatch(tr.scrollIntoView());
+        }
+
+        return true;
+    };
+
+    command.allowed = () => !!type;
+
+    return command;
+};
+
+const createTable = (schema: Schema, columns = 3, rows = 3): Node => {
+    const { nodes } = schema;
+    const createRow = (cellType: NodeType) =>
+        nodes.table_row.create(
+            null,
+            Array.from({ length: columns }, () => cellType.createAndFill())
+        );
+
+    return nodes.table.create(null, [
+        createRow(nodes.table_header),
+        ...Array.from({ length: rows - 1 }, () => createRow(nodes.table_cell)),
+    ]);
+};
+
+const selectFirstCell = (tr: Transaction, table: Node) => {
+    let tablePos: number;
+    tr.doc.descendants((node, pos) => {
+        if (node === table) {
+            tablePos = pos;
+        }
+
+        return tablePos === undefined;
+    });
+
+    if (tablePos !== undefined) {
+        tr.setSelection(Selection.near(tr.doc.resolve(tablePos + 1)));
+    }
+};
+
+/**
+ * Creates a command that lets the user pick images to upload.
+ * The images are handled like pasted images, which the consumer
+ * uploads and inserts when the `imagePasted` event is emitted.
+ * @param schema - ProseMirror schema.
+ * @returns A command that opens a file dialog.
+ */
+const createImageUploadCommand = (schema: Schema): CommandWithActive => {
+    const command: CommandWithActive = (_, dispatch, view) => {
+        if (!schema.nodes.image || !view) {
+            return false;
+        }
+
+        if (dispatch) {
+            openImageFileDialog(view);
+        }
+
+        return true;
+    };
+
+    command.allowed = () => !!schema.nodes.image;
+
+    return command;
+};
+
 const commandMapping: CommandMapping = {
     strong: createToggleMarkCommand,
     em: createToggleMarkCommand,
@@ -329,6 +430,20 @@ const commandMapping: CommandMapping = {
         createListCommand(schema, EditorMenuTypes.OrderedList),
     bullet_list: (schema) =>
         createListCommand(schema, EditorMenuTypes.BulletList),
+    horizontal_rule: (schema) =>
+        createInsertNodeCommand(
+            schema,
+            EditorMenuTypes.HorizontalRule,
+            (nodeSchema) => nodeSchema.nodes.horizontal_rule.create()
+        ),
+    table: (schema) =>
+        createInsertNodeCommand(
+            schema,
+            EditorMenuTypes.Table,
+            createTable,
+            selectFirstCell
+        ),
+    image: createImageUploadCommand,
 };
 
 export class MenuCommandFactory {
@@ -135,6 +135,9 @@ export const menuTranslationIDs = {
     link: 'editor-menu.link',
     strikethrough: 'editor-menu.strikethrough',
     code: 'editor-menu.code',
+    horizontal_rule: 'editor-menu.horizontal-rule',
+    table: 'editor-menu.table',
+    image: 'editor-menu.image',
 };
 
 export type menuTranslationIDs =
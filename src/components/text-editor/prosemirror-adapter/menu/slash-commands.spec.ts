@@ -0,0 +1,89 @@
+import { EditorSlashCommand } from '../../text-editor.types';
+import { getSlashCommandItems, isBuiltInSlashCommand } from './slash-commands';
+import { EditorMenuTypes } from './types';
+
+const allowAll = () => true;
+
+describe('getSlashCommandItems', () => {
+    it('lists all built-in commands when nothing has been typed', () => {
+        const items = getSlashCommandItems('', 'en', allowAll);
+
+        expect(items.map((item) => item.value)).toEqual([
+            EditorMenuTypes.HeaderLevel1,
+            EditorMenuTypes.HeaderLevel2,
+            EditorMenuTypes.HeaderLevel3,
+            EditorMenuTypes.BulletList,
+            EditorMenuTypes.OrderedList,
+            EditorMenuTypes.Blockquote,
+            EditorMenuTypes.CodeBlock,
+            EditorMenuTypes.Table,
+            EditorMenuTypes.HorizontalRule,
+            EditorMenuTypes.Image,
+        ]);
+    });
+
+    it('leaves out commands that are not allowed', () => {
+        const items = getSlashCommandItems(
+            '',
+            'en',
+            (type) => type !== EditorMenuTypes.Table
+        );
+
+        expect(items.map((item) => item.value)).not.toContain(
+            EditorMenuTypes.Table
+        );
+    });
+
+    it('filters the commands by their translated text', () => {
+        const items = getSlashCommandItems('heading', 'en', allowAll);
+
+        expect(items.map((item) => item.text)).toEqual([
+            'Heading 1',
+            'Heading 2',
+            'Heading 3',
+        ]);
+    });
+
+    it('finds commands by their keywords', () => {
+        const items = getSlashCommandItems('Divider', 'en', allowAll);
+
+        expect(items).toEqual([
+            {
+                text: 'Horizontal rule',
+                icon: 'horizontal_line',
+                value: EditorMenuTypes.HorizontalRule,
+            },
+        ]);
+    });
+
+    it('lists the custom commands after the built-in commands', () => {
+        const signature: EditorSlashCommand = {
+            id: 'signature',
+            text: 'Signature',
+            secondaryText: 'Inserts your name',
+            icon: 'signature',
+            keywords: ['name'],
+        };
+
+        expect(
+            getSlashCommandItems('name', 'en', allowAll, [signature])
+        ).toEqual([
+            {
+                text: 'Signature',
+                secondaryText: 'Inserts your name',
+                icon: 'signature',
+                value: signature,
+            },
+        ]);
+        expect(
+            getSlashCommandItems('', 'en', allowAll, [signature]).pop()
+        ).toEqual(expect.objectContaining({ value: signature }));
+    });
+});
+
+describe('isBuiltInSlashCommand', () => {
+    it('tells built-in commands from custom commands', () => {
+        expect(isBuiltInSlashCommand(EditorMenuTypes.Table)).toBe(true);
+        expect(isBuiltInSlashCommand({ id: 'date', text: 'Date' })).toBe(false);
+    });
+});
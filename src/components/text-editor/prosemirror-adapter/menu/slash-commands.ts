@@ -0,0 +1,147 @@
+import { ListItem } from '../../../list-item/list-item.types';
+import { Languages } from '../../../date-picker/date.types';
+import { EditorSlashCommand } from '../../text-editor.types';
+import translate from '../../../../global/translations';
+import { EditorMenuTypes } from './types';
+import { menuTranslationIDs } from './menu-items';
+
+/**
+ * The value of an item in the slash-command menu, which is either
+ * the type of a built-in command or a command of the consumer
+ */
+export type SlashCommandValue = EditorMenuTypes | EditorSlashCommand;
+
+interface BuiltInSlashCommand {
+    type: EditorMenuTypes;
+    icon: string;
+    keywords: string[];
+}
+
+const builtInSlashCommands: BuiltInSlashCommand[] = [
+    {
+        type: EditorMenuTypes.HeaderLevel1,
+        icon: '-lime-text-h-heading-1',
+        keywords: ['h1', 'heading', 'title'],
+    },
+    {
+        type: EditorMenuTypes.HeaderLevel2,
+        icon: '-lime-text-h-heading-2',
+        keywords: ['h2', 'heading', 'subtitle'],
+    },
+    {
+        type: EditorMenuTypes.HeaderLevel3,
+        icon: '-lime-text-h-heading-3',
+        keywords: ['h3', 'heading'],
+    },
+    {
+        type: EditorMenuTypes.BulletList,
+        icon: '-lime-text-bulleted-list',
+        keywords: ['ul', 'list', 'bullet'],
+    },
+    {
+        type: EditorMenuTypes.OrderedList,
+        icon: '-lime-text-ordered-list',
+        keywords: ['ol', 'list', 'number'],
+    },
+    {
+        type: EditorMenuTypes.Blockquote,
+        icon: '-lime-text-blockquote',
+        keywords: ['quote', 'citation'],
+    },
+    {
+        type: EditorMenuTypes.CodeBlock,
+        icon: '-lime-text-code-block',
+        keywords: ['code', 'snippet'],
+    },
+    {
+        type: EditorMenuTypes.Table,
+        icon: 'table',
+        keywords: ['grid', 'columns', 'rows'],
+    },
+    {
+        type: EditorMenuTypes.HorizontalRule,
+        icon: 'horizontal_line',
+        keywords: ['hr', 'divider', 'line', 'separator'],
+    },
+    {
+        type: EditorMenuTypes.Image,
+        icon: 'picture',
+        keywords: ['picture', 'photo', 'upload'],
+    },
+];
+
+/**
+ * Get the items of the slash-command menu that match what the user
+ * has typed after the `/`
+ *
+ * @param query - the text typed after the `/`
+ * @param language - the language of the texts of the built-in commands
+ * @param isAllowed - tells if a built-in command can be used in the editor,
+ * for instance commands that insert nodes the schema does not have
+ * are not allowed
+ * @param customCommands - the commands of the consumer, listed after
+ * the built-in commands
+ * @returns the matching items
+ */
+export function getSlashCommandItems(
+    query: string,
+    language: Languages,
+    isAllowed: (type: EditorMenuTypes) => boolean,
+    customCommands: EditorSlashCommand[] = []
+): Array<ListItem<SlashCommandValue>> {
+    const builtInItems = builtInSlashCommands
+        .filter((command) => isAllowed(command.type))
+        .filter((command) =>
+            matches(
+                query,
+                translate.get(menuTranslationIDs[command.type], language),
+                command.keywords
+            )
+        )
+        .map(
+            (command): ListItem<SlashCommandValue> => ({
+                text: translate.get(menuTranslationIDs[command.type], language),
+                icon: command.icon,
+                value: command.type,
+            })
+        );
+
+    const customItems = customCommands
+        .filter((command) => matches(query, command.text, command.keywords))
+        .map(
+            (command): ListItem<SlashCommandValue> => ({
+                text: command.text,
+                secondaryText: command.secondaryText,
+                icon: command.icon,
+                value: command,
+            })
+        );
+
+    return [...builtInItems, ...customItems];
+}
+
+/**
+ * Checks if the value of a slash-command item is a built-in command
+ *
+ * @param value - the value of the item
+ * @returns `true` if the value is the type of a built-in command
+ */
+export function isBuiltInSlashCommand(
+    value: SlashCommandValue
+): value is EditorMenuTypes {
+    return typeof value === 'string';
+}
+
+function matches(query: string, text: string, keywords: string[] = []) {
+    const normalizedQuery = query.trim().toLowerCase();
+    if (!normalizedQuery) {
+        return true;
+    }
+
+    return (
+        text.toLowerCase().includes(normalizedQuery) ||
+        keywords.some((keyword) =>
+            keyword.toLowerCase().startsWith(normalizedQuery)
+        )
+    );
+}
@@ -17,6 +17,9 @@ export const EditorMenuTypes = {
     Strikethrough: 'strikethrough',
     Code: 'code',
     CodeBlock: 'code_block',
+    HorizontalRule: 'horizontal_rule',
+    Table: 'table',
+    Image: 'image',
 };
 
 /**
@@ -0,0 +1,67 @@
+import { Plugin } from 'prosemirror-state';
+import { keymap } from 'prosemirror-keymap';
+import {
+    redoCommand,
+    undoCommand,
+    yCursorPlugin,
+    ySyncPlugin,
+    yUndoPlugin,
+} from 'y-prosemirror';
+import { CollaborationSession } from './session';
+
+const WORD_JOINER = '\u2060';
+
+/**
+ * Create the plugins that keep the editor in sync with the shared document,
+ * and display the cursors and selections of the other users.
+ *
+ * Undo and redo only affect the changes made by the user, so the
+ * history plugin of ProseMirror must not be used together with these.
+ *
+ * @param session - the shared document, which must have been
+ * initialized with `initializeDocument`
+ * @returns the plugins
+ */
+export const createCollaborationPlugins = (
+    session: CollaborationSession
+): Plugin[] => {
+    return [
+        ySyncPlugin(session.fragment, { mapping: session.mapping }),
+        yCursorPlugin(session.awareness, {
+            cursorBuilder: (_, clientId: number) =>
+                createCursor(session, clientId),
+            selectionBuilder: (_, clientId: number) => ({
+                class: 'collaboration-selection',
+                style: getColorStyle(session, clientId),
+            }),
+        }),
+        yUndoPlugin(),
+        keymap({
+            'Mod-z': undoCommand,
+            'Shift-Mod-z': redoCommand,
+            'Mod-y': redoCommand,
+        }),
+    ];
+};
+
+const createCursor = (session: CollaborationSession, clientId: number) => {
+    const cursor = document.createElement('span');
+    cursor.className = 'collaboration-cursor';
+    cursor.setAttribute('style', getColorStyle(session, clientId));
+
+    const name = document.createElement('span');
+    name.className = 'collaboration-cursor-name';
+    name.textContent = session.getCollaborator(clientId).name;
+
+    // Word joiners keep the cursor from moving the text around it
+    // to a new line
+    cursor.append(WORD_JOINER, name, WORD_JOINER);
+
+    return cursor;
+};
+
+const getColorStyle = (session: CollaborationSession, clientId: number) => {
+    const { color } = session.getCollaborator(clientId);
+
+    return `--collaboration-color: ${color}`;
+};
@@ -0,0 +1,125 @@
+import * as Y from 'yjs';
+import { schema } from 'prosemirror-schema-basic';
+import { InMemoryCollaborationRoom } from '../../../utils/in-memory-collaboration';
+import { CollaborationSession } from './session';
+
+const createDoc = (text: string) =>
+    schema.node('doc', null, [
+        schema.node('paragraph', null, schema.text(text)),
+    ]);
+
+describe('CollaborationSession', () => {
+    let room: InMemoryCollaborationRoom;
+    let sessions: CollaborationSession[];
+
+    const connect = async (name: string) => {
+        const session = new CollaborationSession({
+            provider: room.createProvider(),
+            user: { name: name },
+        });
+        sessions.push(session);
+        await session.connect();
+
+        return session;
+    };
+
+    beforeEach(() => {
+        room = new InMemoryCollaborationRoom();
+        sessions = [];
+    });
+
+    afterEach(() => {
+        for (const session of sessions) {
+            session.destroy();
+        }
+    });
+
+    it('fills an empty document with the content', async () => {
+        const alice = await connect('Alice');
+
+        const doc = alice.initializeDocument(createDoc('Hello'));
+
+        expect(doc.textContent).toEqual('Hello');
+    });
+
+    it('keeps the content of a document that is not empty', async () => {
+        const alice = await connect('Alice');
+        alice.initializeDocument(createDoc('Hello'));
+        const bob = await connect('Bob');
+
+        const doc = bob.initializeDocument(createDoc('Goodbye'));
+
+        expect(doc.textContent).toEqual('Hello');
+    });
+
+    it('does not duplicate content that is filled in at the same time', async () => {
+        const alice = await connect('Alice');
+        const bob = await connect('Bob');
+
+        alice.initializeDocument(createDoc('Hello'));
+        const doc = bob.initializeDocument(createDoc('Hello'));
+
+        expect(doc.textContent).toEqual('Hello');
+        expect(alice.fragment.toJSON()).toEqual(bob.fragment.toJSON());
+    });
+
+    it('lets only the user that the provider picks fill the document', async () => {
+        const alice = await connect('Alice');
+        const bob = await connect('Bob');
+
+        const bobsDoc = bob.initializeDocument(createDoc('Goodbye'));
+        alice.initializeDocument(createDoc('Hello'));
+
+        expect(bobsDoc.textContent).toEqual('');
+        expect(bob.fragment.toJSON()).toEqual(alice.fragment.toJSON());
+        expect(alice.fragment.toJSON()).toContain('Hello');
+        expect(alice.fragment.toJSON()).not.toContain('Goodbye');
+    });
+
+    it('keeps the documents the same when users fill them with different content', async () => {
+        const alice = await connect('Alice');
+        const bob = await connect('Bob');
+        delete (alice as any).collaboration.provider.shouldFill;
+        delete (bob as any).collaboration.provider.shouldFill;
+        const updates: Uint8Array[] = [];
+        alice.doc.on('update', (update: Uint8Array) => updates.push(update));
+
+        // Bob fills the document before the changes of Alice reach him
+        (room as any).listeners.clear();
+        alice.initializeDocument(createDoc('Hello'));
+        bob.initializeDocument(createDoc('Goodbye'));
+        for (const update of updates) {
+            Y.applyUpdate(bob.doc, update);
+        }
+
+        Y.applyUpdate(alice.doc, Y.encodeStateAsUpdate(bob.doc));
+
+        expect(bob.fragment.toJSON()).toEqual(alice.fragment.toJSON());
+    });
+
+    it('shares the names of the users', async () => {
+        const alice = await connect('Alice');
+        const bob = await connect('Bob');
+
+        expect(bob.getCollaborator(alice.doc.clientID).name).toEqual('Alice');
+        expect(alice.getCollaborator(bob.doc.clientID).name).toEqual('Bob');
+    });
+
+    it('picks a color for users who have none', async () => {
+        const alice = await connect('Alice');
+
+        expect(alice.getCollaborator(alice.doc.clientID).color).toMatch(
+            /^rgb\(var\(--color-\w+-default\)\)$/
+        );
+    });
+
+    it('removes users who disconnect', async () => {
+        const alice = await connect('Alice');
+        const bob = await connect('Bob');
+
+        bob.destroy();
+        sessions.pop();
+
+        expect(alice.awareness.getStates().has(bob.doc.clientID)).toBe(false);
+    });
+});
@@ -0,0 +1,211 @@
+import * as Y from 'yjs';
+import { Node } from 'prosemirror-model';
+import { initProseMirrorDoc, prosemirrorToYXmlFragment } from 'y-prosemirror';
+import {
+    applyAwarenessUpdate,
+    Awareness,
+    encodeAwarenessUpdate,
+    removeAwarenessStates,
+} from 'y-protocols/awareness';
+import {
+    EditorCollaboration,
+    EditorCollaborator,
+} from '../../../text-editor.types';
+import { _Internal } from '../../../../../global/shared-types/color.types';
+
+type ProsemirrorMapping = ReturnType<typeof initProseMirrorDoc>['mapping'];
+
+type AwarenessChanges = {
+    added: number[];
+    updated: number[];
+    removed: number[];
+};
+
+const HUES: _Internal.Hue[] = [
+    'blue',
+    'coral',
+    'green',
+    'magenta',
+    'orange',
+    'teal',
+    'violet',
+    'amber',
+    'pink',
+    'cyan',
+];
+
+const FRAGMENT = 'prosemirror';
+const FNV_OFFSET_BASIS = 0x81_1c_9d_c5;
+const FNV_PRIME = 0x01_00_01_93;
+
+/**
+ * Origin of the changes that come from other users,
+ * so that they are not sent back to the provider
+ */
+const REMOTE = 'remote';
+
+/**
+ * The shared document of a collaborative editor, and the cursors
+ * of the users who edit it, kept in sync through a provider
+ */
+export class CollaborationSession {
+    public readonly doc = new Y.Doc();
+    public readonly awareness = new Awareness(this.doc);
+    public readonly fragment = this.doc.getXmlFragment(FRAGMENT);
+
+    /**
+     * Which nodes of the editor belong to which parts of the
+     * shared document, as created by `initializeDocument`
+     */
+    public mapping: ProsemirrorMapping;
+
+    private readonly collaboration: EditorCollaboration;
+
+    public constructor(collaboration: EditorCollaboration) {
+        this.collaboration = collaboration;
+    }
+
+    /**
+     * Connect to the other users, and publish the name and color
+     * of the user
+     *
+     * @returns resolves when the changes that other users have made
+     * so far have been applied to the document
+     */
+    public async connect() {
+        this.doc.on('update', this.handleUpdate);
+        this.awareness.on('update', this.handleAwarenessUpdate);
+
+        await this.collaboration.provider.connect({
+            onUpdate: (update) => Y.applyUpdate(this.doc, update, REMOTE),
+            onAwarenessUpdate: (update) =>
+                applyAwarenessUpdate(this.awareness, update, REMOTE),
+        });
+
+        this.awareness.setLocalStateField('collaborator', {
+            name: this.collaboration.user.name,
+            color:
+                this.collaboration.user.color ??
+                getDefaultColor(this.doc.clientID),
+        });
+    }
+
+    /**
+     * Fill the shared document with the given content, unless other users
+     * have already written something in it, or the provider lets another
+     * user fill it, and get the content to start the editor with
+     *
+     * @param content - the content of the editor before it was connected
+     * @returns the content of the shared document
+     */
+    public initializeDocument(content: Node): Node {
+        const provider = this.collaboration.provider;
+        if (this.fragment.length === 0 && provider.shouldFill?.() !== false) {
+            this.fill(content);
+        }
+
+        const { doc, mapping } = initProseMirrorDoc(
+            this.fragment,
+            content.type.schema
+        );
+        this.mapping = mapping;
+
+        return doc;
+    }
+
+    /**
+     * Disconnect from the other users, who then stop displaying
+     * the cursor of the user
+     */
+    public destroy() {
+        removeAwarenessStates(this.awareness, [this.doc.clientID], 'local');
+        this.collaboration.provider.disconnect();
+
+        this.doc.off('update', this.handleUpdate);
+        this.awareness.off('update', this.handleAwarenessUpdate);
+        this.awareness.destroy();
+        this.doc.destroy();
+    }
+
+    /**
+     * Get the name and color of a user who is editing the document
+     *
+     * @param clientId - the id of the editor of the user
+     * @returns the name and color of the user
+     */
+    public getCollaborator(clientId: number): EditorCollaborator {
+        const state = this.awareness.getStates().get(clientId);
+
+        return (
+            state?.collaborator ?? {
+                name: '',
+                color: getDefaultColor(clientId),
+            }
+        );
+    }
+
+    /**
+     * Write the content as a client whose id is derived from the content.
+     * Users who fill the empty document at the same time with the same
+     * content then write the very same changes, and do not get the content
+     * twice. Users who fill it with different content write as different
+     * clients, so that their documents still end up the same.
+     *
+     * @param content - the content to fill the document with
+     */
+    private fill(content: Node) {
+        const seed = new Y.Doc();
+        seed.clientID = getSeedClientId(content);
+        prosemirrorToYXmlFragment(content, seed.getXmlFragment(FRAGMENT));
+        Y.applyUpdate(this.doc, Y.encodeStateAsUpdate(seed));
+        seed.destroy();
+    }
+
+    private handleUpdate = (update: Uint8Array, origin: unknown) => {
+        if (origin === REMOTE) {
+            return;
+        }
+
+        this.collaboration.provider.sendUpdate(update);
+    };
+
+    private handleAwarenessUpdate = (
+        { added, updated, removed }: AwarenessChanges,
+        origin: unknown
+    ) => {
+        if (origin === REMOTE) {
+            return;
+        }
+
+        this.collaboration.provider.sendAwarenessUpdate(
+            encodeAwarenessUpdate(this.awareness, [
+                ...added,
+                ...updated,
+                ...removed,
+            ])
+        );
+    };
+}
+
+/**
+ * Get a client id from a hash of the content, using the FNV-1a algorithm
+ *
+ * @param content - the content
+ * @returns the client id
+ */
+function getSeedClientId(content: Node): number {
+    const text = JSON.stringify(content.toJSON());
+    let hash = FNV_OFFSET_BASIS;
+    for (let index = 0; index < text.length; index++) {
+        hash = Math.imul(hash ^ text.codePointAt(index), FNV_PRIME);
+    }
+
+    // Client ids are unsigned 32-bit integers
+    return hash >>> 0;
+}
+
+function getDefaultColor(clientId: number) {
+    const hue = HUES[clientId % HUES.length];
+
+    return `rgb(var(--color-${hue}-default))`;
+}
@@ -0,0 +1,98 @@
+import { MarkSpec, Mark, DOMOutputSpec } from 'prosemirror-model';
+import { escape } from 'html-escaper';
+import { CustomElementDefinition } from '../../../../../global/shared-types/custom-element.types';
+import { EditorComment } from '../../../text-editor.types';
+
+export const COMMENT_MARK_NAME = 'comment';
+
+/**
+ * The element that commented text is rendered as, which the sanitizer
+ * must let through when the content is parsed.
+ * The sanitizer expects the data attributes as property names.
+ */
+export const commentElement: CustomElementDefinition = {
+    tagName: 'span',
+    attributes: ['dataCommentId', 'dataComments'],
+};
+
+export interface CommentMarkAttrs {
+    id: string;
+    comments: EditorComment[];
+}
+
+/**
+ * Get the mark spec of commented text
+ */
+export function getCommentMark(): Record<string, MarkSpec> {
+    return { [COMMENT_MARK_NAME]: commentMarkSpec };
+}
+
+/**
+ * Get the markdown serializer of commented text, which writes it as HTML
+ */
+export function getCommentMarkdownSerializer() {
+    return {
+        [COMMENT_MARK_NAME]: {
+            open: (_: unknown, mark: Mark) => {
+                const attributes = Object.entries(
+                    getCommentAttributes(mark.attrs as CommentMarkAttrs)
+                )
+                    .map(([name, value]) => ` ${name}="${escape(value)}"`)
+                    .join('');
+
+                return `<${commentElement.tagName}${attributes}>`;
+            },
+            close: `</${commentElement.tagName}>`,
+            mixable: true,
+        },
+    };
+}
+
+/**
+ * Checks if a ProseMirror mark is a comment
+ * @param mark
+ */
+export function isCommentMark(mark: Mark): boolean {
+    return mark.type.name === COMMENT_MARK_NAME;
+}
+
+const commentMarkSpec: MarkSpec = {
+    attrs: {
+        id: {},
+        comments: { default: [] },
+    },
+    inclusive: false,
+    // Comment threads may overlap
+    excludes: '',
+    toDOM: (mark): DOMOutputSpec => [
+        commentElement.tagName,
+        getCommentAttributes(mark.attrs as CommentMarkAttrs),
+        0,
+    ],
+    parseDOM: [
+        {
+            tag: `${commentElement.tagName}[data-comment-id]`,
+            getAttrs: (dom: HTMLElement) => ({
+                id: dom.dataset.commentId,
+                comments: parseComments(dom.dataset.comments),
+            }),
+        },
+    ],
+};
+
+function getCommentAttributes(attrs: CommentMarkAttrs) {
+    return {
+        'data-comment-id': attrs.id,
+        'data-comments': JSON.stringify(attrs.comments),
+    };
+}
+
+function parseComments(value: string): EditorComment[] {
+    try {
+        const comments = JSON.parse(value ?? '[]');
+
+        return Array.isArray(comments) ? comments : [];
+    } catch {
+        return [];
+    }
+}
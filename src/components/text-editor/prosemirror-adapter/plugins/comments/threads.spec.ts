@@ -0,0 +1,91 @@
+import { Schema, TagParseRule } from 'prosemirror-model';
+import { EditorState, TextSelection } from 'prosemirror-state';
+import { schema as basicSchema } from 'prosemirror-schema-basic';
+import { getCommentMark } from './mark';
+import {
+    addCommentThread,
+    getCommentThreads,
+    removeCommentThread,
+    replyToCommentThread,
+} from './threads';
+
+const schema = new Schema({
+    nodes: basicSchema.spec.nodes,
+    marks: basicSchema.spec.marks.append(getCommentMark()),
+});
+
+const question = { author: 'Alice', date: '2024-01-01', text: 'Why?' };
+const answer = { author: 'Bob', date: '2024-01-02', text: 'Because!' };
+
+const createState = (from: number, to: number) => {
+    const state = EditorState.create({
+        schema: schema,
+        doc: schema.node('doc', null, [
+            schema.node('paragraph', null, [schema.text('Hello world')]),
+        ]),
+    });
+
+    return state.apply(
+        state.tr.setSelection(TextSelection.create(state.doc, from, to))
+    );
+};
+
+describe('comment threads', () => {
+    it('starts a thread on the selected text', () => {
+        const state = createState(7, 12);
+        const { tr, id } = addCommentThread(state, question);
+        const doc = state.apply(tr).doc;
+
+        expect(getCommentThreads(doc)).toEqual([
+            { id: id, text: 'world', comments: [question] },
+        ]);
+    });
+
+    it('does not start a thread without a selection', () => {
+        expect(addCommentThread(createState(7, 7), question)).toBeUndefined();
+    });
+
+    it('adds replies to the thread', () => {
+        let state = createState(7, 12);
+        const { tr, id } = addCommentThread(state, question);
+        state = state.apply(tr);
+        state = state.apply(replyToCommentThread(state, id, answer));
+
+        expect(getCommentThreads(state.doc)).toEqual([
+            { id: id, text: 'world', comments: [question, answer] },
+        ]);
+    });
+
+    it('removes the thread and keeps the text', () => {
+        let state = createState(7, 12);
+        const { tr, id } = addCommentThread(state, question);
+        state = state.apply(tr);
+        state = state.apply(removeCommentThread(state, id));
+
+        expect(state.doc.textContent).toBe('Hello world');
+        expect(getCommentThreads(state.doc)).toEqual([]);
+    });
+});
+
+describe('comment mark', () => {
+    const rule = getCommentMark().comment.parseDOM[0] as TagParseRule;
+
+    it('reads the thread from the data attributes', () => {
+        const element = document.createElement('span');
+        element.dataset.commentId = 't1';
+        element.dataset.comments = JSON.stringify([question]);
+
+        expect(rule.getAttrs(element)).toEqual({
+            id: 't1',
+            comments: [question],
+        });
+    });
+
+    it('ignores comments that are not valid', () => {
+        const element = document.createElement('span');
+        element.dataset.commentId = 't1';
+        element.dataset.comments = '{not json';
+
+        expect(rule.getAttrs(element)).toEqual({ id: 't1', comments: [] });
+    });
+});
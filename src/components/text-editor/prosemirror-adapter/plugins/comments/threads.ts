@@ -0,0 +1,155 @@
+import { EditorState, Transaction } from 'prosemirror-state';
+import { Mark, Node } from 'prosemirror-model';
+import { EditorComment, EditorCommentThread } from '../../../text-editor.types';
+import { createRandomString } from '../../../../../util/random-string';
+import { skipTracking } from '../track-changes/track-transaction';
+import { COMMENT_MARK_NAME, CommentMarkAttrs, isCommentMark } from './mark';
+
+interface ThreadRange {
+    from: number;
+    to: number;
+    mark: Mark;
+}
+
+/**
+ * Get a transaction that starts a comment thread on the selected text
+ *
+ * @param state - the state of the editor
+ * @param comment - the first comment of the thread
+ * @returns the transaction and the id of the new thread,
+ * or `undefined` if no text is selected
+ */
+export function addCommentThread(
+    state: EditorState,
+    comment: EditorComment
+): { tr: Transaction; id: string } | undefined {
+    const { from, to, empty } = state.selection;
+    if (empty) {
+        return;
+    }
+
+    const id = createRandomString();
+    const mark = state.schema.marks[COMMENT_MARK_NAME].create({
+        id: id,
+        comments: [comment],
+    });
+
+    return { tr: skipTracking(state.tr.addMark(from, to, mark)), id: id };
+}
+
+/**
+ * Get a transaction that adds a comment to a thread
+ *
+ * @param state - the state of the editor
+ * @param id - the id of the thread
+ * @param comment - the comment to add
+ * @returns the transaction, or `undefined` if there is no such thread
+ */
+export function replyToCommentThread(
+    state: EditorState,
+    id: string,
+    comment: EditorComment
+): Transaction | undefined {
+    const ranges = findThreadRanges(state.doc, id);
+    if (ranges.length === 0) {
+        return;
+    }
+
+    const { comments } = ranges[0].mark.attrs as CommentMarkAttrs;
+    const mark = state.schema.marks[COMMENT_MARK_NAME].create({
+        id: id,
+        comments: [...comments, comment],
+    });
+
+    const tr = skipTracking(state.tr);
+    for (const range of ranges) {
+        tr.removeMark(range.from, range.to, range.mark);
+        tr.addMark(range.from, range.to, mark);
+    }
+
+    return tr;
+}
+
+/**
+ * Get a transaction that removes a comment thread, leaving the text
+ *
+ * @param state - the state of the editor
+ * @param id - the id of the thread
+ * @returns the transaction, or `undefined` if there is no such thread
+ */
+export function removeCommentThread(
+    state: EditorState,
+    id: string
+): Transaction | undefined {
+    const ranges = findThreadRanges(state.doc, id);
+    if (ranges.length === 0) {
+        return;
+    }
+
+    const tr = skipTracking(state.tr);
+    for (const range of ranges) {
+        tr.removeMark(range.from, range.to, range.mark);
+    }
+
+    return tr;
+}
+
+/**
+ * Get the comment threads in a document, in the order they appear
+ *
+ * @param doc - the document
+ * @returns the threads
+ */
+export function getCommentThreads(doc: Node): EditorCommentThread[] {
+    const threads = new Map<string, EditorCommentThread>();
+
+    doc.descendants((node) => {
+        if (!node.isInline) {
+            return true;
+        }
+
+        for (const mark of node.marks.filter(isCommentMark)) {
+            const { id, comments } = mark.attrs as CommentMarkAttrs;
+            const thread = threads.get(id);
+
+            if (thread) {
+                thread.text += node.textContent;
+            } else {
+                threads.set(id, {
+                    id: id,
+                    text: node.textContent,
+                    comments: comments,
+                });
+            }
+        }
+
+        return false;
+    });
+
+    return [...threads.values()];
+}
+
+function findThreadRanges(doc: Node, id: string): ThreadRange[] {
+    const ranges: ThreadRange[] = [];
+
+    doc.descendants((node, position) => {
+        if (!node.isInline) {
+            return true;
+        }
+
+        const mark = node.marks.find(
+            (nodeMark) => isCommentMark(nodeMark) && nodeMark.attrs.id === id
+        );
+        if (mark) {
+            ranges.push({
+                from: position,
+                to: position + node.nodeSize,
+                mark: mark,
+            });
+        }
+
+        return false;
+    });
+
+    return ranges;
+}
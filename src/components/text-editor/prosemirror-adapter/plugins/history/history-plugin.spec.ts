@@ -0,0 +1,101 @@
+import { EditorState, TextSelection } from 'prosemirror-state';
+import { schema } from 'prosemirror-schema-basic';
+import { redo, undo, undoDepth } from 'prosemirror-history';
+import {
+    createHistoryPlugins,
+    getHistory,
+    restoreHistory,
+} from './history-plugin';
+
+const createState = () =>
+    EditorState.create({
+        schema: schema,
+        doc: schema.node('doc', null, [
+            schema.node('paragraph', null, [schema.text('Hello')]),
+        ]),
+        plugins: createHistoryPlugins(),
+    });
+
+const type = (state: EditorState, text: string, time: number) =>
+    state.apply(
+        state.tr.insertText(text, state.doc.content.size - 1).setTime(time)
+    );
+
+const runCommand = (state: EditorState, command: typeof undo) => {
+    command(state, (transaction) => (state = state.apply(transaction)));
+
+    return state;
+};
+
+const copyHistory = (state: EditorState) =>
+    restoreHistory(
+        JSON.parse(JSON.stringify(getHistory(state))),
+        createState()
+    );
+
+describe('history plugin', () => {
+    it('restores the content and the history', () => {
+        let state = createState();
+        state = type(state, ' there', 1000);
+        state = type(state, ' world', 5000);
+
+        const restored = copyHistory(state);
+
+        expect(restored.doc.eq(state.doc)).toBe(true);
+        expect(undoDepth(restored)).toBe(2);
+        expect(runCommand(restored, undo).doc.textContent).toBe('Hello there');
+    });
+
+    it('keeps changes that were made close together as one change', () => {
+        let state = createState();
+        state = type(state, ' there', 1000);
+        state = type(state, ' world', 1100);
+
+        const restored = copyHistory(state);
+
+        expect(undoDepth(restored)).toBe(1);
+        expect(runCommand(restored, undo).doc.textContent).toBe('Hello');
+    });
+
+    it('restores changes that have been undone and redone', () => {
+        let state = createState();
+        state = type(state, ' there', 1000);
+        state = type(state, ' world', 5000);
+        state = runCommand(state, undo);
+        state = runCommand(state, undo);
+        state = runCommand(state, redo);
+
+        const restored = copyHistory(state);
+
+        expect(restored.doc.textContent).toBe('Hello there');
+        expect(runCommand(restored, redo).doc.textContent).toBe(
+            'Hello there world'
+        );
+    });
+
+    it('restores the selection from before a change when it is undone', () => {
+        let state = createState();
+        state = state.apply(
+            state.tr.setSelection(TextSelection.create(state.doc, 3))
+        );
+        state = type(state, '!', 1000);
+
+        const restored = runCommand(copyHistory(state), undo);
+
+        expect(restored.selection.from).toBe(3);
+    });
+
+    it('does not undo changes that are not added to the history', () => {
+        let state = createState();
+        state = type(state, ' there', 1000);
+        state = state.apply(
+            state.tr
+                .insertText('!', state.doc.content.size - 1)
+                .setMeta('addToHistory', false)
+        );
+
+        const restored = runCommand(copyHistory(state), undo);
+
+        expect(restored.doc.textContent).toBe('Hello!');
+    });
+});
@@ -0,0 +1,188 @@
+import {
+    EditorState,
+    Plugin,
+    PluginKey,
+    Selection,
+    Transaction,
+} from 'prosemirror-state';
+import { Node } from 'prosemirror-model';
+import { Step } from 'prosemirror-transform';
+import { history, redo, undo } from 'prosemirror-history';
+import { EditorHistory } from '../../../text-editor.types';
+
+/**
+ * The most changes to keep in the log. The oldest changes are
+ * merged into the document that the log starts from.
+ */
+const MAX_CHANGES = 1000;
+
+interface HistoryChange {
+    type: 'change' | 'undo' | 'redo';
+    steps: object[];
+    selection: object;
+    time: number;
+    addToHistory: boolean;
+    composition?: number;
+}
+
+interface HistoryLog {
+    doc: Node;
+    changes: HistoryChange[];
+}
+
+const historyLogKey = new PluginKey<HistoryLog>('historyLog');
+
+/**
+ * Create the plugin that keeps the undo history of the editor,
+ * together with a plugin that logs the changes that lead to the history.
+ *
+ * The history of ProseMirror cannot be saved as it is, so the changes
+ * are saved instead with `getHistory`, and made again with `restoreHistory`,
+ * which gives the same history.
+ *
+ * @returns the plugins
+ */
+export const createHistoryPlugins = (): Plugin[] => {
+    const historyPlugin = history();
+
+    return [
+        historyPlugin,
+        new Plugin<HistoryLog>({
+            key: historyLogKey,
+            state: {
+                init: (_, state) => ({ doc: state.doc, changes: [] }),
+                apply: (transaction, log, oldState) =>
+                    logTransaction(log, transaction, oldState, historyPlugin),
+            },
+        }),
+    ];
+};
+
+/**
+ * Get the undo history of the editor
+ *
+ * @param state - the state of the editor
+ * @returns the history, or `undefined` if the editor has
+ * no plugins from `createHistoryPlugins`
+ */
+export function getHistory(state: EditorState): EditorHistory | undefined {
+    const log = historyLogKey.getState(state);
+    if (!log) {
+        return;
+    }
+
+    return { doc: log.doc.toJSON(), changes: log.changes };
+}
+
+/**
+ * Create the state of an editor with the given undo history
+ *
+ * @param history - the history, from `getHistory`
+ * @param state - the current state of the editor,
+ * which must have the plugins from `createHistoryPlugins`
+ * @returns the new state
+ */
+export function restoreHistory(
+    history: EditorHistory,
+    state: EditorState
+): EditorState {
+    let newState = EditorState.create({
+        doc: Node.fromJSON(state.schema, history.doc),
+        plugins: state.plugins,
+    });
+
+    for (const change of history.changes as HistoryChange[]) {
+        newState = replayChange(newState, change);
+    }
+
+    return newState;
+}
+
+function logTransaction(
+    log: HistoryLog,
+    transaction: Transaction,
+    oldState: EditorState,
+    historyPlugin: Plugin
+): HistoryLog {
+    // Transactions that are appended by other plugins are
+    // appended again when the changes are replayed
+    if (!transaction.docChanged || transaction.getMeta('appendedTransaction')) {
+        return log;
+    }
+
+    const change: HistoryChange = {
+        type: getChangeType(transaction, historyPlugin),
+        steps: transaction.steps.map((step) => step.toJSON()),
+        selection: oldState.selection.toJSON(),
+        time: transaction.time,
+        addToHistory: transaction.getMeta('addToHistory') !== false,
+    };
+
+    const composition = transaction.getMeta('composition');
+    if (composition !== undefined) {
+        change.composition = composition;
+    }
+
+    let { doc, changes } = log;
+    changes = [...changes, change];
+    while (changes.length > MAX_CHANGES) {
+        doc = applySteps(doc, changes[0].steps);
+        changes = changes.slice(1);
+    }
+
+    return { doc: doc, changes: changes };
+}
+
+function getChangeType(
+    transaction: Transaction,
+    historyPlugin: Plugin
+): HistoryChange['type'] {
+    const meta: { redo: boolean } = transaction.getMeta(historyPlugin);
+    if (!meta) {
+        return 'change';
+    }
+
+    return meta.redo ? 'redo' : 'undo';
+}
+
+function applySteps(doc: Node, steps: object[]): Node {
+    for (const json of steps) {
+        doc = Step.fromJSON(doc.type.schema, json).apply(doc).doc;
+    }
+
+    return doc;
+}
+
+function replayChange(state: EditorState, change: HistoryChange) {
+    // The history remembers the selection from before each change,
+    // to restore it when the change is undone
+    state = state.apply(
+        state.tr.setSelection(Selection.fromJSON(state.doc, change.selection))
+    );
+
+    if (change.type !== 'change') {
+        const command = change.type === 'undo' ? undo : redo;
+        if (
+            !command(state, (transaction) => (state = state.apply(transaction)))
+        ) {
+            throw new Error(`Nothing to ${change.type} in the history`);
+        }
+
+        return state;
+    }
+
+    const transaction = state.tr.setTime(change.time);
+    for (const json of change.steps) {
+        transaction.step(Step.fromJSON(state.schema, json));
+    }
+
+    if (!change.addToHistory) {
+        transaction.setMeta('addToHistory', false);
+    }
+
+    if (change.composition !== undefined) {
+        transaction.setMeta('composition', change.composition);
+    }
+
+    return state.apply(transaction);
+}
@@ -5,6 +5,7 @@ import { FileInfo } from '../../../../../global/shared-types/file.types';
 import { ImageInserter, EditorImageState } from '../../../text-editor.types';
 import { Node, Slice, Fragment } from 'prosemirror-model';
 import { ImageNodeAttrs } from './node';
+import { skipTracking } from '../track-changes/track-transaction';
 
 export const pluginKey = new PluginKey('imageInserterPlugin');
 
@@ -63,7 +64,8 @@ const createImageInserter =
         const { state, dispatch } = view;
         const { schema } = state;
 
-        const tr = state.tr;
+        // Replacing the thumbnail is not a change of its own
+        const tr = skipTracking(state.tr);
         state.doc.descendants((node, pos) => {
             if (node.attrs.fileInfoId === fileInfo.id) {
                 const imageNodeAttrs = createImageNodeAttrs(
@@ -71,7 +73,11 @@ const createImageInserter =
                     fileInfo,
                     'success'
                 );
-                const imageNode = schema.nodes.image.create(imageNodeAttrs);
+                const imageNode = schema.nodes.image.create(
+                    imageNodeAttrs,
+                    null,
+                    node.marks
+                );
 
                 tr.replaceWith(pos, pos + node.nodeSize, imageNode);
 
@@ -87,7 +93,7 @@ const createFailedThumbnailInserter =
         const { state, dispatch } = view;
         const { schema } = state;
 
-        const tr = state.tr;
+        const tr = skipTracking(state.tr);
         state.doc.descendants((node, pos) => {
             if (node.attrs.fileInfoId === fileInfo.id) {
                 const imageNodeAttrs = createImageNodeAttrs(
@@ -95,8 +101,11 @@ const createFailedThumbnailInserter =
                     fileInfo,
                     'failed'
                 );
-                const errorPlaceholderNode =
-                    schema.nodes.image.create(imageNodeAttrs);
+                const errorPlaceholderNode = schema.nodes.image.create(
+                    imageNodeAttrs,
+                    null,
+                    node.marks
+                );
 
                 tr.replaceWith(pos, pos + node.nodeSize, errorPlaceholderNode);
 
@@ -235,26 +244,59 @@ function handlePastedImages(
         if (isImageFile(file, clipboardData)) {
             isImageFilePasted = true;
 
-            const reader = new FileReader();
-            reader.onloadend = () => {
-                view.dom.dispatchEvent(
-                    new CustomEvent('imagePasted', {
-                        detail: imageInserterFactory(
-                            view,
-                            reader.result as string,
-                            createFileInfo(file)
-                        ),
-                    })
-                );
-            };
-
-            reader.readAsDataURL(file);
+            dispatchImagePasted(view, file);
         }
     }
 
     return isImageFilePasted;
 }
 
+/**
+ * Lets the user pick image files, and dispatches an imagePasted event
+ * for each of them, as if they had been pasted.
+ *
+ * @param view - The ProseMirror editor view
+ */
+export function openImageFileDialog(view: EditorView): void {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'image/*';
+    input.multiple = true;
+
+    input.addEventListener('change', () => {
+        const files = [...(input.files || [])];
+        for (const file of files.filter(isContentTypeImage)) {
+            dispatchImagePasted(view, file);
+        }
+    });
+
+    input.click();
+}
+
+/**
+ * Reads an image file and dispatches an imagePasted event with an
+ * inserter for it.
+ *
+ * @param view - The ProseMirror editor view
+ * @param file - The image file
+ */
+function dispatchImagePasted(view: EditorView, file: File): void {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+        view.dom.dispatchEvent(
+            new CustomEvent('imagePasted', {
+                detail: imageInserterFactory(
+                    view,
+                    reader.result as string,
+                    createFileInfo(file)
+                ),
+            })
+        );
+    };
+
+    reader.readAsDataURL(file);
+}
+
 /**
  * Determines if a file is an image that should be processed by the image handler.
  *
@@ -0,0 +1,75 @@
+import { Schema } from 'prosemirror-model';
+import { MarkdownSerializer } from 'prosemirror-markdown';
+import { schema as basicSchema } from 'prosemirror-schema-basic';
+import { getMentionNode, getMentionNodeMarkdownSerializer } from './node';
+
+const schema = new Schema({
+    nodes: basicSchema.spec.nodes.append(getMentionNode()),
+    marks: basicSchema.spec.marks,
+});
+
+const serializer = new MarkdownSerializer(
+    {
+        doc: (state, node) => state.renderContent(node),
+        paragraph: (state, node) => {
+            state.renderInline(node);
+            state.closeBlock(node);
+        },
+        text: (state, node) => state.text(node.text),
+        ...getMentionNodeMarkdownSerializer(),
+    },
+    {}
+);
+
+const createDoc = (attrs: Record<string, string>) =>
+    schema.node('doc', null, [
+        schema.node('paragraph', null, [
+            schema.text('Ask '),
+            schema.node('mention', attrs),
+        ]),
+    ]);
+
+describe('mention node', () => {
+    it('is written to markdown as a chip', () => {
+        const doc = createDoc({
+            trigger: '@',
+            text: 'Alice',
+            value: '1',
+            icon: 'user',
+        });
+
+        expect(serializer.serialize(doc)).toEqual(
+            'Ask <limel-chip text="Alice" data-trigger="@" data-value="1" icon="user"></limel-chip>'
+        );
+    });
+
+    it('escapes the attributes', () => {
+        const doc = createDoc({
+            trigger: '@',
+            text: '"Alice" <alice@example.com>',
+            value: '1',
+        });
+
+        expect(serializer.serialize(doc)).toEqual(
+            'Ask <limel-chip text="&quot;Alice&quot; &lt;alice@example.com&gt;" data-trigger="@" data-value="1"></limel-chip>'
+        );
+    });
+
+    it('is parsed from a chip with a trigger', () => {
+        const element = document.createElement('limel-chip');
+        element.setAttribute('text', 'Alice');
+        element.setAttribute('icon', 'user');
+        element.dataset.trigger = '@';
+        element.dataset.value = '1';
+
+        const rule = schema.nodes.mention.spec.parseDOM[0];
+
+        expect(rule.tag).toEqual('limel-chip[data-trigger]');
+        expect(rule.getAttrs(element)).toEqual({
+            trigger: '@',
+            text: 'Alice',
+            value: '1',
+            icon: 'user',
+        });
+    });
+});
@@ -0,0 +1,107 @@
+import { NodeSpec, Node, DOMOutputSpec } from 'prosemirror-model';
+import { MarkdownSerializerState } from 'prosemirror-markdown';
+import { escape } from 'html-escaper';
+import { CustomElementDefinition } from '../../../../../global/shared-types/custom-element.types';
+import { EditorMention } from '../../../text-editor.types';
+
+export const MENTION_NODE_NAME = 'mention';
+
+/**
+ * The element that mentions are rendered as, which the sanitizer
+ * must let through when the content is parsed.
+ * The sanitizer expects the data attributes as property names.
+ */
+export const mentionElement: CustomElementDefinition = {
+    tagName: 'limel-chip',
+    attributes: ['text', 'icon', 'dataTrigger', 'dataValue'],
+};
+
+type MarkdownSerializerFunction = (
+    state: MarkdownSerializerState,
+    node: Node
+) => void;
+
+export interface MentionNodeAttrs extends EditorMention {
+    icon?: string;
+}
+
+/**
+ * Get the node spec of mentions
+ */
+export function getMentionNode(): Record<string, NodeSpec> {
+    return { [MENTION_NODE_NAME]: mentionNodeSpec };
+}
+
+/**
+ * Get the markdown serializer of mentions, which writes them as HTML
+ */
+export function getMentionNodeMarkdownSerializer(): Record<
+    string,
+    MarkdownSerializerFunction
+> {
+    return {
+        [MENTION_NODE_NAME]: (state: MarkdownSerializerState, node: Node) => {
+            state.write(getMentionHTML(node.attrs as MentionNodeAttrs));
+        },
+    };
+}
+
+/**
+ * Checks if a ProseMirror node is a mention
+ * @param node
+ */
+export function isMentionNode(node: Node): boolean {
+    return node.type.name === MENTION_NODE_NAME;
+}
+
+const mentionNodeSpec: NodeSpec = {
+    group: 'inline',
+    inline: true,
+    atom: true,
+    selectable: true,
+    attrs: {
+        trigger: {},
+        text: {},
+        value: { default: '' },
+        icon: { default: null },
+    },
+    toDOM: (node): DOMOutputSpec => [
+        mentionElement.tagName,
+        getMentionAttributes(node.attrs as MentionNodeAttrs),
+    ],
+    parseDOM: [
+        {
+            tag: `${mentionElement.tagName}[data-trigger]`,
+            // Takes precedence over a custom element for the same tag
+            priority: 60,
+            getAttrs: (dom: HTMLElement) => ({
+                trigger: dom.dataset.trigger,
+                text: dom.getAttribute('text') ?? '',
+                value: dom.dataset.value ?? '',
+                icon: dom.getAttribute('icon'),
+            }),
+        },
+    ],
+};
+
+function getMentionAttributes(attrs: MentionNodeAttrs) {
+    const attributes: Record<string, string> = {
+        text: attrs.text,
+        'data-trigger': attrs.trigger,
+        'data-value': attrs.value,
+    };
+
+    if (attrs.icon) {
+        attributes.icon = attrs.icon;
+    }
+
+    return attributes;
+}
+
+function getMentionHTML(attrs: MentionNodeAttrs): string {
+    const attributes = Object.entries(getMentionAttributes(attrs))
+        .map(([name, value]) => ` ${name}="${escape(value)}"`)
+        .join('');
+
+    return `<${mentionElement.tagName}${attributes}></${mentionElement.tagName}>`;
+}
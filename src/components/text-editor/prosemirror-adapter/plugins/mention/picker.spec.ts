@@ -0,0 +1,74 @@
+import { ListItem } from '../../../../list-item/list-item.types';
+import { getInsertedNode, getNextIndex, getPickerItems } from './picker';
+
+describe('getPickerItems', () => {
+    it('removes separators', () => {
+        const items = getPickerItems([
+            { text: 'Alice' },
+            { separator: true, text: 'Others' },
+            { text: 'Bob' },
+        ]);
+
+        expect(items).toEqual([{ text: 'Alice' }, { text: 'Bob' }]);
+    });
+
+    it('handles a missing result', () => {
+        expect(getPickerItems(undefined)).toEqual([]);
+    });
+});
+
+describe('getNextIndex', () => {
+    const items: ListItem[] = [
+        { text: 'Alice' },
+        { text: 'Bob', disabled: true },
+        { text: 'Carol' },
+    ];
+
+    it('skips disabled items', () => {
+        expect(getNextIndex(items, 0, 1)).toEqual(2);
+        expect(getNextIndex(items, 2, -1)).toEqual(0);
+    });
+
+    it('starts over from the other end of the list', () => {
+        expect(getNextIndex(items, 2, 1)).toEqual(0);
+        expect(getNextIndex(items, 0, -1)).toEqual(2);
+    });
+
+    it('returns -1 when no item can be chosen', () => {
+        expect(getNextIndex([], -1, 1)).toEqual(-1);
+        expect(getNextIndex([{ text: 'Bob', disabled: true }], 0, 1)).toEqual(
+            -1
+        );
+    });
+});
+
+describe('getInsertedNode', () => {
+    it('creates a mention of the item', () => {
+        const node = getInsertedNode(
+            { text: 'Alice', value: 1, icon: { name: 'user' } },
+            '@'
+        );
+
+        expect(node).toEqual({
+            node: {
+                tagName: 'mention',
+                attributes: {
+                    trigger: '@',
+                    text: 'Alice',
+                    value: '1',
+                    icon: 'user',
+                },
+            },
+        });
+    });
+
+    it('inserts a value that is a node as it is', () => {
+        const value = {
+            node: { tagName: 'my-tag', attributes: { name: 'important' } },
+        };
+
+        expect(getInsertedNode({ text: 'Important', value: value }, '#')).toBe(
+            value
+        );
+    });
+});
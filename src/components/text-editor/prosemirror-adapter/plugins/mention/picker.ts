@@ -0,0 +1,78 @@
+import { ListItem, ListSeparator } from '../../../../list-item/list-item.types';
+import { getIconName } from '../../../../icon/get-icon-props';
+import { TextEditorNode, TriggerCharacter } from '../../../text-editor.types';
+import { MENTION_NODE_NAME } from './node';
+
+/**
+ * Get the items of a search result that can be shown in the picker
+ *
+ * @param result - the result of a searcher
+ * @returns the items, without separators
+ */
+export function getPickerItems(
+    result: Array<ListItem | ListSeparator>
+): ListItem[] {
+    return (result ?? []).filter(
+        (item): item is ListItem => !('separator' in item)
+    );
+}
+
+/**
+ * Get the index of the next item that can be chosen, in the given
+ * direction, starting over from the other end of the list
+ *
+ * @param items - the items of the picker
+ * @param index - the index of the active item
+ * @param direction - `1` for the next item, `-1` for the previous item
+ * @returns the index of the item, or `-1` if no item can be chosen
+ */
+export function getNextIndex(
+    items: ListItem[],
+    index: number,
+    direction: 1 | -1
+): number {
+    for (let step = 1; step <= items.length; step++) {
+        const next =
+            (((index + step * direction) % items.length) + items.length) %
+            items.length;
+
+        if (!items[next].disabled) {
+            return next;
+        }
+    }
+
+    return -1;
+}
+
+/**
+ * Get the node to insert when an item is chosen
+ *
+ * @param item - the chosen item
+ * @param trigger - the trigger character that opened the picker
+ * @returns the `value` of the item if it is a `TextEditorNode`,
+ * otherwise a mention of the item
+ */
+export function getInsertedNode(
+    item: ListItem,
+    trigger: TriggerCharacter
+): TextEditorNode {
+    if (isTextEditorNode(item.value)) {
+        return item.value;
+    }
+
+    return {
+        node: {
+            tagName: MENTION_NODE_NAME,
+            attributes: {
+                trigger: trigger,
+                text: item.text,
+                value: String(item.value ?? ''),
+                icon: getIconName(item.icon) ?? null,
+            },
+        },
+    };
+}
+
+function isTextEditorNode(value: unknown): value is TextEditorNode {
+    return typeof value === 'object' && value !== null && 'node' in value;
+}
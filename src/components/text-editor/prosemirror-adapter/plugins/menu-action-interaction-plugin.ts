@@ -14,9 +14,13 @@ const dispatchMenuCommand = (command, view) => {
         transaction.setSelection(selection);
     }
 
-    command(state, (tr) => {
-        transaction = tr;
-    });
+    command(
+        state,
+        (tr) => {
+            transaction = tr;
+        },
+        view
+    );
     view.dispatch(transaction);
     view.focus();
 };
@@ -0,0 +1,100 @@
+import { Schema, Node } from 'prosemirror-model';
+import {
+    MarkdownSerializer,
+    defaultMarkdownSerializer,
+} from 'prosemirror-markdown';
+import { schema as basicSchema } from 'prosemirror-schema-basic';
+import { getTableNodes } from './table-plugin';
+import { getTableMarkdownSerializer } from './markdown-serializer';
+
+const schema = new Schema({
+    nodes: basicSchema.spec.nodes.append(getTableNodes()),
+    marks: basicSchema.spec.marks,
+});
+
+const serializer = new MarkdownSerializer(
+    { ...defaultMarkdownSerializer.nodes, ...getTableMarkdownSerializer() },
+    defaultMarkdownSerializer.marks
+);
+
+const cell = (text: string, attrs = {}, type = 'table_cell') =>
+    schema.node(type, attrs, [
+        schema.node('paragraph', null, text ? [schema.text(text)] : []),
+    ]);
+
+const header = (text: string) => cell(text, {}, 'table_header');
+
+const createDoc = (...rows: Node[][]) =>
+    schema.node('doc', null, [
+        schema.node(
+            'table',
+            null,
+            rows.map((cells) => schema.node('table_row', null, cells))
+        ),
+    ]);
+
+describe('table markdown serializer', () => {
+    it('writes a table with a header row as a GFM table', () => {
+        const doc = createDoc(
+            [header('Name'), header('Role')],
+            [cell('Alice'), cell('')]
+        );
+
+        expect(serializer.serialize(doc)).toEqual(
+            '| Name | Role |\n| --- | --- |\n| Alice |  |'
+        );
+    });
+
+    it('writes the formatting of the cells', () => {
+        const bold = schema.marks.strong.create();
+        const doc = createDoc(
+            [header('Name')],
+            [
+                schema.node('table_cell', null, [
+                    schema.node('paragraph', null, [
+                        schema.text('Alice', [bold]),
+                    ]),
+                ]),
+            ]
+        );
+
+        expect(serializer.serialize(doc)).toEqual(
+            '| Name |\n| --- |\n| **Alice** |'
+        );
+    });
+
+    it('writes a table without a header row as HTML', () => {
+        const doc = createDoc([cell('Alice'), cell('Bob')]);
+
+        expect(serializer.serialize(doc)).toEqual(
+            '<table><tbody><tr><td><p>Alice</p></td><td><p>Bob</p></td></tr></tbody></table>'
+        );
+    });
+
+    it('writes a table with merged cells and column widths as HTML', () => {
+        const doc = createDoc(
+            [header('Name'), header('Role')],
+            [cell('Alice and Bob', { colspan: 2, colwidth: [100, 200] })]
+        );
+
+        const markdown = serializer.serialize(doc);
+
+        expect(markdown).toContain('colspan="2"');
+        expect(markdown).toContain('data-colwidth="100,200"');
+    });
+
+    it('separates the table from the following paragraph', () => {
+        const doc = schema.node('doc', null, [
+            createDoc([header('Name')]).firstChild,
+            schema.node('paragraph', null, [schema.text('Done')]),
+        ]);
+
+        expect(serializer.serialize(doc)).toEqual('| Name |\n| --- |\n\nDone');
+    });
+
+    it('writes a table with a pipe in a cell as HTML', () => {
+        const doc = createDoc([header('a | b')], [cell('c')]);
+
+        expect(serializer.serialize(doc)).toMatch(/^<table>/);
+    });
+});
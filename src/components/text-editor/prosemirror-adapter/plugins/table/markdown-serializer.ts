@@ -0,0 +1,98 @@
+import { DOMSerializer, Node } from 'prosemirror-model';
+import { MarkdownSerializerState } from 'prosemirror-markdown';
+
+/**
+ * Get the markdown serializer of tables.
+ *
+ * Tables are written as GFM tables when they can be, which is when the
+ * first row, and only the first row, is a header row, and every cell is
+ * a single paragraph of text. Other tables, like tables with merged cells,
+ * column widths or colored cells, are written as HTML, so that their
+ * structure is kept.
+ */
+export function getTableMarkdownSerializer() {
+    return {
+        table: (state: MarkdownSerializerState, node: Node) => {
+            if (isGfmTable(node)) {
+                writeGfmTable(state, node);
+            } else {
+                writeHtmlTable(state, node);
+            }
+
+            state.closeBlock(node);
+        },
+    };
+}
+
+function writeGfmTable(state: MarkdownSerializerState, table: Node) {
+    const header = table.firstChild;
+    const delimiters = Array.from({ length: header.childCount }, () => '---');
+
+    writeGfmRow(state, header);
+    state.ensureNewLine();
+    state.write(`| ${delimiters.join(' | ')} |`);
+
+    for (let index = 1; index < table.childCount; index++) {
+        state.ensureNewLine();
+        writeGfmRow(state, table.child(index));
+    }
+}
+
+function writeGfmRow(state: MarkdownSerializerState, row: Node) {
+    state.write('|');
+    for (const cell of getChildren(row)) {
+        state.write(' ');
+        state.renderInline(cell.firstChild, false);
+        state.write(' |');
+    }
+}
+
+function writeHtmlTable(state: MarkdownSerializerState, table: Node) {
+    const element = DOMSerializer.fromSchema(table.type.schema).serializeNode(
+        table
+    ) as HTMLElement;
+
+    state.write(element.outerHTML);
+}
+
+function isGfmTable(table: Node): boolean {
+    const rows = getChildren(table);
+    if (rows.length === 0) {
+        return false;
+    }
+
+    return rows.every((row, index) => {
+        const cellType = index === 0 ? 'table_header' : 'table_cell';
+        const cells = getChildren(row);
+
+        return (
+            cells.length === rows[0].childCount &&
+            cells.every(
+                (cell) => cell.type.name === cellType && isGfmCell(cell)
+            )
+        );
+    });
+}
+
+function isGfmCell(cell: Node): boolean {
+    const { colspan, rowspan, colwidth, background, color } = cell.attrs;
+    if (colspan !== 1 || rowspan !== 1 || colwidth || background || color) {
+        return false;
+    }
+
+    const paragraph = cell.firstChild;
+    if (cell.childCount !== 1 || paragraph.type.name !== 'paragraph') {
+        return false;
+    }
+
+    return (
+        !paragraph.textContent.includes('|') &&
+        getChildren(paragraph).every((child) => child.isText)
+    );
+}
+
+function getChildren(node: Node): Node[] {
+    return Array.from({ length: node.childCount }, (_, index) =>
+        node.child(index)
+    );
+}
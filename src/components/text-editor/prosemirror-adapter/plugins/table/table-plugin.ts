@@ -1,12 +1,19 @@
-import { tableNodes, tableEditing } from 'prosemirror-tables';
+import { tableNodes, tableEditing, columnResizing } from 'prosemirror-tables';
 import { Plugin } from 'prosemirror-state';
+import { CustomElementDefinition } from '../../../../../global/shared-types/custom-element.types';
 
-export const getTableEditingPlugins = (tablesEnabled: boolean): Plugin[] => {
-    if (tablesEnabled) {
-        return [tableEditing()];
-    }
+/**
+ * The table cells, with the width of their columns, which the sanitizer
+ * must let through when the content is parsed.
+ * The sanitizer expects the data attributes as property names.
+ */
+export const tableCellElements: CustomElementDefinition[] = [
+    { tagName: 'td', attributes: ['dataColwidth'] },
+    { tagName: 'th', attributes: ['dataColwidth'] },
+];
 
-    return [];
+export const getTableEditingPlugins = (): Plugin[] => {
+    return [columnResizing(), tableEditing()];
 };
 
 const createStyleAttribute = (cssProperty: string) => ({
@@ -0,0 +1,103 @@
+import { Schema } from 'prosemirror-model';
+import { EditorState, TextSelection } from 'prosemirror-state';
+import { schema as basicSchema } from 'prosemirror-schema-basic';
+import { isItem } from '../../../../action-bar/is-item';
+import { getTableNodes } from './table-plugin';
+import {
+    TableToolbarTypes,
+    getCellBackground,
+    getTableCommand,
+    getTableToolbarItems,
+    setCellBackground,
+} from './table-toolbar';
+
+const schema = new Schema({
+    nodes: basicSchema.spec.nodes.append(getTableNodes()),
+    marks: basicSchema.spec.marks,
+});
+
+const cell = (text: string) =>
+    schema.node('table_cell', null, [
+        schema.node('paragraph', null, [schema.text(text)]),
+    ]);
+
+// <p>Intro</p> takes positions 0-7, and the text of the first cell starts at 11
+const createState = (position: number) => {
+    const state = EditorState.create({
+        schema: schema,
+        doc: schema.node('doc', null, [
+            schema.node('paragraph', null, [schema.text('Intro')]),
+            schema.node('table', null, [
+                schema.node('table_row', null, [cell('A1'), cell('B1')]),
+                schema.node('table_row', null, [cell('A2'), cell('B2')]),
+            ]),
+        ]),
+    });
+
+    return state.apply(
+        state.tr.setSelection(TextSelection.create(state.doc, position))
+    );
+};
+
+const run = (
+    state: EditorState,
+    command: ReturnType<typeof getTableCommand>
+) => {
+    let newState = state;
+    command(state, (tr) => (newState = state.apply(tr)));
+
+    return newState;
+};
+
+describe('table toolbar', () => {
+    it('has no items when the cursor is not in a table', () => {
+        expect(getTableToolbarItems(createState(1), 'en')).toEqual([]);
+    });
+
+    it('disables the items that cannot be used', () => {
+        const items = getTableToolbarItems(createState(11), 'en').filter(
+            isItem
+        );
+        const isDisabled = (value: TableToolbarTypes) =>
+            items.find((item) => item.value === value).disabled;
+
+        expect(isDisabled(TableToolbarTypes.AddRowAfter)).toBe(false);
+        expect(isDisabled(TableToolbarTypes.MergeCells)).toBe(true);
+        expect(isDisabled(TableToolbarTypes.SplitCell)).toBe(true);
+    });
+
+    it('translates the items', () => {
+        const [item] = getTableToolbarItems(createState(11), 'en');
+
+        expect(item).toEqual(
+            expect.objectContaining({ text: 'Insert row above' })
+        );
+    });
+
+    it('adds a row', () => {
+        const state = run(
+            createState(11),
+            getTableCommand(TableToolbarTypes.AddRowAfter)
+        );
+
+        expect(state.doc.child(1).childCount).toBe(3);
+    });
+
+    it('toggles the header row', () => {
+        const state = run(
+            createState(11),
+            getTableCommand(TableToolbarTypes.ToggleHeaderRow)
+        );
+
+        expect(state.doc.child(1).firstChild.firstChild.type.name).toBe(
+            'table_header'
+        );
+    });
+
+    it('sets the background of the cell', () => {
+        const color = 'rgb(var(--color-lime-light))';
+        const state = run(createState(11), setCellBackground(color));
+
+        expect(getCellBackground(state)).toBe(color);
+    });
+});
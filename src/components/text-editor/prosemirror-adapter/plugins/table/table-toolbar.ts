@@ -0,0 +1,157 @@
+import { Command, EditorState } from 'prosemirror-state';
+import {
+    addColumnAfter,
+    addColumnBefore,
+    addRowAfter,
+    addRowBefore,
+    deleteColumn,
+    deleteRow,
+    deleteTable,
+    isInTable,
+    mergeCells,
+    selectionCell,
+    setCellAttr,
+    splitCell,
+    toggleHeaderColumn,
+    toggleHeaderRow,
+} from 'prosemirror-tables';
+import { ActionBarItem } from '../../../../action-bar/action-bar.types';
+import { ListSeparator } from '../../../../list-item/list-item.types';
+import { Languages } from '../../../../date-picker/date.types';
+import translate from '../../../../../global/translations';
+
+/**
+ * The actions of the toolbar that is shown when the cursor is in a table
+ */
+export const TableToolbarTypes = {
+    AddRowBefore: 'add_row_before',
+    AddRowAfter: 'add_row_after',
+    DeleteRow: 'delete_row',
+    AddColumnBefore: 'add_column_before',
+    AddColumnAfter: 'add_column_after',
+    DeleteColumn: 'delete_column',
+    MergeCells: 'merge_cells',
+    SplitCell: 'split_cell',
+    ToggleHeaderRow: 'toggle_header_row',
+    ToggleHeaderColumn: 'toggle_header_column',
+    DeleteTable: 'delete_table',
+};
+
+export type TableToolbarTypes =
+    (typeof TableToolbarTypes)[keyof typeof TableToolbarTypes];
+
+const tableCommands: Record<TableToolbarTypes, Command> = {
+    [TableToolbarTypes.AddRowBefore]: addRowBefore,
+    [TableToolbarTypes.AddRowAfter]: addRowAfter,
+    [TableToolbarTypes.DeleteRow]: deleteRow,
+    [TableToolbarTypes.AddColumnBefore]: addColumnBefore,
+    [TableToolbarTypes.AddColumnAfter]: addColumnAfter,
+    [TableToolbarTypes.DeleteColumn]: deleteColumn,
+    [TableToolbarTypes.MergeCells]: mergeCells,
+    [TableToolbarTypes.SplitCell]: splitCell,
+    [TableToolbarTypes.ToggleHeaderRow]: toggleHeaderRow,
+    [TableToolbarTypes.ToggleHeaderColumn]: toggleHeaderColumn,
+    [TableToolbarTypes.DeleteTable]: deleteTable,
+};
+
+const tableToolbarIcons: Record<TableToolbarTypes, string> = {
+    [TableToolbarTypes.AddRowBefore]: 'insert_row_above',
+    [TableToolbarTypes.AddRowAfter]: 'insert_row_below',
+    [TableToolbarTypes.DeleteRow]: 'delete_row',
+    [TableToolbarTypes.AddColumnBefore]: 'insert_column_left',
+    [TableToolbarTypes.AddColumnAfter]: 'insert_column_right',
+    [TableToolbarTypes.DeleteColumn]: 'delete_column',
+    [TableToolbarTypes.MergeCells]: 'merge_cells',
+    [TableToolbarTypes.SplitCell]: 'split_cells',
+    [TableToolbarTypes.ToggleHeaderRow]: 'header_row',
+    [TableToolbarTypes.ToggleHeaderColumn]: 'header_column',
+    [TableToolbarTypes.DeleteTable]: 'delete_table',
+};
+
+const tableToolbarLayout: Array<TableToolbarTypes | ListSeparator> = [
+    TableToolbarTypes.AddRowBefore,
+    TableToolbarTypes.AddRowAfter,
+    TableToolbarTypes.DeleteRow,
+    { separator: true },
+    TableToolbarTypes.AddColumnBefore,
+    TableToolbarTypes.AddColumnAfter,
+    TableToolbarTypes.DeleteColumn,
+    { separator: true },
+    TableToolbarTypes.MergeCells,
+    TableToolbarTypes.SplitCell,
+    { separator: true },
+    TableToolbarTypes.ToggleHeaderRow,
+    TableToolbarTypes.ToggleHeaderColumn,
+    { separator: true },
+    TableToolbarTypes.DeleteTable,
+];
+
+/**
+ * Get the items of the table toolbar for the current selection.
+ * Items whose command cannot be run, like merging a single cell,
+ * are disabled.
+ *
+ * @param state - the state of the editor
+ * @param language - the language of the texts
+ * @returns the items, or an empty list if the cursor is not in a table
+ */
+export function getTableToolbarItems(
+    state: EditorState,
+    language: Languages
+): Array<ActionBarItem<TableToolbarTypes> | ListSeparator> {
+    if (!isInTable(state)) {
+        return [];
+    }
+
+    return tableToolbarLayout.map((type) => {
+        if (typeof type !== 'string') {
+            return type;
+        }
+
+        return {
+            value: type,
+            text: translate.get(getTranslationId(type), language),
+            icon: tableToolbarIcons[type],
+            iconOnly: true,
+            disabled: !tableCommands[type](state),
+        };
+    });
+}
+
+/**
+ * Get the command of an item in the table toolbar
+ *
+ * @param type - the item of the toolbar
+ * @returns the command
+ */
+export function getTableCommand(type: TableToolbarTypes): Command {
+    return tableCommands[type];
+}
+
+/**
+ * Get a command that sets the background of the selected cells.
+ *
+ * @param color - the background color, or an empty string to remove it
+ * @returns the command
+ */
+export function setCellBackground(color: string): Command {
+    return setCellAttr('background', color || null);
+}
+
+/**
+ * Get the background of the cell that the cursor is in
+ *
+ * @param state - the state of the editor
+ * @returns the background color, if the cell has one
+ */
+export function getCellBackground(state: EditorState): string | undefined {
+    if (!isInTable(state)) {
+        return;
+    }
+
+    return selectionCell(state).nodeAfter?.attrs.background ?? undefined;
+}
+
+function getTranslationId(type: TableToolbarTypes) {
+    return `editor-table.${type.replaceAll('_', '-')}`;
+}
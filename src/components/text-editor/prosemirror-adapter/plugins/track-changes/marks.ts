@@ -0,0 +1,134 @@
+import { MarkSpec, Mark, DOMOutputSpec } from 'prosemirror-model';
+import { escape } from 'html-escaper';
+import { CustomElementDefinition } from '../../../../../global/shared-types/custom-element.types';
+import { EditorChangeType } from '../../../text-editor.types';
+
+export const INSERTION_MARK_NAME = 'insertion';
+export const DELETION_MARK_NAME = 'deletion';
+
+/**
+ * The elements that suggested changes are rendered as, which the
+ * sanitizer must let through when the content is parsed.
+ * The sanitizer expects the data attributes as property names.
+ */
+export const insertionElement: CustomElementDefinition = {
+    tagName: 'ins',
+    attributes: ['dataChangeId', 'dataAuthor', 'dateTime'],
+};
+
+export const deletionElement: CustomElementDefinition = {
+    tagName: 'del',
+    attributes: ['dataChangeId', 'dataAuthor', 'dateTime'],
+};
+
+export interface ChangeMarkAttrs {
+    id: string;
+    author: string;
+    date: string;
+}
+
+interface MarkdownMarkSerializer {
+    open: (_: unknown, mark: Mark) => string;
+    close: string;
+    mixable: boolean;
+}
+
+const elements: Record<EditorChangeType, CustomElementDefinition> = {
+    insertion: insertionElement,
+    deletion: deletionElement,
+};
+
+/**
+ * Get the mark specs of suggested insertions and deletions
+ */
+export function getTrackChangesMarks(): Record<string, MarkSpec> {
+    return {
+        [INSERTION_MARK_NAME]: createChangeMarkSpec(INSERTION_MARK_NAME),
+        [DELETION_MARK_NAME]: createChangeMarkSpec(DELETION_MARK_NAME),
+    };
+}
+
+/**
+ * Get the markdown serializers of suggested insertions and deletions,
+ * which write them as HTML
+ */
+export function getTrackChangesMarkdownSerializer(): Record<
+    string,
+    MarkdownMarkSerializer
+> {
+    return {
+        [INSERTION_MARK_NAME]: createMarkdownSerializer(INSERTION_MARK_NAME),
+        [DELETION_MARK_NAME]: createMarkdownSerializer(DELETION_MARK_NAME),
+    };
+}
+
+/**
+ * Get the type of change that a mark suggests
+ * @param mark
+ * @returns the type of change, or `undefined` if the mark is not a change
+ */
+export function getChangeType(mark: Mark): EditorChangeType | undefined {
+    const name = mark.type.name;
+    if (name === INSERTION_MARK_NAME || name === DELETION_MARK_NAME) {
+        return name;
+    }
+}
+
+function createChangeMarkSpec(type: EditorChangeType): MarkSpec {
+    const { tagName } = elements[type];
+
+    return {
+        attrs: {
+            id: {},
+            author: { default: '' },
+            date: { default: '' },
+        },
+        // Text typed next to a change is not part of it
+        inclusive: false,
+        toDOM: (mark): DOMOutputSpec => [
+            tagName,
+            getChangeAttributes(mark.attrs as ChangeMarkAttrs),
+            0,
+        ],
+        parseDOM: [
+            {
+                tag: `${tagName}[data-change-id]`,
+                // Takes precedence over the strikethrough mark for `del`
+                priority: 60,
+                getAttrs: (dom: HTMLElement) => ({
+                    id: dom.dataset.changeId,
+                    author: dom.dataset.author ?? '',
+                    date: dom.getAttribute('datetime') ?? '',
+                }),
+            },
+        ],
+    };
+}
+
+function createMarkdownSerializer(
+    type: EditorChangeType
+): MarkdownMarkSerializer {
+    const { tagName } = elements[type];
+
+    return {
+        open: (_, mark) => {
+            const attributes = Object.entries(
+                getChangeAttributes(mark.attrs as ChangeMarkAttrs)
+            )
+                .map(([name, value]) => ` ${name}="${escape(value)}"`)
+                .join('');
+
+            return `<${tagName}${attributes}>`;
+        },
+        close: `</${tagName}>`,
+        mixable: true,
+    };
+}
+
+function getChangeAttributes(attrs: ChangeMarkAttrs) {
+    return {
+        'data-change-id': attrs.id,
+        'data-author': attrs.author,
+        datetime: attrs.date,
+    };
+}
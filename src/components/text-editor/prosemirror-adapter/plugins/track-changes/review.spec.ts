@@ -0,0 +1,68 @@
+import { Schema } from 'prosemirror-model';
+import { EditorState } from 'prosemirror-state';
+import { schema as basicSchema } from 'prosemirror-schema-basic';
+import { getTrackChangesMarks } from './marks';
+import { getChanges, resolveChange } from './review';
+
+const schema = new Schema({
+    nodes: basicSchema.spec.nodes,
+    marks: basicSchema.spec.marks.append(getTrackChangesMarks()),
+});
+
+const attrs = { id: 'c1', author: 'Alice', date: '2024-01-01' };
+
+const createState = (type: 'insertion' | 'deletion') =>
+    EditorState.create({
+        schema: schema,
+        doc: schema.node('doc', null, [
+            schema.node('paragraph', null, [
+                schema.text('Hello'),
+                schema.text(' world', [schema.marks[type].create(attrs)]),
+            ]),
+        ]),
+    });
+
+const resolve = (state: EditorState, accept: boolean) =>
+    state.apply(resolveChange(state, 'c1', accept));
+
+describe('resolveChange', () => {
+    it('keeps the text of an accepted insertion', () => {
+        const state = resolve(createState('insertion'), true);
+
+        expect(state.doc.textContent).toBe('Hello world');
+        expect(getChanges(state.doc)).toEqual([]);
+    });
+
+    it('removes the text of a rejected insertion', () => {
+        const state = resolve(createState('insertion'), false);
+
+        expect(state.doc.textContent).toBe('Hello');
+    });
+
+    it('removes the text of an accepted deletion', () => {
+        const state = resolve(createState('deletion'), true);
+
+        expect(state.doc.textContent).toBe('Hello');
+    });
+
+    it('keeps the text of a rejected deletion', () => {
+        const state = resolve(createState('deletion'), false);
+
+        expect(state.doc.textContent).toBe('Hello world');
+        expect(getChanges(state.doc)).toEqual([]);
+    });
+
+    it('returns nothing for an unknown change', () => {
+        expect(
+            resolveChange(createState('insertion'), 'unknown', true)
+        ).toBeUndefined();
+    });
+});
+
+describe('getChanges', () => {
+    it('lists the changes with their text', () => {
+        expect(getChanges(createState('deletion').doc)).toEqual([
+            { ...attrs, type: 'deletion', text: ' world' },
+        ]);
+    });
+});
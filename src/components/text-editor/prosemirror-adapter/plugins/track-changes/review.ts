@@ -0,0 +1,123 @@
+import { EditorState, Transaction } from 'prosemirror-state';
+import { Mark, Node } from 'prosemirror-model';
+import { EditorChange, EditorChangeType } from '../../../text-editor.types';
+import { ChangeMarkAttrs, getChangeType } from './marks';
+import { skipTracking } from './track-transaction';
+
+interface ChangeRange {
+    from: number;
+    to: number;
+    mark: Mark;
+}
+
+/**
+ * Get a transaction that accepts or rejects a suggested change.
+ *
+ * Accepting an insertion keeps the text, and accepting a deletion
+ * removes it. Rejecting does the opposite.
+ *
+ * @param state - the state of the editor
+ * @param id - the id of the change
+ * @param accept - `true` to accept the change, `false` to reject it
+ * @returns the transaction, or `undefined` if there is no such change
+ */
+export function resolveChange(
+    state: EditorState,
+    id: string,
+    accept: boolean
+): Transaction | undefined {
+    const ranges = findChangeRanges(state.doc, id);
+    if (ranges.length === 0) {
+        return;
+    }
+
+    const tr = skipTracking(state.tr);
+    const isInsertion = getChangeType(ranges[0].mark) === 'insertion';
+    const removeText = isInsertion !== accept;
+
+    for (const { from, to, mark } of ranges.reverse()) {
+        if (removeText) {
+            tr.delete(from, to);
+        } else {
+            tr.removeMark(from, to, mark);
+        }
+    }
+
+    return tr;
+}
+
+/**
+ * Get the suggested changes in a document, in the order they appear
+ *
+ * @param doc - the document
+ * @returns the changes
+ */
+export function getChanges(doc: Node): EditorChange[] {
+    const changes = new Map<string, EditorChange>();
+
+    doc.descendants((node) => {
+        if (!node.isInline) {
+            return true;
+        }
+
+        for (const mark of node.marks) {
+            const type = getChangeType(mark);
+            if (type) {
+                addToChange(changes, type, mark, node.textContent);
+            }
+        }
+
+        return false;
+    });
+
+    return [...changes.values()];
+}
+
+function addToChange(
+    changes: Map<string, EditorChange>,
+    type: EditorChangeType,
+    mark: Mark,
+    text: string
+) {
+    const { id, author, date } = mark.attrs as ChangeMarkAttrs;
+    const change = changes.get(id);
+
+    if (change) {
+        change.text += text;
+
+        return;
+    }
+
+    changes.set(id, {
+        id: id,
+        type: type,
+        author: author,
+        date: date,
+        text: text,
+    });
+}
+
+function findChangeRanges(doc: Node, id: string): ChangeRange[] {
+    const ranges: ChangeRange[] = [];
+
+    doc.descendants((node, position) => {
+        if (!node.isInline) {
+            return true;
+        }
+
+        const mark = node.marks.find(
+            (nodeMark) => getChangeType(nodeMark) && nodeMark.attrs.id === id
+        );
+        if (mark) {
+            ranges.push({
+                from: position,
+                to: position + node.nodeSize,
+                mark: mark,
+            });
+        }
+
+        return false;
+    });
+
+    return ranges;
+}
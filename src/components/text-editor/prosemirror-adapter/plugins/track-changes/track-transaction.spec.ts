@@ -0,0 +1,178 @@
+import { Schema, Node } from 'prosemirror-model';
+import { EditorState, TextSelection, Transaction } from 'prosemirror-state';
+import { schema as basicSchema } from 'prosemirror-schema-basic';
+import { joinBackward } from 'prosemirror-commands';
+import { getTrackChangesMarks } from './marks';
+import { getTrackedTransaction, skipTracking } from './track-transaction';
+import { getChanges } from './review';
+
+const schema = new Schema({
+    nodes: basicSchema.spec.nodes,
+    marks: basicSchema.spec.marks.append(getTrackChangesMarks()),
+});
+
+const insertion = (author: string) =>
+    schema.marks.insertion.create({ id: 'i1', author: author, date: '' });
+
+const createState = (...content: Node[]) =>
+    EditorState.create({
+        schema: schema,
+        doc: schema.node('doc', null, [
+            schema.node('paragraph', null, content),
+        ]),
+    });
+
+const track = (
+    state: EditorState,
+    change: (tr: Transaction) => Transaction
+): EditorState => {
+    const tr = change(state.tr);
+
+    return state.apply(getTrackedTransaction(tr, state, 'Alice'));
+};
+
+const paragraph = (text?: string) =>
+    schema.node('paragraph', null, text ? [schema.text(text)] : []);
+
+const backspace = (state: EditorState, position: number) => {
+    state = state.apply(
+        state.tr.setSelection(TextSelection.create(state.doc, position))
+    );
+    joinBackward(state, (tr) => {
+        state = state.apply(getTrackedTransaction(tr, state, 'Alice'));
+    });
+
+    return state;
+};
+
+describe('getTrackedTransaction', () => {
+    it('marks inserted text as an insertion by the author', () => {
+        const state = track(createState(schema.text('Hello')), (tr) =>
+            tr.insertText('!', 6)
+        );
+
+        expect(state.doc.textContent).toBe('Hello!');
+        expect(getChanges(state.doc)).toEqual([
+            expect.objectContaining({
+                type: 'insertion',
+                author: 'Alice',
+                text: '!',
+            }),
+        ]);
+    });
+
+    it('keeps deleted text and marks it as a deletion', () => {
+        const state = track(createState(schema.text('Hello')), (tr) =>
+            tr.delete(1, 3)
+        );
+
+        expect(state.doc.textContent).toBe('Hello');
+        expect(getChanges(state.doc)).toEqual([
+            expect.objectContaining({ type: 'deletion', text: 'He' }),
+        ]);
+    });
+
+    it('inserts replacing text after the deleted text', () => {
+        const state = track(createState(schema.text('Hello')), (tr) =>
+            tr.insertText('J', 1, 2)
+        );
+
+        expect(state.doc.textContent).toBe('HJello');
+        expect(getChanges(state.doc)).toEqual([
+            expect.objectContaining({ type: 'deletion', text: 'H' }),
+            expect.objectContaining({ type: 'insertion', text: 'J' }),
+        ]);
+    });
+
+    it('removes text that the author has suggested to insert', () => {
+        const state = track(
+            createState(
+                schema.text('Hello'),
+                schema.text(' world', [insertion('Alice')])
+            ),
+            (tr) => tr.delete(6, 12)
+        );
+
+        expect(state.doc.textContent).toBe('Hello');
+        expect(getChanges(state.doc)).toEqual([]);
+    });
+
+    it('marks text that another user has suggested to insert as deleted', () => {
+        const state = track(
+            createState(
+                schema.text('Hello'),
+                schema.text(' world', [insertion('Bob')])
+            ),
+            (tr) => tr.delete(6, 12)
+        );
+
+        expect(state.doc.textContent).toBe('Hello world');
+        expect(getChanges(state.doc)).toEqual([
+            expect.objectContaining({ type: 'insertion', author: 'Bob' }),
+            expect.objectContaining({ type: 'deletion', author: 'Alice' }),
+        ]);
+    });
+
+    it('adds text typed next to a change of the author to the same change', () => {
+        let state = track(createState(schema.text('Hello')), (tr) =>
+            tr.insertText('!', 6)
+        );
+        state = track(state, (tr) => tr.insertText('!', 7));
+
+        expect(getChanges(state.doc)).toEqual([
+            expect.objectContaining({ type: 'insertion', text: '!!' }),
+        ]);
+    });
+
+    it('keeps the cursor in front of text deleted with backspace', () => {
+        const initial = createState(schema.text('Hello'));
+        const state = track(
+            initial.apply(
+                initial.tr.setSelection(TextSelection.create(initial.doc, 6))
+            ),
+            (tr) =>
+                tr.delete(5, 6).setSelection(TextSelection.create(tr.doc, 5))
+        );
+
+        expect(state.doc.textContent).toBe('Hello');
+        expect(state.selection.head).toBe(5);
+    });
+
+    it('joins paragraphs when deleting at the start of a paragraph', () => {
+        const initial = EditorState.create({
+            schema: schema,
+            doc: schema.node('doc', null, [paragraph('one'), paragraph('two')]),
+        });
+
+        const state = backspace(initial, 6);
+
+        expect(state.doc.childCount).toBe(1);
+        expect(state.doc.textContent).toBe('onetwo');
+        expect(state.selection.head).toBe(4);
+        expect(getChanges(state.doc)).toEqual([]);
+    });
+
+    it('removes an empty paragraph', () => {
+        const initial = EditorState.create({
+            schema: schema,
+            doc: schema.node('doc', null, [
+                paragraph('one'),
+                paragraph(),
+                paragraph('two'),
+            ]),
+        });
+
+        const state = backspace(initial, 6);
+
+        expect(state.doc.childCount).toBe(2);
+        expect(state.doc.textContent).toBe('onetwo');
+        expect(getChanges(state.doc)).toEqual([]);
+    });
+
+    it('does not track transactions that skip tracking', () => {
+        const state = createState(schema.text('Hello'));
+        const tr = skipTracking(state.tr.delete(1, 3));
+
+        expect(getTrackedTransaction(tr, state, 'Alice')).toBe(tr);
+    });
+});
@@ -0,0 +1,360 @@
+import { EditorState, TextSelection, Transaction } from 'prosemirror-state';
+import { Mapping, ReplaceStep, StepMap } from 'prosemirror-transform';
+import { Mark, MarkType, Node, Slice } from 'prosemirror-model';
+import { ySyncPluginKey } from 'y-prosemirror';
+import { createRandomString } from '../../../../../util/random-string';
+import {
+    ChangeMarkAttrs,
+    DELETION_MARK_NAME,
+    INSERTION_MARK_NAME,
+} from './marks';
+
+const SKIP_TRACKING = 'skipTracking';
+
+/**
+ * Meta data of the transactions that is kept when they are tracked
+ */
+const KEPT_META = [
+    'uiEvent',
+    'paste',
+    'pointer',
+    'addToHistory',
+    'stopTrigger',
+];
+
+/**
+ * Text that has been suggested to be deleted, and is therefore still in
+ * the tracked document, although it has been removed by the transaction.
+ * The position is in the document of the transaction.
+ */
+type RetainedText = [position: number, size: number];
+
+/**
+ * Makes sure the changes of a transaction are not tracked,
+ * for instance when the content is replaced by the consumer
+ *
+ * @param transaction - the transaction
+ * @returns the same transaction
+ */
+export function skipTracking(transaction: Transaction): Transaction {
+    return transaction.setMeta(SKIP_TRACKING, true);
+}
+
+/**
+ * Get a transaction that suggests the changes of the given transaction,
+ * instead of making them.
+ *
+ * Inserted content is marked as an insertion, and deleted text is kept
+ * and marked as a deletion. Deleting text that the author has suggested
+ * to insert removes it. Other steps, like formatting, are made as they are,
+ * and so are deletions without any text, like joining two paragraphs
+ * or removing an empty one.
+ *
+ * @param transaction - the transaction to track
+ * @param state - the state that the transaction was created for
+ * @param author - the name of the user who makes the changes
+ * @returns the tracked transaction, or the given transaction if it
+ * should not be tracked
+ */
+export function getTrackedTransaction(
+    transaction: Transaction,
+    state: EditorState,
+    author: string
+): Transaction {
+    if (!shouldTrack(transaction)) {
+        return transaction;
+    }
+
+    const tracked = state.tr;
+    const date = new Date().toISOString();
+    let retained: RetainedText[] = [];
+
+    for (const step of transaction.steps) {
+        const retainedMap = createRetainedMap(retained);
+
+        if (!(step instanceof ReplaceStep)) {
+            const mappedStep = step.map(new Mapping([retainedMap]));
+            if (mappedStep) {
+                tracked.maybeStep(mappedStep);
+            }
+
+            retained = retained.map(([position, size]) => [
+                step.getMap().mapResult(position, -1).pos,
+                size,
+            ]);
+            continue;
+        }
+
+        const { from, to, slice } = step;
+        const start = retainedMap.mapResult(from, -1).pos;
+        const end = retainedMap.mapResult(to, -1).pos;
+        const retainedSize = suggestDeletion(tracked, start, end, author, date);
+
+        if (slice.size > 0) {
+            suggestInsertion(
+                tracked,
+                start + retainedSize,
+                slice,
+                author,
+                date
+            );
+        }
+
+        retained = [
+            ...retained.filter(([position]) => position < from),
+            ...(retainedSize > 0 ? [[from, retainedSize] as RetainedText] : []),
+            ...retained
+                .filter(([position]) => position >= to)
+                .map(
+                    ([position, size]): RetainedText => [
+                        position - (to - from) + slice.size,
+                        size,
+                    ]
+                ),
+        ];
+    }
+
+    copyTransactionState(transaction, tracked, state, retained);
+
+    return tracked;
+}
+
+function shouldTrack(transaction: Transaction): boolean {
+    return (
+        transaction.docChanged &&
+        !transaction.getMeta(SKIP_TRACKING) &&
+        // Input methods expect their text to be left as it is
+        !transaction.getMeta('composition') &&
+        // Changes of other users are tracked by their own editors
+        !transaction.getMeta(ySyncPluginKey)?.isChangeOrigin
+    );
+}
+
+function createRetainedMap(retained: RetainedText[]): StepMap {
+    const ranges = [...retained]
+        .sort(([a], [b]) => a - b)
+        .flatMap(([position, size]) => [position, 0, size]);
+
+    return new StepMap(ranges);
+}
+
+/**
+ * Marks the inline content in a range as deleted, except for content
+ * that the author has suggested to insert, which is removed.
+ * A range without inline content has nothing to mark, and is deleted.
+ *
+ * @param tr - the tracked transaction
+ * @param from - start of the range in the tracked document
+ * @param to - end of the range in the tracked document
+ * @param author - the name of the user
+ * @param date - when the change was made
+ * @returns the size of the content that is kept
+ */
+function suggestDeletion(
+    tr: Transaction,
+    from: number,
+    to: number,
+    author: string,
+    date: string
+): number {
+    if (from >= to) {
+        return 0;
+    }
+
+    if (!hasInlineContent(tr.doc, from, to)) {
+        tr.delete(from, to);
+
+        return 0;
+    }
+
+    const { marks } = tr.doc.type.schema;
+    const deletion = marks[DELETION_MARK_NAME];
+    const insertion = marks[INSERTION_MARK_NAME];
+    const attrs: ChangeMarkAttrs = findAdjacentChange(
+        tr.doc,
+        from,
+        to,
+        deletion,
+        author
+    ) ?? { id: createRandomString(), author: author, date: date };
+
+    const removed: Array<[number, number]> = [];
+    tr.doc.nodesBetween(from, to, (node, position, parent) => {
+        if (!node.isInline) {
+            return true;
+        }
+
+        const start = Math.max(position, from);
+        const end = Math.min(position + node.nodeSize, to);
+
+        if (
+            isSuggestedBy(node, insertion, author) ||
+            !parent.type.allowsMarkType(deletion)
+        ) {
+            removed.push([start, end]);
+        } else if (!deletion.isInSet(node.marks)) {
+            tr.addMark(start, end, deletion.create(attrs));
+        }
+
+        return false;
+    });
+
+    let removedSize = 0;
+    for (const [start, end] of removed.reverse()) {
+        tr.delete(start, end);
+        removedSize += end - start;
+    }
+
+    return to - from - removedSize;
+}
+
+function hasInlineContent(doc: Node, from: number, to: number): boolean {
+    let found = false;
+    doc.nodesBetween(from, to, (node) => {
+        found ||= node.isInline;
+
+        return !found;
+    });
+
+    return found;
+}
+
+/**
+ * Inserts content and marks it as inserted
+ *
+ * @param tr - the tracked transaction
+ * @param position - where to insert the content in the tracked document
+ * @param slice - the content to insert
+ * @param author - the name of the user
+ * @param date - when the change was made
+ */
+function suggestInsertion(
+    tr: Transaction,
+    position: number,
+    slice: Slice,
+    author: string,
+    date: string
+) {
+    const { marks } = tr.doc.type.schema;
+    const deletion = marks[DELETION_MARK_NAME];
+    const insertion = marks[INSERTION_MARK_NAME];
+    const attrs: ChangeMarkAttrs = findAdjacentChange(
+        tr.doc,
+        position,
+        position,
+        insertion,
+        author
+    ) ?? { id: createRandomString(), author: author, date: date };
+
+    const stepCount = tr.steps.length;
+    tr.replace(position, position, slice);
+    if (tr.steps.length === stepCount) {
+        return;
+    }
+
+    // eslint-disable-next-line unicorn/no-array-for-each
+    tr.steps[stepCount].getMap().forEach((_start, _end, newStart, newEnd) => {
+        tr.removeMark(newStart, newEnd, deletion);
+        tr.addMark(newStart, newEnd, insertion.create(attrs));
+    });
+}
+
+/**
+ * Finds a change of the same type and author right next to a range,
+ * so that typing or deleting one character at a time gives one change
+ *
+ * @param doc - the document
+ * @param from - start of the range
+ * @param to - end of the range
+ * @param type - the type of mark of the change
+ * @param author - the name of the user
+ * @returns the attributes of the change, if there is one
+ */
+function findAdjacentChange(
+    doc: Node,
+    from: number,
+    to: number,
+    type: MarkType,
+    author: string
+): ChangeMarkAttrs | undefined {
+    const adjacentNodes = [
+        doc.resolve(from).nodeBefore,
+        doc.resolve(to).nodeAfter,
+    ];
+
+    for (const node of adjacentNodes) {
+        const mark = findSuggestion(node, type, author);
+        if (mark) {
+            return mark.attrs as ChangeMarkAttrs;
+        }
+    }
+}
+
+function isSuggestedBy(node: Node, type: MarkType, author: string) {
+    return !!findSuggestion(node, type, author);
+}
+
+function findSuggestion(
+    node: Node | null,
+    type: MarkType,
+    author: string
+): Mark | undefined {
+    return node?.marks.find(
+        (mark) => mark.type === type && mark.attrs.author === author
+    );
+}
+
+/**
+ * Gives the tracked transaction the selection, stored marks and meta data
+ * of the original transaction
+ *
+ * @param transaction - the original transaction
+ * @param tracked - the tracked transaction
+ * @param state - the state that the transactions were created for
+ * @param retained - the deleted text that has been kept
+ */
+function copyTransactionState(
+    transaction: Transaction,
+    tracked: Transaction,
+    state: EditorState,
+    retained: RetainedText[]
+) {
+    if (transaction.selectionSet) {
+        const retainedMap = createRetainedMap(retained);
+        const { selection } = transaction;
+
+        if (selection instanceof TextSelection) {
+            // A cursor that stays, like after pressing Delete, moves past
+            // the deleted text, and a cursor that moves back, like after
+            // pressing Backspace, stays in front of it
+            const assoc = selection.head === state.selection.head ? 1 : -1;
+            tracked.setSelection(
+                TextSelection.create(
+                    tracked.doc,
+                    retainedMap.mapResult(selection.anchor, assoc).pos,
+                    retainedMap.mapResult(selection.head, assoc).pos
+                )
+            );
+        } else {
+            tracked.setSelection(
+                // eslint-disable-next-line unicorn/no-array-method-this-argument
+                selection.map(tracked.doc, new Mapping([retainedMap]))
+            );
+        }
+    }
+
+    if (transaction.storedMarksSet) {
+        tracked.setStoredMarks(transaction.storedMarks);
+    }
+
+    if (transaction.scrolledIntoView) {
+        tracked.scrollIntoView();
+    }
+
+    for (const key of KEPT_META) {
+        const value = transaction.getMeta(key);
+        if (value !== undefined) {
+            tracked.setMeta(key, value);
+        }
+    }
+}
@@ -57,7 +57,7 @@ export const createTriggerPlugin = (
                 return {};
             },
             apply: (transaction: Transaction) => {
-                if (transaction.getMeta('stopTrigger')) {
+                if (transaction.getMeta('stopTrigger') && activeTrigger) {
                     sendTriggerEvent(
                         'triggerStop',
                         pluginView,
@@ -4,6 +4,7 @@ import {
     Event,
     EventEmitter,
     Host,
+    Method,
     Prop,
     State,
     Watch,
@@ -11,13 +12,16 @@ import {
 } from '@stencil/core';
 import { EditorState, Transaction, Selection } from 'prosemirror-state';
 import { EditorView } from 'prosemirror-view';
-import { Schema, DOMParser } from 'prosemirror-model';
+import { Schema, DOMParser, Node } from 'prosemirror-model';
 import { schema } from 'prosemirror-schema-basic';
 import { addListNodes } from 'prosemirror-schema-list';
 import { exampleSetup } from 'prosemirror-example-setup';
 import { keymap } from 'prosemirror-keymap';
 import { ActionBarItem } from '../../../components/action-bar/action-bar.types';
-import { ListSeparator } from '../../../components/list-item/list-item.types';
+import {
+    ListItem,
+    ListSeparator,
+} from '../../../components/list-item/list-item.types';
 import { MenuCommandFactory } from './menu/menu-commands';
 import { menuTranslationIDs, getTextEditorMenuItems } from './menu/menu-items';
 import { ContentTypeConverter } from '../utils/content-type-converter';
@@ -31,7 +35,7 @@ import {
 import translate from '../../../global/translations';
 import { createRandomString } from '../../../util/random-string';
 import { isItem } from '../../action-bar/is-item';
-import { cloneDeep, debounce } from 'lodash-es';
+import { cloneDeep, debounce, isEqual } from 'lodash-es';
 import { Languages } from '../../date-picker/date.types';
 import { strikethrough } from './menu/menu-schema-extender';
 import { createLinkPlugin } from './plugins/link/link-plugin';
@@ -49,16 +53,82 @@ import {
     EditorImage,
     EditorMetadata,
     EditorLink,
+    EditorCollaboration,
+    TriggerSearchers,
+    TriggerEventDetail,
+    TextEditor,
+    EditorSlashCommand,
+    EditorSlashCommandEventDetail,
+    EditorComment,
+    EditorHistory,
 } from '../text-editor.types';
-import { getTableNodes, getTableEditingPlugins } from './plugins/table-plugin';
+import {
+    getTableNodes,
+    getTableEditingPlugins,
+} from './plugins/table/table-plugin';
+import {
+    TableToolbarTypes,
+    getCellBackground,
+    getTableCommand,
+    getTableToolbarItems,
+    setCellBackground,
+} from './plugins/table/table-toolbar';
 import { getImageNode, imageCache } from './plugins/image/node';
 import { EditorUiType } from '../types';
 import {
     getMetadataFromDoc,
     hasMetadataChanged,
 } from '../utils/metadata-utils';
+import { CollaborationSession } from './plugins/collaboration/session';
+import { createCollaborationPlugins } from './plugins/collaboration/collaboration-plugin';
+import {
+    createHistoryPlugins,
+    getHistory,
+    restoreHistory,
+} from './plugins/history/history-plugin';
+import { getMentionNode } from './plugins/mention/node';
+import {
+    getInsertedNode,
+    getNextIndex,
+    getPickerItems,
+} from './plugins/mention/picker';
+import {
+    SlashCommandValue,
+    getSlashCommandItems,
+    isBuiltInSlashCommand,
+} from './menu/slash-commands';
+import { Searcher } from '../../picker/searcher.types';
+import { getTrackChangesMarks } from './plugins/track-changes/marks';
+import {
+    getTrackedTransaction,
+    skipTracking,
+} from './plugins/track-changes/track-transaction';
+import { resolveChange } from './plugins/track-changes/review';
+import { getCommentMark } from './plugins/comments/mark';
+import {
+    addCommentThread,
+    removeCommentThread,
+    replyToCommentThread,
+} from './plugins/comments/threads';
+import {
+    ARROW_DOWN,
+    ARROW_UP,
+    ENTER,
+    ESCAPE,
+    TAB,
+} from '../../../util/keycodes';
 
 const DEBOUNCE_TIMEOUT = 300;
+const SLASH_COMMAND_TRIGGER: TriggerCharacter = '/';
+
+interface TriggerPicker {
+    trigger: TriggerCharacter;
+    textEditor: TextEditor;
+    position: number;
+    query: string;
+    left: number;
+    top: number;
+}
 
 /**
  * The ProseMirror adapter offers a rich text editing experience with markdown support.
@@ -122,12 +192,70 @@ export class ProsemirrorAdapter {
     @Prop()
     triggerCharacters: TriggerCharacter[] = [];
 
+    /**
+     * Searchers for the items to pick from after a trigger character
+     *
+     * @private
+     * @alpha
+     */
+    @Prop()
+    triggerSearchers: TriggerSearchers = {};
+
+    /**
+     * Set to `true` to show a menu of commands when `/` is typed
+     *
+     * @private
+     * @alpha
+     */
+    @Prop()
+    slashCommands: boolean = false;
+
+    /**
+     * Commands of the consumer to add to the slash-command menu
+     *
+     * @private
+     * @alpha
+     */
+    @Prop()
+    customSlashCommands: EditorSlashCommand[] = [];
+
+    /**
+     * Set to `true` to suggest changes instead of making them
+     *
+     * @private
+     * @alpha
+     */
+    @Prop()
+    public suggesting: boolean = false;
+
+    /**
+     * The name of the user, which is recorded with suggested changes
+     * and comments
+     *
+     * @private
+     * @alpha
+     */
+    @Prop()
+    public author?: string;
+
     /**
      * Specifies the visual appearance of the editor.
      */
     @Prop()
     public ui: EditorUiType = 'standard';
 
+    /**
+     * Lets several users edit the same document at the same time.
+     * The content is then kept in the shared document, and `value`
+     * is only used to fill the document if nobody has written
+     * anything in it yet.
+     *
+     * @private
+     * @alpha
+     */
+    @Prop()
+    public collaboration?: EditorCollaboration;
+
     @Element()
     private host: HTMLLimelTextEditorElement;
 
@@ -150,6 +278,38 @@ export class ProsemirrorAdapter {
     @State()
     public isLinkMenuOpen: boolean = false;
 
+    /**
+     * The picker that is open after a trigger character
+     * with a searcher has been typed
+     */
+    @State()
+    private triggerPicker: TriggerPicker;
+
+    /**
+     * The items of the picker, or `undefined` until the first search
+     * has finished
+     */
+    @State()
+    private triggerPickerItems: ListItem[];
+
+    @State()
+    private triggerPickerIndex = -1;
+
+    /**
+     * The items of the table toolbar, which is shown
+     * when the cursor is in a table
+     */
+    @State()
+    private tableToolbarItems: Array<
+        ActionBarItem<TableToolbarTypes> | ListSeparator
+    > = [];
+
+    @State()
+    private tableCellBackground: string;
+
+    @State()
+    private isTableBackgroundOpen = false;
+
     private menuCommandFactory: MenuCommandFactory;
     private schema: Schema;
     private contentConverter: ContentTypeConverter;
@@ -158,7 +318,26 @@ export class ProsemirrorAdapter {
     private changeWaiting = false;
     private transactionFired = false;
     private lastClickedPos: number | null = null;
-    private metadata: EditorMetadata = { images: [], links: [] };
+    private metadata: EditorMetadata = {
+        images: [],
+        links: [],
+        mentions: [],
+        changes: [],
+        comments: [],
+    };
+    private session: CollaborationSession;
+
+    /**
+     * Increased when the editor is created or destroyed,
+     * so that an editor that is still being created can tell
+     * that it is no longer wanted
+     */
+    private editorVersion = 0;
+
+    /**
+     * The state of the editor when the last `change` event was emitted
+     */
+    private emittedState: EditorState;
 
     /**
      *  Used to stop change event emitting as result of getting updated value from consumer
@@ -198,6 +377,15 @@ export class ProsemirrorAdapter {
     @Event()
     private metadataChange: EventEmitter<EditorMetadata>;
 
+    /**
+     * Dispatched when one of the `customSlashCommands` is picked
+     *
+     * @private
+     * @alpha
+     */
+    @Event()
+    private slashCommand: EventEmitter<EditorSlashCommandEventDetail>;
+
     constructor() {
         this.portalId = createRandomString();
     }
@@ -208,6 +396,11 @@ export class ProsemirrorAdapter {
             return;
         }
 
+        if (this.session) {
+            // The content comes from the shared document
+            return;
+        }
+
         if (this.changeWaiting) {
             // A change is pending; do not update the editor's content
             return;
@@ -227,6 +420,148 @@ export class ProsemirrorAdapter {
         this.updateView(newValue);
     }
 
+    /**
+     * Accept a suggested change
+     *
+     * @param id - the id of the change
+     * @returns does not return anything, but methods have to be async
+     */
+    @Method()
+    public async acceptChange(id: string) {
+        if (this.view) {
+            this.dispatchTransaction(resolveChange(this.view.state, id, true));
+        }
+    }
+
+    /**
+     * Reject a suggested change
+     *
+     * @param id - the id of the change
+     * @returns does not return anything, but methods have to be async
+     */
+    @Method()
+    public async rejectChange(id: string) {
+        if (this.view) {
+            this.dispatchTransaction(resolveChange(this.view.state, id, false));
+        }
+    }
+
+    /**
+     * Start a comment thread on the selected text
+     *
+     * @param text - the text of the first comment
+     * @returns the id of the thread, or `undefined` if no text is selected
+     */
+    @Method()
+    public async addComment(text: string): Promise<string> {
+        if (!this.view) {
+            return;
+        }
+
+        const result = addCommentThread(
+            this.view.state,
+            this.createComment(text)
+        );
+        this.dispatchTransaction(result?.tr);
+
+        return result?.id;
+    }
+
+    /**
+     * Add a comment to a comment thread
+     *
+     * @param id - the id of the thread
+     * @param text - the text of the comment
+     * @returns does not return anything, but methods have to be async
+     */
+    @Method()
+    public async replyToComment(id: string, text: string) {
+        if (this.view) {
+            this.dispatchTransaction(
+                replyToCommentThread(
+                    this.view.state,
+                    id,
+                    this.createComment(text)
+                )
+            );
+        }
+    }
+
+    /**
+     * Remove a comment thread, leaving the text it was anchored to
+     *
+     * @param id - the id of the thread
+     * @returns does not return anything, but methods have to be async
+     */
+    @Method()
+    public async removeComment(id: string) {
+        if (this.view) {
+            this.dispatchTransaction(removeCommentThread(this.view.state, id));
+        }
+    }
+
+    /**
+     * Get the undo history that leads to the content
+     * of the last `change` event
+     *
+     * @returns the history, or `undefined` when collaborating,
+     * since the history is then kept by the shared document
+     * @alpha
+     */
+    @Method()
+    public async getHistory(): Promise<EditorHistory> {
+        const state = this.emittedState ?? this.view?.state;
+        if (state) {
+            return getHistory(state);
+        }
+    }
+
+    /**
+     * Replace the content with the content of an undo history,
+     * so that the changes in the history can be undone.
+     * The content is emitted with the `change` event.
+     *
+     * @param history - the history, from `getHistory`
+     * @param value - the content that the history should lead to
+     * @returns `false` if the history could not be restored,
+     * because it does not lead to `value`
+     * @alpha
+     */
+    @Method()
+    public async restoreHistory(
+        history: EditorHistory,
+        value: string
+    ): Promise<boolean> {
+        if (!this.view || this.session) {
+            return false;
+        }
+
+        const state = this.view.state;
+        this.view.updateState(restoreHistory(history, state));
+        if (this.contentConverter.serialize(this.view, this.schema) !== value) {
+            this.view.updateState(state);
+
+            return false;
+        }
+
+        this.updateTableToolbar(this.view.state);
+        this.emitChange();
+        this.changeEmitter.flush();
+
+        return true;
+    }
+
+    @Watch('collaboration')
+    protected watchCollaboration() {
+        if (this.editorVersion === 0) {
+            // The editor has not been created yet
+            return;
+        }
+
+        this.destroyEditor();
+        this.initializeTextEditor();
+    }
+
     public componentWillLoad() {
         this.getActionBarItems();
         this.setupContentConverter();
@@ -242,7 +577,7 @@ export class ProsemirrorAdapter {
     }
 
     public connectedCallback() {
-        if (this.view) {
+        if (this.editorVersion > 0) {
             this.initializeTextEditor();
         }
 
@@ -250,6 +585,12 @@ export class ProsemirrorAdapter {
             'open-editor-link-menu',
             this.handleOpenLinkMenu
         );
+        this.host.addEventListener('triggerStart', this.handleTriggerStart);
+        this.host.addEventListener('triggerChange', this.handleTriggerChange);
+        this.host.addEventListener('triggerStop', this.handleTriggerStop);
+        this.host.addEventListener('keydown', this.handleTriggerPickerKey, {
+            capture: true,
+        });
     }
 
     public disconnectedCallback() {
@@ -259,9 +600,16 @@ export class ProsemirrorAdapter {
             'open-editor-link-menu',
             this.handleOpenLinkMenu
         );
-        this.view?.dom?.removeEventListener('blur', this.handleBlur);
-        this.view?.dom?.removeEventListener('mousedown', this.handleMouseDown);
-        this.view?.destroy();
+        this.host.removeEventListener('triggerStart', this.handleTriggerStart);
+        this.host.removeEventListener(
+            'triggerChange',
+            this.handleTriggerChange
+        );
+        this.host.removeEventListener('triggerStop', this.handleTriggerStop);
+        this.host.removeEventListener('keydown', this.handleTriggerPickerKey, {
+            capture: true,
+        });
+        this.destroyEditor();
     }
 
     public render() {
@@ -269,7 +617,9 @@ export class ProsemirrorAdapter {
             <Host onFocus={this.handleFocus}>
                 <div id="editor" />
                 {this.renderToolbar()}
+                {this.renderTableToolbar()}
                 {this.renderLinkMenu()}
+                {this.renderTriggerPicker()}
             </Host>
         );
     }
@@ -291,6 +641,45 @@ export class ProsemirrorAdapter {
         );
     }
 
+    renderTableToolbar() {
+        if (this.tableToolbarItems.length === 0) {
+            return;
+        }
+
+        return (
+            <div class="table-toolbar" onMouseDown={this.preventBlur}>
+                <limel-action-bar
+                    accessibleLabel={translate.get(
+                        'editor-table.toolbar',
+                        this.language
+                    )}
+                    actions={this.tableToolbarItems}
+                    onItemSelected={this.handleTableToolbarItem}
+                />
+                <limel-popover
+                    open={this.isTableBackgroundOpen}
+                    openDirection="bottom-end"
+                    onClose={this.handleCloseTableBackground}
+                >
+                    <limel-icon-button
+                        slot="trigger"
+                        icon="fill_color"
+                        label={translate.get(
+                            'editor-table.cell-background',
+                            this.language
+                        )}
+                        onClick={this.handleOpenTableBackground}
+                    />
+                    <limel-color-picker-palette
+                        value={this.tableCellBackground}
+                        manualInput={false}
+                        onChange={this.handleTableBackgroundChange}
+                    />
+                </limel-popover>
+            </div>
+        );
+    }
+
     renderLinkMenu() {
         if (!this.isLinkMenuOpen) {
             return;
@@ -315,6 +704,63 @@ export class ProsemirrorAdapter {
         );
     }
 
+    renderTriggerPicker() {
+        if (!this.triggerPicker || !this.triggerPickerItems) {
+            return;
+        }
+
+        const { left, top } = this.triggerPicker;
+
+        return (
+            <limel-portal
+                class="trigger-picker"
+                style={{ left: `${left}px`, top: `${top}px` }}
+                containerId={`${this.portalId}-trigger-picker`}
+                visible={true}
+                openDirection="bottom-start"
+            >
+                <limel-menu-surface
+                    open={true}
+                    allowClicksElement={this.host}
+                    onMouseDown={this.preventBlur}
+                    onDismiss={this.stopTrigger}
+                >
+                    {this.renderTriggerPickerContent()}
+                </limel-menu-surface>
+            </limel-portal>
+        );
+    }
+
+    private renderTriggerPickerContent() {
+        let items: ListItem[] = this.triggerPickerItems.map((item, index) => ({
+            ...item,
+            selected: index === this.triggerPickerIndex,
+        }));
+
+        // The picker is moved out of the editor by the portal, where
+        // the styles of the editor do not reach, so the message is
+        // displayed as a list item, styled by the list
+        if (items.length === 0) {
+            items = [
+                {
+                    text: translate.get(
+                        'editor-trigger-picker.no-results',
+                        this.language
+                    ),
+                    disabled: true,
+                },
+            ];
+        }
+
+        return (
+            <limel-list
+                type="selectable"
+                items={items}
+                onInteract={this.handleTriggerPickerInteract}
+            />
+        );
+    }
+
     private setupContentConverter() {
         if (this.contentType === 'markdown') {
             this.contentConverter = new MarkdownConverter(
@@ -351,9 +797,21 @@ export class ProsemirrorAdapter {
     };
 
     private async initializeTextEditor() {
+        const version = ++this.editorVersion;
         this.schema = this.initializeSchema();
-        const initialDoc = await this.parseInitialContent();
+        let initialDoc = await this.parseInitialContent();
         this.menuCommandFactory = new MenuCommandFactory(this.schema);
+
+        if (this.collaboration && version === this.editorVersion) {
+            initialDoc = await this.connectCollaboration(initialDoc);
+        }
+
+        if (version !== this.editorVersion) {
+            // The editor was destroyed, or created again,
+            // while it was being created
+            return;
+        }
+
         this.view = new EditorView(
             this.host.shadowRoot.querySelector('#editor'),
             {
@@ -365,7 +823,7 @@ export class ProsemirrorAdapter {
         this.view.dom.addEventListener('blur', this.handleBlur);
         this.view.dom.addEventListener('mousedown', this.handleMouseDown);
 
-        if (this.value) {
+        if (this.value && !this.session) {
             this.updateView(this.value);
         }
 
@@ -376,6 +834,41 @@ export class ProsemirrorAdapter {
         );
     }
 
+    private async connectCollaboration(initialDoc: Node) {
+        const session = new CollaborationSession(this.collaboration);
+        this.session = session;
+
+        try {
+            await session.connect();
+        } catch (error) {
+            console.error('Failed to connect to the other users', error);
+            if (session === this.session) {
+                // Let the user keep editing on their own
+                session.destroy();
+                this.session = undefined;
+            }
+
+            return initialDoc;
+        }
+
+        if (session !== this.session) {
+            // The session was destroyed while it was connecting
+            return initialDoc;
+        }
+
+        return session.initializeDocument(initialDoc);
+    }
+
+    private destroyEditor() {
+        this.editorVersion++;
+        this.view?.dom?.removeEventListener('blur', this.handleBlur);
+        this.view?.dom?.removeEventListener('mousedown', this.handleMouseDown);
+        this.view?.destroy();
+        this.session?.destroy();
+        this.session = undefined;
+        this.emittedState = undefined;
+    }
+
     private initializeSchema() {
         let nodes = schema.spec.nodes;
 
@@ -386,18 +879,17 @@ export class ProsemirrorAdapter {
             nodes = nodes.append({ [nodeName]: newNodeSpec });
         }
         nodes = addListNodes(nodes, 'paragraph block*', 'block');
-
-        if (this.contentType === 'html') {
-            nodes = nodes.append(getTableNodes());
-        }
-
+        nodes = nodes.append(getTableNodes());
         nodes = nodes.append(getImageNode(this.language));
+        nodes = nodes.append(getMentionNode());
 
         return new Schema({
             nodes: nodes,
             marks: schema.spec.marks.append({
                 strikethrough: strikethrough,
                 link: linkMarkSpec,
+                ...getTrackChangesMarks(),
+                ...getCommentMark(),
             }),
         });
     }
@@ -422,10 +914,16 @@ export class ProsemirrorAdapter {
         return EditorState.create({
             doc: initialDoc,
             plugins: [
-                ...exampleSetup({ schema: this.schema, menuBar: false }),
+                ...this.getCollaborationPlugins(),
+                ...this.getHistoryPlugins(),
+                ...exampleSetup({
+                    schema: this.schema,
+                    menuBar: false,
+                    history: false,
+                }),
                 keymap(this.menuCommandFactory.buildKeymap()),
                 createTriggerPlugin(
-                    this.triggerCharacters,
+                    this.getTriggerCharacters(),
                     this.contentConverter
                 ),
                 createLinkPlugin(this.handleNewLinkSelection),
@@ -437,11 +935,40 @@ export class ProsemirrorAdapter {
                     this.updateActiveActionBarItems
                 ),
                 createActionBarInteractionPlugin(this.menuCommandFactory),
-                ...getTableEditingPlugins(this.contentType === 'html'),
+                ...getTableEditingPlugins(),
             ],
         });
     }
 
+    private getTriggerCharacters() {
+        const searcherTriggers = Object.keys(
+            this.triggerSearchers ?? {}
+        ) as TriggerCharacter[];
+        if (this.slashCommands) {
+            searcherTriggers.push(SLASH_COMMAND_TRIGGER);
+        }
+
+        return [...new Set([...this.triggerCharacters, ...searcherTriggers])];
+    }
+
+    private getCollaborationPlugins() {
+        if (!this.session) {
+            return [];
+        }
+
+        return createCollaborationPlugins(this.session);
+    }
+
+    private getHistoryPlugins() {
+        if (this.session) {
+            // Undo and redo are handled by the collaboration plugins,
+            // so that each user only undoes their own changes
+            return [];
+        }
+
+        return createHistoryPlugins();
+    }
+
     private updateActiveActionBarItems = (
         activeTypes: Record<EditorMenuTypes, boolean>,
         allowedTypes: Record<EditorMenuTypes, boolean>
@@ -475,7 +1002,7 @@ export class ProsemirrorAdapter {
         const domParser = new window.DOMParser();
         const doc = domParser.parseFromString(html, 'text/html');
         const prosemirrorDoc = prosemirrorDOMparser.parse(doc.body);
-        const tr = this.view.state.tr;
+        const tr = skipTracking(this.view.state.tr);
         tr.replaceWith(0, tr.doc.content.size, prosemirrorDoc.content);
         this.view.dispatch(tr);
 
@@ -487,26 +1014,66 @@ export class ProsemirrorAdapter {
 
     private handleTransaction = (transaction: Transaction) => {
         this.transactionFired = true;
+        if (this.suggesting) {
+            transaction = getTrackedTransaction(
+                transaction,
+                this.view.state,
+                this.getAuthor()
+            );
+        }
+
         const newState = this.view.state.apply(transaction);
         this.view.updateState(newState);
+        this.updateTableToolbar(newState);
 
         if (this.suppressChangeEvent || transaction.getMeta('pointer')) {
             return;
         }
 
+        this.emitChange();
+    };
+
+    private emitChange() {
         const content = this.contentConverter.serialize(this.view, this.schema);
 
         if (content === this.lastEmittedValue) {
             return;
         }
 
-        const metadata = getMetadataFromDoc(newState.doc);
+        const metadata = getMetadataFromDoc(this.view.state.doc);
         this.metadataEmitter(metadata);
 
         this.lastEmittedValue = content;
         this.changeWaiting = true;
         this.changeEmitter(content);
-    };
+    }
+
+    private updateTableToolbar(state: EditorState) {
+        const items = getTableToolbarItems(state, this.language);
+        if (!isEqual(items, this.tableToolbarItems)) {
+            this.tableToolbarItems = items;
+        }
+
+        this.tableCellBackground = getCellBackground(state);
+    }
+
+    private dispatchTransaction(transaction?: Transaction) {
+        if (transaction) {
+            this.view.dispatch(transaction);
+        }
+    }
+
+    private getAuthor() {
+        return this.author ?? this.collaboration?.user.name ?? '';
+    }
+
+    private createComment(text: string): EditorComment {
+        return {
+            author: this.getAuthor(),
+            date: new Date().toISOString(),
+            text: text,
+        };
+    }
 
     private metadataEmitter(metadata: EditorMetadata) {
         if (hasMetadataChanged(this.metadata, metadata)) {
@@ -552,6 +1119,33 @@ export class ProsemirrorAdapter {
         this.view.dom.dispatchEvent(actionBarEvent);
     };
 
+    private handleTableToolbarItem = (
+        event: CustomEvent<ActionBarItem<TableToolbarTypes>>
+    ) => {
+        event.stopPropagation();
+        const command = getTableCommand(event.detail.value);
+
+        command(this.view.state, this.view.dispatch);
+        this.view.focus();
+    };
+
+    private handleOpenTableBackground = (event: MouseEvent) => {
+        event.stopPropagation();
+        this.isTableBackgroundOpen = true;
+    };
+
+    private handleCloseTableBackground = (event: CustomEvent<void>) => {
+        event.stopPropagation();
+        this.isTableBackgroundOpen = false;
+    };
+
+    private handleTableBackgroundChange = (event: CustomEvent<string>) => {
+        event.stopPropagation();
+        setCellBackground(event.detail)(this.view.state, this.view.dispatch);
+        this.isTableBackgroundOpen = false;
+        this.view.focus();
+    };
+
     private handleCancelLinkMenu = (event: CustomEvent<void>) => {
         event.preventDefault();
         event.stopPropagation();
@@ -619,12 +1213,191 @@ export class ProsemirrorAdapter {
         this.lastClickedPos = result?.pos ?? null;
     };
 
+    private handleTriggerStart = (event: CustomEvent<TriggerEventDetail>) => {
+        const { trigger, textEditor } = event.detail;
+        if (!this.getTriggerSearcher(trigger)) {
+            return;
+        }
+
+        // The trigger character has not been inserted yet,
+        // so the cursor is where it will be
+        const position = this.view.state.selection.from;
+        const coords = this.view.coordsAtPos(position);
+        const hostRect = this.host.getBoundingClientRect();
+
+        this.triggerPicker = {
+            trigger: trigger,
+            textEditor: textEditor,
+            position: position,
+            query: '',
+            left: coords.left - hostRect.left,
+            top: coords.bottom - hostRect.top,
+        };
+        this.triggerPickerItems = undefined;
+        this.triggerPickerIndex = -1;
+        this.searchTriggerPicker('');
+        this.searchTriggerPicker.flush();
+    };
+
+    private handleTriggerChange = (event: CustomEvent<TriggerEventDetail>) => {
+        const query = event.detail.value;
+        if (!this.triggerPicker || query === this.triggerPicker.query) {
+            return;
+        }
+
+        this.triggerPicker = { ...this.triggerPicker, query: query };
+        this.searchTriggerPicker(query);
+
+        if (this.isSlashCommandPicker()) {
+            // The commands are filtered right away, without a search
+            this.searchTriggerPicker.flush();
+        }
+    };
+
+    private handleTriggerStop = () => {
+        this.searchTriggerPicker.cancel();
+        this.triggerPicker = undefined;
+        this.triggerPickerItems = undefined;
+    };
+
+    private searchTriggerPicker = debounce(async (query: string) => {
+        const searcher = this.getTriggerSearcher(this.triggerPicker.trigger);
+        let result: Array<ListItem | ListSeparator>;
+        try {
+            result = await searcher(query);
+        } catch (error) {
+            console.error('Failed to search:', error);
+            result = [];
+        }
+
+        if (this.triggerPicker?.query !== query) {
+            return;
+        }
+
+        this.triggerPickerItems = getPickerItems(result);
+        this.triggerPickerIndex = getNextIndex(this.triggerPickerItems, -1, 1);
+    }, DEBOUNCE_TIMEOUT);
+
+    private getTriggerSearcher(trigger: TriggerCharacter): Searcher {
+        if (trigger === SLASH_COMMAND_TRIGGER && this.slashCommands) {
+            return this.searchSlashCommands;
+        }
+
+        return this.triggerSearchers?.[trigger];
+    }
+
+    private searchSlashCommands = async (query: string) => {
+        return getSlashCommandItems(
+            query,
+            this.language,
+            this.isMenuCommandAllowed,
+            this.customSlashCommands
+        );
+    };
+
+    private isMenuCommandAllowed = (type: EditorMenuTypes) => {
+        const command = this.menuCommandFactory.getCommand(type);
+
+        return command.allowed?.(this.view.state) ?? true;
+    };
+
+    private isSlashCommandPicker() {
+        return (
+            this.slashCommands &&
+            this.triggerPicker?.trigger === SLASH_COMMAND_TRIGGER
+        );
+    }
+
+    private handleTriggerPickerKey = (event: KeyboardEvent) => {
+        if (!this.triggerPicker) {
+            return;
+        }
+
+        if (event.key === ESCAPE) {
+            this.cancelKeyEvent(event);
+            this.stopTrigger();
+
+            return;
+        }
+
+        const item = this.triggerPickerItems?.[this.triggerPickerIndex];
+        if (!item) {
+            return;
+        }
+
+        if (event.key === ARROW_DOWN || event.key === ARROW_UP) {
+            this.cancelKeyEvent(event);
+            this.triggerPickerIndex = getNextIndex(
+                this.triggerPickerItems,
+                this.triggerPickerIndex,
+                event.key === ARROW_DOWN ? 1 : -1
+            );
+        } else if (event.key === ENTER || event.key === TAB) {
+            this.cancelKeyEvent(event);
+            this.chooseTriggerPickerItem(item);
+        }
+    };
+
+    private cancelKeyEvent(event: KeyboardEvent) {
+        event.preventDefault();
+        event.stopPropagation();
+    }
+
+    private handleTriggerPickerInteract = (event: CustomEvent<ListItem>) => {
+        event.stopPropagation();
+        this.chooseTriggerPickerItem(event.detail);
+    };
+
+    private chooseTriggerPickerItem(item: ListItem) {
+        if (this.isSlashCommandPicker()) {
+            this.runSlashCommand(item.value);
+
+            return;
+        }
+
+        const { trigger, textEditor } = this.triggerPicker;
+        textEditor.insert(getInsertedNode(item, trigger));
+        this.view.focus();
+    }
+
+    private runSlashCommand(value: SlashCommandValue) {
+        const { textEditor, position } = this.triggerPicker;
+        const { state } = this.view;
+
+        // Removing the typed command also stops the trigger
+        this.view.dispatch(state.tr.delete(position, state.selection.from));
+
+        if (isBuiltInSlashCommand(value)) {
+            // Runs the command just like the button in the toolbar
+            const actionBarEvent = new CustomEvent('actionBarItemClick', {
+                detail: { value: value },
+            });
+            this.view.dom.dispatchEvent(actionBarEvent);
+
+            return;
+        }
+
+        this.slashCommand.emit({ command: value, textEditor: textEditor });
+        this.view.focus();
+    }
+
+    private stopTrigger = () => {
+        this.triggerPicker?.textEditor.stopTrigger();
+    };
+
+    private preventBlur = (event: MouseEvent) => {
+        // Keeps the focus in the editor when an item is clicked
+        event.preventDefault();
+    };
+
     private changeEmitter = debounce((value: string) => {
+        this.emittedState = this.view.state;
         this.change.emit(value);
         this.changeWaiting = false;
     }, DEBOUNCE_TIMEOUT);
 
     private handleBlur = () => {
         this.changeEmitter.flush();
+        this.stopTrigger();
     };
 }
@@ -3,6 +3,7 @@ import { TextEditor } from './text-editor';
 import { h } from '@stencil/core';
 import { getAttributesRecursively } from '../../util/get-attributes';
 import { mapValues } from 'lodash-es';
+import { EditorDraftRecord, EditorDraftStorage } from './text-editor.types';
 
 let page: SpecPage;
 let textEditor: HTMLLimelTextEditorElement;
@@ -163,13 +164,81 @@ describe('limel-text-editor', () => {
             expect(hasLabelProp).toBe(true);
         });
     });
+
+    describe('drafts', () => {
+        let records: Map<string, EditorDraftRecord>;
+        let storage: EditorDraftStorage;
+
+        beforeEach(() => {
+            records = new Map();
+            storage = {
+                get: async (key) => records.get(key),
+                set: async (key, record) => {
+                    records.set(key, record);
+                },
+            };
+        });
+
+        test('saves the changes when the user has stopped typing', async () => {
+            await createPage({ draftKey: 'key', draftStorage: storage });
+
+            typeInAdapter('Hello');
+            typeInAdapter('Hello world');
+            await waitForStorage();
+
+            expect(records.get('key')).toBeUndefined();
+
+            page.rootInstance.saveDraft.flush();
+            await waitForStorage();
+
+            expect(records.get('key').draft.value).toBe('Hello world');
+        });
+
+        test('keeps the draft that was found until it is restored or discarded', async () => {
+            records.set('key', {
+                draft: { value: 'Draft', date: '2024-01-01' },
+                snapshots: [],
+            });
+            await createPage({
+                draftKey: 'key',
+                draftStorage: storage,
+                value: 'Saved',
+            });
+            await waitForStorage();
+            await page.waitForChanges();
+
+            typeInAdapter('Typed');
+            page.rootInstance.saveDraft.flush();
+            await waitForStorage();
+            await page.waitForChanges();
+
+            expect(records.get('key').draft.value).toBe('Draft');
+            expect(
+                textEditor.shadowRoot.querySelector('.draft-prompt')
+            ).not.toBeNull();
+        });
+    });
 });
 
+function typeInAdapter(value: string) {
+    const adapter = textEditor.shadowRoot.querySelector(
+        'limel-prosemirror-adapter'
+    );
+    adapter.getHistory = async () => undefined;
+    adapter.dispatchEvent(new CustomEvent('change', { detail: value }));
+}
+
+function waitForStorage() {
+    return new Promise((resolve) => setTimeout(resolve));
+}
+
 async function createPage(props: any = {}) {
     const {
         allowResize,
         contentType,
         disabled,
+        draftKey,
+        draftStorage,
         helperText,
         invalid,
         label,
@@ -187,6 +256,8 @@ async function createPage(props: any = {}) {
                     allowResize={allowResize}
                     contentType={contentType}
                     disabled={disabled}
+                    draftKey={draftKey}
+                    draftStorage={draftStorage}
                     helperText={helperText}
                     invalid={invalid}
                     label={label}
@@ -1,4 +1,14 @@
-import { Component, Event, EventEmitter, Host, Prop, h } from '@stencil/core';
+import {
+    Component,
+    Event,
+    EventEmitter,
+    Host,
+    Method,
+    Prop,
+    State,
+    Watch,
+    h,
+} from '@stencil/core';
 import { FormComponent } from '../form/form.types';
 import { Languages } from '../date-picker/date.types';
 import { createRandomString } from '../../util/random-string';
@@ -9,8 +19,21 @@ import {
     ImageInserter,
     EditorImage,
     EditorMetadata,
+    EditorCollaboration,
+    TriggerSearchers,
+    EditorSlashCommand,
+    EditorSlashCommandEventDetail,
+    EditorDraft,
+    EditorDraftStorage,
+    EditorSnapshot,
 } from './text-editor.types';
 import { EditorUiType } from './types';
+import { DraftStore } from './utils/draft-store';
+import { IndexedDBDraftStorage } from './utils/indexeddb-draft-storage';
+import translate from '../../global/translations';
+import { debounce } from 'lodash-es';
+
+const DRAFT_SAVE_DELAY = 1000;
 
 /**
  * A rich text editor that offers a rich text editing experience with markdown support,
@@ -33,6 +56,11 @@ import { EditorUiType } from './types';
  * @exampleComponent limel-example-text-editor-ui
  * @exampleComponent limel-example-text-editor-custom-element
  * @exampleComponent limel-example-text-editor-triggers
+ * @exampleComponent limel-example-text-editor-mentions
+ * @exampleComponent limel-example-text-editor-collaboration
+ * @exampleComponent limel-example-text-editor-slash-commands
+ * @exampleComponent limel-example-text-editor-track-changes
+ * @exampleComponent limel-example-text-editor-drafts
  * @exampleComponent limel-example-text-editor-composite
  * @beta
  */
@@ -45,6 +73,10 @@ export class TextEditor implements FormComponent<string> {
     /**
      * The type of content that the editor should handle and emit, defaults to `markdown`
      *
+     * Both types support tables. With `markdown`, tables are read and
+     * written as GitHub Flavored Markdown tables, so pasted tables
+     * are kept as tables instead of becoming paragraphs.
+     *
      * Assumed to be set only once, so not reactive to changes
      */
     @Prop()
@@ -133,6 +165,75 @@ export class TextEditor implements FormComponent<string> {
     @Prop()
     public triggers: TriggerCharacter[] = [];
 
+    /**
+     * Searchers for the items to pick from after a trigger character,
+     * for instance people to mention after `@`
+     *
+     * When a trigger character with a searcher is typed, the editor
+     * shows the results of the searcher in a list at the cursor.
+     * The items can be picked with the keyboard or the mouse,
+     * and the picked item is inserted as a chip. The inserted mentions
+     * are included in the metadata of the editor.
+     *
+     * The characters do not need to be included in `triggers`.
+     *
+     * @alpha
+     */
+    @Prop()
+    public triggerSearchers: TriggerSearchers = {};
+
+    /**
+     * Set to `true` to show a menu of commands when `/` is typed at the
+     * start of a line or after a space, like in many note-taking apps.
+     *
+     * The menu offers headings, lists, blockquotes, code blocks, tables,
+     * horizontal rules and images, followed by the `customSlashCommands`.
+     * The commands are filtered as the user types after the `/`.
+     *
+     * Picked images are emitted with the `imagePasted` event,
+     * just like pasted images.
+     *
+     * @alpha
+     */
+    @Prop()
+    public slashCommands: boolean = false;
+
+    /**
+     * Commands of your own to add to the slash-command menu,
+     * when `slashCommands` is `true`.
+     * The `slashCommand` event is emitted when one of them is picked.
+     *
+     * @alpha
+     */
+    @Prop()
+    public customSlashCommands: EditorSlashCommand[] = [];
+
+    /**
+     * Set to `true` to suggest changes instead of making them.
+     * Inserted text is then marked as inserted, and deleted text
+     * is kept and marked as deleted, until the change is accepted
+     * with `acceptChange` or rejected with `rejectChange`.
+     *
+     * Changes to the text are suggested, while formatting and changes
+     * to the structure of the document, like adding, joining or removing
+     * empty paragraphs, are made directly.
+     *
+     * The suggested changes are included in the metadata of the editor.
+     *
+     * @alpha
+     */
+    @Prop({ reflect: true })
+    public suggesting: boolean = false;
+
+    /**
+     * The name of the user, which is recorded with suggested changes
+     * and comments. Defaults to the name of the `collaboration` user.
+     *
+     * @alpha
+     */
+    @Prop()
+    public author?: string;
+
     /**
      * Set to `true` to indicate that the field is required.
      *
@@ -168,6 +269,57 @@ export class TextEditor implements FormComponent<string> {
     @Prop({ reflect: true })
     public ui?: EditorUiType = 'standard';
 
+    /**
+     * Lets several users edit the same document at the same time.
+     * Each user sees the cursors and selections of the others,
+     * along with their names, and undo and redo only affect
+     * the changes that the user has made.
+     *
+     * The editors are connected to each other by the `provider`,
+     * for instance through a server. Use `InMemoryCollaborationRoom`
+     * to connect editors on the same page, without a server.
+     *
+     * The content is kept in the shared document, and `value` is only
+     * used to fill the document if nobody has written anything in it yet.
+     * The `change` event is still emitted, also for changes made
+     * by other users.
+     *
+     * If the `provider` fails to connect, the error is logged,
+     * and the user edits `value` on their own instead.
+     *
+     * @alpha
+     */
+    @Prop()
+    public collaboration?: EditorCollaboration;
+
+    /**
+     * Set to keep drafts of the content, so that changes are not lost
+     * when the page is reloaded, or the user navigates away before the
+     * content has been saved. The key identifies the content,
+     * for instance the id of the record that is being edited.
+     *
+     * Changes are saved as a draft, together with the undo history,
+     * shortly after the user has stopped typing. When the editor is created,
+     * and there is a draft that differs from `value`, the user is asked
+     * whether to restore it. Call `discardDraft` when the content
+     * has been saved.
+     *
+     * Named snapshots of the content are also kept under the key.
+     *
+     * @alpha
+     */
+    @Prop({ reflect: true })
+    public draftKey?: string;
+
+    /**
+     * Where the drafts and snapshots are stored.
+     * Defaults to the IndexedDB of the browser.
+     *
+     * @alpha
+     */
+    @Prop()
+    public draftStorage?: EditorDraftStorage;
+
     /**
      * Dispatched when a change is made to the editor
      */
@@ -232,17 +384,215 @@ export class TextEditor implements FormComponent<string> {
     @Event()
     public triggerChange: EventEmitter<TriggerEventDetail>;
 
+    /**
+     * Dispatched when one of the `customSlashCommands` is picked.
+     * The text that was typed to find the command has then been removed,
+     * and content can be inserted in its place with the `textEditor`.
+     *
+     * @alpha
+     */
+    @Event()
+    public slashCommand: EventEmitter<EditorSlashCommandEventDetail>;
+
+    /**
+     * A draft that was found when the editor was created,
+     * which the user has not yet chosen to restore or discard
+     */
+    @State()
+    private foundDraft: EditorDraft;
+
     private readonly helperTextId: string;
     private readonly editorId: string;
+    private adapter: HTMLLimelProsemirrorAdapterElement;
+    private draftStore: DraftStore;
 
     public constructor() {
         this.helperTextId = createRandomString();
         this.editorId = createRandomString();
     }
 
+    public componentWillLoad() {
+        this.setupDraftStore();
+    }
+
+    public disconnectedCallback() {
+        this.saveDraft.flush();
+    }
+
+    @Watch('draftKey')
+    @Watch('draftStorage')
+    protected setupDraftStore() {
+        // Save any pending changes under the previous key
+        this.saveDraft.flush();
+        this.foundDraft = undefined;
+        this.draftStore = undefined;
+        if (!this.draftKey) {
+            return;
+        }
+
+        this.draftStore = new DraftStore(
+            this.draftKey,
+            this.draftStorage ?? new IndexedDBDraftStorage()
+        );
+        this.findDraft(this.draftStore);
+    }
+
+    /**
+     * Restore the draft that was found when the editor was created,
+     * together with its undo history.
+     * The content of the draft is emitted with the `change` event.
+     *
+     * @returns does not return anything, but methods have to be async
+     * @alpha
+     */
+    @Method()
+    public async restoreDraft() {
+        const draft = this.foundDraft;
+        if (!draft) {
+            return;
+        }
+
+        this.foundDraft = undefined;
+        if (!(await this.restoreHistory(draft))) {
+            this.change.emit(draft.value);
+        }
+    }
+
+    /**
+     * Remove the draft, for instance when the content has been saved.
+     * The snapshots are kept.
+     *
+     * @returns does not return anything, but methods have to be async
+     * @alpha
+     */
+    @Method()
+    public async discardDraft() {
+        this.foundDraft = undefined;
+        await this.draftStore?.discardDraft();
+    }
+
+    /**
+     * Save the current content as a named snapshot.
+     * Requires `draftKey` to be set.
+     *
+     * @param name - the name of the snapshot
+     * @returns the snapshot, or `undefined` if `draftKey` is not set
+     * @alpha
+     */
+    @Method()
+    public async createSnapshot(name: string): Promise<EditorSnapshot> {
+        return this.draftStore?.createSnapshot(name, this.value ?? '');
+    }
+
+    /**
+     * Get the snapshots of the content, oldest first.
+     * The content of a snapshot can be previewed with `limel-markdown`.
+     *
+     * @returns the snapshots
+     * @alpha
+     */
+    @Method()
+    public async getSnapshots(): Promise<EditorSnapshot[]> {
+        return (await this.draftStore?.getSnapshots()) ?? [];
+    }
+
+    /**
+     * Restore the content of a snapshot.
+     * The content is emitted with the `change` event.
+     *
+     * @param id - the id of the snapshot
+     * @returns does not return anything, but methods have to be async
+     * @alpha
+     */
+    @Method()
+    public async restoreSnapshot(id: string) {
+        const snapshot = await this.draftStore?.getSnapshot(id);
+        if (snapshot) {
+            this.change.emit(snapshot.value);
+            this.saveDraft(snapshot.value);
+        }
+    }
+
+    /**
+     * Remove a snapshot
+     *
+     * @param id - the id of the snapshot
+     * @returns does not return anything, but methods have to be async
+     * @alpha
+     */
+    @Method()
+    public async deleteSnapshot(id: string) {
+        await this.draftStore?.deleteSnapshot(id);
+    }
+
+    /**
+     * Accept a suggested change. An insertion is kept,
+     * and a deletion is removed.
+     *
+     * @param id - the id of the change, from the metadata of the editor
+     * @returns does not return anything, but methods have to be async
+     * @alpha
+     */
+    @Method()
+    public async acceptChange(id: string) {
+        await this.adapter?.acceptChange(id);
+    }
+
+    /**
+     * Reject a suggested change. An insertion is removed,
+     * and a deletion is kept.
+     *
+     * @param id - the id of the change, from the metadata of the editor
+     * @returns does not return anything, but methods have to be async
+     * @alpha
+     */
+    @Method()
+    public async rejectChange(id: string) {
+        await this.adapter?.rejectChange(id);
+    }
+
+    /**
+     * Start a comment thread on the selected text.
+     * The comment threads are included in the metadata of the editor.
+     *
+     * @param text - the text of the first comment
+     * @returns the id of the thread, or `undefined` if no text is selected
+     * @alpha
+     */
+    @Method()
+    public async addComment(text: string): Promise<string> {
+        return this.adapter?.addComment(text);
+    }
+
+    /**
+     * Add a comment to a comment thread
+     *
+     * @param id - the id of the thread, from the metadata of the editor
+     * @param text - the text of the comment
+     * @returns does not return anything, but methods have to be async
+     * @alpha
+     */
+    @Method()
+    public async replyToComment(id: string, text: string) {
+        await this.adapter?.replyToComment(id, text);
+    }
+
+    /**
+     * Remove a comment thread, leaving the text it was anchored to
+     *
+     * @param id - the id of the thread, from the metadata of the editor
+     * @returns does not return anything, but methods have to be async
+     * @alpha
+     */
+    @Method()
+    public async removeComment(id: string) {
+        await this.adapter?.removeComment(id);
+    }
+
     public render() {
         return (
             <Host>
+                {this.renderDraftPrompt()}
                 <limel-notched-outline
                     labelId={this.editorId}
                     label={this.label}
@@ -261,6 +611,29 @@ export class TextEditor implements FormComponent<string> {
         );
     }
 
+    private renderDraftPrompt() {
+        if (!this.foundDraft || this.readonly || this.disabled) {
+            return;
+        }
+
+        return (
+            <div class="draft-prompt" role="status">
+                <limel-icon name="time_machine" size="small" />
+                <span>
+                    {translate.get('editor-draft.found', this.language)}
+                </span>
+                <limel-button
+                    label={translate.get('editor-draft.restore', this.language)}
+                    onClick={this.handleRestoreDraft}
+                />
+                <limel-button
+                    label={translate.get('editor-draft.discard', this.language)}
+                    onClick={this.handleDiscardDraft}
+                />
+            </div>
+        );
+    }
+
     private renderEditor() {
         if (this.readonly) {
             return (
@@ -277,6 +650,7 @@ export class TextEditor implements FormComponent<string> {
 
         return (
             <limel-prosemirror-adapter
+                ref={this.setAdapter}
                 slot="content"
                 aria-placeholder={this.placeholder}
                 contentType={this.contentType}
@@ -284,6 +658,7 @@ export class TextEditor implements FormComponent<string> {
                 onImagePasted={this.handleImagePasted}
                 onImageRemoved={this.handleImageRemoved}
                 onMetadataChange={this.handleMetadataChange}
+                onSlashCommand={this.handleSlashCommand}
                 customElements={this.customElements}
                 value={this.value}
                 aria-controls={this.helperText ? this.helperTextId : undefined}
@@ -293,12 +668,22 @@ export class TextEditor implements FormComponent<string> {
                 aria-required={this.required}
                 language={this.language}
                 triggerCharacters={this.triggers}
+                triggerSearchers={this.triggerSearchers}
+                slashCommands={this.slashCommands}
+                customSlashCommands={this.customSlashCommands}
+                suggesting={this.suggesting}
+                author={this.author}
+                collaboration={this.collaboration}
                 disabled={this.disabled}
                 ui={this.ui}
             />
         );
     }
 
+    private setAdapter = (element: HTMLLimelProsemirrorAdapterElement) => {
+        this.adapter = element;
+    };
+
     private renderPlaceholder() {
         if (!this.placeholder || this.value) {
             return;
@@ -336,11 +721,66 @@ export class TextEditor implements FormComponent<string> {
         }
     };
 
+    private async findDraft(draftStore: DraftStore) {
+        const draft = await draftStore.getDraft().catch((error) => {
+            console.error('Failed to load the draft', error);
+        });
+        if (draftStore !== this.draftStore) {
+            return;
+        }
+
+        if (draft && draft.value !== (this.value ?? '')) {
+            this.foundDraft = draft;
+        }
+    }
+
+    private handleRestoreDraft = (event: MouseEvent) => {
+        event.stopPropagation();
+        this.restoreDraft();
+    };
+
+    private handleDiscardDraft = (event: MouseEvent) => {
+        event.stopPropagation();
+        this.discardDraft();
+    };
+
+    private async restoreHistory(draft: EditorDraft) {
+        if (!draft.history || !this.adapter) {
+            return false;
+        }
+
+        return this.adapter
+            .restoreHistory(draft.history, draft.value)
+            .catch((error) => {
+                console.error('Failed to restore the undo history', error);
+
+                return false;
+            });
+    }
+
     private handleChange = (event: CustomEvent<string>) => {
         event.stopPropagation();
         this.change.emit(event.detail);
+        this.saveDraft(event.detail);
     };
 
+    private saveDraft = debounce((value: string) => {
+        // The draft that was found is kept until the user
+        // has chosen to restore or discard it
+        if (!this.draftStore || this.foundDraft) {
+            return;
+        }
+
+        this.storeDraft(this.draftStore, value).catch((error) => {
+            console.error('Failed to save the draft', error);
+        });
+    }, DRAFT_SAVE_DELAY);
+
+    private async storeDraft(draftStore: DraftStore, value: string) {
+        const history = await this.adapter?.getHistory();
+        await draftStore.saveDraft(value, history);
+    }
+
     private handleImagePasted = (event: CustomEvent<ImageInserter>) => {
         event.stopPropagation();
         this.imagePasted.emit(event.detail);
@@ -351,6 +791,13 @@ export class TextEditor implements FormComponent<string> {
         this.metadataChange.emit(event.detail);
     };
 
+    private handleSlashCommand = (
+        event: CustomEvent<EditorSlashCommandEventDetail>
+    ) => {
+        event.stopPropagation();
+        this.slashCommand.emit(event.detail);
+    };
+
     private handleImageRemoved = (event: CustomEvent<EditorImage>) => {
         event.stopPropagation();
 
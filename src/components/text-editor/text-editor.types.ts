@@ -1,5 +1,8 @@
 import { CustomElement } from '../../global/shared-types/custom-element.types';
+import { Color } from '../../global/shared-types/color.types';
 import { FileInfo } from '../../global/shared-types/file.types';
+import { Searcher } from '../picker/searcher.types';
+import { Icon } from '../../global/shared-types/icon.types';
 
 /**
  * Represents a trigger character and its position in the text.
@@ -48,6 +51,18 @@ export type TriggerCharacter =
     | ')'
     | "'";
 
+/**
+ * Searchers for the items to choose from after a trigger character
+ * has been typed, for instance people to mention after `@`
+ *
+ * The `text`, `icon` and `value` of the chosen item are inserted as a
+ * `limel-chip`, unless the `value` is a `TextEditorNode`, which is then
+ * inserted as it is. Custom elements must be defined in `customElements`.
+ *
+ * @alpha
+ */
+export type TriggerSearchers = Partial<Record<TriggerCharacter, Searcher>>;
+
 /**
  * @alpha
  */
@@ -168,6 +183,58 @@ export interface TriggerEventDetail {
     value: string;
 }
 
+/**
+ * A command of the consumer in the slash-command menu of the text editor.
+ * When the command is picked, the text editor emits a `slashCommand`
+ * event with it.
+ *
+ * @alpha
+ */
+export interface EditorSlashCommand {
+    /**
+     * Identifies the command
+     */
+    id: string;
+
+    /**
+     * The text of the command in the menu
+     */
+    text: string;
+
+    /**
+     * Describes what the command does
+     */
+    secondaryText?: string;
+
+    /**
+     * The icon of the command in the menu
+     */
+    icon?: string | Icon;
+
+    /**
+     * More words that the command is found by, when the user
+     * types after the `/`
+     */
+    keywords?: string[];
+}
+
+/**
+ * The detail of the `slashCommand` event of the text editor
+ *
+ * @alpha
+ */
+export interface EditorSlashCommandEventDetail {
+    /**
+     * The command that was picked
+     */
+    command: EditorSlashCommand;
+
+    /**
+     * The text editor, to insert content where the command was typed
+     */
+    textEditor: TextEditor;
+}
+
 /**
  *
  * @alpha
@@ -184,4 +251,342 @@ export interface EditorMetadata {
      * Collection of link elements found in the document
      */
     links: EditorLink[];
+
+    /**
+     * Collection of mentions found in the document
+     */
+    mentions?: EditorMention[];
+
+    /**
+     * Collection of suggested changes found in the document
+     */
+    changes?: EditorChange[];
+
+    /**
+     * Collection of comment threads found in the document
+     */
+    comments?: EditorCommentThread[];
+}
+
+/**
+ * A mention that has been inserted by choosing an item
+ * from the results of a `TriggerSearchers` searcher
+ *
+ * @alpha
+ */
+export interface EditorMention {
+    /**
+     * The trigger character that was typed to insert the mention
+     */
+    trigger: TriggerCharacter;
+
+    /**
+     * The text of the chosen item
+     */
+    text: string;
+
+    /**
+     * The value of the chosen item, as a string
+     */
+    value: string;
+}
+
+/**
+ * The type of a suggested change
+ *
+ * @alpha
+ */
+export type EditorChangeType = 'insertion' | 'deletion';
+
+/**
+ * A change that has been suggested while `suggesting` was enabled,
+ * which can be accepted or rejected
+ *
+ * @alpha
+ */
+export interface EditorChange {
+    /**
+     * Identifies the change
+     */
+    id: string;
+
+    /**
+     * Whether text has been suggested to be inserted or deleted
+     */
+    type: EditorChangeType;
+
+    /**
+     * The name of the user who suggested the change
+     */
+    author: string;
+
+    /**
+     * When the change was suggested, as an ISO 8601 string
+     */
+    date: string;
+
+    /**
+     * The text that has been inserted or deleted
+     */
+    text: string;
+}
+
+/**
+ * A comment in a comment thread
+ *
+ * @alpha
+ */
+export interface EditorComment {
+    /**
+     * The name of the user who wrote the comment
+     */
+    author: string;
+
+    /**
+     * When the comment was written, as an ISO 8601 string
+     */
+    date: string;
+
+    /**
+     * The text of the comment
+     */
+    text: string;
+}
+
+/**
+ * A thread of comments on a range of text
+ *
+ * @alpha
+ */
+export interface EditorCommentThread {
+    /**
+     * Identifies the thread
+     */
+    id: string;
+
+    /**
+     * The text that the thread is anchored to
+     */
+    text: string;
+
+    /**
+     * The comments of the thread, oldest first
+     */
+    comments: EditorComment[];
+}
+
+/**
+ * A user who is editing a shared document
+ *
+ * @alpha
+ */
+export interface EditorCollaborator {
+    /**
+     * The name to display next to the cursor of the user
+     */
+    name: string;
+
+    /**
+     * The color of the cursor and selections of the user.
+     * Defaults to a color that is picked for each user.
+     */
+    color?: Color;
+}
+
+/**
+ * Functions that a collaboration provider calls with the changes
+ * made by other users
+ *
+ * @alpha
+ */
+export interface EditorCollaborationListener {
+    /**
+     * Call with a change that another user has made to the document
+     */
+    onUpdate: (update: Uint8Array) => void;
+
+    /**
+     * Call with a change to the cursors, selections or names
+     * of other users
+     */
+    onAwarenessUpdate: (update: Uint8Array) => void;
+}
+
+/**
+ * Connects the editors of several users to the same document,
+ * for instance through a server.
+ *
+ * The document is a CRDT, kept in sync with Yjs. The editor describes
+ * its changes as binary updates, which the provider passes on to the
+ * editors of the other users. Updates can be delivered in any order,
+ * and more than once, so a provider can replay every update it has seen
+ * to users who connect later.
+ *
+ * @alpha
+ */
+export interface EditorCollaborationProvider {
+    /**
+     * Called when the editor connects to the document
+     *
+     * @param listener - to call with the changes of other users
+     * @returns resolves when the changes that other users have made so far
+     * have been passed to the listener, or rejects if the editor could not
+     * be connected, in which case it is not shared
+     */
+    connect: (listener: EditorCollaborationListener) => Promise<void>;
+
+    /**
+     * Called when the editor disconnects from the document
+     */
+    disconnect: () => void;
+
+    /**
+     * Called with each change that the user makes to the document
+     */
+    sendUpdate: (update: Uint8Array) => void;
+
+    /**
+     * Called when the cursor, selection or name of the user changes
+     */
+    sendAwarenessUpdate: (update: Uint8Array) => void;
+
+    /**
+     * Called after connecting, when no user has written anything in the
+     * document yet, to decide if the editor should fill it with its `value`.
+     * Return `true` for only one of the users, like the first user
+     * who connected to the document.
+     *
+     * When not implemented, every editor that connects to an empty document
+     * fills it. Editors that fill it with the same `value` at the same time
+     * get the content once, but editors with different values get the
+     * content of all of them.
+     */
+    shouldFill?: () => boolean;
+}
+
+/**
+ * Lets several users edit the same document at the same time
+ *
+ * @alpha
+ */
+export interface EditorCollaboration {
+    /**
+     * Connects the editor to the editors of the other users
+     */
+    provider: EditorCollaborationProvider;
+
+    /**
+     * The user of this editor
+     */
+    user: EditorCollaborator;
+}
+
+/**
+ * Content of the editor that has not been saved by the consumer
+ *
+ * @alpha
+ */
+export interface EditorDraft {
+    /**
+     * The content, in the content type of the editor
+     */
+    value: string;
+
+    /**
+     * When the draft was saved, as an ISO 8601 date
+     */
+    date: string;
+
+    /**
+     * The undo history of the editor, so that the changes can still be
+     * undone when the draft is restored. Not kept when collaborating.
+     */
+    history?: EditorHistory;
+}
+
+/**
+ * The undo history of an editor. It is kept as it is,
+ * and should not be changed.
+ *
+ * @alpha
+ */
+export interface EditorHistory {
+    /**
+     * The content before the changes, as a ProseMirror document in JSON
+     */
+    doc: object;
+
+    /**
+     * The changes that lead to the history, oldest first
+     */
+    changes: object[];
+}
+
+/**
+ * A named version of the content of the editor
+ *
+ * @alpha
+ */
+export interface EditorSnapshot {
+    /**
+     * Identifies the snapshot
+     */
+    id: string;
+
+    /**
+     * The name that the snapshot was given when it was created
+     */
+    name: string;
+
+    /**
+     * When the snapshot was created, as an ISO 8601 date
+     */
+    date: string;
+
+    /**
+     * The content, in the content type of the editor
+     */
+    value: string;
+}
+
+/**
+ * The draft and the snapshots that are stored for an editor
+ *
+ * @alpha
+ */
+export interface EditorDraftRecord {
+    /**
+     * The latest unsaved content, if there is any
+     */
+    draft?: EditorDraft;
+
+    /**
+     * The snapshots, oldest first
+     */
+    snapshots: EditorSnapshot[];
+}
+
+/**
+ * Stores the drafts and snapshots of editors, for instance
+ * in the browser or on a server.
+ *
+ * @alpha
+ */
+export interface EditorDraftStorage {
+    /**
+     * Get what is stored for an editor
+     *
+     * @param key - identifies the editor
+     * @returns the record, or `undefined` if nothing is stored
+     */
+    get: (key: string) => Promise<EditorDraftRecord | undefined>;
+
+    /**
+     * Store the draft and snapshots of an editor,
+     * replacing what was stored before
+     *
+     * @param key - identifies the editor
+     * @param record - the record to store
+     */
+    set: (key: string, record: EditorDraftRecord) => Promise<void>;
 }
@@ -0,0 +1,122 @@
+import { EditorDraftRecord, EditorDraftStorage } from '../text-editor.types';
+import { DraftStore } from './draft-store';
+
+function createStorage(): EditorDraftStorage & {
+    records: Map<string, EditorDraftRecord>;
+} {
+    const records = new Map<string, EditorDraftRecord>();
+
+    return {
+        records: records,
+        // Resolves later, like a real storage would
+        get: (key) =>
+            new Promise((resolve) =>
+                setTimeout(() => resolve(records.get(key)))
+            ),
+        set: (key, record) =>
+            new Promise((resolve) =>
+                setTimeout(() => {
+                    records.set(key, record);
+                    resolve();
+                })
+            ),
+    };
+}
+
+describe('DraftStore', () => {
+    it('has no draft or snapshots at first', async () => {
+        const store = new DraftStore('key', createStorage());
+
+        expect(await store.getDraft()).toBeUndefined();
+        expect(await store.getSnapshots()).toEqual([]);
+    });
+
+    it('saves the draft under its key', async () => {
+        const storage = createStorage();
+        const store = new DraftStore('key', storage);
+
+        await store.saveDraft('Hello');
+
+        expect(await store.getDraft()).toEqual({
+            value: 'Hello',
+            date: expect.any(String),
+        });
+        expect(storage.records.has('key')).toBe(true);
+        expect(await new DraftStore('other', storage).getDraft()).toBe(
+            undefined
+        );
+    });
+
+    it('saves the undo history with the draft', async () => {
+        const store = new DraftStore('key', createStorage());
+        const history = { doc: { type: 'doc' }, changes: [] };
+
+        await store.saveDraft('Hello', history);
+
+        const draft = await store.getDraft();
+
+        expect(draft.history).toEqual(history);
+    });
+
+    it('keeps the snapshots when the draft is discarded', async () => {
+        const store = new DraftStore('key', createStorage());
+
+        await store.saveDraft('Hello');
+        const snapshot = await store.createSnapshot('First', 'Hello');
+        await store.discardDraft();
+
+        expect(await store.getDraft()).toBeUndefined();
+        expect(await store.getSnapshots()).toEqual([snapshot]);
+    });
+
+    it('finds and deletes snapshots', async () => {
+        const store = new DraftStore('key', createStorage());
+
+        const first = await store.createSnapshot('First', 'Hello');
+        const second = await store.createSnapshot('Second', 'Hello world');
+
+        expect(await store.getSnapshot(second.id)).toEqual({
+            id: second.id,
+            name: 'Second',
+            date: expect.any(String),
+            value: 'Hello world',
+        });
+
+        await store.deleteSnapshot(second.id);
+
+        expect(await store.getSnapshots()).toEqual([first]);
+    });
+
+    it('does not lose changes that are made at the same time', async () => {
+        const store = new DraftStore('key', createStorage());
+
+        await Promise.all([
+            store.saveDraft('Hello'),
+            store.createSnapshot('First', 'Hello'),
+            store.createSnapshot('Second', 'Hello'),
+        ]);
+
+        const draft = await store.getDraft();
+
+        expect(draft.value).toBe('Hello');
+        expect(await store.getSnapshots()).toHaveLength(2);
+    });
+
+    it('keeps working after a change has failed', async () => {
+        const storage = createStorage();
+        const store = new DraftStore('key', storage);
+        const set = storage.set;
+        storage.set = () => Promise.reject(new Error('Quota exceeded'));
+
+        await expect(store.saveDraft('Hello')).rejects.toThrow(
+            'Quota exceeded'
+        );
+
+        storage.set = set;
+        await store.saveDraft('Hello again');
+
+        const draft = await store.getDraft();
+
+        expect(draft.value).toBe('Hello again');
+    });
+});
@@ -0,0 +1,152 @@
+import {
+    EditorDraft,
+    EditorDraftRecord,
+    EditorDraftStorage,
+    EditorHistory,
+    EditorSnapshot,
+} from '../text-editor.types';
+import { createRandomString } from '../../../util/random-string';
+
+/**
+ * Keeps the draft and the snapshots of one editor in a storage.
+ *
+ * Changes are made one at a time, in the order they are requested,
+ * so that a change never overwrites one that was requested before it.
+ *
+ * @private
+ */
+export class DraftStore {
+    private readonly key: string;
+    private readonly storage: EditorDraftStorage;
+    private queue: Promise<unknown> = Promise.resolve();
+
+    constructor(key: string, storage: EditorDraftStorage) {
+        this.key = key;
+        this.storage = storage;
+    }
+
+    /**
+     * Get the unsaved content
+     *
+     * @returns the draft, or `undefined` if there is none
+     */
+    public async getDraft(): Promise<EditorDraft | undefined> {
+        const record = await this.read();
+
+        return record.draft;
+    }
+
+    /**
+     * Save content as the draft, replacing the previous draft
+     *
+     * @param value - the content
+     * @param history - the undo history that leads to the content
+     */
+    public saveDraft(value: string, history?: EditorHistory): Promise<void> {
+        return this.update((record) => ({
+            ...record,
+            draft: {
+                value: value,
+                date: new Date().toISOString(),
+                history: history,
+            },
+        }));
+    }
+
+    /**
+     * Remove the draft, keeping the snapshots
+     */
+    public discardDraft(): Promise<void> {
+        return this.update(({ snapshots }) => ({ snapshots: snapshots }));
+    }
+
+    /**
+     * Get the snapshots, oldest first
+     *
+     * @returns the snapshots
+     */
+    public async getSnapshots(): Promise<EditorSnapshot[]> {
+        const record = await this.read();
+
+        return record.snapshots;
+    }
+
+    /**
+     * Get a snapshot
+     *
+     * @param id - the id of the snapshot
+     * @returns the snapshot, or `undefined` if there is no such snapshot
+     */
+    public async getSnapshot(id: string): Promise<EditorSnapshot | undefined> {
+        const snapshots = await this.getSnapshots();
+
+        return snapshots.find((snapshot) => snapshot.id === id);
+    }
+
+    /**
+     * Save content as a new snapshot
+     *
+     * @param name - the name of the snapshot
+     * @param value - the content
+     * @returns the snapshot
+     */
+    public async createSnapshot(
+        name: string,
+        value: string
+    ): Promise<EditorSnapshot> {
+        const snapshot: EditorSnapshot = {
+            id: createRandomString(),
+            name: name,
+            date: new Date().toISOString(),
+            value: value,
+        };
+
+        await this.update((record) => ({
+            ...record,
+            snapshots: [...record.snapshots, snapshot],
+        }));
+
+        return snapshot;
+    }
+
+    /**
+     * Remove a snapshot
+     *
+     * @param id - the id of the snapshot
+     */
+    public deleteSnapshot(id: string): Promise<void> {
+        return this.update((record) => ({
+            ...record,
+            snapshots: record.snapshots.filter(
+                (snapshot) => snapshot.id !== id
+            ),
+        }));
+    }
+
+    private read(): Promise<EditorDraftRecord> {
+        return this.enqueue(async () => {
+            const record = await this.storage.get(this.key);
+
+            return { snapshots: [], ...record };
+        });
+    }
+
+    private update(
+        change: (record: EditorDraftRecord) => EditorDraftRecord
+    ): Promise<void> {
+        return this.enqueue(async () => {
+            const record = await this.storage.get(this.key);
+            await this.storage.set(
+                this.key,
+                change({ snapshots: [], ...record })
+            );
+        });
+    }
+
+    private enqueue<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(task);
+        this.queue = result.catch(() => undefined);
+
+        return result;
+    }
+}
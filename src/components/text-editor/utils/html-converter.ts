@@ -4,6 +4,13 @@ import { sanitizeHTML } from '../../markdown/markdown-parser';
 import { CustomElementDefinition } from '../../../interface';
 import { DOMSerializer } from 'prosemirror-model';
 import { hasImageNode } from '../prosemirror-adapter/plugins/image/node';
+import { mentionElement } from '../prosemirror-adapter/plugins/mention/node';
+import {
+    deletionElement,
+    insertionElement,
+} from '../prosemirror-adapter/plugins/track-changes/marks';
+import { commentElement } from '../prosemirror-adapter/plugins/comments/mark';
+import { tableCellElements } from '../prosemirror-adapter/plugins/table/table-plugin';
 
 /**
  * @private
@@ -12,7 +19,14 @@ export class HTMLConverter implements ContentTypeConverter {
     private customNodes: CustomElementDefinition[];
 
     constructor(plugins: CustomElementDefinition[]) {
-        this.customNodes = plugins;
+        this.customNodes = [
+            ...plugins,
+            mentionElement,
+            insertionElement,
+            deletionElement,
+            commentElement,
+            ...tableCellElements,
+        ];
     }
 
     public parseAsHTML = (text: string): Promise<string> => {
@@ -0,0 +1,73 @@
+import { InMemoryCollaborationRoom } from './in-memory-collaboration';
+import { EditorCollaborationListener } from '../text-editor.types';
+
+const createListener = (): EditorCollaborationListener => ({
+    onUpdate: jest.fn(),
+    onAwarenessUpdate: jest.fn(),
+});
+
+describe('InMemoryCollaborationRoom', () => {
+    let room: InMemoryCollaborationRoom;
+
+    beforeEach(() => {
+        room = new InMemoryCollaborationRoom();
+    });
+
+    it('sends updates to the other providers', async () => {
+        const alice = room.createProvider();
+        const bob = room.createProvider();
+        const aliceListener = createListener();
+        const bobListener = createListener();
+        await alice.connect(aliceListener);
+        await bob.connect(bobListener);
+
+        const update = new Uint8Array([1, 2, 3]);
+        alice.sendUpdate(update);
+
+        expect(bobListener.onUpdate).toHaveBeenCalledWith(update);
+        expect(aliceListener.onUpdate).not.toHaveBeenCalled();
+    });
+
+    it('replays earlier updates to providers that connect later', async () => {
+        const alice = room.createProvider();
+        await alice.connect(createListener());
+
+        const update = new Uint8Array([1]);
+        const awarenessUpdate = new Uint8Array([2]);
+        alice.sendUpdate(update);
+        alice.sendAwarenessUpdate(awarenessUpdate);
+
+        const bobListener = createListener();
+        await room.createProvider().connect(bobListener);
+
+        expect(bobListener.onUpdate).toHaveBeenCalledWith(update);
+        expect(bobListener.onAwarenessUpdate).toHaveBeenCalledWith(
+            awarenessUpdate
+        );
+    });
+
+    it('does not replay the awareness of providers that have disconnected', async () => {
+        const alice = room.createProvider();
+        await alice.connect(createListener());
+        alice.sendAwarenessUpdate(new Uint8Array([2]));
+        alice.disconnect();
+
+        const bobListener = createListener();
+        await room.createProvider().connect(bobListener);
+
+        expect(bobListener.onAwarenessUpdate).not.toHaveBeenCalled();
+    });
+
+    it('stops sending updates to providers that have disconnected', async () => {
+        const alice = room.createProvider();
+        const bob = room.createProvider();
+        const bobListener = createListener();
+        await alice.connect(createListener());
+        await bob.connect(bobListener);
+        bob.disconnect();
+
+        alice.sendUpdate(new Uint8Array([1]));
+
+        expect(bobListener.onUpdate).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,97 @@
+import {
+    EditorCollaborationListener,
+    EditorCollaborationProvider,
+} from '../text-editor.types';
+
+/**
+ * A shared document that only exists in memory, which the editors
+ * on the same page can connect to. Useful for trying out, and testing,
+ * collaborative editing without a server.
+ *
+ * @example
+ * ```ts
+ * const room = new InMemoryCollaborationRoom();
+ *
+ * first.collaboration = {
+ *     provider: room.createProvider(),
+ *     user: { name: 'Alice' },
+ * };
+ * second.collaboration = {
+ *     provider: room.createProvider(),
+ *     user: { name: 'Bob' },
+ * };
+ * ```
+ *
+ * @alpha
+ */
+export class InMemoryCollaborationRoom {
+    private readonly listeners = new Set<EditorCollaborationListener>();
+    private readonly updates: Uint8Array[] = [];
+    private readonly awarenessUpdates = new Map<
+        EditorCollaborationListener,
+        Uint8Array
+    >();
+    private hasConnected = false;
+
+    /**
+     * Create a provider that connects an editor to the room
+     *
+     * @returns the provider
+     */
+    public createProvider(): EditorCollaborationProvider {
+        let listener: EditorCollaborationListener;
+        let isFirst = false;
+
+        return {
+            connect: async (newListener) => {
+                listener = newListener;
+                isFirst = !this.hasConnected;
+                this.hasConnected = true;
+                this.join(listener);
+            },
+            disconnect: () => {
+                this.leave(listener);
+                listener = undefined;
+            },
+            sendUpdate: (update) => {
+                this.updates.push(update);
+                this.broadcast(listener, (other) => other.onUpdate(update));
+            },
+            sendAwarenessUpdate: (update) => {
+                this.awarenessUpdates.set(listener, update);
+                this.broadcast(listener, (other) =>
+                    other.onAwarenessUpdate(update)
+                );
+            },
+            shouldFill: () => isFirst,
+        };
+    }
+
+    private join(listener: EditorCollaborationListener) {
+        for (const update of this.updates) {
+            listener.onUpdate(update);
+        }
+
+        for (const update of this.awarenessUpdates.values()) {
+            listener.onAwarenessUpdate(update);
+        }
+
+        this.listeners.add(listener);
+    }
+
+    private leave(listener: EditorCollaborationListener) {
+        this.listeners.delete(listener);
+        this.awarenessUpdates.delete(listener);
+    }
+
+    private broadcast(
+        sender: EditorCollaborationListener,
+        send: (listener: EditorCollaborationListener) => void
+    ) {
+        for (const listener of this.listeners) {
+            if (listener !== sender) {
+                send(listener);
+            }
+        }
+    }
+}
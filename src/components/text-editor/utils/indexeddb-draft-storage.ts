@@ -0,0 +1,59 @@
+import { EditorDraftRecord, EditorDraftStorage } from '../text-editor.types';
+
+const DATABASE_NAME = 'limel-text-editor';
+const STORE_NAME = 'drafts';
+
+/**
+ * Stores the drafts and snapshots of editors in the IndexedDB
+ * of the browser, where they are kept when the page is reloaded.
+ *
+ * @private
+ */
+export class IndexedDBDraftStorage implements EditorDraftStorage {
+    private database: Promise<IDBDatabase>;
+
+    public get = async (key: string): Promise<EditorDraftRecord> => {
+        const store = await this.getStore('readonly');
+
+        return request(store.get(key));
+    };
+
+    public set = async (key: string, record: EditorDraftRecord) => {
+        const store = await this.getStore('readwrite');
+
+        await request(store.put(record, key));
+    };
+
+    private async getStore(mode: IDBTransactionMode) {
+        if (!this.database) {
+            this.database = openDatabase().catch((error) => {
+                // Try again next time, for instance after the user has
+                // allowed the page to store data
+                this.database = undefined;
+                throw error;
+            });
+        }
+
+        const database = await this.database;
+
+        return database.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+    }
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+    const openRequest = indexedDB.open(DATABASE_NAME, 1);
+    openRequest.addEventListener('upgradeneeded', () => {
+        openRequest.result.createObjectStore(STORE_NAME);
+    });
+
+    return request(openRequest);
+}
+
+function request<T>(idbRequest: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        idbRequest.addEventListener('success', () =>
+            resolve(idbRequest.result)
+        );
+        idbRequest.addEventListener('error', () => reject(idbRequest.error));
+    });
+}
@@ -13,6 +13,21 @@ import {
     hasImageNode,
 } from '../prosemirror-adapter/plugins/image/node';
 import { Languages } from '../../date-picker/date.types';
+import {
+    getMentionNodeMarkdownSerializer,
+    mentionElement,
+} from '../prosemirror-adapter/plugins/mention/node';
+import {
+    deletionElement,
+    getTrackChangesMarkdownSerializer,
+    insertionElement,
+} from '../prosemirror-adapter/plugins/track-changes/marks';
+import {
+    commentElement,
+    getCommentMarkdownSerializer,
+} from '../prosemirror-adapter/plugins/comments/mark';
+import { tableCellElements } from '../prosemirror-adapter/plugins/table/table-plugin';
+import { getTableMarkdownSerializer } from '../prosemirror-adapter/plugins/table/markdown-serializer';
 
 type MarkdownSerializerFunction = (
     state: MarkdownSerializerState,
@@ -50,6 +65,8 @@ const buildMarkdownSerializer = (
     const nodes = {
         ...defaultMarkdownSerializer.nodes,
         ...getImageNodeMarkdownSerializer(language),
+        ...getMentionNodeMarkdownSerializer(),
+        ...getTableMarkdownSerializer(),
         ...customNodes,
     };
 
@@ -61,6 +78,8 @@ const buildMarkdownSerializer = (
             mixable: true,
             expelEnclosingWhitespace: true,
         },
+        ...getTrackChangesMarkdownSerializer(),
+        ...getCommentMarkdownSerializer(),
     };
 
     return new MarkdownSerializer(nodes, marks);
@@ -75,7 +94,14 @@ export class MarkdownConverter implements ContentTypeConverter {
 
     constructor(plugins: CustomElementDefinition[], language: Languages) {
         this.markdownSerializer = buildMarkdownSerializer(plugins, language);
-        this.customNodes = plugins;
+        this.customNodes = [
+            ...plugins,
+            mentionElement,
+            insertionElement,
+            deletionElement,
+            commentElement,
+            ...tableCellElements,
+        ];
     }
     public parseAsHTML = (text: string): Promise<string> => {
         return markdownToHTML(text, { whitelist: this.customNodes });
@@ -1,6 +1,9 @@
 import { Node, Schema } from 'prosemirror-model';
 import { getMetadataFromDoc, hasMetadataChanged } from './metadata-utils';
 import { EditorMetadata } from '../text-editor.types';
+import { getMentionNode } from '../prosemirror-adapter/plugins/mention/node';
+import { getTrackChangesMarks } from '../prosemirror-adapter/plugins/track-changes/marks';
+import { getCommentMark } from '../prosemirror-adapter/plugins/comments/mark';
 
 function createTestSchema() {
     return new Schema({
@@ -18,6 +21,7 @@ function createTestSchema() {
                     state: { default: '' },
                 },
             },
+            ...getMentionNode(),
         },
         marks: {
             link: {
@@ -26,6 +30,8 @@ function createTestSchema() {
                     title: { default: '' },
                 },
             },
+            ...getTrackChangesMarks(),
+            ...getCommentMark(),
         },
     });
 }
@@ -166,6 +172,36 @@ test('getMetadataFromDoc should handle complex documents with both images and li
     expect(metadata.links[0].href).toBe('https://example.com');
 });
 
+test('getMetadataFromDoc should extract mentions correctly', () => {
+    const schema = createTestSchema();
+    const doc = createTestDoc(schema, {
+        type: 'doc',
+        content: [
+            {
+                type: 'paragraph',
+                content: [
+                    { type: 'text', text: 'Ask ' },
+                    {
+                        type: 'mention',
+                        attrs: {
+                            trigger: '@',
+                            text: 'Alice',
+                            value: '1',
+                            icon: 'user',
+                        },
+                    },
+                ],
+            },
+        ],
+    });
+
+    const metadata = getMetadataFromDoc(doc);
+
+    expect(metadata.mentions).toEqual([
+        { trigger: '@', text: 'Alice', value: '1' },
+    ]);
+});
+
 test('hasMetadataChanged should return true when image counts differ', () => {
     const oldMetadata: EditorMetadata = {
         images: [
@@ -293,3 +329,130 @@ test('hasMetadataChanged should return false when metadata is identical', () =>
 
     expect(hasMetadataChanged(oldMetadata, newMetadata)).toBe(false);
 });
+
+test('hasMetadataChanged should return true when mention content differs', () => {
+    const oldMetadata: EditorMetadata = {
+        images: [],
+        links: [],
+        mentions: [{ trigger: '@', text: 'Alice', value: '1' }],
+    };
+
+    const newMetadata: EditorMetadata = {
+        images: [],
+        links: [],
+        mentions: [{ trigger: '@', text: 'Bob', value: '2' }],
+    };
+
+    expect(hasMetadataChanged(oldMetadata, newMetadata)).toBe(true);
+});
+
+test('hasMetadataChanged should treat missing mentions as no mentions', () => {
+    const oldMetadata: EditorMetadata = {
+        images: [],
+        links: [],
+    };
+
+    const newMetadata: EditorMetadata = {
+        images: [],
+        links: [],
+        mentions: [],
+    };
+
+    expect(hasMetadataChanged(oldMetadata, newMetadata)).toBe(false);
+});
+
+test('getMetadataFromDoc should extract changes and comment threads correctly', () => {
+    const schema = createTestSchema();
+    const insertion = {
+        type: 'insertion',
+        attrs: { id: 'c1', author: 'Alice', date: '2024-01-01' },
+    };
+    const comment = {
+        type: 'comment',
+        attrs: {
+            id: 't1',
+            comments: [{ author: 'Bob', date: '2024-01-02', text: 'Why?' }],
+        },
+    };
+    const doc = createTestDoc(schema, {
+        type: 'doc',
+        content: [
+            {
+                type: 'paragraph',
+                content: [
+                    { type: 'text', text: 'Hello ', marks: [insertion] },
+                    {
+                        type: 'text',
+                        text: 'big',
+                        marks: [insertion, comment],
+                    },
+                    { type: 'text', text: ' world', marks: [comment] },
+                ],
+            },
+        ],
+    });
+
+    const metadata = getMetadataFromDoc(doc);
+
+    expect(metadata.changes).toEqual([
+        {
+            id: 'c1',
+            type: 'insertion',
+            author: 'Alice',
+            date: '2024-01-01',
+            text: 'Hello big',
+        },
+    ]);
+    expect(metadata.comments).toEqual([
+        {
+            id: 't1',
+            text: 'big world',
+            comments: [{ author: 'Bob', date: '2024-01-02', text: 'Why?' }],
+        },
+    ]);
+});
+
+test('hasMetadataChanged should return true when the text of a change differs', () => {
+    const change = {
+        id: 'c1',
+        type: 'insertion' as const,
+        author: 'Alice',
+        date: '2024-01-01',
+    };
+    const oldMetadata: EditorMetadata = {
+        images: [],
+        links: [],
+        changes: [{ ...change, text: 'Hello' }],
+    };
+
+    const newMetadata: EditorMetadata = {
+        images: [],
+        links: [],
+        changes: [{ ...change, text: 'Hello!' }],
+    };
+
+    expect(hasMetadataChanged(oldMetadata, newMetadata)).toBe(true);
+});
+
+test('hasMetadataChanged should return true when a comment is added to a thread', () => {
+    const comment = { author: 'Bob', date: '2024-01-02', text: 'Why?' };
+    const oldMetadata: EditorMetadata = {
+        images: [],
+        links: [],
+        comments: [{ id: 't1', text: 'world', comments: [comment] }],
+    };
+
+    const newMetadata: EditorMetadata = {
+        images: [],
+        links: [],
+        comments: [
+            {
+                id: 't1',
+                text: 'world',
+                comments: [comment, { ...comment, text: 'Because!' }],
+            },
+        ],
+    };
+
+    expect(hasMetadataChanged(oldMetadata, newMetadata)).toBe(true);
+});
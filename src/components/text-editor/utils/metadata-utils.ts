@@ -1,21 +1,44 @@
-import { EditorImage, EditorLink, EditorMetadata } from '../text-editor.types';
+import {
+    EditorChange,
+    EditorCommentThread,
+    EditorImage,
+    EditorLink,
+    EditorMention,
+    EditorMetadata,
+} from '../text-editor.types';
 import { Node } from 'prosemirror-model';
+import {
+    isMentionNode,
+    MentionNodeAttrs,
+} from '../prosemirror-adapter/plugins/mention/node';
+import { getChanges } from '../prosemirror-adapter/plugins/track-changes/review';
+import { getCommentThreads } from '../prosemirror-adapter/plugins/comments/threads';
 
 /**
  * Extracts metadata from a ProseMirror document node
  *
  * This function traverses the entire document tree and collects information about
- * special elements like images and links.
+ * special elements like images, links and mentions, along with suggested
+ * changes and comment threads.
  *
  * @param doc - The ProseMirror document node to extract metadata from
- * @returns A metadata object containing arrays of images and links found in the document
+ * @returns A metadata object containing arrays of images, links, mentions,
+ * changes and comment threads found in the document
  */
 export function getMetadataFromDoc(doc: Node): EditorMetadata {
-    const metadata: EditorMetadata = { images: [], links: [] };
+    const metadata: EditorMetadata = {
+        images: [],
+        links: [],
+        mentions: [],
+        changes: getChanges(doc),
+        comments: getCommentThreads(doc),
+    };
 
     doc.descendants((node) => {
         if (isImageNode(node)) {
             metadata.images.push(extractImageMetadata(node));
+        } else if (isMentionNode(node)) {
+            metadata.mentions.push(extractMentionMetadata(node));
         } else if (isTextNodeWithMarks(node)) {
             for (const link of extractLinkMetadata(node))
                 metadata.links.push(link);
@@ -39,6 +62,12 @@ function extractImageMetadata(node: Node): EditorImage {
     };
 }
 
+function extractMentionMetadata(node: Node): EditorMention {
+    const { trigger, text, value } = node.attrs as MentionNodeAttrs;
+
+    return { trigger: trigger, text: text, value: value };
+}
+
 function isTextNodeWithMarks(node: Node): boolean {
     return node.isText && node.marks?.length > 0;
 }
@@ -67,7 +96,10 @@ export function hasMetadataChanged(
     return (
         hasDifferentLengths(oldMetadata, newMetadata) ||
         hasDifferentLinks(oldMetadata.links, newMetadata.links) ||
-        hasDifferentImages(oldMetadata.images, newMetadata.images)
+        hasDifferentImages(oldMetadata.images, newMetadata.images) ||
+        hasDifferentMentions(oldMetadata.mentions, newMetadata.mentions) ||
+        hasDifferentChanges(oldMetadata.changes, newMetadata.changes) ||
+        hasDifferentComments(oldMetadata.comments, newMetadata.comments)
     );
 }
 
@@ -77,7 +109,9 @@ function hasDifferentLengths(
 ): boolean {
     return (
         oldMetadata.images.length !== newMetadata.images.length ||
-        oldMetadata.links.length !== newMetadata.links.length
+        oldMetadata.links.length !== newMetadata.links.length ||
+        (oldMetadata.mentions?.length ?? 0) !==
+            (newMetadata.mentions?.length ?? 0)
     );
 }
 
@@ -101,6 +135,36 @@ function hasDifferentImages(
     return !areFrequencyMapsEqual(oldImageCounts, newImageCounts);
 }
 
+function hasDifferentMentions(
+    oldMentions: EditorMention[] = [],
+    newMentions: EditorMention[] = []
+): boolean {
+    const oldMentionCounts = getMentionFrequencyMap(oldMentions);
+    const newMentionCounts = getMentionFrequencyMap(newMentions);
+
+    return !areFrequencyMapsEqual(oldMentionCounts, newMentionCounts);
+}
+
+function hasDifferentChanges(
+    oldChanges: EditorChange[] = [],
+    newChanges: EditorChange[] = []
+): boolean {
+    const oldChangeCounts = getChangeFrequencyMap(oldChanges);
+    const newChangeCounts = getChangeFrequencyMap(newChanges);
+
+    return !areFrequencyMapsEqual(oldChangeCounts, newChangeCounts);
+}
+
+function hasDifferentComments(
+    oldThreads: EditorCommentThread[] = [],
+    newThreads: EditorCommentThread[] = []
+): boolean {
+    const oldThreadCounts = getCommentThreadFrequencyMap(oldThreads);
+    const newThreadCounts = getCommentThreadFrequencyMap(newThreads);
+
+    return !areFrequencyMapsEqual(oldThreadCounts, newThreadCounts);
+}
+
 /**
  * Creates a frequency map for images based on their key properties
  * @param images
@@ -133,6 +197,58 @@ function getLinkFrequencyMap(links: EditorLink[]): Map<string, number> {
     return countMap;
 }
 
+/**
+ * Creates a frequency map for mentions based on their key properties
+ * @param mentions
+ */
+function getMentionFrequencyMap(
+    mentions: EditorMention[]
+): Map<string, number> {
+    const countMap = new Map<string, number>();
+
+    for (const mention of mentions) {
+        const key = `${mention.trigger}|${mention.value}|${mention.text}`;
+
+        countMap.set(key, (countMap.get(key) || 0) + 1);
+    }
+
+    return countMap;
+}
+
+/**
+ * Creates a frequency map for changes based on their key properties
+ * @param changes
+ */
+function getChangeFrequencyMap(changes: EditorChange[]): Map<string, number> {
+    const countMap = new Map<string, number>();
+
+    for (const change of changes) {
+        const key = `${change.id}|${change.type}|${change.author}|${change.text}`;
+
+        countMap.set(key, (countMap.get(key) || 0) + 1);
+    }
+
+    return countMap;
+}
+
+/**
+ * Creates a frequency map for comment threads based on their key properties
+ * @param threads
+ */
+function getCommentThreadFrequencyMap(
+    threads: EditorCommentThread[]
+): Map<string, number> {
+    const countMap = new Map<string, number>();
+
+    for (const thread of threads) {
+        const key = `${thread.id}|${thread.text}|${JSON.stringify(thread.comments)}`;
+
+        countMap.set(key, (countMap.get(key) || 0) + 1);
+    }
+
+    return countMap;
+}
+
 /**
  * Compares two frequency maps for equality
  * @param map1
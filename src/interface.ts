@@ -63,6 +63,7 @@ export * from './global/shared-types/image.types';
 export * from './global/shared-types/color.types';
 export * from './components/text-editor/text-editor.types';
 export * from './components/text-editor/types';
+export * from './components/text-editor/utils/in-memory-collaboration';
 export * from './components/text-editor/prosemirror-adapter/menu/types';
 export * from './util/image-resize';
 export { redrawComponents } from './util/dispatch-resize-event';
@@ -13,6 +13,9 @@ export default {
     'callout.tip': 'Tip',
     'callout.caution': 'Advarsel',
     'callout.warning': 'Advarsel',
+    'chart.quarter': 'K{ quarter } { year }',
+    'chart.view-as-chart': 'Vis som diagram',
+    'chart.view-as-table': 'Vis som tabel',
     'code-editor': 'kodeeditor',
     'code-editor.copy': 'Kopier',
     'code-editor.copied': 'Kopieret',
@@ -21,6 +24,23 @@ export default {
     'code-editor.copied-aria-label': 'Kopieret { label } indhold',
     'code-editor.copy-failed-aria-label':
         'Kunne ikke kopiere { label } indhold',
+    'code-editor.previous-change': 'Forrige ændring',
+    'code-editor.next-change': 'Næste ændring',
+    'code-editor.accept-change': 'Accepter',
+    'code-editor.revert-change': 'Fortryd',
+    'code-editor.search': 'Søg',
+    'code-editor.replace-with': 'Erstat med',
+    'code-editor.match-case': 'Forskel på store og små bogstaver',
+    'code-editor.whole-word': 'Kun hele ord',
+    'code-editor.regular-expression': 'Brug regulært udtryk',
+    'code-editor.previous-match': 'Forrige',
+    'code-editor.next-match': 'Næste',
+    'code-editor.select-all-matches': 'Marker alle',
+    'code-editor.replace': 'Erstat',
+    'code-editor.replace-all': 'Erstat alle',
+    'code-editor.close-search': 'Luk søgning',
+    'code-editor.no-results': 'Ingen resultater',
+    'code-editor.search-results': '{ current } af { total }',
     'collapsible-section.open': 'Åbn { header } sektion',
     'collapsible-section.close': 'Luk { header } sektion',
     'date-picker.today': 'Idag',
@@ -54,8 +74,28 @@ export default {
     'editor-menu.link': 'Tilføj link',
     'editor-link-menu.text': 'Tekst',
     'editor-link-menu.link': 'Link',
+    'editor-trigger-picker.no-results': 'Ingen resultater',
     'editor-menu.code-block': 'Kodeblok',
     'editor-menu.code': 'Kode',
+    'editor-menu.table': 'Tabel',
+    'editor-menu.horizontal-rule': 'Vandret linje',
+    'editor-menu.image': 'Billede',
+    'editor-table.toolbar': 'Tabel',
+    'editor-table.add-row-before': 'Indsæt række over',
+    'editor-table.add-row-after': 'Indsæt række under',
+    'editor-table.delete-row': 'Slet række',
+    'editor-table.add-column-before': 'Indsæt kolonne til venstre',
+    'editor-table.add-column-after': 'Indsæt kolonne til højre',
+    'editor-table.delete-column': 'Slet kolonne',
+    'editor-table.merge-cells': 'Flet celler',
+    'editor-table.split-cell': 'Opdel celle',
+    'editor-table.toggle-header-row': 'Slå overskriftsrække til/fra',
+    'editor-table.toggle-header-column': 'Slå overskriftskolonne til/fra',
+    'editor-table.delete-table': 'Slet tabel',
+    'editor-table.cell-background': 'Cellebaggrund',
+    'editor-draft.found': 'Der er ikke-gemte ændringer fra et tidligere besøg.',
+    'editor-draft.restore': 'Gendan',
+    'editor-draft.discard': 'Kassér',
     'editor-image-view.loading': 'Indlæser billede: { filename }...',
     'editor-image-view.failed': 'Noget gik galt med billede: { filename }',
     'editor-image-view.success': 'Billede: { filename } er klar',
@@ -66,6 +106,20 @@ export default {
     'ai-avatar.thinking': 'tænker',
     'table.select-all': 'Vælg alle rækker',
     'table.select-row': 'Vælg denne række',
+    'table.filter': 'Filtrer',
+    'table.filter-from': 'Fra',
+    'table.filter-to': 'Til',
+    'table.columns': 'Kolonner',
+    'table.show-column': 'Vis kolonne',
+    'table.pin-left': 'Fastgør til venstre',
+    'table.pin-right': 'Fastgør til højre',
+    'table.unpin': 'Frigør',
+    'table.expand-row': 'Udvid række',
+    'table.collapse-row': 'Skjul række',
+    'table.cell-position':
+        '{ title }, række { row } af { rows }, kolonne { column } af { columns }',
+    'table.cells-selected': '{ count } celler markeret',
+    'table.copied': 'Kopieret til udklipsholderen',
     'profile-picture.remove': 'Fjern valgt billede',
     'profile-picture.unsupported-preview.title':
         'Ikke-understøttet billedformat',
@@ -13,6 +13,9 @@ export default {
     'callout.tip': 'Tipp',
     'callout.caution': 'Vorsicht',
     'callout.warning': 'Warnung',
+    'chart.quarter': 'Q{ quarter } { year }',
+    'chart.view-as-chart': 'Als Diagramm anzeigen',
+    'chart.view-as-table': 'Als Tabelle anzeigen',
     'code-editor': 'Code-Editor',
     'code-editor.copy': 'Kopieren',
     'code-editor.copied': 'Kopiert',
@@ -21,6 +24,23 @@ export default {
     'code-editor.copied-aria-label': '{ label } Inhalt kopiert',
     'code-editor.copy-failed-aria-label':
         '{ label } Inhalt konnte nicht kopiert werden',
+    'code-editor.previous-change': 'Vorherige Änderung',
+    'code-editor.next-change': 'Nächste Änderung',
+    'code-editor.accept-change': 'Übernehmen',
+    'code-editor.revert-change': 'Verwerfen',
+    'code-editor.search': 'Suchen',
+    'code-editor.replace-with': 'Ersetzen durch',
+    'code-editor.match-case': 'Groß-/Kleinschreibung beachten',
+    'code-editor.whole-word': 'Nur ganzes Wort',
+    'code-editor.regular-expression': 'Regulären Ausdruck verwenden',
+    'code-editor.previous-match': 'Zurück',
+    'code-editor.next-match': 'Weiter',
+    'code-editor.select-all-matches': 'Alle auswählen',
+    'code-editor.replace': 'Ersetzen',
+    'code-editor.replace-all': 'Alle ersetzen',
+    'code-editor.close-search': 'Suche schließen',
+    'code-editor.no-results': 'Keine Ergebnisse',
+    'code-editor.search-results': '{ current } von { total }',
     'collapsible-section.open': '{ header } Bereich öffnen',
     'collapsible-section.close': '{ header } Bereich schließen',
     'date-picker.today': 'Heute',
@@ -54,8 +74,29 @@ export default {
     'editor-menu.link': 'Link',
     'editor-link-menu.text': 'Text',
     'editor-link-menu.link': 'Link',
+    'editor-trigger-picker.no-results': 'Keine Ergebnisse',
     'editor-menu.code-block': 'Codeblock',
     'editor-menu.code': 'Code',
+    'editor-menu.table': 'Tabelle',
+    'editor-menu.horizontal-rule': 'Horizontale Linie',
+    'editor-menu.image': 'Bild',
+    'editor-table.toolbar': 'Tabelle',
+    'editor-table.add-row-before': 'Zeile oberhalb einfügen',
+    'editor-table.add-row-after': 'Zeile unterhalb einfügen',
+    'editor-table.delete-row': 'Zeile löschen',
+    'editor-table.add-column-before': 'Spalte links einfügen',
+    'editor-table.add-column-after': 'Spalte rechts einfügen',
+    'editor-table.delete-column': 'Spalte löschen',
+    'editor-table.merge-cells': 'Zellen verbinden',
+    'editor-table.split-cell': 'Zelle teilen',
+    'editor-table.toggle-header-row': 'Kopfzeile umschalten',
+    'editor-table.toggle-header-column': 'Kopfspalte umschalten',
+    'editor-table.delete-table': 'Tabelle löschen',
+    'editor-table.cell-background': 'Zellenhintergrund',
+    'editor-draft.found':
+        'Es gibt ungespeicherte Änderungen von einem früheren Besuch.',
+    'editor-draft.restore': 'Wiederherstellen',
+    'editor-draft.discard': 'Verwerfen',
     'editor-image-view.loading': 'Lade Bild: { filename }...',
     'editor-image-view.failed':
         'Beim Laden des Bildes ist etwas schief gelaufen: { filename }',
@@ -67,6 +108,20 @@ export default {
     'ai-avatar.thinking': 'denkt',
     'table.select-all': 'Alle Zeilen auswählen',
     'table.select-row': 'Diese Zeile auswählen',
+    'table.filter': 'Filtern',
+    'table.filter-from': 'Von',
+    'table.filter-to': 'Bis',
+    'table.columns': 'Spalten',
+    'table.show-column': 'Spalte anzeigen',
+    'table.pin-left': 'Links fixieren',
+    'table.pin-right': 'Rechts fixieren',
+    'table.unpin': 'Fixierung aufheben',
+    'table.expand-row': 'Zeile erweitern',
+    'table.collapse-row': 'Zeile einklappen',
+    'table.cell-position':
+        '{ title }, Zeile { row } von { rows }, Spalte { column } von { columns }',
+    'table.cells-selected': '{ count } Zellen ausgewählt',
+    'table.copied': 'In die Zwischenablage kopiert',
     'profile-picture.remove': 'Ausgewähltes Bild entfernen',
     'profile-picture.unsupported-preview.title':
         'Nicht unterstütztes Bildformat',
@@ -13,6 +13,9 @@ export default {
     'callout.tip': 'Tip',
     'callout.caution': 'Caution',
     'callout.warning': 'Warning',
+    'chart.quarter': 'Q{ quarter } { year }',
+    'chart.view-as-chart': 'View as chart',
+    'chart.view-as-table': 'View as table',
     'code-editor': 'code editor',
     'code-editor.copy': 'Copy',
     'code-editor.copied': 'Copied',
@@ -20,6 +23,23 @@ export default {
     'code-editor.copy-aria-label': 'Copy { label } content',
     'code-editor.copied-aria-label': 'Copied { label } content',
     'code-editor.copy-failed-aria-label': 'Failed to copy { label } content',
+    'code-editor.previous-change': 'Previous change',
+    'code-editor.next-change': 'Next change',
+    'code-editor.accept-change': 'Accept',
+    'code-editor.revert-change': 'Revert',
+    'code-editor.search': 'Search',
+    'code-editor.replace-with': 'Replace with',
+    'code-editor.match-case': 'Match case',
+    'code-editor.whole-word': 'Match whole word',
+    'code-editor.regular-expression': 'Use regular expression',
+    'code-editor.previous-match': 'Previous',
+    'code-editor.next-match': 'Next',
+    'code-editor.select-all-matches': 'Select all',
+    'code-editor.replace': 'Replace',
+    'code-editor.replace-all': 'Replace all',
+    'code-editor.close-search': 'Close search',
+    'code-editor.no-results': 'No results',
+    'code-editor.search-results': '{ current } of { total }',
     'collapsible-section.open': 'Open { header } section',
     'collapsible-section.close': 'Close { header } section',
     'date-picker.today': 'Today',
@@ -53,8 +73,28 @@ export default {
     'editor-menu.link': 'Link',
     'editor-link-menu.text': 'Text',
     'editor-link-menu.link': 'Link',
+    'editor-trigger-picker.no-results': 'No results',
     'editor-menu.code-block': 'Code block',
     'editor-menu.code': 'Code',
+    'editor-menu.table': 'Table',
+    'editor-menu.horizontal-rule': 'Horizontal rule',
+    'editor-menu.image': 'Image',
+    'editor-table.toolbar': 'Table',
+    'editor-table.add-row-before': 'Insert row above',
+    'editor-table.add-row-after': 'Insert row below',
+    'editor-table.delete-row': 'Delete row',
+    'editor-table.add-column-before': 'Insert column to the left',
+    'editor-table.add-column-after': 'Insert column to the right',
+    'editor-table.delete-column': 'Delete column',
+    'editor-table.merge-cells': 'Merge cells',
+    'editor-table.split-cell': 'Split cell',
+    'editor-table.toggle-header-row': 'Toggle header row',
+    'editor-table.toggle-header-column': 'Toggle header column',
+    'editor-table.delete-table': 'Delete table',
+    'editor-table.cell-background': 'Cell background',
+    'editor-draft.found': 'There are unsaved changes from an earlier visit.',
+    'editor-draft.restore': 'Restore',
+    'editor-draft.discard': 'Discard',
     'editor-image-view.loading': 'Loading image: { filename }...',
     'editor-image-view.failed': 'Something went wrong with image: { filename }',
     'editor-image-view.success': 'Image: { filename } is ready',
@@ -65,6 +105,20 @@ export default {
     'ai-avatar.thinking': 'thinking',
     'table.select-all': 'Select all rows',
     'table.select-row': 'Select this row',
+    'table.filter': 'Filter',
+    'table.filter-from': 'From',
+    'table.filter-to': 'To',
+    'table.columns': 'Columns',
+    'table.show-column': 'Show column',
+    'table.pin-left': 'Pin to the left',
+    'table.pin-right': 'Pin to the right',
+    'table.unpin': 'Unpin',
+    'table.expand-row': 'Expand row',
+    'table.collapse-row': 'Collapse row',
+    'table.cell-position':
+        '{ title }, row { row } of { rows }, column { column } of { columns }',
+    'table.cells-selected': '{ count } cells selected',
+    'table.copied': 'Copied to clipboard',
     'profile-picture.remove': 'Remove selected picture',
     'profile-picture.unsupported-preview.title': 'Unsupported image format',
     'profile-picture.unsupported-preview.description':
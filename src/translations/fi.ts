@@ -13,6 +13,9 @@ export default {
     'callout.tip': 'Vinkki',
     'callout.caution': 'Varoitus',
     'callout.warning': 'Varoitus',
+    'chart.quarter': 'Q{ quarter } { year }',
+    'chart.view-as-chart': 'Näytä kaaviona',
+    'chart.view-as-table': 'Näytä taulukkona',
     'code-editor': 'koodieditori',
     'code-editor.copy': 'Kopioi',
     'code-editor.copied': 'Kopioitu',
@@ -21,6 +24,23 @@ export default {
     'code-editor.copied-aria-label': 'Kopioitu { label } sisältö',
     'code-editor.copy-failed-aria-label':
         'Kopiointi epäonnistui { label } sisältö',
+    'code-editor.previous-change': 'Edellinen muutos',
+    'code-editor.next-change': 'Seuraava muutos',
+    'code-editor.accept-change': 'Hyväksy',
+    'code-editor.revert-change': 'Palauta',
+    'code-editor.search': 'Hae',
+    'code-editor.replace-with': 'Korvaa tekstillä',
+    'code-editor.match-case': 'Huomioi kirjainkoko',
+    'code-editor.whole-word': 'Vain kokonaiset sanat',
+    'code-editor.regular-expression': 'Käytä säännöllistä lauseketta',
+    'code-editor.previous-match': 'Edellinen',
+    'code-editor.next-match': 'Seuraava',
+    'code-editor.select-all-matches': 'Valitse kaikki',
+    'code-editor.replace': 'Korvaa',
+    'code-editor.replace-all': 'Korvaa kaikki',
+    'code-editor.close-search': 'Sulje haku',
+    'code-editor.no-results': 'Ei tuloksia',
+    'code-editor.search-results': '{ current }/{ total }',
     'collapsible-section.open': 'Avaa { header } osio',
     'collapsible-section.close': 'Sulje { header } osio',
     'date-picker.today': 'Tänään',
@@ -54,8 +74,29 @@ export default {
     'editor-menu.link': 'Lisää linkki',
     'editor-link-menu.text': 'Teksti',
     'editor-link-menu.link': 'Linkki',
+    'editor-trigger-picker.no-results': 'Ei tuloksia',
     'editor-menu.code-block': 'Koodilohko',
     'editor-menu.code': 'Koodi',
+    'editor-menu.table': 'Taulukko',
+    'editor-menu.horizontal-rule': 'Vaakaviiva',
+    'editor-menu.image': 'Kuva',
+    'editor-table.toolbar': 'Taulukko',
+    'editor-table.add-row-before': 'Lisää rivi yläpuolelle',
+    'editor-table.add-row-after': 'Lisää rivi alapuolelle',
+    'editor-table.delete-row': 'Poista rivi',
+    'editor-table.add-column-before': 'Lisää sarake vasemmalle',
+    'editor-table.add-column-after': 'Lisää sarake oikealle',
+    'editor-table.delete-column': 'Poista sarake',
+    'editor-table.merge-cells': 'Yhdistä solut',
+    'editor-table.split-cell': 'Jaa solu',
+    'editor-table.toggle-header-row': 'Vaihda otsikkorivi',
+    'editor-table.toggle-header-column': 'Vaihda otsikkosarake',
+    'editor-table.delete-table': 'Poista taulukko',
+    'editor-table.cell-background': 'Solun tausta',
+    'editor-draft.found':
+        'Aiemmalta käyntikerralta on tallentamattomia muutoksia.',
+    'editor-draft.restore': 'Palauta',
+    'editor-draft.discard': 'Hylkää',
     'editor-image-view.loading': 'Ladataan kuvaa: { filename }...',
     'editor-image-view.failed': 'Jokin meni pieleen kuvan kanssa: { filename }',
     'editor-image-view.success': 'Kuva: { filename } on valmis',
@@ -66,6 +107,20 @@ export default {
     'ai-avatar.thinking': 'ajattelee',
     'table.select-all': 'Valitse kaikki rivit',
     'table.select-row': 'Valitse tämä rivi',
+    'table.filter': 'Suodata',
+    'table.filter-from': 'Alkaen',
+    'table.filter-to': 'Asti',
+    'table.columns': 'Sarakkeet',
+    'table.show-column': 'Näytä sarake',
+    'table.pin-left': 'Kiinnitä vasemmalle',
+    'table.pin-right': 'Kiinnitä oikealle',
+    'table.unpin': 'Irrota',
+    'table.expand-row': 'Laajenna rivi',
+    'table.collapse-row': 'Supista rivi',
+    'table.cell-position':
+        '{ title }, rivi { row }/{ rows }, sarake { column }/{ columns }',
+    'table.cells-selected': '{ count } solua valittu',
+    'table.copied': 'Kopioitu leikepöydälle',
     'profile-picture.remove': 'Poista valittu kuva',
     'profile-picture.unsupported-preview.title': 'Tiedostomuoto ei ole tuettu',
     'profile-picture.unsupported-preview.description':
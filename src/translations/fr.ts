@@ -13,6 +13,9 @@ export default {
     'callout.tip': 'Conseil',
     'callout.caution': 'Prudence',
     'callout.warning': 'Avertissement',
+    'chart.quarter': 'T{ quarter } { year }',
+    'chart.view-as-chart': 'Afficher sous forme de graphique',
+    'chart.view-as-table': 'Afficher sous forme de tableau',
     'code-editor': 'éditeur de code',
     'code-editor.copy': 'Copie',
     'code-editor.copied': 'Copié ',
@@ -21,6 +24,23 @@ export default {
     'code-editor.copied-aria-label': 'Contenu { label } copié',
     'code-editor.copy-failed-aria-label':
         'Échec de la copie du contenu { label }',
+    'code-editor.previous-change': 'Modification précédente',
+    'code-editor.next-change': 'Modification suivante',
+    'code-editor.accept-change': 'Accepter',
+    'code-editor.revert-change': 'Annuler',
+    'code-editor.search': 'Rechercher',
+    'code-editor.replace-with': 'Remplacer par',
+    'code-editor.match-case': 'Respecter la casse',
+    'code-editor.whole-word': 'Mot entier uniquement',
+    'code-editor.regular-expression': 'Utiliser une expression régulière',
+    'code-editor.previous-match': 'Précédent',
+    'code-editor.next-match': 'Suivant',
+    'code-editor.select-all-matches': 'Tout sélectionner',
+    'code-editor.replace': 'Remplacer',
+    'code-editor.replace-all': 'Tout remplacer',
+    'code-editor.close-search': 'Fermer la recherche',
+    'code-editor.no-results': 'Aucun résultat',
+    'code-editor.search-results': '{ current } sur { total }',
     'collapsible-section.open': 'Ouvrir la section { header }',
     'collapsible-section.close': 'Fermer la section { header }',
     'date-picker.today': "Aujourd'hui",
@@ -54,8 +74,30 @@ export default {
     'editor-menu.link': 'Lien',
     'editor-link-menu.text': 'Texte',
     'editor-link-menu.link': 'Lien',
+    'editor-trigger-picker.no-results': 'Aucun résultat',
     'editor-menu.code-block': 'Bloc de code',
     'editor-menu.code': 'Code',
+    'editor-menu.table': 'Tableau',
+    'editor-menu.horizontal-rule': 'Ligne horizontale',
+    'editor-menu.image': 'Image',
+    'editor-table.toolbar': 'Tableau',
+    'editor-table.add-row-before': 'Insérer une ligne au-dessus',
+    'editor-table.add-row-after': 'Insérer une ligne en dessous',
+    'editor-table.delete-row': 'Supprimer la ligne',
+    'editor-table.add-column-before': 'Insérer une colonne à gauche',
+    'editor-table.add-column-after': 'Insérer une colonne à droite',
+    'editor-table.delete-column': 'Supprimer la colonne',
+    'editor-table.merge-cells': 'Fusionner les cellules',
+    'editor-table.split-cell': 'Scinder la cellule',
+    'editor-table.toggle-header-row': "Activer/désactiver la ligne d'en-tête",
+    'editor-table.toggle-header-column':
+        "Activer/désactiver la colonne d'en-tête",
+    'editor-table.delete-table': 'Supprimer le tableau',
+    'editor-table.cell-background': 'Arrière-plan de la cellule',
+    'editor-draft.found':
+        "Il y a des modifications non enregistrées d'une visite précédente.",
+    'editor-draft.restore': 'Restaurer',
+    'editor-draft.discard': 'Abandonner',
     'editor-image-view.loading': "Chargement de l'image: { filename }...",
     'editor-image-view.failed':
         "Un problème est survenu avec l'image: { filename }",
@@ -67,6 +109,20 @@ export default {
     'ai-avatar.thinking': 'en réflexion',
     'table.select-all': 'Sélectionner toutes les lignes',
     'table.select-row': 'Sélectionner cette ligne',
+    'table.filter': 'Filtrer',
+    'table.filter-from': 'De',
+    'table.filter-to': 'À',
+    'table.columns': 'Colonnes',
+    'table.show-column': 'Afficher la colonne',
+    'table.pin-left': 'Épingler à gauche',
+    'table.pin-right': 'Épingler à droite',
+    'table.unpin': 'Détacher',
+    'table.expand-row': 'Développer la ligne',
+    'table.collapse-row': 'Réduire la ligne',
+    'table.cell-position':
+        '{ title }, ligne { row } sur { rows }, colonne { column } sur { columns }',
+    'table.cells-selected': '{ count } cellules sélectionnées',
+    'table.copied': 'Copié dans le presse-papiers',
     'profile-picture.remove': 'Supprimer l’image sélectionnée',
     'profile-picture.unsupported-preview.title':
         "Format d'image non pris en charge",
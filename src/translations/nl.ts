@@ -13,6 +13,9 @@ export default {
     'callout.tip': 'Tip',
     'callout.caution': 'Waarschuwing',
     'callout.warning': 'Waarschuwing',
+    'chart.quarter': 'K{ quarter } { year }',
+    'chart.view-as-chart': 'Weergeven als grafiek',
+    'chart.view-as-table': 'Weergeven als tabel',
     'code-editor': 'code-editor',
     'code-editor.copy': 'Kopiëren',
     'code-editor.copied': 'Gekopieerd',
@@ -20,6 +23,23 @@ export default {
     'code-editor.copy-aria-label': 'Kopieer { label } inhoud',
     'code-editor.copied-aria-label': 'Gekopieerd { label } inhoud',
     'code-editor.copy-failed-aria-label': 'Kopiëren { label } inhoud mislukt',
+    'code-editor.previous-change': 'Vorige wijziging',
+    'code-editor.next-change': 'Volgende wijziging',
+    'code-editor.accept-change': 'Accepteren',
+    'code-editor.revert-change': 'Terugdraaien',
+    'code-editor.search': 'Zoeken',
+    'code-editor.replace-with': 'Vervangen door',
+    'code-editor.match-case': 'Hoofdlettergevoelig',
+    'code-editor.whole-word': 'Alleen hele woorden',
+    'code-editor.regular-expression': 'Reguliere expressie gebruiken',
+    'code-editor.previous-match': 'Vorige',
+    'code-editor.next-match': 'Volgende',
+    'code-editor.select-all-matches': 'Alles selecteren',
+    'code-editor.replace': 'Vervangen',
+    'code-editor.replace-all': 'Alles vervangen',
+    'code-editor.close-search': 'Zoeken sluiten',
+    'code-editor.no-results': 'Geen resultaten',
+    'code-editor.search-results': '{ current } van { total }',
     'collapsible-section.open': 'Open { header } sectie',
     'collapsible-section.close': 'Sluit { header } sectie',
     'date-picker.today': 'Vandaag',
@@ -53,8 +73,29 @@ export default {
     'editor-menu.link': 'Link toevoegen',
     'editor-link-menu.text': 'Tekst',
     'editor-link-menu.link': 'Link',
+    'editor-trigger-picker.no-results': 'Geen resultaten',
     'editor-menu.code-block': 'Codeblok',
     'editor-menu.code': 'Code',
+    'editor-menu.table': 'Tabel',
+    'editor-menu.horizontal-rule': 'Horizontale lijn',
+    'editor-menu.image': 'Afbeelding',
+    'editor-table.toolbar': 'Tabel',
+    'editor-table.add-row-before': 'Rij boven invoegen',
+    'editor-table.add-row-after': 'Rij onder invoegen',
+    'editor-table.delete-row': 'Rij verwijderen',
+    'editor-table.add-column-before': 'Kolom links invoegen',
+    'editor-table.add-column-after': 'Kolom rechts invoegen',
+    'editor-table.delete-column': 'Kolom verwijderen',
+    'editor-table.merge-cells': 'Cellen samenvoegen',
+    'editor-table.split-cell': 'Cel splitsen',
+    'editor-table.toggle-header-row': 'Koprij aan/uit',
+    'editor-table.toggle-header-column': 'Kopkolom aan/uit',
+    'editor-table.delete-table': 'Tabel verwijderen',
+    'editor-table.cell-background': 'Celachtergrond',
+    'editor-draft.found':
+        'Er zijn niet-opgeslagen wijzigingen van een eerder bezoek.',
+    'editor-draft.restore': 'Herstellen',
+    'editor-draft.discard': 'Verwerpen',
     'editor-image-view.loading': 'Afbeelding wordt geladen: { filename }...',
     'editor-image-view.failed':
         'Er is iets misgegaan met de afbeelding: { filename }',
@@ -66,6 +107,20 @@ export default {
     'ai-avatar.thinking': 'aan het denken',
     'table.select-all': 'Alle rijen selecteren',
     'table.select-row': 'Deze rij selecteren',
+    'table.filter': 'Filteren',
+    'table.filter-from': 'Van',
+    'table.filter-to': 'Tot',
+    'table.columns': 'Kolommen',
+    'table.show-column': 'Kolom tonen',
+    'table.pin-left': 'Links vastzetten',
+    'table.pin-right': 'Rechts vastzetten',
+    'table.unpin': 'Losmaken',
+    'table.expand-row': 'Rij uitvouwen',
+    'table.collapse-row': 'Rij samenvouwen',
+    'table.cell-position':
+        '{ title }, rij { row } van { rows }, kolom { column } van { columns }',
+    'table.cells-selected': '{ count } cellen geselecteerd',
+    'table.copied': 'Gekopieerd naar het klembord',
     'profile-picture.remove': 'Geselecteerde afbeelding verwijderen',
     'profile-picture.unsupported-preview.title':
         'Niet-ondersteund afbeeldingsformaat',
@@ -13,6 +13,9 @@ export default {
     'callout.tip': 'Tip',
     'callout.caution': 'Advarsel',
     'callout.warning': 'Advarsel',
+    'chart.quarter': 'K{ quarter } { year }',
+    'chart.view-as-chart': 'Vis som diagram',
+    'chart.view-as-table': 'Vis som tabell',
     'code-editor': 'kodeeditor',
     'code-editor.copy': 'Kopier',
     'code-editor.copied': 'Kopiert',
@@ -21,6 +24,23 @@ export default {
     'code-editor.copied-aria-label': 'Kopiert { label } innhold',
     'code-editor.copy-failed-aria-label':
         'Kunne ikke kopiere { label } innhold',
+    'code-editor.previous-change': 'Forrige endring',
+    'code-editor.next-change': 'Neste endring',
+    'code-editor.accept-change': 'Godta',
+    'code-editor.revert-change': 'Tilbakestill',
+    'code-editor.search': 'Søk',
+    'code-editor.replace-with': 'Erstatt med',
+    'code-editor.match-case': 'Skill mellom store og små bokstaver',
+    'code-editor.whole-word': 'Bare hele ord',
+    'code-editor.regular-expression': 'Bruk regulært uttrykk',
+    'code-editor.previous-match': 'Forrige',
+    'code-editor.next-match': 'Neste',
+    'code-editor.select-all-matches': 'Merk alle',
+    'code-editor.replace': 'Erstatt',
+    'code-editor.replace-all': 'Erstatt alle',
+    'code-editor.close-search': 'Lukk søk',
+    'code-editor.no-results': 'Ingen treff',
+    'code-editor.search-results': '{ current } av { total }',
     'collapsible-section.open': 'Åpne { header } seksjon',
     'collapsible-section.close': 'Lukk { header } seksjon',
     'date-picker.today': 'I dag',
@@ -53,8 +73,29 @@ export default {
     'editor-menu.link': 'Legg til lenke',
     'editor-link-menu.text': 'Tekst',
     'editor-link-menu.link': 'Lenke',
+    'editor-trigger-picker.no-results': 'Ingen treff',
     'editor-menu.code-block': 'Kodeblokk',
     'editor-menu.code': 'Kode',
+    'editor-menu.table': 'Tabell',
+    'editor-menu.horizontal-rule': 'Horisontal linje',
+    'editor-menu.image': 'Bilde',
+    'editor-table.toolbar': 'Tabell',
+    'editor-table.add-row-before': 'Sett inn rad over',
+    'editor-table.add-row-after': 'Sett inn rad under',
+    'editor-table.delete-row': 'Slett rad',
+    'editor-table.add-column-before': 'Sett inn kolonne til venstre',
+    'editor-table.add-column-after': 'Sett inn kolonne til høyre',
+    'editor-table.delete-column': 'Slett kolonne',
+    'editor-table.merge-cells': 'Slå sammen celler',
+    'editor-table.split-cell': 'Del celle',
+    'editor-table.toggle-header-row': 'Slå overskriftsrad av/på',
+    'editor-table.toggle-header-column': 'Slå overskriftskolonne av/på',
+    'editor-table.delete-table': 'Slett tabell',
+    'editor-table.cell-background': 'Cellebakgrunn',
+    'editor-draft.found':
+        'Det finnes ulagrede endringer fra et tidligere besøk.',
+    'editor-draft.restore': 'Gjenopprett',
+    'editor-draft.discard': 'Forkast',
     'editor-image-view.loading': 'Laster bilde: { filename }...',
     'editor-image-view.failed': 'Noe gikk galt med bildet: { filename }',
     'editor-image-view.success': 'Bilde: { filename } er klart',
@@ -66,6 +107,20 @@ export default {
     'ai-avatar.thinking': 'tenker',
     'table.select-all': 'Velg alle rader',
     'table.select-row': 'Velg denne raden',
+    'table.filter': 'Filtrer',
+    'table.filter-from': 'Fra',
+    'table.filter-to': 'Til',
+    'table.columns': 'Kolonner',
+    'table.show-column': 'Vis kolonne',
+    'table.pin-left': 'Fest til venstre',
+    'table.pin-right': 'Fest til høyre',
+    'table.unpin': 'Løsne',
+    'table.expand-row': 'Utvid rad',
+    'table.collapse-row': 'Skjul rad',
+    'table.cell-position':
+        '{ title }, rad { row } av { rows }, kolonne { column } av { columns }',
+    'table.cells-selected': '{ count } celler merket',
+    'table.copied': 'Kopiert til utklippstavlen',
     'profile-picture.remove': 'Fjern valgt bilde',
     'profile-picture.unsupported-preview.title': 'Ustøttet bildeformat',
     'profile-picture.unsupported-preview.description':
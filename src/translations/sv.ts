@@ -13,6 +13,9 @@ export default {
     'callout.tip': 'Tips',
     'callout.caution': 'Varning',
     'callout.warning': 'Varning',
+    'chart.quarter': 'K{ quarter } { year }',
+    'chart.view-as-chart': 'Visa som diagram',
+    'chart.view-as-table': 'Visa som tabell',
     'code-editor': 'kodredigerare',
     'code-editor.copy': 'Kopiera',
     'code-editor.copied': 'Kopierat',
@@ -21,6 +24,23 @@ export default {
     'code-editor.copied-aria-label': 'Kopierat { label } innehåll',
     'code-editor.copy-failed-aria-label':
         'Kunde inte kopiera { label } innehåll',
+    'code-editor.previous-change': 'Föregående ändring',
+    'code-editor.next-change': 'Nästa ändring',
+    'code-editor.accept-change': 'Godkänn',
+    'code-editor.revert-change': 'Återställ',
+    'code-editor.search': 'Sök',
+    'code-editor.replace-with': 'Ersätt med',
+    'code-editor.match-case': 'Matcha gemener/versaler',
+    'code-editor.whole-word': 'Matcha hela ord',
+    'code-editor.regular-expression': 'Använd reguljärt uttryck',
+    'code-editor.previous-match': 'Föregående',
+    'code-editor.next-match': 'Nästa',
+    'code-editor.select-all-matches': 'Markera alla',
+    'code-editor.replace': 'Ersätt',
+    'code-editor.replace-all': 'Ersätt alla',
+    'code-editor.close-search': 'Stäng sökning',
+    'code-editor.no-results': 'Inga träffar',
+    'code-editor.search-results': '{ current } av { total }',
     'collapsible-section.open': 'Öppna { header }-sektion',
     'collapsible-section.close': 'Stäng { header }-sektion',
     'date-picker.today': 'Idag',
@@ -54,8 +74,29 @@ export default {
     'editor-menu.link': 'Lägg till länk',
     'editor-link-menu.text': 'Text',
     'editor-link-menu.link': 'Länk',
+    'editor-trigger-picker.no-results': 'Inga träffar',
     'editor-menu.code-block': 'Kodblock',
     'editor-menu.code': 'Kod',
+    'editor-menu.table': 'Tabell',
+    'editor-menu.horizontal-rule': 'Horisontell linje',
+    'editor-menu.image': 'Bild',
+    'editor-table.toolbar': 'Tabell',
+    'editor-table.add-row-before': 'Infoga rad ovanför',
+    'editor-table.add-row-after': 'Infoga rad nedanför',
+    'editor-table.delete-row': 'Ta bort rad',
+    'editor-table.add-column-before': 'Infoga kolumn till vänster',
+    'editor-table.add-column-after': 'Infoga kolumn till höger',
+    'editor-table.delete-column': 'Ta bort kolumn',
+    'editor-table.merge-cells': 'Sammanfoga celler',
+    'editor-table.split-cell': 'Dela cell',
+    'editor-table.toggle-header-row': 'Växla rubrikrad',
+    'editor-table.toggle-header-column': 'Växla rubrikkolumn',
+    'editor-table.delete-table': 'Ta bort tabell',
+    'editor-table.cell-background': 'Cellbakgrund',
+    'editor-draft.found':
+        'Det finns osparade ändringar från ett tidigare besök.',
+    'editor-draft.restore': 'Återställ',
+    'editor-draft.discard': 'Kasta',
     'editor-image-view.loading': 'Laddar bilden: { filename }...',
     'editor-image-view.failed': 'Något gick fel med bilden: { filename }',
     'editor-image-view.success': 'Bilden: { filename } är redo',
@@ -66,6 +107,20 @@ export default {
     'ai-avatar.thinking': 'tänker',
     'table.select-all': 'Markera alla rader',
     'table.select-row': 'Markera denna rad',
+    'table.filter': 'Filtrera',
+    'table.filter-from': 'Från',
+    'table.filter-to': 'Till',
+    'table.columns': 'Kolumner',
+    'table.show-column': 'Visa kolumn',
+    'table.pin-left': 'Fäst till vänster',
+    'table.pin-right': 'Fäst till höger',
+    'table.unpin': 'Lossa',
+    'table.expand-row': 'Expandera rad',
+    'table.collapse-row': 'Fäll ihop rad',
+    'table.cell-position':
+        '{ title }, rad { row } av { rows }, kolumn { column } av { columns }',
+    'table.cells-selected': '{ count } celler markerade',
+    'table.copied': 'Kopierat till urklipp',
     'profile-picture.remove': 'Ta bort vald bild',
     'profile-picture.unsupported-preview.title': 'Formatet stöds inte',
     'profile-picture.unsupported-preview.description':
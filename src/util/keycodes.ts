@@ -8,3 +8,7 @@ export const ARROW_UP = 'ArrowUp';
 export const ARROW_DOWN = 'ArrowDown';
 export const ARROW_LEFT = 'ArrowLeft';
 export const ARROW_RIGHT = 'ArrowRight';
+export const HOME = 'Home';
+export const END = 'End';
+export const PAGE_UP = 'PageUp';
+export const PAGE_DOWN = 'PageDown';
@@ -53,6 +53,12 @@ export const config: Config = {
         moduleNameMapper: {
             '^lodash-es$': 'lodash',
             '@rjsf/core/lib/(.*)': '@rjsf/core/dist/cjs/$1',
+            '^lib0/webcrypto$':
+                '<rootDir>/node_modules/lib0/dist/webcrypto.node.cjs',
+            '^lib0/(?!dist/)(?:.*/)?([^/]+)$':
+                '<rootDir>/node_modules/lib0/dist/$1.cjs',
+            '^y-protocols/(.*)$':
+                '<rootDir>/node_modules/y-protocols/dist/$1.cjs',
         },
     },
 };